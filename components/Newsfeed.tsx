@@ -2,6 +2,13 @@ import React, { useState, useEffect } from 'react';
 import { Person, TodoItem, HealthRecord, RecordType, CollaborationRequest, ProfileSnapshot } from '../types';
 import { Card, Icon, Avatar, Badge, Button, Modal, Input, EmptyState } from './Shared';
 import { generateAvatarUrl } from '../src/utils/avatars';
+import { useFamilyImmunizations } from '../src/hooks/useImmunizations';
+import { useFamilyHealthAlerts } from '../src/hooks/useHealthAlerts';
+import { useFamilyHealthOverview } from '../src/hooks/useHealthDashboard';
+import { buildVaccineSchedule, vaccineHistory } from '../src/utils/immunizations';
+import { describeVaccineDose, vaccineStatusStyles } from './health/ImmunizationsCard';
+import { alertKindLabels, alertSeverityStyles } from './health/HealthAlertsCard';
+import { FamilyHealthMatrix } from './health/FamilyHealthMatrix';
 
 interface NewsfeedProps {
   people: Person[];
@@ -314,6 +321,30 @@ export const Newsfeed: React.FC<NewsfeedProps> = ({
     return updates;
   }).sort((a, b) => b.timestamp - a.timestamp).slice(0, 4);
 
+  // Vaccines overdue or coming up, from each person's immunizations and age. People with no records yet are
+  // prompted on their own Immunizations card rather than listed here with every childhood dose
+  const immunizationsByPerson = useFamilyImmunizations(people.map(p => p.id));
+  const vaccinesDue = people
+    .flatMap(p => buildVaccineSchedule(p.dateOfBirth, vaccineHistory(immunizationsByPerson[p.id] || [], p.health))
+      .filter(item => item.status !== 'REVIEW')
+      .map(item => ({ ...item, person: p })))
+    .sort((a, b) => (a.status === 'OVERDUE' ? 0 : 1) - (b.status === 'OVERDUE' ? 0 : 1) || a.dueDate.localeCompare(b.dueDate));
+  const overdueVaccineCount = vaccinesDue.filter(item => item.status === 'OVERDUE').length;
+
+  // Open lab alerts across the family, critical ones first
+  const alertsByPerson = useFamilyHealthAlerts(people.map(p => p.id));
+  const healthAlerts = people
+    .flatMap(p => (alertsByPerson[p.id] || []).map(alert => ({ ...alert, person: p })))
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'CRITICAL' ? -1 : 1) || b.testDate.localeCompare(a.testDate));
+  const criticalAlertCount = healthAlerts.filter(alert => alert.severity === 'CRITICAL').length;
+
+  // Side-by-side lab, retest and blood pressure status for everyone, including who has nothing recorded yet
+  const { overviews: healthOverviews } = useFamilyHealthOverview(people);
+  const needsAttentionCount = people
+    .map(p => healthOverviews[p.id])
+    .filter(overview => overview && (overview.flaggedCount > 0 || overview.overdueRetests > 0 || overview.bloodPressure.status !== 'OPTIMAL'))
+    .length;
+
   // Calculate upcoming birthdays (next 30 days)
   const today = new Date();
   const upcomingBirthdays = people
@@ -614,6 +645,101 @@ export const Newsfeed: React.FC<NewsfeedProps> = ({
           </div>
         </Card>
 
+        {/* Health Alerts */}
+        {healthAlerts.length > 0 && (
+          <Card className="p-0 overflow-hidden hover:shadow-warm-lg transition-shadow duration-300">
+            <div className="p-5 border-b border-coral-100 bg-gradient-to-r from-coral-50 to-plum-50 flex justify-between items-center">
+              <h3 className="font-bold text-brown-700 flex items-center gap-2 heading-display">
+                <Icon name="notifications_active" className="text-coral-500" />
+                Health Alerts
+              </h3>
+              <Badge
+                text={criticalAlertCount > 0 ? `${criticalAlertCount} Critical` : `${healthAlerts.length}`}
+                variant={criticalAlertCount > 0 ? "coral" : "plum"}
+              />
+            </div>
+            <div className="divide-y divide-brown-100">
+              {healthAlerts.slice(0, 5).map(alert => (
+                <div
+                  key={alert.id}
+                  className="p-4 flex items-center gap-4 hover:bg-gradient-to-r hover:from-coral-50/50 hover:to-transparent transition-all duration-200 cursor-pointer group"
+                  onClick={() => onSelectPerson(alert.person.id, RecordType.HEALTH)}
+                >
+                  <Avatar src={alert.person.avatarUrl} alt={alert.person.name} size="w-10 h-10" />
+                  <div className="flex-1">
+                    <p className="text-brown-800 font-medium text-sm group-hover:text-brown-900 transition-colors">{alert.message}</p>
+                    <p className="text-xs text-brown-500">
+                      {alert.person.name} • Report from {new Date(`${alert.testDate}T00:00:00`).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <span className={`text-xs px-2.5 py-1 rounded-full border font-semibold ${alertSeverityStyles[alert.severity].pill}`}>
+                    {alertKindLabels[alert.kind]}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {/* Family Health Overview */}
+        {Object.keys(healthOverviews).length > 0 && (
+          <Card className="p-0 overflow-hidden hover:shadow-warm-lg transition-shadow duration-300">
+            <div className="p-5 border-b border-turmeric-100 bg-gradient-to-r from-turmeric-50 to-coral-50 flex justify-between items-center">
+              <h3 className="font-bold text-brown-700 flex items-center gap-2 heading-display">
+                <Icon name="monitor_heart" className="text-turmeric-500" />
+                Family Health
+              </h3>
+              <Badge
+                text={needsAttentionCount > 0 ? `${needsAttentionCount} Need Attention` : 'All Clear'}
+                variant={needsAttentionCount > 0 ? "coral" : "turmeric"}
+              />
+            </div>
+            <div className="p-3">
+              <FamilyHealthMatrix
+                people={people}
+                overviews={healthOverviews}
+                onSelectPerson={personId => onSelectPerson(personId, RecordType.HEALTH)}
+              />
+            </div>
+          </Card>
+        )}
+
+        {/* Vaccines Due */}
+        {vaccinesDue.length > 0 && (
+          <Card className="p-0 overflow-hidden hover:shadow-warm-lg transition-shadow duration-300">
+            <div className="p-5 border-b border-plum-100 bg-gradient-to-r from-plum-50 to-coral-50 flex justify-between items-center">
+              <h3 className="font-bold text-brown-700 flex items-center gap-2 heading-display">
+                <Icon name="vaccines" className="text-plum-500" />
+                Vaccines Due
+              </h3>
+              <Badge
+                text={overdueVaccineCount > 0 ? `${overdueVaccineCount} Overdue` : `${vaccinesDue.length}`}
+                variant={overdueVaccineCount > 0 ? "coral" : "plum"}
+              />
+            </div>
+            <div className="divide-y divide-brown-100">
+              {vaccinesDue.slice(0, 5).map(item => (
+                <div
+                  key={`${item.person.id}-${item.vaccine}`}
+                  className="p-4 flex items-center gap-4 hover:bg-gradient-to-r hover:from-plum-50/50 hover:to-transparent transition-all duration-200 cursor-pointer group"
+                  onClick={() => onSelectPerson(item.person.id, RecordType.PROFILE)}
+                >
+                  <Avatar src={item.person.avatarUrl} alt={item.person.name} size="w-10 h-10" />
+                  <div className="flex-1">
+                    <p className="text-brown-800 font-medium text-sm group-hover:text-brown-900 transition-colors">{item.vaccineName}</p>
+                    <p className="text-xs text-brown-500">
+                      {item.person.name} • {describeVaccineDose(item)} • {item.status === 'UPCOMING' ? 'Due' : 'Since'} {new Date(`${item.dueDate}T00:00:00`).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <span className={`text-xs px-2.5 py-1 rounded-full border font-semibold ${vaccineStatusStyles[item.status].className}`}>
+                    {vaccineStatusStyles[item.status].label}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
         {/* Upcoming Birthdays */}
         {upcomingBirthdays.length > 0 && (
           <Card className="p-0 overflow-hidden hover:shadow-warm-lg transition-shadow duration-300">
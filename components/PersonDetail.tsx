@@ -3,6 +3,8 @@ import React, { useState, useEffect } from 'react';
 import { Person, RecordType, HealthRecord, TodoItem, Note, FinancialRecord, User, SharingPreference, SharedFromInfo } from '../types';
 import { Avatar, Button, Card, Icon, Badge, Modal, Toggle, Input, TextArea } from './Shared';
 import { HealthDashboard } from './health/HealthDashboard';
+import { ImmunizationsCard } from './health/ImmunizationsCard';
+import { MedicalInfoCard } from './health/MedicalInfoCard';
 import { generateAvatarUrl } from '../src/utils/avatars';
 
 // Shared By Badge Component
@@ -1243,6 +1245,15 @@ export const PersonDetail: React.FC<PersonDetailProps> = ({
                   />
                 </div>
 
+                <MedicalInfoCard personId={person.id} personName={person.name} dateOfBirth={person.dateOfBirth} />
+
+                <ImmunizationsCard
+                  personId={person.id}
+                  personName={person.name}
+                  dateOfBirth={person.dateOfBirth}
+                  healthRecords={person.health}
+                />
+
                 {/* Activity Timeline */}
                 <Card className="p-6">
                   <div className="flex items-center justify-between mb-4">
@@ -1286,7 +1297,7 @@ export const PersonDetail: React.FC<PersonDetailProps> = ({
 
           {activeTab === RecordType.HEALTH && (
             <div className="space-y-8">
-              <HealthDashboard personId={person.id} personName={person.name} />
+              <HealthDashboard personId={person.id} personName={person.name} gender={person.gender} dateOfBirth={person.dateOfBirth} healthRecords={person.health} />
               <div className="space-y-4">
                 <div className="flex justify-between items-center">
                   <h3 className="font-bold text-stone-800">Health Records</h3>
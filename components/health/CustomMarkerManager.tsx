@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import { CustomMarkerInput, HealthMarker, HealthSystem, MarkerDirection } from '../../src/types/health';
+import { healthSystems, systemLabel } from '../../src/data/healthMarkers';
+import { Button, Icon, Input, Modal, TextArea } from '../Shared';
+
+const emptyForm = {
+  name: '',
+  unit: '',
+  system: 'OTHER' as HealthSystem,
+  optimalMin: '',
+  optimalMax: '',
+  labMin: '',
+  labMax: '',
+  goodDirection: 'IN_RANGE' as MarkerDirection,
+  aliases: '',
+  description: '',
+};
+
+type MarkerForm = typeof emptyForm;
+
+const toNumber = (value: string) => (value.trim() !== '' && Number.isFinite(Number(value)) ? Number(value) : null);
+const toText = (value?: number | null) => (value !== null && value !== undefined ? String(value) : '');
+
+const toForm = (marker: HealthMarker): MarkerForm => ({
+  name: marker.name,
+  unit: marker.unit || '',
+  system: marker.system,
+  optimalMin: toText(marker.optimalMin),
+  optimalMax: toText(marker.optimalMax),
+  labMin: toText(marker.labMin),
+  labMax: toText(marker.labMax),
+  goodDirection: marker.goodDirection || 'IN_RANGE',
+  aliases: (marker.aliases || []).join(', '),
+  description: marker.description || '',
+});
+
+export const CustomMarkerManager: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  markers: HealthMarker[];
+  initialName?: string;
+  onCreate: (input: CustomMarkerInput) => Promise<unknown>;
+  onUpdate: (markerId: string, input: CustomMarkerInput) => Promise<void>;
+  onDelete: (markerId: string) => Promise<void>;
+}> = ({ isOpen, onClose, markers, initialName, onCreate, onUpdate, onDelete }) => {
+  const [form, setForm] = useState<MarkerForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const customMarkers = markers.filter(marker => marker.ownerId);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setForm({ ...emptyForm, name: initialName || '' });
+    setEditingId(null);
+    setError(null);
+  }, [isOpen, initialName]);
+
+  const handleChange = (key: keyof MarkerForm, value: string) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await action();
+      setForm(emptyForm);
+      setEditingId(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save marker.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!form.name.trim()) {
+      setError('Give the marker a name.');
+      return;
+    }
+    const input: CustomMarkerInput = {
+      name: form.name,
+      unit: form.unit,
+      system: form.system,
+      optimalMin: toNumber(form.optimalMin),
+      optimalMax: toNumber(form.optimalMax),
+      labMin: toNumber(form.labMin),
+      labMax: toNumber(form.labMax),
+      goodDirection: form.goodDirection,
+      aliases: form.aliases.split(','),
+      description: form.description,
+    };
+    run(() => (editingId ? onUpdate(editingId, input) : onCreate(input)));
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Custom Markers">
+      <div className="space-y-5">
+        {customMarkers.length > 0 && (
+          <div className="space-y-2">
+            {customMarkers.map(marker => (
+              <div key={marker.id} className="flex items-center justify-between p-3 rounded-2xl border border-stone-100 bg-white">
+                <div>
+                  <p className="text-sm font-semibold text-stone-800">{marker.name}</p>
+                  <p className="text-xs text-stone-400">
+                    {systemLabel(marker.system)} · {marker.unit || 'no unit'}
+                    {marker.aliases?.length ? ` · aka ${marker.aliases.join(', ')}` : ''}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEditingId(marker.id);
+                      setForm(toForm(marker));
+                      setError(null);
+                    }}
+                    className="p-1 rounded-full text-stone-400 hover:text-stone-700 hover:bg-stone-100"
+                    aria-label={`Edit ${marker.name}`}
+                  >
+                    <Icon name="edit" className="text-lg" />
+                  </button>
+                  <button
+                    type="button"
+                    disabled={isSaving}
+                    onClick={() => {
+                      if (window.confirm(`Delete ${marker.name}? Existing values stay but become unmatched.`)) {
+                        run(() => onDelete(marker.id));
+                      }
+                    }}
+                    className="p-1 rounded-full text-stone-400 hover:text-rose-600 hover:bg-rose-50"
+                    aria-label={`Delete ${marker.name}`}
+                  >
+                    <Icon name="delete" className="text-lg" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-xs font-bold text-stone-500 uppercase tracking-wider">
+            {editingId ? 'Edit marker' : 'New marker'}
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            <Input label="Name" value={form.name} onChange={(e) => handleChange('name', e.target.value)} placeholder="e.g. Blood Lead" />
+            <Input label="Unit" value={form.unit} onChange={(e) => handleChange('unit', e.target.value)} placeholder="e.g. ug/dL" />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="w-full">
+              <label className="block text-xs font-bold text-stone-500 uppercase tracking-wider mb-1.5">System</label>
+              <select
+                className="w-full bg-stone-50 border border-stone-200 rounded-xl px-4 py-2.5 text-stone-800"
+                value={form.system}
+                onChange={(e) => handleChange('system', e.target.value)}
+              >
+                {healthSystems.map(system => (
+                  <option key={system} value={system}>{systemLabel(system)}</option>
+                ))}
+              </select>
+            </div>
+            <div className="w-full">
+              <label className="block text-xs font-bold text-stone-500 uppercase tracking-wider mb-1.5">Better when</label>
+              <select
+                className="w-full bg-stone-50 border border-stone-200 rounded-xl px-4 py-2.5 text-stone-800"
+                value={form.goodDirection}
+                onChange={(e) => handleChange('goodDirection', e.target.value)}
+              >
+                <option value="IN_RANGE">In range</option>
+                <option value="LOWER">Lower</option>
+                <option value="HIGHER">Higher</option>
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <Input label="Optimal min" type="number" step="any" value={form.optimalMin} onChange={(e) => handleChange('optimalMin', e.target.value)} />
+            <Input label="Optimal max" type="number" step="any" value={form.optimalMax} onChange={(e) => handleChange('optimalMax', e.target.value)} />
+            <Input label="Lab min" type="number" step="any" value={form.labMin} onChange={(e) => handleChange('labMin', e.target.value)} />
+            <Input label="Lab max" type="number" step="any" value={form.labMax} onChange={(e) => handleChange('labMax', e.target.value)} />
+          </div>
+          <Input
+            label="Aliases"
+            value={form.aliases}
+            onChange={(e) => handleChange('aliases', e.target.value)}
+            placeholder="Names labs print, comma separated"
+          />
+          <TextArea label="Description" value={form.description} onChange={(e) => handleChange('description', e.target.value)} />
+
+          {error && <p className="text-sm text-rose-600">{error}</p>}
+          <div className="flex justify-end gap-2">
+            {editingId ? (
+              <Button
+                variant="ghost"
+                type="button"
+                onClick={() => {
+                  setEditingId(null);
+                  setForm(emptyForm);
+                }}
+              >
+                Cancel edit
+              </Button>
+            ) : (
+              <Button variant="ghost" type="button" onClick={onClose}>Close</Button>
+            )}
+            <Button variant="primary" type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving…' : editingId ? 'Save marker' : 'Add marker'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MedicalInfo } from '../../src/types/health';
+import { useMedications } from '../../src/hooks/useMedications';
+import { buildEmergencyCard, emergencyCardHtml, renderEmergencyCardPng } from '../../src/utils/emergencyCard';
+import { downloadBlob, openPrintWindow, toFileSlug } from '../../src/utils/printDocument';
+import { Button, Icon, Modal, Toggle } from '../Shared';
+
+export const EmergencyCardModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  personId: string;
+  personName: string;
+  dateOfBirth?: string;
+  info: MedicalInfo;
+}> = ({ isOpen, onClose, personId, personName, dateOfBirth, info }) => {
+  const { medications, fetchMedications } = useMedications(personId);
+  const [sharedOnly, setSharedOnly] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    fetchMedications();
+  }, [fetchMedications, isOpen]);
+
+  const card = useMemo(
+    () => buildEmergencyCard({ name: personName, dateOfBirth }, info, medications, { sharedOnly }),
+    [dateOfBirth, info, medications, personName, sharedOnly],
+  );
+  const hiddenCount = useMemo(
+    () => [info.profile, ...info.allergies, ...info.conditions, ...info.doctors, ...info.insurance]
+      .filter(item => item && !item.isShared).length,
+    [info],
+  );
+
+  const handlePrint = () => {
+    setError(null);
+    try {
+      const { body, styles } = emergencyCardHtml(card);
+      openPrintWindow(`Emergency card – ${personName}`, body, styles);
+    } catch (err: any) {
+      setError(err.message || 'Failed to open the print view.');
+    }
+  };
+
+  const handleDownload = async () => {
+    setError(null);
+    try {
+      downloadBlob(await renderEmergencyCardPng(card), `emergency-card-${toFileSlug(personName)}.png`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to create the image.');
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Emergency Card">
+      <div className="space-y-4">
+        <div className="rounded-2xl border-2 border-rose-600 overflow-hidden">
+          <div className="bg-rose-600 text-white px-4 py-3">
+            <p className="text-[10px] font-bold uppercase tracking-wider opacity-90">Emergency medical information</p>
+            <p className="text-lg font-bold">{card.name}</p>
+            {(card.dateOfBirth || card.age !== null) && (
+              <p className="text-xs opacity-90">
+                {[card.dateOfBirth && `Born ${card.dateOfBirth}`, card.age !== null && card.age !== undefined && `${card.age} yrs`].filter(Boolean).join(' · ')}
+              </p>
+            )}
+          </div>
+          <div className="px-4 py-3 space-y-3">
+            {(card.bloodType || card.organDonor) && (
+              <p className="text-sm font-bold text-stone-900">
+                {[card.bloodType && `Blood type ${card.bloodType}`, card.organDonor && 'Organ donor'].filter(Boolean).join(' · ')}
+              </p>
+            )}
+            {card.sections.map(section => (
+              <div key={section.title}>
+                <p className="text-[10px] font-bold uppercase tracking-wider text-stone-500 mb-1">{section.title}</p>
+                <ul className="space-y-0.5">
+                  {section.lines.map((line, index) => (
+                    <li key={index} className={`text-sm ${line.alert ? 'text-rose-700 font-bold' : 'text-stone-800'}`}>
+                      {line.text}
+                      {line.detail && <span className="text-xs font-normal text-stone-500"> {line.detail}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+            {card.notes && <p className="text-sm bg-rose-50 rounded-lg px-3 py-2 whitespace-pre-wrap text-stone-800">{card.notes}</p>}
+            <p className="text-[10px] text-stone-400">Updated {card.generatedOn}</p>
+          </div>
+        </div>
+
+        {hiddenCount > 0 && (
+          <Toggle
+            checked={sharedOnly}
+            onChange={setSharedOnly}
+            label={`Only items shared with collaborators (hides ${hiddenCount} private)`}
+          />
+        )}
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={handleDownload}>
+            <Icon name="image" className="text-base" /> PNG
+          </Button>
+          <Button variant="primary" onClick={handlePrint}>
+            <Icon name="print" className="text-base" /> Print / PDF
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ExtractionReview, ExtractionReviewRow, HealthMarker, HealthSystem, MarkerMatchMethod } from '../../src/types/health';
+import { systemLabel } from '../../src/data/healthMarkers';
+import { Button, Icon, Input, Modal } from '../Shared';
+
+const matchLabel: Record<MarkerMatchMethod, string> = {
+  CODE: 'Code',
+  ALIAS: 'Alias',
+  NAME: 'Name',
+  FUZZY: 'Suggested',
+  NONE: 'Unmatched',
+};
+
+const matchStyle: Record<MarkerMatchMethod, string> = {
+  CODE: 'bg-emerald-100 text-emerald-700',
+  ALIAS: 'bg-emerald-100 text-emerald-700',
+  NAME: 'bg-sky-100 text-sky-700',
+  FUZZY: 'bg-amber-100 text-amber-700',
+  NONE: 'bg-rose-100 text-rose-700',
+};
+
+const formatExtractedValue = (row: ExtractionReviewRow) => {
+  const value = row.value !== null && row.value !== undefined ? String(row.value) : row.valueText || '--';
+  return row.unit ? `${value} ${row.unit}` : value;
+};
+
+export const ExtractionReviewModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  review: ExtractionReview | null;
+  markers: HealthMarker[];
+  onConfirm: (review: ExtractionReview) => Promise<void>;
+  onDiscard: (reportId: string) => Promise<void>;
+}> = ({ isOpen, onClose, review, markers, onConfirm, onDiscard }) => {
+  const [rows, setRows] = useState<ExtractionReviewRow[]>([]);
+  const [testDate, setTestDate] = useState('');
+  const [labName, setLabName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !review) return;
+    setRows(review.rows);
+    setTestDate(review.testDate);
+    setLabName(review.labName || '');
+    setError(null);
+  }, [isOpen, review]);
+
+  const markersByCode = useMemo(() => new Map(markers.map(marker => [marker.code, marker])), [markers]);
+  const markersBySystem = useMemo(() => {
+    const grouped = new Map<HealthSystem, HealthMarker[]>();
+    markers.forEach(marker => {
+      const list = grouped.get(marker.system) || [];
+      list.push(marker);
+      grouped.set(marker.system, list);
+    });
+    return Array.from(grouped.entries());
+  }, [markers]);
+
+  const acceptedCount = rows.filter(row => row.accepted).length;
+  const unmatchedCount = rows.filter(row => !row.markerCode).length;
+
+  const updateRow = (key: string, changes: Partial<ExtractionReviewRow>) => {
+    setRows(prev => prev.map(row => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await action();
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save review.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!review) return null;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Review Extracted Values">
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <Input label="Test date" type="date" value={testDate} onChange={(e) => setTestDate(e.target.value)} />
+          <Input label="Lab name" value={labName} onChange={(e) => setLabName(e.target.value)} placeholder="Lab or provider" />
+        </div>
+
+        <div className="flex items-center justify-between text-xs text-stone-500">
+          <span>{acceptedCount} of {rows.length} accepted · {unmatchedCount} unmatched</span>
+          <div className="flex gap-3">
+            <button className="font-semibold hover:text-stone-800" onClick={() => setRows(prev => prev.map(row => ({ ...row, accepted: true })))}>
+              Accept all
+            </button>
+            <button className="font-semibold hover:text-stone-800" onClick={() => setRows(prev => prev.map(row => ({ ...row, accepted: row.accepted && Boolean(row.markerCode) })))}>
+              Reject unmatched
+            </button>
+          </div>
+        </div>
+
+        {rows.length === 0 && (
+          <div className="text-sm text-stone-400">No markers were extracted from this report.</div>
+        )}
+
+        {review.dropped && review.dropped.length > 0 && (
+          <details className="p-3 rounded-2xl border border-rose-100 bg-rose-50/60 text-xs text-rose-700">
+            <summary className="font-semibold cursor-pointer">
+              {review.dropped.length} {review.dropped.length === 1 ? 'marker was' : 'markers were'} dropped as invalid
+            </summary>
+            <ul className="mt-2 space-y-1">
+              {review.dropped.map((item, index) => (
+                <li key={index}>
+                  <span className="font-semibold">{item.name || 'Unnamed'}</span>: {item.reason}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+
+        <div className="space-y-3">
+          {rows.map(row => {
+            const marker = row.markerCode ? markersByCode.get(row.markerCode) : undefined;
+            const isRemapped = Boolean(row.markerCode) && row.markerCode !== row.suggestedCode;
+            const method: MarkerMatchMethod = !row.markerCode ? 'NONE' : isRemapped ? 'CODE' : row.matchMethod;
+            return (
+              <div
+                key={row.key}
+                className={`p-3 rounded-2xl border space-y-2 ${!row.markerCode ? 'border-amber-200 bg-amber-50/60' : 'border-stone-100 bg-white'} ${row.accepted ? '' : 'opacity-50'}`}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <label className="flex items-start gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={row.accepted}
+                      onChange={(e) => updateRow(row.key, { accepted: e.target.checked })}
+                    />
+                    <div>
+                      <p className="text-sm font-semibold text-stone-800">{row.name}</p>
+                      <p className="text-xs text-stone-500">{formatExtractedValue(row)}</p>
+                      {row.referenceRange && <p className="text-[10px] text-stone-400">Ref {row.referenceRange}</p>}
+                    </div>
+                  </label>
+                  <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-full whitespace-nowrap ${matchStyle[method]}`}>
+                    {method === 'NONE' ? matchLabel.NONE : isRemapped ? 'Remapped' : `${matchLabel[method]} ${Math.round(row.confidence * 100)}%`}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Icon name="arrow_forward" className="text-stone-300 text-base" />
+                  <select
+                    className="flex-1 bg-stone-50 border border-stone-200 rounded-xl px-3 py-2 text-sm text-stone-800"
+                    value={row.markerCode || ''}
+                    onChange={(e) => updateRow(row.key, { markerCode: e.target.value || null })}
+                  >
+                    <option value="">Keep unmatched</option>
+                    {markersBySystem.map(([system, list]) => (
+                      <optgroup key={system} label={systemLabel(system)}>
+                        {list.map(item => (
+                          <option key={item.code} value={item.code}>{item.name}</option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                </div>
+                {marker && (
+                  <p className="text-[10px] text-stone-400 pl-6">
+                    {systemLabel(marker.system)} · {marker.unit || 'no unit'}
+                    {marker.optimalMin !== null && marker.optimalMin !== undefined && marker.optimalMax !== null && marker.optimalMax !== undefined
+                      ? ` · Optimal ${marker.optimalMin}-${marker.optimalMax}`
+                      : ''}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+        <div className="flex justify-between gap-2">
+          <Button variant="danger" type="button" disabled={isSaving} onClick={() => run(() => onDiscard(review.reportId))}>
+            Discard report
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="ghost" type="button" onClick={onClose}>Later</Button>
+            <Button
+              variant="primary"
+              type="button"
+              disabled={isSaving}
+              onClick={() => run(() => onConfirm({ ...review, testDate, labName, rows }))}
+            >
+              {isSaving ? 'Saving…' : `Save ${acceptedCount} values`}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
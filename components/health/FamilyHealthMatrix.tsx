@@ -0,0 +1,139 @@
+import React, { useMemo, useState } from 'react';
+import { FamilyHealthOverview, HealthSystem, SystemSummary } from '../../src/types/health';
+import { healthSystems, systemLabel } from '../../src/data/healthMarkers';
+import { Avatar, Icon } from '../Shared';
+import { bpCategoryLabels, bpCategoryStyles } from './PhysicalsCard';
+import { systemStatusStyles } from './SystemCard';
+import { SystemDetailModal } from './SystemDetailModal';
+
+const headerClass = 'px-3 py-2 text-[10px] font-bold uppercase tracking-wider text-stone-400 whitespace-nowrap';
+
+export const FamilyHealthMatrix: React.FC<{
+  people: { id: string; name: string; avatarUrl?: string }[];
+  overviews: Record<string, FamilyHealthOverview>;
+  onSelectPerson: (personId: string) => void;
+}> = ({ people, overviews, onSelectPerson }) => {
+  const [selected, setSelected] = useState<{ personId: string; summary: SystemSummary } | null>(null);
+
+  const rows = people.filter(person => overviews[person.id]);
+  // Only systems someone has results for, in the usual system order
+  const systems = useMemo(() => {
+    const present = new Set<HealthSystem>(
+      Object.keys(overviews).flatMap(personId => overviews[personId].systemSummaries.map(summary => summary.system))
+    );
+    return healthSystems.filter(system => present.has(system));
+  }, [overviews]);
+
+  if (rows.length === 0) return null;
+
+  const selectedOverview = selected ? overviews[selected.personId] : undefined;
+  const selectedName = selected ? people.find(person => person.id === selected.personId)?.name : undefined;
+  // The modal titles itself from the summary, so prefix the person to tell family members apart
+  const selectedSummary = selected && { ...selected.summary, displayName: `${selectedName} · ${selected.summary.displayName}` };
+
+  return (
+    <>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="border-b border-stone-100 text-left">
+              <th className={headerClass}>Person</th>
+              {systems.map(system => (
+                <th key={system} className={`${headerClass} text-center`}>{systemLabel(system)}</th>
+              ))}
+              <th className={`${headerClass} text-center`}>Flagged</th>
+              <th className={headerClass}>Last test</th>
+              <th className={`${headerClass} text-center`}>Retests</th>
+              <th className={headerClass}>BP</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-stone-100">
+            {rows.map(person => {
+              const overview = overviews[person.id];
+              const bp = overview.bloodPressure;
+              const nameCell = (
+                <td className="px-3 py-2">
+                  <button
+                    onClick={() => onSelectPerson(person.id)}
+                    className="flex items-center gap-2 font-medium text-stone-700 hover:text-stone-900 whitespace-nowrap"
+                  >
+                    <Avatar src={person.avatarUrl} alt={person.name} size="w-7 h-7" />
+                    {person.name}
+                  </button>
+                </td>
+              );
+              if (overview.reports.length === 0 && bp.days.length === 0) {
+                return (
+                  <tr key={person.id}>
+                    {nameCell}
+                    <td colSpan={systems.length + 4} className="px-3 py-2 text-xs text-stone-400">
+                      No lab reports or blood pressure readings yet
+                    </td>
+                  </tr>
+                );
+              }
+              return (
+                <tr key={person.id}>
+                  {nameCell}
+                  {systems.map(system => {
+                    const summary = overview.systemSummaries.find(item => item.system === system);
+                    return (
+                      <td key={system} className="px-3 py-2 text-center">
+                        {summary ? (
+                          <button
+                            onClick={() => setSelected({ personId: person.id, summary })}
+                            title={`${summary.displayName}: ${summary.flaggedCount} of ${summary.markerCount} flagged`}
+                            className={`inline-flex items-center justify-center min-w-[2rem] px-2 py-0.5 rounded-full text-xs font-bold hover:ring-2 hover:ring-stone-200 ${systemStatusStyles[summary.status]}`}
+                          >
+                            {summary.flaggedCount > 0 ? summary.flaggedCount : <Icon name="check" className="text-sm" />}
+                          </button>
+                        ) : (
+                          <span className="text-stone-300">–</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className={`px-3 py-2 text-center font-semibold ${overview.flaggedCount > 0 ? 'text-rose-600' : 'text-stone-400'}`}>
+                    {overview.flaggedCount}
+                  </td>
+                  <td className="px-3 py-2 text-stone-500 whitespace-nowrap">{overview.lastTestDate || '–'}</td>
+                  <td className="px-3 py-2 text-center">
+                    {overview.overdueRetests > 0 ? (
+                      <span className="text-xs px-2 py-0.5 rounded-full border font-semibold bg-rose-50 text-rose-700 border-rose-100">
+                        {overview.overdueRetests} overdue
+                      </span>
+                    ) : (
+                      <span className="text-stone-300">–</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {bp.average7d ? (
+                      <span className="flex items-center gap-2">
+                        <span className="text-stone-600">{bp.average7d.systolic}/{bp.average7d.diastolic}</span>
+                        {bp.category && (
+                          <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full ${bpCategoryStyles[bp.category]}`}>
+                            {bpCategoryLabels[bp.category]}
+                          </span>
+                        )}
+                      </span>
+                    ) : (
+                      <span className="text-stone-300">–</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <SystemDetailModal
+        isOpen={Boolean(selected)}
+        onClose={() => setSelected(null)}
+        summary={selectedSummary}
+        reports={selectedOverview?.reports ?? []}
+        demographics={selectedOverview?.demographics}
+      />
+    </>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Icon, Modal } from '../Shared';
+import { FhirImportPlan } from '../../src/services/fhirBundle';
+
+const PREVIEW_ROWS = 15;
+
+export const FhirTransferModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  onExport: () => Promise<void>;
+  onPreview: (file: File) => Promise<FhirImportPlan>;
+  onImport: (plan: FhirImportPlan) => Promise<number>;
+}> = ({ isOpen, onClose, onExport, onPreview, onImport }) => {
+  const [plan, setPlan] = useState<FhirImportPlan | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [imported, setImported] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setPlan(null);
+    setImported(null);
+    setError(null);
+  }, [isOpen]);
+
+  const handleExport = async () => {
+    setError(null);
+    setIsExporting(true);
+    try {
+      await onExport();
+    } catch (err: any) {
+      setError(err.message || 'Export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setError(null);
+    setPlan(null);
+    setImported(null);
+    setIsParsing(true);
+    try {
+      setPlan(await onPreview(file));
+    } catch (err: any) {
+      setError(err.message || 'Could not read this file.');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setError(null);
+    setIsImporting(true);
+    try {
+      setImported(await onImport(plan));
+      setPlan(null);
+    } catch (err: any) {
+      setError(err.message || 'Import failed.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const newReports = plan ? plan.reports.filter(report => !report.duplicate) : [];
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="FHIR Records">
+      <div className="space-y-5">
+        <div className="p-3 rounded-2xl bg-stone-50 space-y-2">
+          <p className="text-sm font-semibold text-stone-800">Export</p>
+          <p className="text-xs text-stone-500">
+            Downloads a FHIR R4 bundle with every lab report (LOINC-coded), physical measurement, medication and health record,
+            ready to hand to a new doctor or patient portal.
+          </p>
+          <Button variant="secondary" size="sm" onClick={handleExport} disabled={isExporting}>
+            <Icon name="file_download" className="text-base" /> {isExporting ? 'Preparing…' : 'Download bundle (.json)'}
+          </Button>
+        </div>
+
+        <div className="w-full">
+          <label className="block text-xs font-bold text-stone-500 uppercase tracking-wider mb-1.5">Import lab results</label>
+          <input
+            type="file"
+            accept=".json,application/json,application/fhir+json"
+            className="w-full text-sm"
+            disabled={isParsing || isImporting}
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          <p className="text-xs text-stone-400 mt-1">
+            A FHIR R4 Bundle in JSON. Lab Observations are matched to markers by LOINC code, then by name.
+          </p>
+        </div>
+
+        {isParsing && <p className="text-sm text-stone-400">Reading bundle…</p>}
+
+        {plan && (
+          <div className="space-y-3">
+            <div className="p-3 rounded-2xl bg-stone-50 text-sm text-stone-700 space-y-1">
+              {plan.patientName && <p className="font-semibold text-stone-800">Bundle for {plan.patientName}</p>}
+              <p>{newReports.length} lab reports to add</p>
+              {plan.reports.length > newReports.length && (
+                <p className="text-amber-700">Skipping {plan.reports.length - newReports.length} reports already on file</p>
+              )}
+              {plan.skipped > 0 && <p className="text-stone-400">{plan.skipped} other resources ignored</p>}
+            </div>
+            <div className="max-h-56 overflow-y-auto space-y-1 pr-1">
+              {plan.reports.slice(0, PREVIEW_ROWS).map(report => (
+                <div key={report.key} className={`flex items-center justify-between text-sm ${report.duplicate ? 'text-stone-300 line-through' : 'text-stone-700'}`}>
+                  <span className="font-semibold">{report.testDate}{report.labName ? ` · ${report.labName}` : ''}</span>
+                  <span className="text-xs">
+                    {report.values.length} values
+                    {report.matched < report.values.length && ` (${report.values.length - report.matched} by name)`}
+                  </span>
+                </div>
+              ))}
+              {plan.reports.length > PREVIEW_ROWS && (
+                <p className="text-xs text-stone-400">and {plan.reports.length - PREVIEW_ROWS} more reports</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {imported !== null && <p className="text-sm text-emerald-700">Imported {imported} lab reports.</p>}
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" type="button" onClick={onClose}>{imported !== null ? 'Done' : 'Cancel'}</Button>
+          {plan && (
+            <Button variant="primary" onClick={handleImport} disabled={isImporting || newReports.length === 0}>
+              {isImporting ? 'Importing…' : 'Import'}
+            </Button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+};
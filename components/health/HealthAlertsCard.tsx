@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { HealthAlert, HealthAlertKind } from '../../src/types/health';
+import { Card, Icon } from '../Shared';
+
+export const alertKindLabels: Record<HealthAlertKind, string> = {
+  CRITICAL: 'Critical value',
+  STATUS_CHANGE: 'Out of range',
+  WORSENING: 'Worsening trend',
+};
+
+export const alertSeverityStyles: Record<HealthAlert['severity'], { row: string; icon: string; iconName: string; pill: string }> = {
+  CRITICAL: { row: 'border-rose-200 bg-rose-50', icon: 'text-rose-600', iconName: 'error', pill: 'bg-rose-50 text-rose-700 border-rose-100' },
+  WARNING: { row: 'border-amber-200 bg-amber-50', icon: 'text-amber-600', iconName: 'warning', pill: 'bg-amber-50 text-amber-700 border-amber-100' },
+};
+
+export const HealthAlertsCard: React.FC<{
+  alerts: HealthAlert[];
+  onDismiss: (alertId: string) => Promise<void>;
+  onAddFollowUp: (alert: HealthAlert) => Promise<void>;
+}> = ({ alerts, onDismiss, onAddFollowUp }) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  if (alerts.length === 0) return null;
+
+  const run = async (alertId: string, action: () => Promise<void>) => {
+    setBusyId(alertId);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Health alert action failed', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card className="bg-white border-stone-100">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <p className="text-sm font-semibold text-stone-800">Alerts</p>
+          <p className="text-xs text-stone-400">Critical results and markers moving the wrong way</p>
+        </div>
+        <Icon name="notifications_active" className="text-rose-400" />
+      </div>
+      <div className="space-y-2">
+        {alerts.map(alert => {
+          const style = alertSeverityStyles[alert.severity];
+          return (
+            <div key={alert.id} className={`flex items-start gap-3 p-3 rounded-2xl border ${style.row}`}>
+              <Icon name={style.iconName} className={`text-lg mt-0.5 ${style.icon}`} />
+              <div className="flex-1">
+                <p className="text-sm font-semibold text-stone-800">{alert.message}</p>
+                <p className="text-xs text-stone-500">{alertKindLabels[alert.kind]} · Report from {alert.testDate}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                {alert.followUpTodoId ? (
+                  <span className="flex items-center gap-1 text-xs font-semibold text-emerald-700">
+                    <Icon name="task_alt" className="text-base" /> To-do added
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => run(alert.id, () => onAddFollowUp(alert))}
+                    disabled={busyId === alert.id}
+                    className="text-xs font-semibold text-stone-600 hover:text-stone-900 hover:underline disabled:opacity-50"
+                  >
+                    Add to-do
+                  </button>
+                )}
+                <button
+                  onClick={() => run(alert.id, () => onDismiss(alert.id))}
+                  disabled={busyId === alert.id}
+                  className="p-1 rounded-full text-stone-400 hover:text-stone-700 hover:bg-white/70"
+                  aria-label="Dismiss alert"
+                >
+                  <Icon name="close" className="text-lg" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
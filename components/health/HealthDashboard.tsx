@@ -1,14 +1,41 @@
 import React, { useEffect, useMemo, useState } from 'react';
+import { useHealthAlerts } from '../../src/hooks/useHealthAlerts';
 import { useHealthDashboard } from '../../src/hooks/useHealthDashboard';
-import { SystemSummary } from '../../src/types/health';
+import { useHealthImport } from '../../src/hooks/useHealthImport';
+import { useHealthVitals } from '../../src/hooks/useHealthVitals';
+import { useMedications } from '../../src/hooks/useMedications';
+import { useRetestIntervals } from '../../src/hooks/useRetestIntervals';
+import { ExtractionReview, HealthDemographics, HealthReport, Medication, SystemSummary, VitalKind } from '../../src/types/health';
+import { calculateAgeYears } from '../../src/utils/healthCalculations';
+import { evaluateHealthAlerts } from '../../src/utils/healthAlerts';
+import { downloadBlob, toFileSlug } from '../../src/utils/printDocument';
+import { buildRetestSchedule } from '../../src/utils/retestSchedule';
+import { buildFhirBundle } from '../../src/services/fhirBundle';
+import { HealthRecord } from '../../types';
 import { Button, Card, Icon } from '../Shared';
+import { CustomMarkerManager } from './CustomMarkerManager';
+import { ExtractionReviewModal } from './ExtractionReviewModal';
+import { HealthAlertsCard } from './HealthAlertsCard';
+import { FhirTransferModal } from './FhirTransferModal';
+import { HealthImportModal } from './HealthImportModal';
+import { HealthSummaryModal } from './HealthSummaryModal';
+import { MedicationForm } from './MedicationForm';
+import { MedicationsCard } from './MedicationsCard';
 import { PhysicalsCard } from './PhysicalsCard';
 import { PhysicalsForm } from './PhysicalsForm';
+import { ReportComparisonCard } from './ReportComparisonCard';
+import { ReportEditor } from './ReportEditor';
+import { ReportSharingModal } from './ReportSharingModal';
 import { ReportUpload } from './ReportUpload';
 import { ReportsList } from './ReportsList';
 import { RatiosCard } from './RatiosCard';
+import { RetestCard } from './RetestCard';
+import { RetestIntervalsModal } from './RetestIntervalsModal';
 import { SystemCard } from './SystemCard';
 import { SystemDetailModal } from './SystemDetailModal';
+import { UnmatchedMarkersCard } from './UnmatchedMarkersCard';
+import { VitalEntryForm } from './VitalEntryForm';
+import { VitalsCard } from './VitalsCard';
 import { MultiMarkerChart } from './charts/MultiMarkerChart';
 
 const palette = ['#0F766E', '#6366F1', '#F97316', '#16A34A', '#F43F5E', '#0EA5E9'];
@@ -16,12 +43,77 @@ const palette = ['#0F766E', '#6366F1', '#F97316', '#16A34A', '#F43F5E', '#0EA5E9
 export const HealthDashboard: React.FC<{
   personId: string;
   personName: string;
-}> = ({ personId, personName }) => {
-  const { dashboardData, loading, error, fetchDashboard, addPhysical, uploadReport } = useHealthDashboard(personId);
+  gender?: HealthDemographics['sex'];
+  dateOfBirth?: string;
+  healthRecords?: HealthRecord[];
+}> = ({ personId, personName, gender, dateOfBirth, healthRecords = [] }) => {
+  const demographics = useMemo<HealthDemographics>(() => ({ sex: gender, dateOfBirth }), [gender, dateOfBirth]);
+  // Head circumference reference data only covers the first two years
+  const isUnderTwo = useMemo(() => {
+    const age = calculateAgeYears(dateOfBirth);
+    return age !== null && age < 2;
+  }, [dateOfBirth]);
+  const {
+    dashboardData,
+    loading,
+    error,
+    markers,
+    fetchDashboard,
+    addPhysical,
+    updateSharing,
+    canManageSharing,
+    managesProfile,
+    collaborators,
+    uploadReport,
+    rerunExtraction,
+    loadExtractionReview,
+    confirmExtractionReview,
+    mapUnmatchedMarker,
+    discardReport,
+    saveReportValues,
+    importReports,
+    fetchFullHistory,
+    createCustomMarker,
+    updateCustomMarker,
+    deleteCustomMarker,
+    loadMoreReports,
+    hasMoreReports,
+    loadingMore,
+  } = useHealthDashboard(personId, demographics);
+  const { alerts, syncAlerts, dismissAlert, addFollowUp } = useHealthAlerts(personId);
+  const { vitals, stats: vitalStats, fetchVitals, addVital, deleteVital } = useHealthVitals(personId);
+  const { previewImport, applyImport, previewFhirImport } = useHealthImport(personId);
+  const {
+    medications,
+    doses,
+    fetchMedications,
+    addMedication,
+    updateMedication,
+    deleteMedication,
+    recordDose,
+    clearDose,
+    refillMedication,
+  } = useMedications(personId);
+  const { overrides: retestOverrides, fetchOverrides, saveOverride, deleteOverride, createRetestTodo } = useRetestIntervals(personId);
   const [showPhysicals, setShowPhysicals] = useState(false);
   const [showUpload, setShowUpload] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showSummary, setShowSummary] = useState(false);
+  const [showFhir, setShowFhir] = useState(false);
+  const [showReportEditor, setShowReportEditor] = useState(false);
+  const [editingReport, setEditingReport] = useState<HealthReport | null>(null);
+  const [review, setReview] = useState<ExtractionReview | null>(null);
+  const [showMarkerManager, setShowMarkerManager] = useState(false);
+  const [showRetestIntervals, setShowRetestIntervals] = useState(false);
+  const [vitalEntryKind, setVitalEntryKind] = useState<VitalKind | null>(null);
+  const [showMedicationForm, setShowMedicationForm] = useState(false);
+  const [editingMedication, setEditingMedication] = useState<Medication | null>(null);
+  // Set when a custom marker is being created for an unmatched name, so it gets mapped once saved
+  const [pendingMarkerName, setPendingMarkerName] = useState<string | null>(null);
   const [selectedSystem, setSelectedSystem] = useState<SystemSummary | null>(null);
   const [selectedMarkers, setSelectedMarkers] = useState<string[]>([]);
+  const [compareIds, setCompareIds] = useState<string[] | null>(null);
+  const [sharingReport, setSharingReport] = useState<HealthReport | null>(null);
 
   // Fetch dashboard data once on mount (stable callback via personId)
   const hasFetchedRef = React.useRef(false);
@@ -29,7 +121,34 @@ export const HealthDashboard: React.FC<{
     if (hasFetchedRef.current) return;
     hasFetchedRef.current = true;
     fetchDashboard();
-  }, [fetchDashboard]);
+    fetchVitals();
+    fetchMedications();
+    fetchOverrides();
+  }, [fetchDashboard, fetchVitals, fetchMedications, fetchOverrides]);
+
+  // Re-run the alert rules whenever the loaded reports change (uploads, edits, deletions). Alerts are shared by
+  // everyone on the person, so only the profile owner or the person themselves, who can see every report, raises
+  // and resolves them, and against the full history rather than the first page.
+  const markersByCode = useMemo(() => new Map(markers.map(marker => [marker.code, marker])), [markers]);
+  useEffect(() => {
+    if (loading || error || !managesProfile) return;
+    let cancelled = false;
+    fetchFullHistory()
+      .then(history => {
+        if (cancelled) return;
+        const { candidates, evaluatedCodes } = evaluateHealthAlerts(history.reports, markersByCode);
+        return syncAlerts(candidates, evaluatedCodes);
+      })
+      .catch(err => console.error('Health alerts evaluation failed', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [dashboardData.allReports, error, fetchFullHistory, loading, managesProfile, markersByCode, syncAlerts]);
+
+  const retestSchedule = useMemo(
+    () => buildRetestSchedule(dashboardData.allReports, markersByCode, retestOverrides),
+    [dashboardData.allReports, markersByCode, retestOverrides],
+  );
 
   // Auto-select first 3 markers only when we have a report and nothing is selected yet.
   // Uses a ref to avoid re-triggering when selectedMarkers changes.
@@ -60,6 +179,22 @@ export const HealthDashboard: React.FC<{
     });
   }, [availableCodesStr]);
 
+  // Systems and blood pressure whose status needs a look, worst first
+  const attentionItems = useMemo(() => {
+    const items: { key: string; label: string; status: SystemSummary['status']; summary?: SystemSummary }[] = dashboardData.systemSummaries
+      .filter(summary => summary.status !== 'OPTIMAL')
+      .map(summary => ({ key: summary.system, label: summary.displayName, status: summary.status, summary }));
+    if (dashboardData.bloodPressure.status !== 'OPTIMAL') {
+      items.push({ key: 'BLOOD_PRESSURE', label: 'Blood pressure', status: dashboardData.bloodPressure.status });
+    }
+    return items.sort((a, b) => (a.status === b.status ? 0 : a.status === 'CONCERN' ? -1 : 1));
+  }, [dashboardData.bloodPressure, dashboardData.systemSummaries]);
+
+  const comparedReports = useMemo(
+    () => dashboardData.allReports.filter(report => compareIds?.includes(report.id)),
+    [compareIds, dashboardData.allReports]
+  );
+
   const trendSeries = useMemo(() => {
     return dashboardData.trends
       .filter(trend => selectedMarkers.includes(trend.markerCode))
@@ -80,9 +215,24 @@ export const HealthDashboard: React.FC<{
             <p className="text-sm text-stone-500 mt-1">Track labs, ratios, and physical metrics in one place.</p>
           </div>
           <div className="flex gap-2">
+            <Button variant="ghost" onClick={() => setShowMarkerManager(true)}>
+              <Icon name="tune" /> Markers
+            </Button>
+            <Button variant="ghost" onClick={() => setShowImport(true)}>
+              <Icon name="download" /> Import
+            </Button>
+            <Button variant="ghost" onClick={() => setShowFhir(true)}>
+              <Icon name="swap_horiz" /> FHIR
+            </Button>
+            <Button variant="ghost" onClick={() => setShowSummary(true)}>
+              <Icon name="print" /> Summary
+            </Button>
             <Button variant="secondary" onClick={() => setShowPhysicals(true)}>
               <Icon name="monitor_weight" /> Log Physicals
             </Button>
+            <Button variant="secondary" onClick={() => setVitalEntryKind('GLUCOSE')}>
+              <Icon name="vital_signs" /> Log Vital
+            </Button>
             <Button variant="primary" onClick={() => setShowUpload(true)}>
               <Icon name="upload" /> Upload Report
             </Button>
@@ -95,9 +245,54 @@ export const HealthDashboard: React.FC<{
         {error && (
           <div className="mt-6 text-sm text-rose-600">{error}</div>
         )}
+        {attentionItems.length > 0 && (
+          <div className="mt-6 flex flex-wrap items-center gap-2">
+            <span className="text-xs font-semibold text-stone-500">Needs attention:</span>
+            {attentionItems.map(item => (
+              <button
+                key={item.key}
+                onClick={() => item.summary && setSelectedSystem(item.summary)}
+                className={`text-xs font-semibold px-3 py-1 rounded-full ${item.status === 'CONCERN' ? 'bg-rose-100 text-rose-700' : 'bg-amber-100 text-amber-700'}`}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
-      <PhysicalsCard latest={dashboardData.physicals[0]} onAdd={() => setShowPhysicals(true)} />
+      <HealthAlertsCard alerts={alerts} onDismiss={dismissAlert} onAddFollowUp={addFollowUp} />
+
+      <PhysicalsCard
+        latest={dashboardData.physicals[0]}
+        bloodPressure={dashboardData.bloodPressure}
+        growth={dashboardData.growth}
+        sex={gender}
+        onAdd={() => setShowPhysicals(true)}
+      />
+
+      <VitalsCard
+        vitals={vitals}
+        stats={vitalStats}
+        onLog={kind => setVitalEntryKind(kind)}
+        onDelete={deleteVital}
+      />
+
+      <MedicationsCard
+        medications={medications}
+        doses={doses}
+        onAdd={() => {
+          setEditingMedication(null);
+          setShowMedicationForm(true);
+        }}
+        onEdit={medication => {
+          setEditingMedication(medication);
+          setShowMedicationForm(true);
+        }}
+        onRecordDose={recordDose}
+        onClearDose={clearDose}
+        onRefill={refillMedication}
+      />
 
       <div>
         <div className="flex items-center justify-between mb-3">
@@ -161,25 +356,202 @@ export const HealthDashboard: React.FC<{
         <RatiosCard ratios={dashboardData.latestReport?.ratios || []} />
       </div>
 
-      <ReportsList reports={dashboardData.allReports} />
+      <UnmatchedMarkersCard
+        groups={dashboardData.unmatched}
+        markers={markers}
+        onMap={mapUnmatchedMarker}
+        onCreateMarker={name => {
+          setPendingMarkerName(name);
+          setShowMarkerManager(true);
+        }}
+      />
+
+      {comparedReports.length >= 2 && (
+        <ReportComparisonCard
+          reports={comparedReports}
+          markers={markers}
+          onClose={() => setCompareIds(null)}
+        />
+      )}
+
+      <RetestCard
+        schedule={retestSchedule}
+        onManageIntervals={() => setShowRetestIntervals(true)}
+        onCreateTodo={createRetestTodo}
+      />
+
+      <ReportsList
+        reports={dashboardData.allReports}
+        compareIds={compareIds}
+        onCompareIdsChange={setCompareIds}
+        collaborators={collaborators}
+        onShare={collaborators.length > 0 ? setSharingReport : undefined}
+        canShare={canManageSharing}
+        onEdit={report => {
+          setEditingReport(report);
+          setShowReportEditor(true);
+        }}
+        onReview={async report => {
+          try {
+            setReview(await loadExtractionReview(report));
+          } catch (err) {
+            console.error('Failed to load extraction for review', err);
+          }
+        }}
+        onRetry={async report => {
+          try {
+            setReview(await rerunExtraction(report));
+          } catch (err) {
+            console.error('Failed to re-run extraction', err);
+          }
+        }}
+        onCreate={() => {
+          setEditingReport(null);
+          setShowReportEditor(true);
+        }}
+      />
+
+      <ReportSharingModal
+        report={sharingReport}
+        collaborators={collaborators}
+        onClose={() => setSharingReport(null)}
+        onSave={(report, sharing) => updateSharing('HEALTH_REPORT', report.id, sharing)}
+      />
 
       <SystemDetailModal
         isOpen={Boolean(selectedSystem)}
         onClose={() => setSelectedSystem(null)}
         summary={selectedSystem}
         reports={dashboardData.allReports}
+        demographics={demographics}
       />
 
       <PhysicalsForm
         isOpen={showPhysicals}
         onClose={() => setShowPhysicals(false)}
         onSave={(data) => addPhysical(data)}
+        showHeadCircumference={isUnderTwo}
+        collaborators={collaborators}
+      />
+
+      <HealthImportModal
+        isOpen={showImport}
+        onClose={() => setShowImport(false)}
+        onPreview={previewImport}
+        onImport={async (plan) => {
+          const imported = await applyImport(plan);
+          await Promise.all([fetchDashboard(), fetchVitals()]);
+          return imported;
+        }}
+      />
+
+      <FhirTransferModal
+        isOpen={showFhir}
+        onClose={() => setShowFhir(false)}
+        onExport={async () => {
+          const history = await fetchFullHistory();
+          const bundle = buildFhirBundle({
+            person: { id: personId, name: personName, gender, dateOfBirth },
+            ...history,
+            medications,
+            records: healthRecords,
+            markers,
+          });
+          downloadBlob(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' }), `${toFileSlug(personName)}-fhir.json`);
+        }}
+        onPreview={previewFhirImport}
+        onImport={plan => importReports(plan.reports.filter(report => !report.duplicate))}
+      />
+
+      <HealthSummaryModal
+        isOpen={showSummary}
+        onClose={() => setShowSummary(false)}
+        personId={personId}
+        personName={personName}
+        dateOfBirth={dateOfBirth}
+        reports={dashboardData.allReports}
+        physicals={dashboardData.physicals}
+        markers={markers}
+        medications={medications}
+        hasMoreReports={hasMoreReports}
+        loadingMore={loadingMore}
+        onLoadMoreReports={loadMoreReports}
+      />
+
+      <VitalEntryForm
+        isOpen={Boolean(vitalEntryKind)}
+        onClose={() => setVitalEntryKind(null)}
+        initialKind={vitalEntryKind || undefined}
+        onSave={addVital}
+      />
+
+      <MedicationForm
+        isOpen={showMedicationForm}
+        onClose={() => {
+          setShowMedicationForm(false);
+          setEditingMedication(null);
+        }}
+        medication={editingMedication}
+        onSave={input => (editingMedication ? updateMedication(editingMedication.id, input) : addMedication(input))}
+        onDelete={deleteMedication}
       />
 
       <ReportUpload
         isOpen={showUpload}
         onClose={() => setShowUpload(false)}
-        onUpload={async payload => uploadReport(payload.file, { testDate: payload.testDate, labName: payload.labName, reportType: payload.reportType })}
+        onUpload={async payload => {
+          const extracted = await uploadReport(payload.files, { testDate: payload.testDate, labName: payload.labName, reportType: payload.reportType, parserId: payload.parserId });
+          if (extracted) setReview(extracted);
+        }}
+      />
+
+      <CustomMarkerManager
+        isOpen={showMarkerManager}
+        onClose={() => {
+          setShowMarkerManager(false);
+          setPendingMarkerName(null);
+        }}
+        markers={markers}
+        initialName={pendingMarkerName || undefined}
+        onCreate={async input => {
+          const code = await createCustomMarker(input);
+          if (pendingMarkerName) {
+            await mapUnmatchedMarker(pendingMarkerName, code);
+            setPendingMarkerName(null);
+          }
+        }}
+        onUpdate={updateCustomMarker}
+        onDelete={deleteCustomMarker}
+      />
+
+      <RetestIntervalsModal
+        isOpen={showRetestIntervals}
+        onClose={() => setShowRetestIntervals(false)}
+        markers={markers}
+        overrides={retestOverrides}
+        onSave={saveOverride}
+        onDelete={deleteOverride}
+      />
+
+      <ExtractionReviewModal
+        isOpen={Boolean(review)}
+        onClose={() => setReview(null)}
+        review={review}
+        markers={markers}
+        onConfirm={confirmExtractionReview}
+        onDiscard={discardReport}
+      />
+
+      <ReportEditor
+        isOpen={showReportEditor}
+        onClose={() => setShowReportEditor(false)}
+        report={editingReport}
+        markers={markers}
+        onSave={payload => saveReportValues(
+          editingReport?.id ?? null,
+          { testDate: payload.testDate, labName: payload.labName, reportType: payload.reportType },
+          payload.values
+        )}
       />
     </div>
   );
@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button, Modal } from '../Shared';
+import { getVitalKind } from '../../src/data/vitalKinds';
+import { HealthImportPlan, healthImportSourceLabels, PhysicalImportRow } from '../../src/services/healthImport';
+import { VitalKind } from '../../src/types/health';
+
+const PREVIEW_ROWS = 15;
+
+const formatPhysical = (row: PhysicalImportRow) => {
+  const parts: string[] = [];
+  if (row.weightKg !== undefined && row.weightKg !== null) parts.push(`${row.weightKg} kg`);
+  if (row.heightCm !== undefined && row.heightCm !== null) parts.push(`${row.heightCm} cm tall`);
+  if (row.bpSystolic && row.bpDiastolic) parts.push(`BP ${row.bpSystolic}/${row.bpDiastolic}`);
+  if (row.restingHr) parts.push(`HR ${row.restingHr}`);
+  if (row.waistCm) parts.push(`waist ${row.waistCm} cm`);
+  if (row.hipCm) parts.push(`hip ${row.hipCm} cm`);
+  return parts.join(' · ');
+};
+
+export const HealthImportModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  onPreview: (file: File) => Promise<HealthImportPlan>;
+  onImport: (plan: HealthImportPlan) => Promise<{ physicals: number; vitals: number }>;
+}> = ({ isOpen, onClose, onPreview, onImport }) => {
+  const [plan, setPlan] = useState<HealthImportPlan | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<{ physicals: number; vitals: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setPlan(null);
+    setResult(null);
+    setError(null);
+  }, [isOpen]);
+
+  const summary = useMemo(() => {
+    if (!plan) return null;
+    const vitalCounts = new Map<VitalKind, number>();
+    plan.vitals.filter(row => !row.duplicate).forEach(row => vitalCounts.set(row.kind, (vitalCounts.get(row.kind) || 0) + 1));
+    return {
+      newPhysicals: plan.physicals.filter(row => !row.duplicate).length,
+      duplicatePhysicals: plan.physicals.filter(row => row.duplicate).length,
+      duplicateVitals: plan.vitals.filter(row => row.duplicate).length,
+      vitalCounts: Array.from(vitalCounts.entries()),
+    };
+  }, [plan]);
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setError(null);
+    setPlan(null);
+    setResult(null);
+    setIsParsing(true);
+    try {
+      setPlan(await onPreview(file));
+    } catch (err: any) {
+      setError(err.message || 'Could not read this file.');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setError(null);
+    setIsImporting(true);
+    try {
+      setResult(await onImport(plan));
+      setPlan(null);
+    } catch (err: any) {
+      setError(err.message || 'Import failed.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const nothingNew = summary ? summary.newPhysicals === 0 && summary.vitalCounts.length === 0 : true;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Import Health Data">
+      <div className="space-y-4">
+        <div className="w-full">
+          <label className="block text-xs font-bold text-stone-500 uppercase tracking-wider mb-1.5">Export file</label>
+          <input
+            type="file"
+            accept=".xml,.json,.csv,.tsv,.txt"
+            className="w-full text-sm"
+            disabled={isParsing || isImporting}
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          <p className="text-xs text-stone-400 mt-1">
+            Apple Health: unzip export.zip and pick export.xml. Google Fit: a Takeout "All data" JSON file.
+            CSV: columns date, metric, value, unit (e.g. 2024-03-01, weight, 154, lb).
+          </p>
+        </div>
+
+        {isParsing && <p className="text-sm text-stone-400">Reading file…</p>}
+
+        {plan && summary && (
+          <div className="space-y-3">
+            <div className="p-3 rounded-2xl bg-stone-50 text-sm text-stone-700 space-y-1">
+              <p className="font-semibold text-stone-800">
+                {healthImportSourceLabels[plan.source]} · {plan.firstDate} to {plan.lastDate}
+              </p>
+              <p>{summary.newPhysicals} days of body measurements to add</p>
+              {summary.vitalCounts.map(([kind, count]) => (
+                <p key={kind}>{count} {getVitalKind(kind).label.toLowerCase()} readings to add</p>
+              ))}
+              {(summary.duplicatePhysicals > 0 || summary.duplicateVitals > 0) && (
+                <p className="text-amber-700">
+                  Skipping {summary.duplicatePhysicals} days and {summary.duplicateVitals} readings already logged
+                </p>
+              )}
+              {plan.skipped > 0 && <p className="text-stone-400">{plan.skipped} unsupported entries ignored</p>}
+            </div>
+
+            {plan.physicals.length > 0 && (
+              <div className="max-h-56 overflow-y-auto space-y-1 pr-1">
+                {plan.physicals.slice(0, PREVIEW_ROWS).map(row => (
+                  <div key={row.measurementDate} className={`flex items-center justify-between text-sm ${row.duplicate ? 'text-stone-300 line-through' : 'text-stone-700'}`}>
+                    <span className="font-semibold">{row.measurementDate}</span>
+                    <span className="text-xs">{formatPhysical(row)}</span>
+                  </div>
+                ))}
+                {plan.physicals.length > PREVIEW_ROWS && (
+                  <p className="text-xs text-stone-400">and {plan.physicals.length - PREVIEW_ROWS} more days</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {result && (
+          <p className="text-sm text-emerald-700">
+            Imported {result.physicals} days of measurements and {result.vitals} vitals readings.
+          </p>
+        )}
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" type="button" onClick={onClose}>{result ? 'Done' : 'Cancel'}</Button>
+          {plan && (
+            <Button variant="primary" onClick={handleImport} disabled={isImporting || nothingNew}>
+              {isImporting ? 'Importing…' : 'Import'}
+            </Button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+};
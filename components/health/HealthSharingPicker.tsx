@@ -0,0 +1,90 @@
+import React from 'react';
+import { HealthShareMode, HealthSharing } from '../../src/types/health';
+import { Collaborator } from '../../types';
+import { Icon } from '../Shared';
+
+const modeOptions: { mode: HealthShareMode; label: string; icon: string }[] = [
+  { mode: 'ALL', label: 'All collaborators', icon: 'group' },
+  { mode: 'SELECTED', label: 'Selected', icon: 'how_to_reg' },
+  { mode: 'PRIVATE', label: 'Private', icon: 'lock' },
+];
+
+export const sharingIcon = (sharing: HealthSharing) =>
+  modeOptions.find(option => option.mode === sharing.mode)?.icon || 'group';
+
+// Short "who can see this" line; the profile owner and the entry's author are always included
+export const describeSharing = (sharing: HealthSharing, collaborators: Collaborator[]) => {
+  if (sharing.mode === 'ALL') return 'All collaborators';
+  if (sharing.mode === 'PRIVATE') return 'Private';
+  const names = sharing.collaboratorIds
+    .map(id => collaborators.find(collaborator => collaborator.id === id)?.name)
+    .filter((name): name is string => Boolean(name));
+  if (names.length === 0) return 'Private';
+  if (names.length <= 2) return names.join(', ');
+  return `${names.slice(0, 2).join(', ')} +${names.length - 2}`;
+};
+
+export const HealthSharingPicker: React.FC<{
+  sharing: HealthSharing;
+  collaborators: Collaborator[];
+  onChange: (sharing: HealthSharing) => void;
+}> = ({ sharing, collaborators, onChange }) => {
+  const toggleCollaborator = (id: string) => {
+    onChange({
+      ...sharing,
+      collaboratorIds: sharing.collaboratorIds.includes(id)
+        ? sharing.collaboratorIds.filter(existing => existing !== id)
+        : [...sharing.collaboratorIds, id],
+    });
+  };
+
+  return (
+    <div className="w-full">
+      <label className="block text-xs font-bold text-stone-500 uppercase tracking-wider mb-1.5">Visible to</label>
+      <div className="flex flex-wrap gap-2">
+        {modeOptions.map(option => (
+          <button
+            key={option.mode}
+            type="button"
+            onClick={() => onChange({ ...sharing, mode: option.mode })}
+            className={`flex items-center gap-1 px-3 py-1.5 rounded-full border text-xs font-semibold transition-colors ${
+              sharing.mode === option.mode
+                ? 'bg-stone-900 text-white border-stone-900'
+                : 'border-stone-200 text-stone-500 hover:border-stone-300'
+            }`}
+          >
+            <Icon name={option.icon} className="text-sm" /> {option.label}
+          </button>
+        ))}
+      </div>
+      {sharing.mode === 'SELECTED' && (
+        collaborators.length > 0 ? (
+          <div className="mt-3 space-y-2 max-h-40 overflow-y-auto">
+            {collaborators.map(collaborator => (
+              <label
+                key={collaborator.id}
+                className={`flex items-center gap-3 p-2 rounded-xl border cursor-pointer transition-colors ${
+                  sharing.collaboratorIds.includes(collaborator.id) ? 'border-stone-800 bg-stone-50' : 'border-stone-100 hover:border-stone-200'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={sharing.collaboratorIds.includes(collaborator.id)}
+                  onChange={() => toggleCollaborator(collaborator.id)}
+                  className="h-4 w-4 accent-stone-800"
+                />
+                <div>
+                  <p className="text-sm font-medium text-stone-800">{collaborator.name}</p>
+                  {collaborator.email && <p className="text-xs text-stone-400">{collaborator.email}</p>}
+                </div>
+              </label>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-stone-400 mt-2">No accepted collaborators yet.</p>
+        )
+      )}
+      <p className="text-xs text-stone-400 mt-2">The profile owner and whoever added this entry can always see it.</p>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HealthMarker, HealthPhysical, HealthReport, Medication } from '../../src/types/health';
+import { useMedicalInfo } from '../../src/hooks/useMedicalInfo';
+import { buildHealthSummary, healthSummaryHtml } from '../../src/utils/healthSummary';
+import { toLocalDateString } from '../../src/utils/medications';
+import { openPrintWindow } from '../../src/utils/printDocument';
+import { Button, Icon, Input, Modal } from '../Shared';
+
+const presets: { label: string; months: number | null }[] = [
+  { label: '3 months', months: 3 },
+  { label: '6 months', months: 6 },
+  { label: '1 year', months: 12 },
+  { label: 'All time', months: null },
+];
+
+const monthsAgo = (months: number) => {
+  const date = new Date();
+  date.setMonth(date.getMonth() - months);
+  return toLocalDateString(date);
+};
+
+export const HealthSummaryModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  personId: string;
+  personName: string;
+  dateOfBirth?: string;
+  reports: HealthReport[];
+  physicals: HealthPhysical[];
+  markers: HealthMarker[];
+  medications: Medication[];
+  hasMoreReports: boolean;
+  loadingMore: boolean;
+  onLoadMoreReports: () => Promise<void>;
+}> = ({
+  isOpen,
+  onClose,
+  personId,
+  personName,
+  dateOfBirth,
+  reports,
+  physicals,
+  markers,
+  medications,
+  hasMoreReports,
+  loadingMore,
+  onLoadMoreReports,
+}) => {
+  const { info, fetchMedicalInfo } = useMedicalInfo(personId);
+  const [from, setFrom] = useState(() => monthsAgo(12));
+  const [to, setTo] = useState(() => toLocalDateString(new Date()));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    fetchMedicalInfo();
+  }, [fetchMedicalInfo, isOpen]);
+
+  const earliestDate = useMemo(() => {
+    const dates = [...reports.map(report => report.testDate), ...physicals.map(physical => physical.measurementDate)].filter(Boolean).sort();
+    return dates[0] || to;
+  }, [physicals, reports, to]);
+
+  const summary = useMemo(
+    () => buildHealthSummary({
+      personName,
+      dateOfBirth,
+      range: { from, to },
+      reports,
+      physicals,
+      markers,
+      medications,
+      conditions: info.conditions,
+    }),
+    [dateOfBirth, from, info.conditions, markers, medications, personName, physicals, reports, to],
+  );
+
+  // Reports are paged in newest first, so older ones inside the range may not be loaded yet
+  const mayMissReports = hasMoreReports && (reports.length === 0 || reports[reports.length - 1].testDate > from);
+
+  const counts = [
+    { label: 'Lab reports', value: summary.reportCount },
+    { label: 'Flagged markers', value: summary.flagged.length },
+    { label: 'Key trends', value: summary.trends.length },
+    { label: 'Ratios', value: summary.ratios.length },
+    { label: 'Physicals', value: summary.physicals.length },
+    { label: 'Medications', value: summary.medications.length },
+    { label: 'Conditions', value: summary.conditions.length },
+  ];
+
+  const handlePrint = () => {
+    if (from > to) {
+      setError('The start date must be before the end date.');
+      return;
+    }
+    setError(null);
+    try {
+      const { body, styles } = healthSummaryHtml(summary);
+      openPrintWindow(`Health summary – ${personName}`, body, styles);
+    } catch (err: any) {
+      setError(err.message || 'Failed to open the print view.');
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Health Summary">
+      <div className="space-y-4">
+        <p className="text-sm text-stone-500">
+          A print-ready summary of labs, trends, physicals, medications and conditions to bring to an appointment.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {presets.map(preset => {
+            const presetFrom = preset.months === null ? earliestDate : monthsAgo(preset.months);
+            const isActive = from === presetFrom && to === toLocalDateString(new Date());
+            return (
+              <button
+                key={preset.label}
+                onClick={() => {
+                  setFrom(presetFrom);
+                  setTo(toLocalDateString(new Date()));
+                }}
+                className={`text-xs px-3 py-1 rounded-full border ${isActive ? 'bg-stone-900 text-white border-stone-900' : 'border-stone-200 text-stone-500 hover:border-stone-300'}`}
+              >
+                {preset.label}
+              </button>
+            );
+          })}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <Input label="From" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          <Input label="To" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+
+        <div className="grid grid-cols-2 gap-x-6 gap-y-1 rounded-2xl bg-stone-50 px-4 py-3">
+          {counts.map(count => (
+            <div key={count.label} className="flex items-center justify-between text-sm">
+              <span className="text-stone-500">{count.label}</span>
+              <span className={`font-semibold ${count.label === 'Flagged markers' && count.value > 0 ? 'text-rose-600' : 'text-stone-800'}`}>{count.value}</span>
+            </div>
+          ))}
+        </div>
+
+        {mayMissReports && (
+          <div className="flex items-center justify-between gap-3 rounded-xl bg-amber-50 px-3 py-2 text-xs text-amber-700">
+            <span>Older reports in this range haven't been loaded yet.</span>
+            <Button variant="ghost" size="sm" onClick={() => onLoadMoreReports()} disabled={loadingMore}>
+              {loadingMore ? 'Loading…' : 'Load older'}
+            </Button>
+          </div>
+        )}
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button variant="primary" onClick={handlePrint}>
+            <Icon name="print" className="text-base" /> Print / PDF
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { Immunization, ImmunizationInput, VaccineCode } from '../../src/types/health';
+import { vaccineLabels } from '../../src/data/vaccineSchedule';
+import { toLocalDateString } from '../../src/utils/medications';
+import { Button, Input, Modal, TextArea } from '../Shared';
+
+const selectClassName = 'w-full bg-stone-50 border border-stone-200 rounded-xl px-4 py-2.5 text-stone-800';
+const labelClassName = 'block text-xs font-bold text-stone-500 uppercase tracking-wider mb-1.5';
+
+export interface ImmunizationDraft {
+  vaccine: VaccineCode;
+  doseNumber?: number | null;
+}
+
+const emptyForm = (draft?: ImmunizationDraft | null) => ({
+  vaccine: draft?.vaccine || ('FLU' as VaccineCode),
+  vaccineName: '',
+  doseNumber: draft?.doseNumber ? String(draft.doseNumber) : '',
+  administeredOn: toLocalDateString(new Date()),
+  lotNumber: '',
+  provider: '',
+  notes: '',
+});
+
+const toForm = (immunization: Immunization) => ({
+  vaccine: immunization.vaccine,
+  vaccineName: immunization.vaccineName || '',
+  doseNumber: immunization.doseNumber ? String(immunization.doseNumber) : '',
+  administeredOn: immunization.administeredOn,
+  lotNumber: immunization.lotNumber || '',
+  provider: immunization.provider || '',
+  notes: immunization.notes || '',
+});
+
+export const ImmunizationForm: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  immunization?: Immunization | null;
+  draft?: ImmunizationDraft | null;
+  onSave: (input: ImmunizationInput) => Promise<void>;
+  onDelete?: (immunizationId: string) => Promise<void>;
+}> = ({ isOpen, onClose, immunization, draft, onSave, onDelete }) => {
+  const [form, setForm] = useState(() => emptyForm());
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setForm(immunization ? toForm(immunization) : emptyForm(draft));
+    setError(null);
+  }, [isOpen, immunization, draft]);
+
+  const handleChange = (key: keyof ReturnType<typeof emptyForm>, value: string) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (form.vaccine === 'OTHER' && !form.vaccineName.trim()) {
+      setError('Enter the vaccine name.');
+      return;
+    }
+    if (!form.administeredOn) {
+      setError('Enter the date the vaccine was given.');
+      return;
+    }
+    setError(null);
+    setIsSaving(true);
+    try {
+      await onSave({
+        vaccine: form.vaccine,
+        vaccineName: form.vaccineName || null,
+        doseNumber: form.doseNumber ? Number(form.doseNumber) : null,
+        administeredOn: form.administeredOn,
+        lotNumber: form.lotNumber || null,
+        provider: form.provider || null,
+        notes: form.notes || null,
+      });
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save immunization.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!immunization || !onDelete) return;
+    if (!window.confirm('Remove this immunization?')) return;
+    setIsSaving(true);
+    try {
+      await onDelete(immunization.id);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete immunization.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={immunization ? 'Edit Immunization' : 'Record Immunization'}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="w-full">
+            <label className={labelClassName}>Vaccine</label>
+            <select
+              className={selectClassName}
+              value={form.vaccine}
+              onChange={(e) => handleChange('vaccine', e.target.value)}
+            >
+              {(Object.keys(vaccineLabels) as VaccineCode[]).map(code => (
+                <option key={code} value={code}>{vaccineLabels[code]}</option>
+              ))}
+            </select>
+          </div>
+          <Input
+            label={form.vaccine === 'OTHER' ? 'Name' : 'Product'}
+            value={form.vaccineName}
+            onChange={(e) => handleChange('vaccineName', e.target.value)}
+            placeholder={form.vaccine === 'OTHER' ? 'e.g. Typhoid' : 'Optional'}
+          />
+          <Input label="Dose #" type="number" min="1" value={form.doseNumber} onChange={(e) => handleChange('doseNumber', e.target.value)} placeholder="Optional" />
+          <Input label="Date given" type="date" value={form.administeredOn} onChange={(e) => handleChange('administeredOn', e.target.value)} />
+          <Input label="Lot number" value={form.lotNumber} onChange={(e) => handleChange('lotNumber', e.target.value)} />
+          <Input label="Provider" value={form.provider} onChange={(e) => handleChange('provider', e.target.value)} placeholder="Clinic or pharmacy" />
+        </div>
+        <TextArea label="Notes" value={form.notes} onChange={(e) => handleChange('notes', e.target.value)} />
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            {immunization && onDelete && (
+              <Button variant="danger" type="button" onClick={handleDelete} disabled={isSaving}>Delete</Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" type="button" onClick={onClose}>Cancel</Button>
+            <Button variant="primary" type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving…' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </form>
+    </Modal>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HealthRecord } from '../../types';
+import { Immunization, VaccineDue, VaccineDueStatus } from '../../src/types/health';
+import { useImmunizations } from '../../src/hooks/useImmunizations';
+import { vaccineLabels } from '../../src/data/vaccineSchedule';
+import { buildVaccineSchedule, vaccineHistory } from '../../src/utils/immunizations';
+import { Button, Card, Icon } from '../Shared';
+import { ImmunizationDraft, ImmunizationForm } from './ImmunizationForm';
+
+const HISTORY_PREVIEW = 5;
+
+export const vaccineStatusStyles: Record<VaccineDueStatus, { label: string; className: string }> = {
+  OVERDUE: { label: 'Overdue', className: 'bg-rose-50 text-rose-700 border-rose-100' },
+  DUE: { label: 'Due now', className: 'bg-amber-50 text-amber-700 border-amber-100' },
+  UPCOMING: { label: 'Upcoming', className: 'bg-stone-50 text-stone-600 border-stone-200' },
+  REVIEW: { label: 'Check records', className: 'bg-white text-stone-500 border-stone-200 border-dashed' },
+};
+
+export const describeVaccineDose = (item: VaccineDue) =>
+  item.totalDoses ? `Dose ${item.doseNumber} of ${item.totalDoses}` : item.doseNumber > 1 ? 'Booster' : 'First dose';
+
+const formatDate = (date: string) =>
+  new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+export const ImmunizationsCard: React.FC<{
+  personId: string;
+  personName: string;
+  dateOfBirth?: string;
+  healthRecords: HealthRecord[];
+}> = ({ personId, personName, dateOfBirth, healthRecords }) => {
+  const { immunizations, loading, fetchImmunizations, addImmunization, updateImmunization, deleteImmunization } = useImmunizations(personId);
+  const [showForm, setShowForm] = useState(false);
+  const [editing, setEditing] = useState<Immunization | null>(null);
+  const [draft, setDraft] = useState<ImmunizationDraft | null>(null);
+  const [showAllHistory, setShowAllHistory] = useState(false);
+
+  useEffect(() => {
+    fetchImmunizations();
+  }, [fetchImmunizations]);
+
+  const history = useMemo(() => vaccineHistory(immunizations, healthRecords), [immunizations, healthRecords]);
+  const schedule = useMemo(() => buildVaccineSchedule(dateOfBirth, history), [dateOfBirth, history]);
+  const due = schedule.filter(item => item.status !== 'REVIEW');
+  const reviewCount = schedule.length - due.length;
+  const legacyCount = history.length - immunizations.length;
+  const visibleHistory = showAllHistory ? immunizations : immunizations.slice(0, HISTORY_PREVIEW);
+
+  const openForm = (immunization: Immunization | null, nextDraft: ImmunizationDraft | null = null) => {
+    setEditing(immunization);
+    setDraft(nextDraft);
+    setShowForm(true);
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-xs font-bold text-brown-400 uppercase tracking-wider">Immunizations</h3>
+          <p className="text-xs text-stone-400 mt-1">Checked against the routine CDC schedule for {personName}'s age</p>
+        </div>
+        <Button variant="secondary" size="sm" onClick={() => openForm(null)}>
+          <Icon name="vaccines" className="text-base" /> Record
+        </Button>
+      </div>
+
+      {!loading && reviewCount > 0 && (
+        <p className="text-sm text-stone-500 mb-4">
+          No vaccinations are recorded yet, so {reviewCount} earlier {reviewCount === 1 ? 'dose is' : 'doses are'} not
+          flagged as overdue. Record past vaccinations to check {personName}'s schedule.
+        </p>
+      )}
+
+      {!dateOfBirth ? (
+        <p className="text-sm text-stone-400 mb-4">Add a date of birth to see which vaccines are due.</p>
+      ) : due.length === 0 ? (
+        !loading && reviewCount === 0 && <p className="text-sm text-emerald-700 mb-4">Up to date — nothing due in the next two months.</p>
+      ) : (
+        <div className="space-y-2 mb-5">
+          {due.map(item => (
+            <div key={item.vaccine} className="flex items-center justify-between gap-3 p-3 rounded-2xl border border-stone-100">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-stone-800">{item.vaccineName}</p>
+                <p className="text-xs text-stone-500">
+                  {describeVaccineDose(item)} · {item.status === 'UPCOMING' ? 'due' : 'since'} {formatDate(item.dueDate)}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className={`text-xs px-2.5 py-1 rounded-full border font-semibold ${vaccineStatusStyles[item.status].className}`}>
+                  {vaccineStatusStyles[item.status].label}
+                </span>
+                <button
+                  onClick={() => openForm(null, { vaccine: item.vaccine, doseNumber: item.totalDoses ? item.doseNumber : null })}
+                  className="text-xs font-semibold text-stone-500 hover:text-stone-800"
+                >
+                  Record
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {immunizations.length > 0 && (
+        <div>
+          <p className="text-xs font-bold text-stone-500 uppercase tracking-wider mb-2">History</p>
+          <div className="divide-y divide-stone-100">
+            {visibleHistory.map(item => (
+              <button
+                key={item.id}
+                onClick={() => openForm(item)}
+                className="w-full flex items-center justify-between gap-3 py-2 text-left hover:bg-stone-50 rounded-lg"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm text-stone-800 truncate">
+                    {item.vaccine === 'OTHER' ? item.vaccineName : vaccineLabels[item.vaccine]}
+                    {item.doseNumber && <span className="text-stone-400"> · dose {item.doseNumber}</span>}
+                  </p>
+                  {(item.provider || item.lotNumber) && (
+                    <p className="text-xs text-stone-400 truncate">
+                      {[item.vaccine !== 'OTHER' && item.vaccineName, item.provider, item.lotNumber && `Lot ${item.lotNumber}`].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                </div>
+                <span className="text-xs text-stone-500 whitespace-nowrap">{formatDate(item.administeredOn)}</span>
+              </button>
+            ))}
+          </div>
+          {immunizations.length > HISTORY_PREVIEW && (
+            <button
+              onClick={() => setShowAllHistory(prev => !prev)}
+              className="text-xs font-semibold text-stone-500 hover:text-stone-800 mt-2"
+            >
+              {showAllHistory ? 'Show less' : `Show all ${immunizations.length}`}
+            </button>
+          )}
+        </div>
+      )}
+      {legacyCount > 0 && (
+        <p className="text-xs text-stone-400 mt-3">
+          Also counting {legacyCount} vaccine {legacyCount === 1 ? 'entry' : 'entries'} from Health Records.
+        </p>
+      )}
+
+      <ImmunizationForm
+        isOpen={showForm}
+        onClose={() => {
+          setShowForm(false);
+          setEditing(null);
+          setDraft(null);
+        }}
+        immunization={editing}
+        draft={draft}
+        onSave={input => (editing ? updateImmunization(editing.id, input) : addImmunization(input))}
+        onDelete={deleteImmunization}
+      />
+    </Card>
+  );
+};
@@ -1,6 +1,7 @@
 import React from 'react';
-import { HealthValue } from '../../src/types/health';
+import { HealthDemographics, HealthValue } from '../../src/types/health';
 import { RangeIndicator } from './charts/RangeIndicator';
+import { derivedMarkerDefinitions } from '../../src/utils/healthCalculations';
 
 const statusLabel: Record<HealthValue['status'], string> = {
   OPTIMAL: 'Optimal',
@@ -18,10 +19,16 @@ const statusBadge: Record<HealthValue['status'], string> = {
   UNKNOWN: 'bg-stone-100 text-stone-500',
 };
 
-export const MarkerRow: React.FC<{ value: HealthValue }> = ({ value }) => {
+export const MarkerRow: React.FC<{
+  value: HealthValue;
+  demographics?: HealthDemographics;
+}> = ({ value, demographics }) => {
   const displayValue = value.value !== null && value.value !== undefined
     ? value.value
     : value.valueText || '--';
+  const derivation = value.isComputed
+    ? derivedMarkerDefinitions.find(def => def.markerCode === value.markerCode)
+    : undefined;
 
   return (
     <div className="grid grid-cols-12 gap-4 items-center py-3 border-b border-stone-100 last:border-b-0">
@@ -29,9 +36,17 @@ export const MarkerRow: React.FC<{ value: HealthValue }> = ({ value }) => {
         <p className="font-semibold text-stone-800">{value.marker?.name || value.markerName || value.markerCode}</p>
         <p className="text-xs text-stone-400">{value.marker?.unit || value.unit || ''}</p>
       </div>
-      <div className="col-span-2 text-sm font-semibold text-stone-700">{displayValue}</div>
+      <div className="col-span-2">
+        <p className="text-sm font-semibold text-stone-700">{displayValue}</p>
+        {value.originalValue !== null && value.originalValue !== undefined && (
+          <p className="text-[10px] text-stone-400">Lab: {value.originalValue} {value.originalUnit}</p>
+        )}
+        {value.isComputed && (
+          <p className="text-[10px] text-indigo-500" title={derivation?.formula}>Calculated</p>
+        )}
+      </div>
       <div className="col-span-4">
-        <RangeIndicator marker={value.marker} value={value.value} status={value.status} />
+        <RangeIndicator marker={value.marker} value={value.value} status={value.status} demographics={demographics} testDate={value.testDate} />
       </div>
       <div className="col-span-2">
         <span className={`text-xs font-semibold px-2 py-1 rounded-full ${statusBadge[value.status]}`}>
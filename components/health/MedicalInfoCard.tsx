@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import { BloodType, MedicalInfoItems, MedicalInfoKind } from '../../src/types/health';
+import { useMedicalInfo } from '../../src/hooks/useMedicalInfo';
+import { allergySeverities, bloodTypes, conditionStatuses } from '../../src/data/medicalInfo';
+import { Button, Card, Icon, Modal, TextArea, Toggle } from '../Shared';
+import { EmergencyCardModal } from './EmergencyCardModal';
+import { MedicalItemForm } from './MedicalItemForm';
+
+const selectClassName = 'w-full bg-stone-50 border border-stone-200 rounded-xl px-4 py-2.5 text-stone-800';
+const labelClassName = 'block text-xs font-bold text-stone-500 uppercase tracking-wider mb-1.5';
+
+const sections: { kind: MedicalInfoKind; title: string; empty: string }[] = [
+  { kind: 'allergies', title: 'Allergies', empty: 'No known allergies' },
+  { kind: 'conditions', title: 'Conditions', empty: 'None recorded' },
+  { kind: 'doctors', title: 'Doctors', empty: 'None recorded' },
+  { kind: 'insurance', title: 'Insurance', empty: 'None recorded' },
+];
+
+const summarize = (kind: MedicalInfoKind, item: MedicalInfoItems[MedicalInfoKind]) => {
+  switch (kind) {
+    case 'allergies': {
+      const allergy = item as MedicalInfoItems['allergies'];
+      return {
+        title: allergy.allergen,
+        detail: [allergySeverities[allergy.severity].label, allergy.reaction].filter(Boolean).join(' · '),
+        alert: allergy.severity === 'SEVERE' || allergy.severity === 'LIFE_THREATENING',
+      };
+    }
+    case 'conditions': {
+      const condition = item as MedicalInfoItems['conditions'];
+      return { title: condition.name, detail: conditionStatuses[condition.status], alert: false };
+    }
+    case 'doctors': {
+      const doctor = item as MedicalInfoItems['doctors'];
+      return { title: doctor.name, detail: [doctor.isPrimary && 'Primary', doctor.specialty, doctor.phone].filter(Boolean).join(' · '), alert: false };
+    }
+    case 'insurance': {
+      const policy = item as MedicalInfoItems['insurance'];
+      return { title: [policy.provider, policy.planName].filter(Boolean).join(' '), detail: policy.memberId ? `Member ${policy.memberId}` : '', alert: false };
+    }
+  }
+};
+
+export const MedicalInfoCard: React.FC<{
+  personId: string;
+  personName: string;
+  dateOfBirth?: string;
+}> = ({ personId, personName, dateOfBirth }) => {
+  const { info, loading, fetchMedicalInfo, saveProfile, saveItem, deleteItem } = useMedicalInfo(personId);
+  const [editing, setEditing] = useState<{ kind: MedicalInfoKind; item: MedicalInfoItems[MedicalInfoKind] | null } | null>(null);
+  const [showProfileForm, setShowProfileForm] = useState(false);
+  const [showEmergencyCard, setShowEmergencyCard] = useState(false);
+  const [profileForm, setProfileForm] = useState({ bloodType: '', organDonor: '', emergencyNotes: '', isShared: true });
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+
+  useEffect(() => {
+    fetchMedicalInfo();
+  }, [fetchMedicalInfo]);
+
+  const openProfileForm = () => {
+    setProfileForm({
+      bloodType: info.profile?.bloodType || '',
+      organDonor: info.profile?.organDonor === null || info.profile?.organDonor === undefined ? '' : String(info.profile.organDonor),
+      emergencyNotes: info.profile?.emergencyNotes || '',
+      isShared: info.profile?.isShared ?? true,
+    });
+    setProfileError(null);
+    setShowProfileForm(true);
+  };
+
+  const handleSaveProfile = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSavingProfile(true);
+    try {
+      await saveProfile({
+        bloodType: (profileForm.bloodType || null) as BloodType | null,
+        organDonor: profileForm.organDonor === '' ? null : profileForm.organDonor === 'true',
+        emergencyNotes: profileForm.emergencyNotes,
+        isShared: profileForm.isShared,
+      });
+      setShowProfileForm(false);
+    } catch (err: any) {
+      setProfileError(err.message || 'Failed to save.');
+    } finally {
+      setIsSavingProfile(false);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xs font-bold text-brown-400 uppercase tracking-wider">Medical Info</h3>
+        <Button variant="secondary" size="sm" onClick={() => setShowEmergencyCard(true)}>
+          <Icon name="emergency" className="text-base" /> Emergency card
+        </Button>
+      </div>
+
+      <button
+        onClick={openProfileForm}
+        className="w-full flex items-center justify-between gap-3 p-3 mb-4 rounded-2xl bg-rose-50/60 hover:bg-rose-50 text-left"
+      >
+        <div>
+          <p className="text-xs font-bold text-stone-500 uppercase tracking-wider">Blood type</p>
+          <p className="text-lg font-bold text-stone-800">{info.profile?.bloodType || '—'}</p>
+        </div>
+        <div className="text-right text-xs text-stone-500">
+          {info.profile?.organDonor && <p className="font-semibold text-rose-700">Organ donor</p>}
+          {info.profile?.emergencyNotes ? <p className="truncate max-w-[12rem]">{info.profile.emergencyNotes}</p> : <p>Add emergency notes</p>}
+          {info.profile && !info.profile.isShared && <Icon name="lock" className="text-sm text-stone-400" />}
+        </div>
+      </button>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+        {sections.map(section => {
+          const items = info[section.kind] as MedicalInfoItems[MedicalInfoKind][];
+          return (
+            <div key={section.kind}>
+              <div className="flex items-center justify-between mb-1.5">
+                <p className="text-xs font-bold text-stone-500 uppercase tracking-wider">{section.title}</p>
+                <button
+                  onClick={() => setEditing({ kind: section.kind, item: null })}
+                  className="text-stone-400 hover:text-stone-700"
+                  aria-label={`Add ${section.title.toLowerCase()}`}
+                >
+                  <Icon name="add" className="text-lg" />
+                </button>
+              </div>
+              {items.length === 0 ? (
+                !loading && <p className="text-sm text-stone-400">{section.empty}</p>
+              ) : (
+                <div className="space-y-1">
+                  {items.map(item => {
+                    const summary = summarize(section.kind, item);
+                    return (
+                      <button
+                        key={item.id}
+                        onClick={() => setEditing({ kind: section.kind, item })}
+                        className="w-full flex items-start justify-between gap-2 text-left rounded-lg px-2 py-1 -mx-2 hover:bg-stone-50"
+                      >
+                        <div className="min-w-0">
+                          <p className={`text-sm truncate ${summary.alert ? 'font-bold text-rose-700' : 'text-stone-800'}`}>{summary.title}</p>
+                          {summary.detail && <p className="text-xs text-stone-500 truncate">{summary.detail}</p>}
+                        </div>
+                        {!item.isShared && <Icon name="lock" className="text-sm text-stone-400 mt-0.5" />}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {editing && (
+        <MedicalItemForm
+          isOpen
+          onClose={() => setEditing(null)}
+          kind={editing.kind}
+          item={editing.item}
+          onSave={input => saveItem(editing.kind, input, editing.item?.id)}
+          onDelete={itemId => deleteItem(editing.kind, itemId)}
+        />
+      )}
+
+      <Modal isOpen={showProfileForm} onClose={() => setShowProfileForm(false)} title="Medical Profile">
+        <form onSubmit={handleSaveProfile} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="w-full">
+              <label className={labelClassName}>Blood type</label>
+              <select
+                className={selectClassName}
+                value={profileForm.bloodType}
+                onChange={(e) => setProfileForm(prev => ({ ...prev, bloodType: e.target.value }))}
+              >
+                <option value="">Unknown</option>
+                {bloodTypes.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            </div>
+            <div className="w-full">
+              <label className={labelClassName}>Organ donor</label>
+              <select
+                className={selectClassName}
+                value={profileForm.organDonor}
+                onChange={(e) => setProfileForm(prev => ({ ...prev, organDonor: e.target.value }))}
+              >
+                <option value="">Not specified</option>
+                <option value="true">Yes</option>
+                <option value="false">No</option>
+              </select>
+            </div>
+          </div>
+          <TextArea
+            label="Emergency notes"
+            value={profileForm.emergencyNotes}
+            onChange={(e) => setProfileForm(prev => ({ ...prev, emergencyNotes: e.target.value }))}
+            placeholder="e.g. Carries an EpiPen in the left pocket. Emergency contact: ..."
+          />
+          <Toggle
+            checked={profileForm.isShared}
+            onChange={(checked) => setProfileForm(prev => ({ ...prev, isShared: checked }))}
+            label="Share with collaborators"
+          />
+          {profileError && <p className="text-sm text-rose-600">{profileError}</p>}
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" type="button" onClick={() => setShowProfileForm(false)}>Cancel</Button>
+            <Button variant="primary" type="submit" disabled={isSavingProfile}>
+              {isSavingProfile ? 'Saving…' : 'Save'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <EmergencyCardModal
+        isOpen={showEmergencyCard}
+        onClose={() => setShowEmergencyCard(false)}
+        personId={personId}
+        personName={personName}
+        dateOfBirth={dateOfBirth}
+        info={info}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import { MedicalInfoInput, MedicalInfoItems, MedicalInfoKind } from '../../src/types/health';
+import { allergySeverities, conditionStatuses } from '../../src/data/medicalInfo';
+import { Button, Input, Modal, TextArea, Toggle } from '../Shared';
+
+const selectClassName = 'w-full bg-stone-50 border border-stone-200 rounded-xl px-4 py-2.5 text-stone-800';
+const labelClassName = 'block text-xs font-bold text-stone-500 uppercase tracking-wider mb-1.5';
+
+interface FieldConfig {
+  key: string;
+  label: string;
+  type?: 'text' | 'date' | 'tel' | 'email' | 'select' | 'textarea' | 'toggle';
+  options?: { value: string; label: string }[];
+  placeholder?: string;
+  wide?: boolean;
+}
+
+export const medicalItemConfigs: Record<MedicalInfoKind, {
+  title: string;
+  required: string;
+  fields: FieldConfig[];
+  defaults: Record<string, unknown>;
+}> = {
+  allergies: {
+    title: 'Allergy',
+    required: 'allergen',
+    fields: [
+      { key: 'allergen', label: 'Allergen', placeholder: 'e.g. Penicillin' },
+      {
+        key: 'severity',
+        label: 'Severity',
+        type: 'select',
+        options: Object.entries(allergySeverities).map(([value, { label }]) => ({ value, label })),
+      },
+      { key: 'reaction', label: 'Reaction', placeholder: 'e.g. Hives, anaphylaxis', wide: true },
+      { key: 'notes', label: 'Notes', type: 'textarea', wide: true },
+    ],
+    defaults: { allergen: '', severity: 'MODERATE', reaction: '', notes: '' },
+  },
+  conditions: {
+    title: 'Condition',
+    required: 'name',
+    fields: [
+      { key: 'name', label: 'Condition', placeholder: 'e.g. Type 2 diabetes', wide: true },
+      {
+        key: 'status',
+        label: 'Status',
+        type: 'select',
+        options: Object.entries(conditionStatuses).map(([value, label]) => ({ value, label })),
+      },
+      { key: 'diagnosedOn', label: 'Diagnosed', type: 'date' },
+      { key: 'notes', label: 'Notes', type: 'textarea', wide: true },
+    ],
+    defaults: { name: '', status: 'ACTIVE', diagnosedOn: '', notes: '' },
+  },
+  insurance: {
+    title: 'Insurance',
+    required: 'provider',
+    fields: [
+      { key: 'provider', label: 'Insurer', placeholder: 'e.g. Blue Cross' },
+      { key: 'planName', label: 'Plan' },
+      { key: 'memberId', label: 'Member ID' },
+      { key: 'groupNumber', label: 'Group #' },
+      { key: 'phone', label: 'Phone', type: 'tel' },
+      { key: 'isPrimary', label: 'Primary policy', type: 'toggle' },
+    ],
+    defaults: { provider: '', planName: '', memberId: '', groupNumber: '', phone: '', isPrimary: false },
+  },
+  doctors: {
+    title: 'Doctor',
+    required: 'name',
+    fields: [
+      { key: 'name', label: 'Name', placeholder: 'e.g. Dr. Rao' },
+      { key: 'specialty', label: 'Specialty', placeholder: 'e.g. Cardiology' },
+      { key: 'practice', label: 'Practice' },
+      { key: 'phone', label: 'Phone', type: 'tel' },
+      { key: 'email', label: 'Email', type: 'email' },
+      { key: 'address', label: 'Address', wide: true },
+      { key: 'isPrimary', label: 'Primary doctor', type: 'toggle' },
+    ],
+    defaults: { name: '', specialty: '', practice: '', phone: '', email: '', address: '', isPrimary: false },
+  },
+};
+
+export const MedicalItemForm = <K extends MedicalInfoKind>({
+  isOpen,
+  onClose,
+  kind,
+  item,
+  onSave,
+  onDelete,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  kind: K;
+  item?: MedicalInfoItems[K] | null;
+  onSave: (input: MedicalInfoInput<K>) => Promise<void>;
+  onDelete?: (itemId: string) => Promise<void>;
+}) => {
+  const config = medicalItemConfigs[kind];
+  const [values, setValues] = useState<Record<string, unknown>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const source = (item || {}) as Record<string, unknown>;
+    const next: Record<string, unknown> = { isShared: item ? item.isShared : true };
+    Object.entries(config.defaults).forEach(([key, fallback]) => {
+      next[key] = source[key] ?? fallback;
+    });
+    setValues(next);
+    setError(null);
+  }, [config, isOpen, item]);
+
+  const setValue = (key: string, value: unknown) => setValues(prev => ({ ...prev, [key]: value }));
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!String(values[config.required] || '').trim()) {
+      setError(`Enter the ${config.fields.find(field => field.key === config.required)?.label.toLowerCase()}.`);
+      return;
+    }
+    setError(null);
+    setIsSaving(true);
+    try {
+      await onSave(values as MedicalInfoInput<K>);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!item || !onDelete) return;
+    if (!window.confirm(`Remove this ${config.title.toLowerCase()}?`)) return;
+    setIsSaving(true);
+    try {
+      await onDelete(item.id);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderField = (field: FieldConfig) => {
+    const value = values[field.key];
+    if (field.type === 'select') {
+      return (
+        <div className="w-full">
+          <label className={labelClassName}>{field.label}</label>
+          <select className={selectClassName} value={String(value ?? '')} onChange={(e) => setValue(field.key, e.target.value)}>
+            {field.options?.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      );
+    }
+    if (field.type === 'textarea') {
+      return <TextArea label={field.label} value={String(value ?? '')} onChange={(e) => setValue(field.key, e.target.value)} />;
+    }
+    if (field.type === 'toggle') {
+      return <Toggle checked={Boolean(value)} onChange={(checked) => setValue(field.key, checked)} label={field.label} />;
+    }
+    return (
+      <Input
+        label={field.label}
+        type={field.type || 'text'}
+        value={String(value ?? '')}
+        placeholder={field.placeholder}
+        onChange={(e) => setValue(field.key, e.target.value)}
+      />
+    );
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`${item ? 'Edit' : 'Add'} ${config.title}`}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-2 gap-3 items-end">
+          {config.fields.map(field => (
+            <div key={field.key} className={field.wide ? 'col-span-2' : ''}>
+              {renderField(field)}
+            </div>
+          ))}
+        </div>
+        <Toggle
+          checked={Boolean(values.isShared)}
+          onChange={(checked) => setValue('isShared', checked)}
+          label="Share with collaborators"
+        />
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            {item && onDelete && (
+              <Button variant="danger" type="button" onClick={handleDelete} disabled={isSaving}>Delete</Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" type="button" onClick={onClose}>Cancel</Button>
+            <Button variant="primary" type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving…' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </form>
+    </Modal>
+  );
+};
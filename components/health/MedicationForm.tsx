@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { Medication, MedicationFrequency, MedicationInput } from '../../src/types/health';
+import { medicationDoseUnits, medicationFrequencies } from '../../src/data/medicationSchedules';
+import { toLocalDateString } from '../../src/utils/medications';
+import { Button, Input, Modal, TextArea } from '../Shared';
+
+const selectClassName = 'w-full bg-stone-50 border border-stone-200 rounded-xl px-4 py-2.5 text-stone-800';
+const labelClassName = 'block text-xs font-bold text-stone-500 uppercase tracking-wider mb-1.5';
+
+const emptyForm = () => ({
+  name: '',
+  strength: '',
+  doseAmount: '1',
+  doseUnit: 'tablet',
+  frequency: 'ONCE_DAILY' as MedicationFrequency,
+  scheduleTimes: [...medicationFrequencies.ONCE_DAILY.defaultTimes],
+  startDate: toLocalDateString(new Date()),
+  endDate: '',
+  prescriber: '',
+  pharmacy: '',
+  supplyRemaining: '',
+  refillThresholdDays: '7',
+  notes: '',
+});
+
+const toForm = (medication: Medication) => ({
+  name: medication.name,
+  strength: medication.strength || '',
+  doseAmount: String(medication.doseAmount),
+  doseUnit: medication.doseUnit || 'tablet',
+  frequency: medication.frequency,
+  scheduleTimes: [...medication.scheduleTimes],
+  startDate: medication.startDate || '',
+  endDate: medication.endDate || '',
+  prescriber: medication.prescriber || '',
+  pharmacy: medication.pharmacy || '',
+  supplyRemaining: medication.supplyRemaining === null || medication.supplyRemaining === undefined ? '' : String(medication.supplyRemaining),
+  refillThresholdDays: String(medication.refillThresholdDays),
+  notes: medication.notes || '',
+});
+
+export const MedicationForm: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  medication?: Medication | null;
+  onSave: (input: MedicationInput) => Promise<void>;
+  onDelete?: (medicationId: string) => Promise<void>;
+}> = ({ isOpen, onClose, medication, onSave, onDelete }) => {
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setForm(medication ? toForm(medication) : emptyForm());
+    setError(null);
+  }, [isOpen, medication]);
+
+  const handleChange = (key: keyof ReturnType<typeof emptyForm>, value: string) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleFrequencyChange = (frequency: MedicationFrequency) => {
+    const defaults = medicationFrequencies[frequency].defaultTimes;
+    // Keep any times already entered, padded or trimmed to the new number of doses
+    setForm(prev => ({
+      ...prev,
+      frequency,
+      scheduleTimes: defaults.map((time, index) => prev.scheduleTimes[index] || time),
+    }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const doseAmount = Number(form.doseAmount);
+    if (!form.name.trim()) {
+      setError('Enter the medication name.');
+      return;
+    }
+    if (!Number.isFinite(doseAmount) || doseAmount <= 0) {
+      setError('Dose must be a positive number.');
+      return;
+    }
+    setError(null);
+    setIsSaving(true);
+    try {
+      await onSave({
+        name: form.name,
+        strength: form.strength || null,
+        doseAmount,
+        doseUnit: form.doseUnit,
+        frequency: form.frequency,
+        scheduleTimes: form.scheduleTimes.filter(Boolean),
+        startDate: form.startDate || null,
+        endDate: form.endDate || null,
+        prescriber: form.prescriber || null,
+        pharmacy: form.pharmacy || null,
+        supplyRemaining: form.supplyRemaining === '' ? null : Number(form.supplyRemaining),
+        refillThresholdDays: Number(form.refillThresholdDays) || 7,
+        notes: form.notes || null,
+      });
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save medication.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!medication || !onDelete) return;
+    if (!window.confirm(`Remove ${medication.name} and its dose history?`)) return;
+    setIsSaving(true);
+    try {
+      await onDelete(medication.id);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete medication.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={medication ? 'Edit Medication' : 'Add Medication'}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <Input label="Medication" value={form.name} onChange={(e) => handleChange('name', e.target.value)} placeholder="e.g. Metformin" />
+          <Input label="Strength" value={form.strength} onChange={(e) => handleChange('strength', e.target.value)} placeholder="e.g. 500 mg" />
+          <Input label="Dose" type="number" step="any" value={form.doseAmount} onChange={(e) => handleChange('doseAmount', e.target.value)} />
+          <div className="w-full">
+            <label className={labelClassName}>Unit</label>
+            <select className={selectClassName} value={form.doseUnit} onChange={(e) => handleChange('doseUnit', e.target.value)}>
+              {medicationDoseUnits.map(unit => (
+                <option key={unit} value={unit}>{unit}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="w-full">
+          <label className={labelClassName}>Frequency</label>
+          <select
+            className={selectClassName}
+            value={form.frequency}
+            onChange={(e) => handleFrequencyChange(e.target.value as MedicationFrequency)}
+          >
+            {(Object.keys(medicationFrequencies) as MedicationFrequency[]).map(frequency => (
+              <option key={frequency} value={frequency}>{medicationFrequencies[frequency].label}</option>
+            ))}
+          </select>
+        </div>
+        {form.scheduleTimes.length > 0 && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {form.scheduleTimes.map((time, index) => (
+              <Input
+                key={index}
+                label={`Dose ${index + 1}`}
+                type="time"
+                value={time}
+                onChange={(e) => setForm(prev => ({
+                  ...prev,
+                  scheduleTimes: prev.scheduleTimes.map((item, i) => (i === index ? e.target.value : item)),
+                }))}
+              />
+            ))}
+          </div>
+        )}
+        <div className="grid grid-cols-2 gap-3">
+          <Input label="Start" type="date" value={form.startDate} onChange={(e) => handleChange('startDate', e.target.value)} />
+          <Input label="Stop" type="date" value={form.endDate} onChange={(e) => handleChange('endDate', e.target.value)} />
+          <Input label="Prescriber" value={form.prescriber} onChange={(e) => handleChange('prescriber', e.target.value)} />
+          <Input label="Pharmacy" value={form.pharmacy} onChange={(e) => handleChange('pharmacy', e.target.value)} />
+          <Input
+            label={`On hand (${form.doseUnit}s)`}
+            type="number"
+            step="any"
+            value={form.supplyRemaining}
+            onChange={(e) => handleChange('supplyRemaining', e.target.value)}
+            placeholder="Optional"
+          />
+          <Input
+            label="Remind days before"
+            type="number"
+            value={form.refillThresholdDays}
+            onChange={(e) => handleChange('refillThresholdDays', e.target.value)}
+          />
+        </div>
+        <TextArea label="Notes" value={form.notes} onChange={(e) => handleChange('notes', e.target.value)} />
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            {medication && onDelete && (
+              <Button variant="danger" type="button" onClick={handleDelete} disabled={isSaving}>Delete</Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" type="button" onClick={onClose}>Cancel</Button>
+            <Button variant="primary" type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving…' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </form>
+    </Modal>
+  );
+};
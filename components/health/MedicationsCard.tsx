@@ -0,0 +1,256 @@
+import React, { useMemo, useState } from 'react';
+import { Medication, MedicationDose, MedicationDoseStatus } from '../../src/types/health';
+import { AS_NEEDED_SLOT, medicationFrequencies } from '../../src/data/medicationSchedules';
+import { doseSlotsOn, isMedicationActive, medicationSupply, toLocalDateString } from '../../src/utils/medications';
+import { Button, Card, Icon } from '../Shared';
+
+const HISTORY_DAYS = 7;
+
+const shiftDate = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + days);
+  return toLocalDateString(next);
+};
+
+const formatDay = (date: string, today: string) => {
+  if (date === today) return 'Today';
+  if (date === shiftDate(today, -1)) return 'Yesterday';
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+const describeDose = (medication: Medication) =>
+  [medication.strength, `${medication.doseAmount} ${medication.doseUnit || 'unit'}${medication.doseAmount === 1 ? '' : 's'}`]
+    .filter(Boolean)
+    .join(' · ');
+
+export const MedicationsCard: React.FC<{
+  medications: Medication[];
+  doses: MedicationDose[];
+  onAdd: () => void;
+  onEdit: (medication: Medication) => void;
+  onRecordDose: (medication: Medication, date: string, slot: string, status: MedicationDoseStatus) => Promise<void>;
+  onClearDose: (medication: Medication, dose: MedicationDose) => Promise<void>;
+  onRefill: (medication: Medication, quantity: number) => Promise<void>;
+}> = ({ medications, doses, onAdd, onEdit, onRecordDose, onClearDose, onRefill }) => {
+  const today = toLocalDateString(new Date());
+  const [day, setDay] = useState(today);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [refillId, setRefillId] = useState<string | null>(null);
+  const [refillQuantity, setRefillQuantity] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const scheduled = useMemo(() => medications
+    .flatMap(medication => doseSlotsOn(medication, day).map(slot => ({ medication, slot })))
+    .sort((a, b) => a.slot.localeCompare(b.slot) || a.medication.name.localeCompare(b.medication.name)), [day, medications]);
+
+  const asNeeded = medications.filter(medication => medication.frequency === 'AS_NEEDED' && isMedicationActive(medication, day));
+  const dayDoses = doses.filter(dose => dose.scheduledDate === day);
+  const findDose = (medicationId: string, slot: string) =>
+    dayDoses.find(dose => dose.medicationId === medicationId && dose.slot === slot);
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setError(null);
+    setBusyKey(key);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong.');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleRefill = (medication: Medication) => {
+    const quantity = Number(refillQuantity);
+    if (!Number.isFinite(quantity) || quantity <= 0) return;
+    run(`refill-${medication.id}`, async () => {
+      await onRefill(medication, quantity);
+      setRefillId(null);
+      setRefillQuantity('');
+    });
+  };
+
+  return (
+    <Card className="bg-white border-stone-100">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <p className="text-sm font-semibold text-stone-800">Medications</p>
+          <p className="text-xs text-stone-400">Anyone with access can mark doses as given</p>
+        </div>
+        <Button variant="secondary" size="sm" onClick={onAdd}>
+          <Icon name="add" className="text-base" /> Add
+        </Button>
+      </div>
+
+      {medications.length === 0 ? (
+        <div className="text-sm text-stone-400">No medications yet.</div>
+      ) : (
+        <div className="space-y-5">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <button
+                onClick={() => setDay(prev => shiftDate(prev, -1))}
+                disabled={day <= shiftDate(today, -HISTORY_DAYS)}
+                className="p-1 rounded-full text-stone-400 hover:text-stone-700 disabled:opacity-30"
+                aria-label="Previous day"
+              >
+                <Icon name="chevron_left" />
+              </button>
+              <p className="text-xs font-bold uppercase tracking-wider text-stone-500">{formatDay(day, today)}</p>
+              <button
+                onClick={() => setDay(prev => shiftDate(prev, 1))}
+                disabled={day >= today}
+                className="p-1 rounded-full text-stone-400 hover:text-stone-700 disabled:opacity-30"
+                aria-label="Next day"
+              >
+                <Icon name="chevron_right" />
+              </button>
+            </div>
+
+            {scheduled.length === 0 && asNeeded.length === 0 && (
+              <p className="text-sm text-stone-400">Nothing scheduled.</p>
+            )}
+            <div className="space-y-2">
+              {scheduled.map(({ medication, slot }) => {
+                const dose = findDose(medication.id, slot);
+                const key = `${medication.id}-${slot}`;
+                return (
+                  <div
+                    key={key}
+                    className={`flex items-center justify-between gap-3 p-3 rounded-2xl border ${dose?.status === 'GIVEN' ? 'border-emerald-100 bg-emerald-50/50' : dose?.status === 'SKIPPED' ? 'border-stone-100 bg-stone-50' : 'border-stone-100'}`}
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-stone-800 truncate">
+                        <span className="text-stone-400 mr-2">{slot}</span>{medication.name}
+                      </p>
+                      <p className="text-xs text-stone-500">
+                        {describeDose(medication)}
+                        {dose && ` · ${dose.status === 'GIVEN' ? 'Given' : 'Skipped'}${dose.givenByName ? ` by ${dose.givenByName}` : ''} at ${formatTime(dose.recordedAt)}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      {dose ? (
+                        <button
+                          onClick={() => run(key, () => onClearDose(medication, dose))}
+                          disabled={busyKey === key}
+                          className="text-xs font-semibold text-stone-400 hover:text-stone-700"
+                        >
+                          Undo
+                        </button>
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => run(key, () => onRecordDose(medication, day, slot, 'SKIPPED'))}
+                            disabled={busyKey === key}
+                            className="text-xs font-semibold text-stone-400 hover:text-stone-700 px-2"
+                          >
+                            Skip
+                          </button>
+                          <Button
+                            variant="primary"
+                            size="sm"
+                            disabled={busyKey === key}
+                            onClick={() => run(key, () => onRecordDose(medication, day, slot, 'GIVEN'))}
+                          >
+                            <Icon name="check" className="text-base" /> Given
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+
+              {asNeeded.map(medication => {
+                const given = dayDoses.filter(dose => dose.medicationId === medication.id);
+                const key = `${medication.id}-${AS_NEEDED_SLOT}`;
+                return (
+                  <div key={key} className="flex items-center justify-between gap-3 p-3 rounded-2xl border border-dashed border-stone-200">
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-stone-800 truncate">
+                        <span className="text-stone-400 mr-2">As needed</span>{medication.name}
+                      </p>
+                      <p className="text-xs text-stone-500">
+                        {describeDose(medication)}
+                        {given.length > 0 && ` · ${given.length} given (${given.map(dose => formatTime(dose.recordedAt)).join(', ')})`}
+                      </p>
+                    </div>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      disabled={busyKey === key}
+                      // Each as-needed dose gets its own slot so several can be logged in a day
+                      onClick={() => run(key, () => onRecordDose(medication, day, `${AS_NEEDED_SLOT} ${new Date().toTimeString().slice(0, 5)}`, 'GIVEN'))}
+                    >
+                      Log dose
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {medications.map(medication => {
+              const supply = medicationSupply(medication);
+              const active = isMedicationActive(medication, today);
+              return (
+                <div key={medication.id} className={`p-3 rounded-2xl bg-stone-50 ${active ? '' : 'opacity-60'}`}>
+                  <div className="flex items-start justify-between gap-3">
+                    <button onClick={() => onEdit(medication)} className="text-left min-w-0">
+                      <p className="text-sm font-semibold text-stone-800">
+                        {medication.name}{medication.strength && <span className="font-normal text-stone-500"> {medication.strength}</span>}
+                      </p>
+                      <p className="text-xs text-stone-500">
+                        {medicationFrequencies[medication.frequency].label}
+                        {medication.scheduleTimes.length > 0 && ` at ${medication.scheduleTimes.join(', ')}`}
+                        {!active && medication.endDate && ` · stopped ${medication.endDate}`}
+                        {medication.prescriber && ` · ${medication.prescriber}`}
+                      </p>
+                      {supply.daysRemaining !== null && (
+                        <p className={`text-xs ${supply.needsRefill ? 'text-amber-700 font-semibold' : 'text-stone-400'}`}>
+                          {medication.supplyRemaining} {medication.doseUnit || 'units'} left · about {supply.daysRemaining} days (until {supply.runsOutOn})
+                        </p>
+                      )}
+                    </button>
+                    {medication.supplyRemaining !== null && medication.supplyRemaining !== undefined && (
+                      <button
+                        onClick={() => setRefillId(prev => (prev === medication.id ? null : medication.id))}
+                        className="text-xs font-semibold text-stone-500 hover:text-stone-800 whitespace-nowrap"
+                      >
+                        Refilled
+                      </button>
+                    )}
+                  </div>
+                  {refillId === medication.id && (
+                    <div className="flex items-center gap-2 mt-2">
+                      <input
+                        type="number"
+                        min="0"
+                        className="flex-1 bg-white border border-stone-200 rounded-xl px-3 py-2 text-sm text-stone-800"
+                        placeholder={`${medication.doseUnit || 'unit'}s added`}
+                        value={refillQuantity}
+                        onChange={(e) => setRefillQuantity(e.target.value)}
+                      />
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        disabled={busyKey === `refill-${medication.id}`}
+                        onClick={() => handleRefill(medication)}
+                      >
+                        Add
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+      {error && <p className="text-sm text-rose-600 mt-3">{error}</p>}
+    </Card>
+  );
+};
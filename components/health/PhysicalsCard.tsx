@@ -1,18 +1,58 @@
-import React from 'react';
-import { HealthPhysical } from '../../src/types/health';
+import React, { useState } from 'react';
+import { BloodPressureCategory, BloodPressureSummary, GrowthAssessment, GrowthMetric, HealthDemographics, HealthPhysical } from '../../src/types/health';
+import { growthMetricLabels } from '../../src/data/growthStandards';
 import { Card, Icon, Button } from '../Shared';
+import { BloodPressureChart } from './charts/BloodPressureChart';
+import { GrowthChart } from './charts/GrowthChart';
 
-const metricBlock = (label: string, value: string, accent: string) => (
+export const bpCategoryLabels: Record<BloodPressureCategory, string> = {
+  NORMAL: 'Normal',
+  ELEVATED: 'Elevated',
+  STAGE_1: 'Stage 1',
+  STAGE_2: 'Stage 2',
+  CRISIS: 'Crisis',
+};
+
+export const bpCategoryStyles: Record<BloodPressureCategory, string> = {
+  NORMAL: 'bg-emerald-100 text-emerald-700',
+  ELEVATED: 'bg-amber-100 text-amber-700',
+  STAGE_1: 'bg-orange-100 text-orange-700',
+  STAGE_2: 'bg-rose-100 text-rose-700',
+  CRISIS: 'bg-rose-600 text-white',
+};
+
+const metricBlock = (label: string, value: string, accent: string, badge?: React.ReactNode, detail?: string) => (
   <div className="bg-white/80 border border-stone-100 rounded-2xl p-3">
-    <p className="text-[11px] uppercase tracking-wider text-stone-400 font-bold">{label}</p>
+    <div className="flex items-center justify-between gap-2">
+      <p className="text-[11px] uppercase tracking-wider text-stone-400 font-bold">{label}</p>
+      {badge}
+    </div>
     <p className={`text-lg font-semibold ${accent}`}>{value}</p>
+    {detail && <p className="text-[11px] text-stone-500">{detail}</p>}
   </div>
 );
 
+const formatPercentile = (assessment?: GrowthAssessment) => {
+  const point = assessment?.latest;
+  if (!point) return undefined;
+  const percentile = point.percentile < 1 ? '<1' : point.percentile > 99 ? '>99' : Math.round(point.percentile);
+  return `P${percentile} · z ${point.zScore > 0 ? '+' : ''}${point.zScore}`;
+};
+
 export const PhysicalsCard: React.FC<{
   latest?: HealthPhysical;
+  bloodPressure?: BloodPressureSummary;
+  growth?: GrowthAssessment[];
+  sex?: HealthDemographics['sex'];
   onAdd: () => void;
-}> = ({ latest, onAdd }) => {
+}> = ({ latest, bloodPressure, growth = [], sex, onAdd }) => {
+  const [showBpTrend, setShowBpTrend] = useState(false);
+  const [growthMetric, setGrowthMetric] = useState<GrowthMetric>('WEIGHT');
+  const growthByMetric = new Map(growth.map(assessment => [assessment.metric, assessment]));
+  const activeGrowth = growthByMetric.get(growthMetric) || growth[0];
+  const bpDay = bloodPressure?.latest;
+  const bpCategory = bpDay?.category;
+
   return (
     <Card className="relative overflow-hidden bg-gradient-to-br from-stone-50 via-white to-emerald-50/40 border-stone-100">
       <div className="flex items-center justify-between mb-4">
@@ -30,11 +70,82 @@ export const PhysicalsCard: React.FC<{
         </Button>
       </div>
       <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-        {metricBlock('Weight', latest?.weightKg ? `${latest.weightKg} kg` : '--', 'text-stone-800')}
-        {metricBlock('BMI', latest?.bmi ? `${latest.bmi}` : '--', 'text-emerald-700')}
-        {metricBlock('Blood Pressure', latest?.bpSystolic ? `${latest.bpSystolic}/${latest.bpDiastolic}` : '--', 'text-rose-700')}
+        {metricBlock('Weight', latest?.weightKg ? `${latest.weightKg} kg` : '--', 'text-stone-800', undefined, formatPercentile(growthByMetric.get('WEIGHT')))}
+        {metricBlock('BMI', latest?.bmi ? `${latest.bmi}` : '--', 'text-emerald-700', undefined, formatPercentile(growthByMetric.get('BMI')))}
+        {metricBlock(
+          'Blood Pressure',
+          bpDay ? `${bpDay.systolic}/${bpDay.diastolic}` : '--',
+          'text-rose-700',
+          bloodPressure?.category && bpCategory && (
+            <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full ${bpCategoryStyles[bpCategory]}`}>
+              {bpCategoryLabels[bpCategory]}
+            </span>
+          )
+        )}
         {metricBlock('Resting HR', latest?.restingHr ? `${latest.restingHr} bpm` : '--', 'text-indigo-700')}
       </div>
+
+      {bloodPressure && bpDay && (
+        <div className="mt-4 space-y-3">
+          <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+            <div className="text-xs text-stone-500 space-y-1">
+              <p>
+                {bpDay.readings > 1 ? `Average of ${bpDay.readings} readings on ${bpDay.date}` : `Reading on ${bpDay.date}`}
+                {bloodPressure.average7d && ` · 7-day average ${bloodPressure.average7d.systolic}/${bloodPressure.average7d.diastolic}`}
+                {bloodPressure.category && ` (${bpCategoryLabels[bloodPressure.category].toLowerCase()})`}
+              </p>
+              {bloodPressure.guidance.map(line => (
+                <p key={line} className={bloodPressure.status === 'CONCERN' ? 'text-rose-700' : 'text-stone-500'}>{line}</p>
+              ))}
+            </div>
+            {bloodPressure.days.length > 1 && (
+              <button
+                onClick={() => setShowBpTrend(prev => !prev)}
+                className="text-xs font-semibold text-stone-500 hover:text-stone-800 whitespace-nowrap"
+              >
+                {showBpTrend ? 'Hide BP trend' : 'Show BP trend'}
+              </button>
+            )}
+          </div>
+          {showBpTrend && (
+            <div>
+              <div className="flex gap-4 text-[11px] text-stone-500">
+                <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-rose-600" /> Systolic</span>
+                <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-indigo-500" /> Diastolic</span>
+              </div>
+              <BloodPressureChart days={bloodPressure.days} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {activeGrowth && (sex === 'male' || sex === 'female') && (
+        <div className="mt-4 space-y-3">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+            <div>
+              <p className="text-sm font-semibold text-stone-800">Growth</p>
+              <p className="text-xs text-stone-400">Against WHO (under 2) and CDC (2-20) reference percentiles</p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {growth.map(assessment => (
+                <button
+                  key={assessment.metric}
+                  onClick={() => setGrowthMetric(assessment.metric)}
+                  className={`text-xs px-3 py-1 rounded-full border ${assessment.metric === activeGrowth.metric ? 'bg-stone-900 text-white border-stone-900' : 'border-stone-200 text-stone-500 hover:border-stone-300'}`}
+                >
+                  {growthMetricLabels[assessment.metric].label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {activeGrowth.latest && (
+            <p className="text-xs text-stone-500">
+              {activeGrowth.latest.value} {growthMetricLabels[activeGrowth.metric].unit} on {activeGrowth.latest.date} · {formatPercentile(activeGrowth)}
+            </p>
+          )}
+          <GrowthChart assessment={activeGrowth} sex={sex} />
+        </div>
+      )}
     </Card>
   );
 };
@@ -1,12 +1,17 @@
 import React, { useState } from 'react';
-import { HealthPhysical } from '../../src/types/health';
+import { HealthPhysical, HealthSharing } from '../../src/types/health';
+import { Collaborator } from '../../types';
 import { Button, Input, Modal, TextArea } from '../Shared';
+import { HealthSharingPicker } from './HealthSharingPicker';
 
 export const PhysicalsForm: React.FC<{
   isOpen: boolean;
   onClose: () => void;
   onSave: (data: Omit<HealthPhysical, 'id' | 'personId'>) => void;
-}> = ({ isOpen, onClose, onSave }) => {
+  // Only infants and toddlers are measured for head circumference
+  showHeadCircumference?: boolean;
+  collaborators?: Collaborator[];
+}> = ({ isOpen, onClose, onSave, showHeadCircumference = false, collaborators = [] }) => {
   const [form, setForm] = useState({
     measurementDate: new Date().toISOString().slice(0, 10),
     weightKg: '',
@@ -16,8 +21,10 @@ export const PhysicalsForm: React.FC<{
     bpSystolic: '',
     bpDiastolic: '',
     restingHr: '',
+    headCircumferenceCm: '',
     notes: '',
   });
+  const [sharing, setSharing] = useState<HealthSharing>({ mode: 'ALL', collaboratorIds: [] });
 
   const handleChange = (key: string, value: string) => {
     setForm(prev => ({ ...prev, [key]: value }));
@@ -34,7 +41,9 @@ export const PhysicalsForm: React.FC<{
       bpSystolic: form.bpSystolic ? Number(form.bpSystolic) : null,
       bpDiastolic: form.bpDiastolic ? Number(form.bpDiastolic) : null,
       restingHr: form.restingHr ? Number(form.restingHr) : null,
+      headCircumferenceCm: form.headCircumferenceCm ? Number(form.headCircumferenceCm) : null,
       notes: form.notes || null,
+      sharing,
     });
     onClose();
   };
@@ -56,8 +65,14 @@ export const PhysicalsForm: React.FC<{
           <Input label="BP Systolic" type="number" value={form.bpSystolic} onChange={(e) => handleChange('bpSystolic', e.target.value)} />
           <Input label="BP Diastolic" type="number" value={form.bpDiastolic} onChange={(e) => handleChange('bpDiastolic', e.target.value)} />
           <Input label="Resting HR" type="number" value={form.restingHr} onChange={(e) => handleChange('restingHr', e.target.value)} />
+          {showHeadCircumference && (
+            <Input label="Head circ. (cm)" type="number" value={form.headCircumferenceCm} onChange={(e) => handleChange('headCircumferenceCm', e.target.value)} />
+          )}
         </div>
         <TextArea label="Notes" value={form.notes} onChange={(e) => handleChange('notes', e.target.value)} />
+        {collaborators.length > 0 && (
+          <HealthSharingPicker sharing={sharing} collaborators={collaborators} onChange={setSharing} />
+        )}
         <div className="flex justify-end gap-2">
           <Button variant="ghost" type="button" onClick={onClose}>Cancel</Button>
           <Button variant="primary" type="submit">Save</Button>
@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from 'react';
+import { ComparisonChange, HealthMarker, HealthReport, HealthValueStatus } from '../../src/types/health';
+import { compareReports } from '../../src/utils/reportComparison';
+import { Card, Icon, Toggle } from '../Shared';
+
+const statusLabel: Record<HealthValueStatus, string> = {
+  OPTIMAL: 'Optimal',
+  NORMAL: 'Normal',
+  LOW: 'Low',
+  HIGH: 'High',
+  UNKNOWN: 'Unknown',
+};
+
+const statusText: Record<HealthValueStatus, string> = {
+  OPTIMAL: 'text-emerald-700',
+  NORMAL: 'text-sky-700',
+  LOW: 'text-amber-700',
+  HIGH: 'text-rose-700',
+  UNKNOWN: 'text-stone-500',
+};
+
+const isOutOfRange = (status?: HealthValueStatus) => status === 'LOW' || status === 'HIGH';
+
+const formatNumber = (value: number) => String(Number(value.toFixed(2)));
+
+const formatChange = (change: ComparisonChange | null) => {
+  if (!change) return '—';
+  const sign = change.absolute > 0 ? '+' : '';
+  const percent = change.percent === null ? '' : ` (${sign}${Math.round(change.percent)}%)`;
+  return `${sign}${formatNumber(change.absolute)}${percent}`;
+};
+
+const StatusTransition: React.FC<{ from?: HealthValueStatus; to?: HealthValueStatus }> = ({ from, to }) => {
+  if (!from || !to) return <span className="text-stone-300">—</span>;
+  if (from === to) return <span className="text-stone-400">{statusLabel[to]}</span>;
+  // Moving into range reads as good news, moving out of it as bad
+  const tone = isOutOfRange(from) && !isOutOfRange(to)
+    ? 'bg-emerald-50'
+    : !isOutOfRange(from) && isOutOfRange(to) ? 'bg-rose-50' : 'bg-stone-50';
+  return (
+    <span className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 font-semibold ${tone}`}>
+      <span className={statusText[from]}>{statusLabel[from]}</span>
+      <Icon name="arrow_forward" className="text-xs text-stone-400" />
+      <span className={statusText[to]}>{statusLabel[to]}</span>
+    </span>
+  );
+};
+
+export const ReportComparisonCard: React.FC<{
+  reports: HealthReport[];
+  markers: HealthMarker[];
+  onClose: () => void;
+}> = ({ reports, markers, onClose }) => {
+  const [includeUnshared, setIncludeUnshared] = useState(false);
+  const markersByCode = useMemo(() => new Map(markers.map(marker => [marker.code, marker])), [markers]);
+  const comparison = useMemo(
+    () => compareReports(reports, markersByCode, { includeUnshared }),
+    [includeUnshared, markersByCode, reports],
+  );
+  const columnCount = comparison.reports.length + 3;
+
+  return (
+    <Card className="bg-white border-stone-100">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <p className="text-sm font-semibold text-stone-800">Report Comparison</p>
+          <p className="text-xs text-stone-400">Change is measured from the oldest to the newest report</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <Toggle checked={includeUnshared} onChange={setIncludeUnshared} label="Include markers in one report" />
+          <button
+            onClick={onClose}
+            className="p-1 rounded-full text-stone-400 hover:text-stone-700 hover:bg-stone-100"
+            aria-label="Close comparison"
+          >
+            <Icon name="close" className="text-lg" />
+          </button>
+        </div>
+      </div>
+
+      {comparison.groups.length === 0 && comparison.ratios.length === 0 ? (
+        <p className="text-sm text-stone-400">These reports have no markers in common.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-[10px] font-bold uppercase tracking-wider text-stone-400">
+                <th className="py-2 pr-3">Marker</th>
+                {comparison.reports.map(report => (
+                  <th key={report.id} className="py-2 px-3 whitespace-nowrap">
+                    {report.testDate}
+                    {report.labName && <span className="block font-normal normal-case tracking-normal">{report.labName}</span>}
+                  </th>
+                ))}
+                <th className="py-2 px-3">Change</th>
+                <th className="py-2 pl-3">Status</th>
+              </tr>
+            </thead>
+            {comparison.groups.map(group => (
+              <tbody key={group.system}>
+                <tr>
+                  <td colSpan={columnCount} className="pt-4 pb-1 text-xs font-bold uppercase tracking-wider text-stone-500">
+                    {group.displayName}
+                  </td>
+                </tr>
+                {group.rows.map(row => (
+                  <tr key={row.markerCode} className="border-t border-stone-100">
+                    <td className="py-2 pr-3">
+                      <p className="font-semibold text-stone-800">{row.markerName}</p>
+                      {row.unit && <p className="text-xs text-stone-400">{row.unit}</p>}
+                    </td>
+                    {row.values.map((value, index) => (
+                      <td key={comparison.reports[index].id} className="py-2 px-3 whitespace-nowrap">
+                        {value ? (
+                          <span className={isOutOfRange(value.status) ? `font-semibold ${statusText[value.status]}` : 'text-stone-700'}>
+                            {value.value !== null && value.value !== undefined ? formatNumber(value.value) : value.valueText || '—'}
+                          </span>
+                        ) : (
+                          <span className="text-stone-300">—</span>
+                        )}
+                      </td>
+                    ))}
+                    <td className="py-2 px-3 whitespace-nowrap text-stone-600">{formatChange(row.change)}</td>
+                    <td className="py-2 pl-3 whitespace-nowrap text-xs">
+                      <StatusTransition from={row.statusFrom} to={row.statusTo} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            ))}
+            {comparison.ratios.length > 0 && (
+              <tbody>
+                <tr>
+                  <td colSpan={columnCount} className="pt-4 pb-1 text-xs font-bold uppercase tracking-wider text-stone-500">
+                    Ratios
+                  </td>
+                </tr>
+                {comparison.ratios.map(row => (
+                  <tr key={row.ratioCode} className="border-t border-stone-100">
+                    <td className="py-2 pr-3 font-semibold text-stone-800">{row.name}</td>
+                    {row.values.map((ratio, index) => (
+                      <td key={comparison.reports[index].id} className="py-2 px-3 whitespace-nowrap">
+                        {ratio ? (
+                          <span className={ratio.isOptimal === false ? 'font-semibold text-rose-700' : 'text-stone-700'}>{formatNumber(ratio.value)}</span>
+                        ) : (
+                          <span className="text-stone-300">—</span>
+                        )}
+                      </td>
+                    ))}
+                    <td className="py-2 px-3 whitespace-nowrap text-stone-600">{formatChange(row.change)}</td>
+                    <td className="py-2 pl-3" />
+                  </tr>
+                ))}
+              </tbody>
+            )}
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+};
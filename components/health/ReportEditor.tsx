@@ -0,0 +1,213 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HealthMarker, HealthReport, HealthSystem, HealthValue, HealthValueInput } from '../../src/types/health';
+import { systemLabel } from '../../src/data/healthMarkers';
+import { Button, Icon, Input, Modal } from '../Shared';
+
+export interface ReportEditorPayload {
+  testDate: string;
+  labName?: string;
+  reportType?: string;
+  values: HealthValueInput[];
+}
+
+interface EditableRow {
+  key: string;
+  id?: string;
+  markerCode: string;
+  markerName: string;
+  value: string;
+  unit: string;
+}
+
+const toEditableRow = (value: HealthValue): EditableRow => ({
+  key: value.id,
+  id: value.id,
+  markerCode: value.markerCode || '',
+  markerName: value.markerName || '',
+  value: value.originalValue !== null && value.originalValue !== undefined
+    ? String(value.originalValue)
+    : value.value !== null && value.value !== undefined ? String(value.value) : value.valueText || '',
+  unit: value.originalUnit || value.unit || '',
+});
+
+const emptyRow = (): EditableRow => ({
+  key: `new-${Math.random().toString(36).slice(2)}`,
+  markerCode: '',
+  markerName: '',
+  value: '',
+  unit: '',
+});
+
+export const ReportEditor: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  report?: HealthReport | null;
+  markers: HealthMarker[];
+  onSave: (payload: ReportEditorPayload) => Promise<void>;
+}> = ({ isOpen, onClose, report, markers, onSave }) => {
+  const [testDate, setTestDate] = useState(new Date().toISOString().slice(0, 10));
+  const [labName, setLabName] = useState('');
+  const [reportType, setReportType] = useState('FULL_BODY');
+  const [rows, setRows] = useState<EditableRow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setTestDate(report?.testDate || new Date().toISOString().slice(0, 10));
+    setLabName(report?.labName || '');
+    setReportType(report?.reportType || 'FULL_BODY');
+    const measured = report?.values.filter(value => !value.isComputed) || [];
+    setRows(measured.length ? measured.map(toEditableRow) : [emptyRow()]);
+    setError(null);
+  }, [isOpen, report]);
+
+  const markersBySystem = useMemo(() => {
+    const grouped = new Map<HealthSystem, HealthMarker[]>();
+    markers.forEach(marker => {
+      const list = grouped.get(marker.system) || [];
+      list.push(marker);
+      grouped.set(marker.system, list);
+    });
+    return Array.from(grouped.entries());
+  }, [markers]);
+
+  const markersByCode = useMemo(() => new Map(markers.map(marker => [marker.code, marker])), [markers]);
+
+  const updateRow = (key: string, changes: Partial<EditableRow>) => {
+    setRows(prev => prev.map(row => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const handleMarkerChange = (row: EditableRow, code: string) => {
+    const marker = markersByCode.get(code);
+    updateRow(row.key, {
+      markerCode: code,
+      markerName: row.markerName || marker?.name || '',
+      unit: row.unit || marker?.unit || '',
+    });
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const filled = rows.filter(row => (row.markerCode || row.markerName.trim()) && row.value.trim());
+    if (filled.length === 0) {
+      setError('Add at least one marker with a value.');
+      return;
+    }
+    setError(null);
+    setIsSaving(true);
+    try {
+      await onSave({
+        testDate,
+        labName,
+        reportType,
+        values: filled.map(row => {
+          const numeric = Number(row.value.trim());
+          const isNumeric = row.value.trim() !== '' && Number.isFinite(numeric);
+          return {
+            id: row.id,
+            markerCode: row.markerCode || null,
+            markerName: row.markerName.trim() || markersByCode.get(row.markerCode)?.name || null,
+            value: isNumeric ? numeric : null,
+            valueText: isNumeric ? null : row.value.trim(),
+            unit: row.unit.trim() || null,
+          };
+        }),
+      });
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save values.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={report ? 'Edit Report Values' : 'New Report'}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <Input label="Test date" type="date" value={testDate} onChange={(e) => setTestDate(e.target.value)} />
+          <Input label="Lab name" value={labName} onChange={(e) => setLabName(e.target.value)} placeholder="Lab or provider" />
+        </div>
+        <div className="w-full">
+          <label className="block text-xs font-bold text-stone-500 uppercase tracking-wider mb-1.5">Report Type</label>
+          <select
+            className="w-full bg-stone-50 border border-stone-200 rounded-xl px-4 py-2.5 text-stone-800"
+            value={reportType}
+            onChange={(e) => setReportType(e.target.value)}
+          >
+            <option value="FULL_BODY">Full Body</option>
+            <option value="LIPID">Lipid Panel</option>
+            <option value="THYROID">Thyroid</option>
+            <option value="METABOLIC">Metabolic</option>
+            <option value="OTHER">Other</option>
+          </select>
+        </div>
+
+        <div className="space-y-3">
+          {rows.map(row => (
+            <div key={row.key} className="p-3 rounded-2xl border border-stone-100 bg-white space-y-2">
+              <div className="flex items-center gap-2">
+                <select
+                  className="flex-1 bg-stone-50 border border-stone-200 rounded-xl px-3 py-2 text-sm text-stone-800"
+                  value={row.markerCode}
+                  onChange={(e) => handleMarkerChange(row, e.target.value)}
+                >
+                  <option value="">Unmatched marker…</option>
+                  {markersBySystem.map(([system, list]) => (
+                    <optgroup key={system} label={systemLabel(system)}>
+                      {list.map(marker => (
+                        <option key={marker.code} value={marker.code}>{marker.name}</option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setRows(prev => prev.filter(item => item.key !== row.key))}
+                  className="p-2 rounded-full text-stone-400 hover:text-rose-600 hover:bg-rose-50"
+                  aria-label="Remove value"
+                >
+                  <Icon name="delete" className="text-lg" />
+                </button>
+              </div>
+              {!row.markerCode && (
+                <input
+                  className="w-full bg-stone-50 border border-stone-200 rounded-xl px-3 py-2 text-sm text-stone-800"
+                  placeholder="Marker name as printed"
+                  value={row.markerName}
+                  onChange={(e) => updateRow(row.key, { markerName: e.target.value })}
+                />
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  className="bg-stone-50 border border-stone-200 rounded-xl px-3 py-2 text-sm text-stone-800"
+                  placeholder="Value"
+                  value={row.value}
+                  onChange={(e) => updateRow(row.key, { value: e.target.value })}
+                />
+                <input
+                  className="bg-stone-50 border border-stone-200 rounded-xl px-3 py-2 text-sm text-stone-800"
+                  placeholder={markersByCode.get(row.markerCode)?.unit || 'Unit'}
+                  value={row.unit}
+                  onChange={(e) => updateRow(row.key, { unit: e.target.value })}
+                />
+              </div>
+            </div>
+          ))}
+          <Button variant="secondary" size="sm" type="button" onClick={() => setRows(prev => [...prev, emptyRow()])}>
+            <Icon name="add" className="text-base" /> Add value
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" type="button" onClick={onClose}>Cancel</Button>
+          <Button variant="primary" type="submit" disabled={isSaving}>
+            {isSaving ? 'Saving…' : 'Save'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { HealthReport, HealthSharing } from '../../src/types/health';
+import { Collaborator } from '../../types';
+import { Button, Modal } from '../Shared';
+import { HealthSharingPicker } from './HealthSharingPicker';
+
+export const ReportSharingModal: React.FC<{
+  report: HealthReport | null;
+  collaborators: Collaborator[];
+  onClose: () => void;
+  onSave: (report: HealthReport, sharing: HealthSharing) => Promise<void>;
+}> = ({ report, collaborators, onClose, onSave }) => {
+  const [sharing, setSharing] = useState<HealthSharing>({ mode: 'ALL', collaboratorIds: [] });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!report) return;
+    setSharing(report.sharing);
+    setError(null);
+  }, [report]);
+
+  const handleSave = async () => {
+    if (!report) return;
+    setError(null);
+    setIsSaving(true);
+    try {
+      await onSave(report, sharing);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Could not update sharing.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={Boolean(report)} onClose={onClose} title="Report Sharing">
+      <div className="space-y-4">
+        {report && (
+          <p className="text-sm text-stone-500">
+            {report.testDate}{report.labName ? ` · ${report.labName}` : ''}
+          </p>
+        )}
+        <HealthSharingPicker sharing={sharing} collaborators={collaborators} onChange={setSharing} />
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" type="button" onClick={onClose}>Cancel</Button>
+          <Button variant="primary" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving…' : 'Save'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -1,11 +1,14 @@
 import React, { useState } from 'react';
-import { Button, Input, Modal } from '../Shared';
+import { Button, Icon, Input, Modal } from '../Shared';
+import { ReportParserId } from '../../src/services/healthParser';
+import { DEFAULT_REPORT_PARSER, getReportParser, reportParsers } from '../../src/services/reportParsers';
 
 export interface ReportUploadPayload {
-  file: File;
+  files: File[];
   testDate?: string;
   labName?: string;
   reportType?: string;
+  parserId?: ReportParserId;
 }
 
 export const ReportUpload: React.FC<{
@@ -13,24 +16,26 @@ export const ReportUpload: React.FC<{
   onClose: () => void;
   onUpload: (payload: ReportUploadPayload) => Promise<void>;
 }> = ({ isOpen, onClose, onUpload }) => {
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
   const [testDate, setTestDate] = useState(new Date().toISOString().slice(0, 10));
   const [labName, setLabName] = useState('');
   const [reportType, setReportType] = useState('FULL_BODY');
+  const [parserId, setParserId] = useState<ReportParserId>(DEFAULT_REPORT_PARSER);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const parser = getReportParser(parserId);
 
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
-    if (!file) {
-      setError('Please select a PDF file.');
+    if (files.length === 0) {
+      setError('Please select at least one report file.');
       return;
     }
     setError(null);
     setIsSubmitting(true);
     try {
-      await onUpload({ file, testDate, labName, reportType });
-      setFile(null);
+      await onUpload({ files, testDate, labName, reportType, parserId });
+      setFiles([]);
       onClose();
     } catch (err: any) {
       setError(err.message || 'Upload failed.');
@@ -59,13 +64,49 @@ export const ReportUpload: React.FC<{
           </select>
         </div>
         <div className="w-full">
-          <label className="block text-xs font-bold text-stone-500 uppercase tracking-wider mb-1.5">PDF file</label>
+          <label className="block text-xs font-bold text-stone-500 uppercase tracking-wider mb-1.5">Extraction</label>
+          <select
+            className="w-full bg-stone-50 border border-stone-200 rounded-xl px-4 py-2.5 text-stone-800"
+            value={parserId}
+            onChange={(e) => setParserId(e.target.value as ReportParserId)}
+          >
+            {reportParsers.map(item => (
+              <option key={item.id} value={item.id}>{item.label}</option>
+            ))}
+          </select>
+          <p className="text-xs text-stone-400 mt-1">{parser.description}</p>
+        </div>
+        <div className="w-full">
+          <label className="block text-xs font-bold text-stone-500 uppercase tracking-wider mb-1.5">Report files</label>
           <input
             type="file"
-            accept="application/pdf"
+            multiple
+            accept={parser.accept}
             className="w-full text-sm"
-            onChange={(e) => setFile(e.target.files?.[0] || null)}
+            onChange={(e) => {
+              const selected = Array.from(e.target.files || []);
+              setFiles(prev => [...prev, ...selected]);
+              e.target.value = '';
+            }}
           />
+          <p className="text-xs text-stone-400 mt-1">Add every page or photo of the same report, in order.</p>
+          {files.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {files.map((item, index) => (
+                <li key={`${item.name}-${index}`} className="flex items-center justify-between text-sm text-stone-700 bg-stone-50 rounded-xl px-3 py-1.5">
+                  <span className="truncate">{index + 1}. {item.name}</span>
+                  <button
+                    type="button"
+                    onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}
+                    className="p-1 rounded-full text-stone-400 hover:text-rose-600"
+                    aria-label={`Remove ${item.name}`}
+                  >
+                    <Icon name="close" className="text-base" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
         {error && <p className="text-sm text-rose-600">{error}</p>}
         <div className="flex justify-end gap-2">
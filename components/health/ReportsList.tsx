@@ -1,7 +1,9 @@
 import React, { useState } from 'react';
 import { HealthReport } from '../../src/types/health';
+import { Collaborator } from '../../types';
 import { Card, Icon } from '../Shared';
 import { supabase } from '../../src/lib/supabase';
+import { describeSharing, sharingIcon } from './HealthSharingPicker';
 
 const statusStyle: Record<HealthReport['status'], string> = {
   PENDING: 'bg-amber-100 text-amber-700',
@@ -11,16 +13,47 @@ const statusStyle: Record<HealthReport['status'], string> = {
 
 export const ReportsList: React.FC<{
   reports: HealthReport[];
-}> = ({ reports }) => {
+  onEdit?: (report: HealthReport) => void;
+  onReview?: (report: HealthReport) => void;
+  onRetry?: (report: HealthReport) => Promise<void>;
+  onCreate?: () => void;
+  // null outside compare mode; otherwise the ids ticked for comparison
+  compareIds?: string[] | null;
+  onCompareIdsChange?: (ids: string[] | null) => void;
+  collaborators?: Collaborator[];
+  // Opens the sharing editor; only offered for reports canShare allows
+  onShare?: (report: HealthReport) => void;
+  canShare?: (report: HealthReport) => boolean;
+}> = ({ reports, onEdit, onReview, onRetry, onCreate, compareIds = null, onCompareIdsChange, collaborators = [], onShare, canShare }) => {
   const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const isComparing = Boolean(onCompareIdsChange) && compareIds !== null;
+  const comparableCount = reports.filter(report => report.status !== 'PENDING').length;
 
-  const openReport = async (report: HealthReport) => {
-    if (!report.pdfUrl) return;
+  const toggleCompare = (report: HealthReport) => {
+    if (!onCompareIdsChange || compareIds === null) return;
+    onCompareIdsChange(compareIds.includes(report.id)
+      ? compareIds.filter(id => id !== report.id)
+      : [...compareIds, report.id]);
+  };
+
+  const retryReport = async (report: HealthReport) => {
+    if (!onRetry) return;
+    setRetryingId(report.id);
+    try {
+      await onRetry(report);
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const openReport = async (report: HealthReport, path = report.pdfUrl) => {
+    if (!path) return;
     setLoadingId(report.id);
     try {
       const { data, error } = await supabase.storage
         .from('health-reports')
-        .createSignedUrl(report.pdfUrl, 60 * 10);
+        .createSignedUrl(path, 60 * 10);
       if (error) throw error;
       if (data?.signedUrl) window.open(data.signedUrl, '_blank');
     } catch (err) {
@@ -35,31 +68,131 @@ export const ReportsList: React.FC<{
       <div className="flex items-center justify-between mb-4">
         <div>
           <p className="text-sm font-semibold text-stone-800">Reports</p>
-          <p className="text-xs text-stone-400">Lab PDFs and extracted data</p>
+          <p className="text-xs text-stone-400">
+            {isComparing ? 'Pick two or more reports to compare' : 'Lab PDFs and extracted data'}
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          {onCompareIdsChange && comparableCount >= 2 && (
+            <button
+              onClick={() => onCompareIdsChange(isComparing ? null : [])}
+              className="flex items-center gap-1 text-xs font-semibold text-stone-500 hover:text-stone-800"
+            >
+              <Icon name={isComparing ? 'close' : 'compare_arrows'} className="text-base" /> {isComparing ? 'Done' : 'Compare'}
+            </button>
+          )}
+          {onCreate ? (
+            <button
+              onClick={onCreate}
+              className="flex items-center gap-1 text-xs font-semibold text-stone-500 hover:text-stone-800"
+            >
+              <Icon name="edit_document" className="text-base" /> Enter manually
+            </button>
+          ) : (
+            <Icon name="summarize" className="text-stone-300" />
+          )}
         </div>
-        <Icon name="summarize" className="text-stone-300" />
       </div>
       <div className="space-y-3">
         {reports.length === 0 && (
           <div className="text-sm text-stone-400">No reports uploaded yet.</div>
         )}
         {reports.map(report => (
-          <button
+          <div
             key={report.id}
-            onClick={() => openReport(report)}
-            className="w-full text-left flex items-center justify-between p-3 rounded-2xl border border-stone-100 hover:border-stone-200 hover:bg-stone-50 transition-colors"
+            className={`w-full flex items-center justify-between p-3 rounded-2xl border transition-colors ${compareIds?.includes(report.id) ? 'border-stone-800 bg-stone-50' : 'border-stone-100 hover:border-stone-200 hover:bg-stone-50'}`}
           >
-            <div>
+            {isComparing && (
+              <input
+                type="checkbox"
+                checked={compareIds?.includes(report.id) || false}
+                disabled={report.status === 'PENDING'}
+                onChange={() => toggleCompare(report)}
+                className="mr-3 h-4 w-4 accent-stone-800"
+                aria-label={`Compare report from ${report.testDate}`}
+              />
+            )}
+            <button
+              onClick={() => (isComparing ? toggleCompare(report) : openReport(report))}
+              disabled={isComparing ? report.status === 'PENDING' : !report.pdfUrl}
+              className="flex-1 text-left disabled:cursor-default"
+            >
               <p className="text-sm font-semibold text-stone-700">{report.testDate}</p>
-              <p className="text-xs text-stone-400">{report.labName || report.reportType}</p>
-            </div>
+              <p className="text-xs text-stone-400">
+                {report.labName || report.reportType}
+                {!report.pdfUrl && ' · Manual entry'}
+                {(report.filePaths?.length || 0) > 1 && ` · ${report.filePaths?.length} pages`}
+              </p>
+              {collaborators.length > 0 && (
+                <p className="flex items-center gap-1 text-[11px] text-stone-400 mt-0.5">
+                  <Icon name={sharingIcon(report.sharing)} className="text-xs" /> {describeSharing(report.sharing, collaborators)}
+                </p>
+              )}
+            </button>
+            {(report.filePaths?.length || 0) > 1 && (
+              <div className="flex items-center gap-1 mr-2">
+                {report.filePaths?.map((path, index) => (
+                  <button
+                    key={path}
+                    onClick={() => openReport(report, path)}
+                    className="w-6 h-6 rounded-full text-[10px] font-bold text-stone-500 bg-stone-100 hover:bg-stone-200"
+                    aria-label={`Open page ${index + 1}`}
+                  >
+                    {index + 1}
+                  </button>
+                ))}
+              </div>
+            )}
             <div className="flex items-center gap-2">
               <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-full ${statusStyle[report.status]}`}>
                 {report.status}
               </span>
-              <Icon name={loadingId === report.id ? 'hourglass_top' : 'open_in_new'} className="text-stone-400" />
+              {onReview && report.status === 'PENDING' && (
+                <button
+                  onClick={() => onReview(report)}
+                  className="text-xs font-semibold text-amber-700 hover:underline"
+                >
+                  Review
+                </button>
+              )}
+              {onRetry && report.status === 'FAILED' && report.pdfUrl && (
+                <button
+                  onClick={() => retryReport(report)}
+                  disabled={retryingId === report.id}
+                  className="text-xs font-semibold text-rose-700 hover:underline disabled:opacity-50 disabled:no-underline"
+                >
+                  {retryingId === report.id ? 'Extracting…' : 'Re-run extraction'}
+                </button>
+              )}
+              {onShare && !isComparing && (canShare ? canShare(report) : true) && (
+                <button
+                  onClick={() => onShare(report)}
+                  className="p-1 rounded-full text-stone-400 hover:text-stone-700 hover:bg-stone-100"
+                  aria-label="Change who can see this report"
+                >
+                  <Icon name="share" className="text-lg" />
+                </button>
+              )}
+              {onEdit && report.status !== 'PENDING' && (
+                <button
+                  onClick={() => onEdit(report)}
+                  className="p-1 rounded-full text-stone-400 hover:text-stone-700 hover:bg-stone-100"
+                  aria-label="Edit values"
+                >
+                  <Icon name="edit" className="text-lg" />
+                </button>
+              )}
+              {report.pdfUrl && (
+                <button
+                  onClick={() => openReport(report)}
+                  className="p-1 rounded-full text-stone-400 hover:text-stone-700 hover:bg-stone-100"
+                  aria-label="Open report"
+                >
+                  <Icon name={loadingId === report.id ? 'hourglass_top' : 'open_in_new'} className="text-lg" />
+                </button>
+              )}
             </div>
-          </button>
+          </div>
         ))}
       </div>
     </Card>
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { RetestDue, RetestStatus } from '../../src/types/health';
+import { Card, Icon } from '../Shared';
+
+const retestStatusStyles: Record<RetestStatus, { label: string; className: string }> = {
+  OVERDUE: { label: 'Overdue', className: 'bg-rose-50 text-rose-700 border-rose-100' },
+  DUE_SOON: { label: 'Due soon', className: 'bg-amber-50 text-amber-700 border-amber-100' },
+  UP_TO_DATE: { label: 'Up to date', className: 'bg-stone-50 text-stone-600 border-stone-200' },
+};
+
+const describeInterval = (item: RetestDue) => {
+  const every = item.intervalMonths === 12 ? 'yearly' : `every ${item.intervalMonths} mo`;
+  const reason = item.lastStatus === 'LOW' || item.lastStatus === 'HIGH' ? `last ${item.lastStatus.toLowerCase()}` : 'last in range';
+  return `${reason}, ${every}${item.overrideScope ? ' (custom)' : ''}`;
+};
+
+export const RetestCard: React.FC<{
+  schedule: RetestDue[];
+  onManageIntervals: () => void;
+  onCreateTodo: (items: RetestDue[]) => Promise<void>;
+}> = ({ schedule, onManageIntervals, onCreateTodo }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdCount, setCreatedCount] = useState<number | null>(null);
+  const due = schedule.filter(item => item.status !== 'UP_TO_DATE');
+  const nextUp = schedule.find(item => item.status === 'UP_TO_DATE');
+
+  if (schedule.length === 0) return null;
+
+  const handleCreateTodo = async () => {
+    setIsCreating(true);
+    try {
+      await onCreateTodo(due);
+      setCreatedCount(due.length);
+    } catch (err) {
+      console.error('Failed to create retest todo', err);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white border-stone-100">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <p className="text-sm font-semibold text-stone-800">Retests Due</p>
+          <p className="text-xs text-stone-400">From each marker's latest result and retest interval</p>
+        </div>
+        <div className="flex items-center gap-4">
+          {due.length > 0 && (
+            createdCount === due.length ? (
+              <span className="flex items-center gap-1 text-xs font-semibold text-emerald-700">
+                <Icon name="task_alt" className="text-base" /> To-do added
+              </span>
+            ) : (
+              <button
+                onClick={handleCreateTodo}
+                disabled={isCreating}
+                className="flex items-center gap-1 text-xs font-semibold text-stone-500 hover:text-stone-800 disabled:opacity-50"
+              >
+                <Icon name="add_task" className="text-base" /> {isCreating ? 'Adding…' : 'Create to-do'}
+              </button>
+            )
+          )}
+          <button
+            onClick={onManageIntervals}
+            className="flex items-center gap-1 text-xs font-semibold text-stone-500 hover:text-stone-800"
+          >
+            <Icon name="tune" className="text-base" /> Intervals
+          </button>
+        </div>
+      </div>
+
+      {due.length === 0 ? (
+        <p className="text-sm text-stone-400">
+          All tests are up to date.
+          {nextUp && ` Next due: ${nextUp.markerName} on ${nextUp.dueDate}.`}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {due.map(item => (
+            <div key={item.markerCode} className="flex items-center justify-between gap-3 p-3 rounded-2xl border border-stone-100">
+              <div>
+                <p className="text-sm font-semibold text-stone-700">{item.markerName}</p>
+                <p className="text-xs text-stone-400">Tested {item.lastTested} · {describeInterval(item)}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-stone-500 whitespace-nowrap">Due {item.dueDate}</span>
+                <span className={`text-xs px-2.5 py-1 rounded-full border font-semibold ${retestStatusStyles[item.status].className}`}>
+                  {retestStatusStyles[item.status].label}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-stone-400 mt-3">
+        {schedule.length - due.length} of {schedule.length} markers up to date
+      </p>
+    </Card>
+  );
+};
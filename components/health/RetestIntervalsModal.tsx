@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { HealthMarker, HealthSystem, RetestInterval, RetestOverride, RetestScope } from '../../src/types/health';
+import { healthSystems, systemLabel } from '../../src/data/healthMarkers';
+import { DEFAULT_RETEST_INTERVAL } from '../../src/data/retestIntervals';
+import { Button, Icon, Input, Modal } from '../Shared';
+
+const emptyForm = {
+  scope: 'SYSTEM' as RetestScope,
+  target: healthSystems[0] as string,
+  inRangeMonths: String(DEFAULT_RETEST_INTERVAL.inRangeMonths),
+  outOfRangeMonths: String(DEFAULT_RETEST_INTERVAL.outOfRangeMonths),
+};
+
+const toMonths = (value: string) => {
+  const months = Math.round(Number(value));
+  return Number.isFinite(months) && months > 0 ? months : null;
+};
+
+export const RetestIntervalsModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  markers: HealthMarker[];
+  overrides: RetestOverride[];
+  onSave: (scope: RetestScope, target: string, interval: RetestInterval) => Promise<void>;
+  onDelete: (overrideId: string) => Promise<void>;
+}> = ({ isOpen, onClose, markers, overrides, onSave, onDelete }) => {
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setForm(emptyForm);
+    setError(null);
+  }, [isOpen]);
+
+  const markerName = (code: string) => markers.find(marker => marker.code === code)?.name || code;
+  const targetLabel = (override: RetestOverride) =>
+    override.scope === 'SYSTEM' ? systemLabel(override.target as HealthSystem) : markerName(override.target);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save interval.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const inRangeMonths = toMonths(form.inRangeMonths);
+    const outOfRangeMonths = toMonths(form.outOfRangeMonths);
+    if (!form.target || !inRangeMonths || !outOfRangeMonths) {
+      setError('Pick what the interval applies to and enter whole months.');
+      return;
+    }
+    run(async () => {
+      await onSave(form.scope, form.target, { inRangeMonths, outOfRangeMonths });
+      setForm(emptyForm);
+    });
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Retest Intervals">
+      <div className="space-y-5">
+        <p className="text-sm text-stone-500">
+          By default tests repeat every {DEFAULT_RETEST_INTERVAL.inRangeMonths} months while in range and every{' '}
+          {DEFAULT_RETEST_INTERVAL.outOfRangeMonths} months once out of range. A marker's own interval wins over its system's.
+        </p>
+
+        {overrides.length > 0 && (
+          <div className="space-y-2">
+            {overrides.map(override => (
+              <div key={override.id} className="flex items-center justify-between p-3 rounded-2xl border border-stone-100 bg-white">
+                <div>
+                  <p className="text-sm font-semibold text-stone-800">{targetLabel(override)}</p>
+                  <p className="text-xs text-stone-400">
+                    {override.scope === 'SYSTEM' ? 'System' : 'Marker'} · in range every {override.inRangeMonths} mo · out of range every {override.outOfRangeMonths} mo
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  disabled={isSaving}
+                  onClick={() => run(() => onDelete(override.id))}
+                  className="p-1 rounded-full text-stone-400 hover:text-rose-600 hover:bg-rose-50"
+                  aria-label={`Remove interval for ${targetLabel(override)}`}
+                >
+                  <Icon name="delete" className="text-lg" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="w-full">
+              <label className="block text-xs font-bold text-stone-500 uppercase tracking-wider mb-1.5">Applies to</label>
+              <select
+                className="w-full bg-stone-50 border border-stone-200 rounded-xl px-4 py-2.5 text-stone-800"
+                value={form.scope}
+                onChange={(e) => {
+                  const scope = e.target.value as RetestScope;
+                  setForm(prev => ({ ...prev, scope, target: scope === 'SYSTEM' ? healthSystems[0] : markers[0]?.code || '' }));
+                }}
+              >
+                <option value="SYSTEM">Body system</option>
+                <option value="MARKER">Marker</option>
+              </select>
+            </div>
+            <div className="w-full">
+              <label className="block text-xs font-bold text-stone-500 uppercase tracking-wider mb-1.5">
+                {form.scope === 'SYSTEM' ? 'System' : 'Marker'}
+              </label>
+              <select
+                className="w-full bg-stone-50 border border-stone-200 rounded-xl px-4 py-2.5 text-stone-800"
+                value={form.target}
+                onChange={(e) => setForm(prev => ({ ...prev, target: e.target.value }))}
+              >
+                {form.scope === 'SYSTEM'
+                  ? healthSystems.map(system => <option key={system} value={system}>{systemLabel(system)}</option>)
+                  : markers.map(marker => <option key={marker.code} value={marker.code}>{marker.name}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              label="In range (months)"
+              type="number"
+              min="1"
+              value={form.inRangeMonths}
+              onChange={(e) => setForm(prev => ({ ...prev, inRangeMonths: e.target.value }))}
+            />
+            <Input
+              label="Out of range (months)"
+              type="number"
+              min="1"
+              value={form.outOfRangeMonths}
+              onChange={(e) => setForm(prev => ({ ...prev, outOfRangeMonths: e.target.value }))}
+            />
+          </div>
+
+          {error && <p className="text-sm text-rose-600">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" type="button" onClick={onClose}>Close</Button>
+            <Button variant="primary" type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving…' : 'Save interval'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </Modal>
+  );
+};
@@ -2,7 +2,7 @@ import React from 'react';
 import { SystemSummary } from '../../src/types/health';
 import { Card, Icon } from '../Shared';
 
-const statusStyles: Record<SystemSummary['status'], string> = {
+export const systemStatusStyles: Record<SystemSummary['status'], string> = {
   OPTIMAL: 'bg-emerald-100 text-emerald-700',
   ATTENTION: 'bg-amber-100 text-amber-700',
   CONCERN: 'bg-rose-100 text-rose-700',
@@ -31,7 +31,7 @@ export const SystemCard: React.FC<{
             <p className="text-xs text-stone-500">{summary.markerCount} markers</p>
           </div>
         </div>
-        <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-full ${statusStyles[summary.status]}`}>
+        <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-full ${systemStatusStyles[summary.status]}`}>
           {summary.status}
         </span>
       </div>
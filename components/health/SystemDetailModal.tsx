@@ -1,5 +1,5 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { HealthReport, SystemSummary } from '../../src/types/health';
+import { HealthDemographics, HealthReport, SystemSummary } from '../../src/types/health';
 import { Modal, Icon, Button } from '../Shared';
 import { MarkerRow } from './MarkerRow';
 import { MarkerTrendChart } from './charts/MarkerTrendChart';
@@ -9,7 +9,8 @@ export const SystemDetailModal: React.FC<{
   onClose: () => void;
   summary: SystemSummary | null;
   reports: HealthReport[];
-}> = ({ isOpen, onClose, summary, reports }) => {
+  demographics?: HealthDemographics;
+}> = ({ isOpen, onClose, summary, reports, demographics }) => {
   const [selectedCode, setSelectedCode] = useState<string | null>(null);
 
   useEffect(() => {
@@ -95,7 +96,7 @@ export const SystemDetailModal: React.FC<{
               disabled={!value.markerCode}
               className={`text-left w-full ${value.markerCode ? '' : 'opacity-70 cursor-not-allowed'}`}
             >
-              <MarkerRow value={value} />
+              <MarkerRow value={value} demographics={demographics} />
             </button>
           ))}
         </div>
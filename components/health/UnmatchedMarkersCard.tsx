@@ -0,0 +1,107 @@
+import React, { useMemo, useState } from 'react';
+import { HealthMarker, HealthSystem, UnmatchedMarkerGroup } from '../../src/types/health';
+import { systemLabel } from '../../src/data/healthMarkers';
+import { Button, Card, Icon } from '../Shared';
+
+const formatValue = (group: UnmatchedMarkerGroup) => {
+  const { latest } = group;
+  const value = latest.value !== null && latest.value !== undefined ? String(latest.value) : latest.valueText || '--';
+  return latest.unit ? `${value} ${latest.unit}` : value;
+};
+
+export const UnmatchedMarkersCard: React.FC<{
+  groups: UnmatchedMarkerGroup[];
+  markers: HealthMarker[];
+  onMap: (markerName: string, markerCode: string) => Promise<void>;
+  onCreateMarker?: (markerName: string) => void;
+}> = ({ groups, markers, onMap, onCreateMarker }) => {
+  const [selection, setSelection] = useState<Record<string, string>>({});
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const markersBySystem = useMemo(() => {
+    const grouped = new Map<HealthSystem, HealthMarker[]>();
+    markers.forEach(marker => {
+      const list = grouped.get(marker.system) || [];
+      list.push(marker);
+      grouped.set(marker.system, list);
+    });
+    return Array.from(grouped.entries());
+  }, [markers]);
+
+  if (groups.length === 0) return null;
+
+  const handleMap = async (group: UnmatchedMarkerGroup) => {
+    const code = selection[group.key];
+    if (!code) return;
+    setError(null);
+    setSavingKey(group.key);
+    try {
+      await onMap(group.name, code);
+    } catch (err: any) {
+      setError(err.message || 'Failed to map marker.');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  return (
+    <Card className="bg-white border-amber-100">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <p className="text-sm font-semibold text-stone-800">Unmatched</p>
+          <p className="text-xs text-stone-400">Lab names we couldn't link to a marker. Map once and future reports follow.</p>
+        </div>
+        <Icon name="help" className="text-amber-300" />
+      </div>
+      <div className="space-y-3">
+        {groups.map(group => (
+          <div key={group.key} className="p-3 rounded-2xl border border-amber-100 bg-amber-50/40 space-y-2">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <p className="text-sm font-semibold text-stone-800">{group.name}</p>
+                <p className="text-xs text-stone-500">
+                  {formatValue(group)} · {group.latest.testDate}
+                  {group.values.length > 1 && ` · ${group.values.length} readings`}
+                </p>
+              </div>
+              {onCreateMarker && (
+                <button
+                  onClick={() => onCreateMarker(group.name)}
+                  className="text-xs font-semibold text-stone-500 hover:text-stone-800 whitespace-nowrap"
+                >
+                  New marker
+                </button>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                className="flex-1 bg-white border border-stone-200 rounded-xl px-3 py-2 text-sm text-stone-800"
+                value={selection[group.key] || ''}
+                onChange={(e) => setSelection(prev => ({ ...prev, [group.key]: e.target.value }))}
+              >
+                <option value="">Map to marker…</option>
+                {markersBySystem.map(([system, list]) => (
+                  <optgroup key={system} label={systemLabel(system)}>
+                    {list.map(marker => (
+                      <option key={marker.code} value={marker.code}>{marker.name}</option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+              <Button
+                variant="secondary"
+                size="sm"
+                disabled={!selection[group.key] || savingKey === group.key}
+                onClick={() => handleMap(group)}
+              >
+                {savingKey === group.key ? 'Mapping…' : 'Map'}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+      {error && <p className="text-sm text-rose-600 mt-3">{error}</p>}
+    </Card>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { VitalContext, VitalKind } from '../../src/types/health';
+import { getVitalKind, vitalContextLabels, vitalKinds } from '../../src/data/vitalKinds';
+import { VitalInput } from '../../src/hooks/useHealthVitals';
+import { Button, Input, Modal } from '../Shared';
+
+const DEFAULT_KIND: VitalKind = 'GLUCOSE';
+
+// datetime-local wants local time without a zone suffix
+const nowLocal = () => {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export const VitalEntryForm: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  initialKind?: VitalKind;
+  onSave: (input: VitalInput) => Promise<void>;
+}> = ({ isOpen, onClose, initialKind = DEFAULT_KIND, onSave }) => {
+  const [kind, setKind] = useState<VitalKind>(initialKind);
+  const [value, setValue] = useState('');
+  const [unit, setUnit] = useState(getVitalKind(initialKind).unit);
+  const [measuredAt, setMeasuredAt] = useState(nowLocal());
+  const [context, setContext] = useState<VitalContext | ''>('');
+  const [notes, setNotes] = useState('');
+  const [keepOpen, setKeepOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const definition = getVitalKind(kind);
+  const units = [definition.unit, ...definition.conversions.flatMap(conversion => conversion.units.slice(0, 1))];
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setKind(initialKind);
+    setUnit(getVitalKind(initialKind).unit);
+    setValue('');
+    setMeasuredAt(nowLocal());
+    setContext('');
+    setNotes('');
+    setError(null);
+  }, [isOpen, initialKind]);
+
+  const handleKindChange = (next: VitalKind) => {
+    setKind(next);
+    setUnit(getVitalKind(next).unit);
+    setContext('');
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const numeric = Number(value);
+    if (value.trim() === '' || !Number.isFinite(numeric)) {
+      setError('Enter a numeric value.');
+      return;
+    }
+    setError(null);
+    setIsSaving(true);
+    try {
+      await onSave({
+        kind,
+        value: numeric,
+        unit,
+        measuredAt: new Date(measuredAt).toISOString(),
+        context: context || null,
+        notes: notes.trim() || null,
+      });
+      if (keepOpen) {
+        setValue('');
+        setNotes('');
+        setMeasuredAt(nowLocal());
+      } else {
+        onClose();
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to save reading.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Log Vital">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {vitalKinds.map(item => (
+            <button
+              key={item.kind}
+              type="button"
+              onClick={() => handleKindChange(item.kind)}
+              className={`text-xs px-3 py-1 rounded-full border ${item.kind === kind ? 'bg-stone-900 text-white border-stone-900' : 'border-stone-200 text-stone-500 hover:border-stone-300'}`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-3 gap-3">
+          <div className="col-span-2">
+            <Input
+              label={definition.label}
+              type="number"
+              step="any"
+              inputMode="decimal"
+              autoFocus
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+            />
+          </div>
+          <div className="w-full">
+            <label className="block text-xs font-bold text-stone-500 uppercase tracking-wider mb-1.5">Unit</label>
+            <select
+              className="w-full bg-stone-50 border border-stone-200 rounded-xl px-3 py-2.5 text-stone-800"
+              value={unit}
+              onChange={(e) => setUnit(e.target.value)}
+            >
+              {units.map(item => (
+                <option key={item} value={item}>{item}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <Input label="Taken at" type="datetime-local" value={measuredAt} onChange={(e) => setMeasuredAt(e.target.value)} />
+        {definition.contexts.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {definition.contexts.map(item => (
+              <button
+                key={item}
+                type="button"
+                onClick={() => setContext(prev => (prev === item ? '' : item))}
+                className={`text-xs px-3 py-1 rounded-full border ${context === item ? 'bg-emerald-600 text-white border-emerald-600' : 'border-stone-200 text-stone-500 hover:border-stone-300'}`}
+              >
+                {vitalContextLabels[item]}
+              </button>
+            ))}
+          </div>
+        )}
+        <Input label="Notes" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional" />
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+        <div className="flex items-center justify-between gap-2">
+          <label className="flex items-center gap-2 text-xs text-stone-500">
+            <input type="checkbox" checked={keepOpen} onChange={(e) => setKeepOpen(e.target.checked)} />
+            Log another
+          </label>
+          <div className="flex gap-2">
+            <Button variant="ghost" type="button" onClick={onClose}>Cancel</Button>
+            <Button variant="primary" type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving…' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </form>
+    </Modal>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { HealthVital, VitalKind, VitalStats } from '../../src/types/health';
+import { getVitalKind, vitalContextLabels, vitalKinds } from '../../src/data/vitalKinds';
+import { isVitalInRange } from '../../src/utils/healthCalculations';
+import { Button, Card, Icon } from '../Shared';
+import { MarkerTrendChart } from './charts/MarkerTrendChart';
+
+const CHART_DAYS = 30;
+const VALUE_LABEL_LIMIT = 12;
+
+const formatNumber = (value: number | null | undefined, decimals: number) =>
+  value === null || value === undefined ? '--' : value.toFixed(decimals);
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export const VitalsCard: React.FC<{
+  vitals: HealthVital[];
+  stats: VitalStats[];
+  onLog: (kind: VitalKind) => void;
+  onDelete: (vitalId: string) => Promise<void>;
+}> = ({ vitals, stats, onLog, onDelete }) => {
+  const [activeKind, setActiveKind] = useState<VitalKind>(() => stats.find(item => item.latest)?.kind || 'GLUCOSE');
+
+  const definition = getVitalKind(activeKind);
+  const activeStats = stats.find(item => item.kind === activeKind);
+
+  const readings = useMemo(() => {
+    const cutoff = Date.now() - CHART_DAYS * 24 * 60 * 60 * 1000;
+    return vitals.filter(vital => vital.kind === activeKind && new Date(vital.measuredAt).getTime() >= cutoff);
+  }, [activeKind, vitals]);
+
+  const chartData = useMemo(
+    () => readings.map(vital => ({ date: vital.measuredAt, value: vital.value })),
+    [readings]
+  );
+
+  const target = definition.target;
+  const targetRange = target.min !== undefined && target.max !== undefined ? { min: target.min, max: target.max } : undefined;
+
+  return (
+    <Card className="bg-white border-stone-100">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <p className="text-sm font-semibold text-stone-800">Vitals</p>
+          <p className="text-xs text-stone-400">Day-to-day readings between lab reports</p>
+        </div>
+        <Button variant="secondary" size="sm" onClick={() => onLog(activeKind)}>
+          <Icon name="add" className="text-base" /> Log
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-4">
+        {vitalKinds.map(item => {
+          const itemStats = stats.find(stat => stat.kind === item.kind);
+          const isActive = item.kind === activeKind;
+          return (
+            <button
+              key={item.kind}
+              onClick={() => setActiveKind(item.kind)}
+              className={`text-left p-3 rounded-2xl border transition-colors ${isActive ? 'border-stone-900 bg-stone-50' : 'border-stone-100 hover:border-stone-200'}`}
+            >
+              <div className="flex items-center gap-2 text-stone-400">
+                <Icon name={item.icon} className="text-base" />
+                <span className="text-[11px] uppercase tracking-wider font-bold">{item.label}</span>
+              </div>
+              <p className="text-lg font-semibold text-stone-800">
+                {itemStats?.latest ? `${formatNumber(itemStats.latest.value, item.decimals)} ${item.unit}` : '--'}
+              </p>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-4">
+        <div className="p-3 rounded-2xl bg-stone-50">
+          <p className="text-[11px] uppercase tracking-wider text-stone-400 font-bold">7-day avg</p>
+          <p className="text-base font-semibold text-stone-800">{formatNumber(activeStats?.average7d, definition.decimals)}</p>
+        </div>
+        <div className="p-3 rounded-2xl bg-stone-50">
+          <p className="text-[11px] uppercase tracking-wider text-stone-400 font-bold">30-day avg</p>
+          <p className="text-base font-semibold text-stone-800">{formatNumber(activeStats?.average30d, definition.decimals)}</p>
+        </div>
+        <div className="p-3 rounded-2xl bg-stone-50">
+          <p className="text-[11px] uppercase tracking-wider text-stone-400 font-bold">In range</p>
+          <p className="text-base font-semibold text-emerald-700">
+            {activeStats?.timeInRange !== null && activeStats?.timeInRange !== undefined ? `${activeStats.timeInRange}%` : '--'}
+          </p>
+          <p className="text-[10px] text-stone-400">{activeStats?.count30d || 0} readings / 30 days</p>
+        </div>
+      </div>
+
+      {chartData.length === 0 ? (
+        <div className="text-sm text-stone-400">No {definition.label.toLowerCase()} readings in the last {CHART_DAYS} days.</div>
+      ) : (
+        <MarkerTrendChart
+          data={chartData}
+          optimalRange={targetRange}
+          rangeLabel="Target"
+          showValueLabels={chartData.length <= VALUE_LABEL_LIMIT}
+        />
+      )}
+
+      {readings.length > 0 && (
+        <div className="mt-4 space-y-2 max-h-48 overflow-y-auto pr-1">
+          {readings.slice(0, 20).map(vital => (
+            <div key={vital.id} className="flex items-center justify-between text-sm">
+              <div>
+                <span className={`font-semibold ${isVitalInRange(vital) ? 'text-stone-800' : 'text-rose-700'}`}>
+                  {formatNumber(vital.value, definition.decimals)} {vital.unit}
+                </span>
+                <span className="text-xs text-stone-400 ml-2">
+                  {formatTime(vital.measuredAt)}
+                  {vital.context && ` · ${vitalContextLabels[vital.context]}`}
+                </span>
+              </div>
+              <button
+                onClick={() => onDelete(vital.id).catch(err => console.error('Failed to delete vital', err))}
+                className="p-1 rounded-full text-stone-300 hover:text-rose-600 hover:bg-rose-50"
+                aria-label="Delete reading"
+              >
+                <Icon name="delete" className="text-base" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
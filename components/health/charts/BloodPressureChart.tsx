@@ -0,0 +1,127 @@
+import React, { useId, useMemo } from 'react';
+import * as d3 from 'd3';
+import { BloodPressureDay } from '../../../src/types/health';
+import { useChartSize } from './useChartSize';
+
+const SYSTOLIC_COLOR = '#E11D48';
+const DIASTOLIC_COLOR = '#6366F1';
+
+// Stage 1 thresholds drawn as dashed guides
+const SYSTOLIC_GUIDE = 130;
+const DIASTOLIC_GUIDE = 80;
+
+type ChartDay = BloodPressureDay & { parsedDate: Date };
+
+export const BloodPressureChart: React.FC<{
+  days: BloodPressureDay[];
+  height?: number;
+}> = ({ days, height = 200 }) => {
+  const { ref, width } = useChartSize();
+  const clipId = useId();
+
+  const chart = useMemo(() => {
+    if (!width || days.length === 0) return null;
+
+    const margin = { top: 20, right: 14, bottom: 40, left: 40 };
+    const innerWidth = width - margin.left - margin.right;
+    const innerHeight = height - margin.top - margin.bottom;
+
+    const parsed: ChartDay[] = days
+      .map(day => ({ ...day, parsedDate: new Date(`${day.date}T00:00:00Z`) }))
+      .sort((a, b) => a.parsedDate.getTime() - b.parsedDate.getTime());
+
+    const xDomain = d3.extent(parsed, (d: ChartDay) => d.parsedDate) as [Date, Date];
+    const yMin = Math.min(d3.min(parsed, (d: ChartDay) => d.diastolic) ?? DIASTOLIC_GUIDE, DIASTOLIC_GUIDE);
+    const yMax = Math.max(d3.max(parsed, (d: ChartDay) => d.systolic) ?? SYSTOLIC_GUIDE, SYSTOLIC_GUIDE);
+    const pad = (yMax - yMin) * 0.15 || 10;
+
+    const x = d3.scaleTime().domain(xDomain).range([0, innerWidth]);
+    const y = d3.scaleLinear().domain([yMin - pad, yMax + pad]).range([innerHeight, 0]);
+
+    const lineFor = (key: 'systolic' | 'diastolic') => d3.line<ChartDay>()
+      .x(d => x(d.parsedDate))
+      .y(d => y(d[key]))
+      .curve(d3.curveMonotoneX);
+
+    const ticks = parsed.length <= 5 ? parsed.map(d => d.parsedDate) : x.ticks(5);
+    const spanDays = (xDomain[1].getTime() - xDomain[0].getTime()) / (1000 * 60 * 60 * 24);
+    const dateFormat = spanDays > 365 ? d3.utcFormat('%b %Y') : d3.utcFormat('%d %b');
+
+    return {
+      margin,
+      innerWidth,
+      innerHeight,
+      parsed,
+      x,
+      y,
+      systolicPath: lineFor('systolic')(parsed) || '',
+      diastolicPath: lineFor('diastolic')(parsed) || '',
+      ticks,
+      dateFormat,
+    };
+  }, [days, height, width]);
+
+  return (
+    <div ref={ref} className="w-full" style={{ height }}>
+      {chart && (
+        <svg width={width} height={height} className="overflow-hidden">
+          <defs>
+            <clipPath id={clipId}>
+              <rect width={chart.innerWidth} height={chart.innerHeight} />
+            </clipPath>
+          </defs>
+          <g transform={`translate(${chart.margin.left}, ${chart.margin.top})`}>
+            <g clipPath={`url(#${clipId})`}>
+              {[
+                { value: SYSTOLIC_GUIDE, color: SYSTOLIC_COLOR },
+                { value: DIASTOLIC_GUIDE, color: DIASTOLIC_COLOR },
+              ].map(guide => (
+                <g key={guide.value}>
+                  <line
+                    x1={0}
+                    x2={chart.innerWidth}
+                    y1={chart.y(guide.value)}
+                    y2={chart.y(guide.value)}
+                    stroke={guide.color}
+                    strokeDasharray="4 4"
+                    opacity={0.35}
+                  />
+                  <text x={chart.innerWidth - 4} y={chart.y(guide.value) - 4} textAnchor="end" fontSize="9" fill={guide.color} opacity={0.7}>
+                    {guide.value}
+                  </text>
+                </g>
+              ))}
+              <path d={chart.systolicPath} fill="none" stroke={SYSTOLIC_COLOR} strokeWidth={2.5} />
+              <path d={chart.diastolicPath} fill="none" stroke={DIASTOLIC_COLOR} strokeWidth={2.5} />
+              {chart.parsed.map(point => (
+                <g key={point.date}>
+                  <circle cx={chart.x(point.parsedDate)} cy={chart.y(point.systolic)} r={3.5} fill={SYSTOLIC_COLOR} stroke="#FFF1F2" strokeWidth={2}>
+                    <title>{`${point.date}: ${point.systolic}/${point.diastolic} (${point.readings} reading${point.readings === 1 ? '' : 's'})`}</title>
+                  </circle>
+                  <circle cx={chart.x(point.parsedDate)} cy={chart.y(point.diastolic)} r={3.5} fill={DIASTOLIC_COLOR} stroke="#EEF2FF" strokeWidth={2} />
+                </g>
+              ))}
+            </g>
+            <g>
+              {chart.y.ticks(4).map(tick => (
+                <text key={tick} x={-8} y={chart.y(tick)} dy="0.32em" textAnchor="end" fontSize="10" fill="#A8A29E">
+                  {tick}
+                </text>
+              ))}
+            </g>
+            <g transform={`translate(0, ${chart.innerHeight})`}>
+              {chart.ticks.map((tick, idx) => (
+                <g key={idx} transform={`translate(${chart.x(tick)}, 0)`}>
+                  <line y2="6" stroke="#D6D3D1" />
+                  <text y="18" textAnchor="middle" fontSize="10" fill="#78716C">
+                    {chart.dateFormat(tick)}
+                  </text>
+                </g>
+              ))}
+            </g>
+          </g>
+        </svg>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useId, useMemo } from 'react';
+import * as d3 from 'd3';
+import { GrowthAssessment, GrowthPoint } from '../../../src/types/health';
+import { growthPercentileLines, growthStandards } from '../../../src/data/growthStandards';
+import { lmsAtAge, lmsValueAtZ, percentileToZScore } from '../../../src/utils/healthCalculations';
+import { useChartSize } from './useChartSize';
+
+const CURVE_STEPS = 48;
+
+const formatAge = (months: number) => (months < 24 ? `${Math.round(months)}m` : `${Math.round(months / 12)}y`);
+
+interface CurvePoint {
+  ageMonths: number;
+  value: number;
+}
+
+export const GrowthChart: React.FC<{
+  assessment: GrowthAssessment;
+  sex: 'male' | 'female';
+  height?: number;
+}> = ({ assessment, sex, height = 220 }) => {
+  const { ref, width } = useChartSize();
+  const clipId = useId();
+
+  const chart = useMemo(() => {
+    if (!width || assessment.points.length === 0) return null;
+
+    const margin = { top: 16, right: 36, bottom: 36, left: 40 };
+    const innerWidth = width - margin.left - margin.right;
+    const innerHeight = height - margin.top - margin.bottom;
+
+    const table = growthStandards[assessment.metric][sex];
+    const tableMin = table[0].ageMonths;
+    const tableMax = table[table.length - 1].ageMonths;
+    const firstAge = assessment.points[0].ageMonths;
+    const lastAge = assessment.points[assessment.points.length - 1].ageMonths;
+    // Show a little context either side of the child's measurements
+    const span = Math.max(lastAge - firstAge, 6);
+    const ageDomain: [number, number] = [
+      Math.max(tableMin, firstAge - span * 0.25),
+      Math.min(tableMax, lastAge + span * 0.25),
+    ];
+
+    const curves = growthPercentileLines.map(percentile => {
+      const z = percentileToZScore(percentile);
+      const points: CurvePoint[] = d3.range(CURVE_STEPS + 1)
+        .map((step: number) => ageDomain[0] + ((ageDomain[1] - ageDomain[0]) * step) / CURVE_STEPS)
+        .map((ageMonths: number) => {
+          const lms = lmsAtAge(table, ageMonths);
+          return lms ? { ageMonths, value: lmsValueAtZ(z, lms) } : null;
+        })
+        .filter((point: CurvePoint | null): point is CurvePoint => Boolean(point));
+      return { percentile, points };
+    });
+
+    const allValues = [
+      ...curves.flatMap(curve => curve.points.map(point => point.value)),
+      ...assessment.points.map(point => point.value),
+    ];
+    const yMin = Math.min(...allValues);
+    const yMax = Math.max(...allValues);
+    const pad = (yMax - yMin) * 0.05 || 1;
+
+    const x = d3.scaleLinear().domain(ageDomain).range([0, innerWidth]);
+    const y = d3.scaleLinear().domain([yMin - pad, yMax + pad]).range([innerHeight, 0]);
+
+    const curveLine = d3.line<CurvePoint>()
+      .x(d => x(d.ageMonths))
+      .y(d => y(d.value))
+      .curve(d3.curveMonotoneX);
+    const childLine = d3.line<GrowthPoint>()
+      .x(d => x(d.ageMonths))
+      .y(d => y(d.value));
+
+    return { margin, innerWidth, innerHeight, x, y, curves, curveLine, childLine };
+  }, [assessment, height, sex, width]);
+
+  return (
+    <div ref={ref} className="w-full" style={{ height }}>
+      {chart && (
+        <svg width={width} height={height} className="overflow-hidden">
+          <defs>
+            <clipPath id={clipId}>
+              <rect width={chart.innerWidth} height={chart.innerHeight} />
+            </clipPath>
+          </defs>
+          <g transform={`translate(${chart.margin.left}, ${chart.margin.top})`}>
+            <g clipPath={`url(#${clipId})`}>
+              {chart.curves.map(curve => (
+                <path
+                  key={curve.percentile}
+                  d={chart.curveLine(curve.points) || ''}
+                  fill="none"
+                  stroke={curve.percentile === 50 ? '#10B981' : '#A8A29E'}
+                  strokeWidth={curve.percentile === 50 ? 1.75 : 1}
+                  strokeDasharray={curve.percentile === 50 ? undefined : '3 3'}
+                />
+              ))}
+              <path d={chart.childLine(assessment.points) || ''} fill="none" stroke="#0F766E" strokeWidth={2.5} />
+              {assessment.points.map(point => (
+                <circle
+                  key={point.date}
+                  cx={chart.x(point.ageMonths)}
+                  cy={chart.y(point.value)}
+                  r={4}
+                  fill="#0F766E"
+                  stroke="#ECFDF5"
+                  strokeWidth={2}
+                >
+                  <title>{`${point.date}: ${point.value} (P${point.percentile}, z ${point.zScore})`}</title>
+                </circle>
+              ))}
+            </g>
+            {chart.curves.map(curve => {
+              const last = curve.points[curve.points.length - 1];
+              return last ? (
+                <text
+                  key={`label-${curve.percentile}`}
+                  x={chart.innerWidth + 4}
+                  y={chart.y(last.value)}
+                  dy="0.32em"
+                  fontSize="9"
+                  fill="#A8A29E"
+                >
+                  P{curve.percentile}
+                </text>
+              ) : null;
+            })}
+            {chart.y.ticks(4).map(tick => (
+              <text key={tick} x={-8} y={chart.y(tick)} dy="0.32em" textAnchor="end" fontSize="10" fill="#A8A29E">
+                {tick}
+              </text>
+            ))}
+            <g transform={`translate(0, ${chart.innerHeight})`}>
+              {chart.x.ticks(5).map(tick => (
+                <g key={tick} transform={`translate(${chart.x(tick)}, 0)`}>
+                  <line y2="6" stroke="#D6D3D1" />
+                  <text y="18" textAnchor="middle" fontSize="10" fill="#78716C">
+                    {formatAge(tick)}
+                  </text>
+                </g>
+              ))}
+            </g>
+          </g>
+        </svg>
+      )}
+    </div>
+  );
+};
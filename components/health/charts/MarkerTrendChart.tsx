@@ -35,7 +35,9 @@ export const MarkerTrendChart: React.FC<{
   data: DataPoint[];
   optimalRange?: { min: number; max: number };
   height?: number;
-}> = ({ data, optimalRange, height = 180 }) => {
+  rangeLabel?: string;
+  showValueLabels?: boolean;
+}> = ({ data, optimalRange, height = 180, rangeLabel = 'Optimal', showValueLabels = true }) => {
   const { ref, width } = useChartSize();
   const clipId = useId();
 
@@ -113,7 +115,7 @@ export const MarkerTrendChart: React.FC<{
                       height={bandHeight}
                       fill="rgba(16, 185, 129, 0.12)"
                     />
-                    {/* Optimal range label */}
+                    {/* Target range label */}
                     <text
                       x={chart.innerWidth - 4}
                       y={top + 12}
@@ -123,7 +125,7 @@ export const MarkerTrendChart: React.FC<{
                       opacity={0.7}
                       fontWeight={600}
                     >
-                      Optimal {formatValueLabel(optimalRange.min)}–{formatValueLabel(optimalRange.max)}
+                      {rangeLabel} {formatValueLabel(optimalRange.min)}–{formatValueLabel(optimalRange.max)}
                     </text>
                   </g>
                 );
@@ -151,7 +153,7 @@ export const MarkerTrendChart: React.FC<{
                 </g>
               ))}
             </g>
-            {chart.parsed.map((point, idx) => (
+            {showValueLabels && chart.parsed.map((point, idx) => (
               <text
                 key={`value-${idx}`}
                 x={chart.x(point.date)}
@@ -1,5 +1,6 @@
 import React from 'react';
-import { HealthMarker, HealthValueStatus } from '../../../src/types/health';
+import { HealthDemographics, HealthMarker, HealthValueStatus } from '../../../src/types/health';
+import { resolveMarkerRange } from '../../../src/utils/healthCalculations';
 
 const statusColors: Record<HealthValueStatus, string> = {
   OPTIMAL: 'bg-emerald-500',
@@ -23,7 +24,10 @@ export const RangeIndicator: React.FC<{
   marker?: HealthMarker | null;
   value?: number | null;
   status: HealthValueStatus;
-}> = ({ marker, value, status }) => {
+  demographics?: HealthDemographics;
+  testDate?: string;
+}> = ({ marker: baseMarker, value, status, demographics, testDate }) => {
+  const marker = resolveMarkerRange(baseMarker, demographics, testDate);
   if (!marker || value === null || value === undefined) {
     return (
       <div className="space-y-1">
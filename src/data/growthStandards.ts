@@ -0,0 +1,90 @@
+import { GrowthMetric } from '../types/health';
+
+// LMS parameters (Box-Cox power L, median M, coefficient of variation S) at selected ages.
+// 0-24 months: WHO Child Growth Standards (2006). 24-240 months: CDC 2000 growth charts.
+// Condensed to the listed ages; values in between are linearly interpolated.
+
+export interface LmsPoint {
+  ageMonths: number;
+  l: number;
+  m: number;
+  s: number;
+}
+
+type GrowthSex = 'male' | 'female';
+
+export const GROWTH_MAX_AGE_MONTHS = 240;
+
+export const growthPercentileLines = [3, 15, 50, 85, 97];
+
+export const growthMetricLabels: Record<GrowthMetric, { label: string; unit: string }> = {
+  WEIGHT: { label: 'Weight-for-age', unit: 'kg' },
+  HEIGHT: { label: 'Height-for-age', unit: 'cm' },
+  HEAD: { label: 'Head circumference', unit: 'cm' },
+  BMI: { label: 'BMI-for-age', unit: 'kg/m²' },
+};
+
+const rows = (values: [number, number, number, number][]): LmsPoint[] =>
+  values.map(([ageMonths, l, m, s]) => ({ ageMonths, l, m, s }));
+
+export const growthStandards: Record<GrowthMetric, Record<GrowthSex, LmsPoint[]>> = {
+  WEIGHT: {
+    male: rows([
+      [0, 0.3487, 3.3464, 0.14602], [3, 0.2303, 6.3762, 0.11727], [6, 0.1257, 7.934, 0.11080], [9, 0.0496, 8.9014, 0.10850],
+      [12, -0.0137, 9.6479, 0.10925], [18, -0.1068, 10.9385, 0.11249], [24, -0.2, 12.7, 0.108],
+      [36, -0.5, 14.3, 0.110], [48, -0.8, 16.3, 0.115], [60, -1.0, 18.4, 0.122], [72, -1.1, 20.7, 0.130],
+      [96, -1.2, 25.6, 0.150], [120, -1.1, 31.9, 0.170], [144, -0.8, 40.5, 0.180], [168, -0.5, 51.0, 0.170],
+      [192, -0.3, 61.3, 0.150], [216, -0.2, 67.2, 0.140], [240, -0.2, 70.6, 0.135],
+    ]),
+    female: rows([
+      [0, 0.3809, 3.2322, 0.14171], [3, 0.1395, 5.8458, 0.12619], [6, 0.0641, 7.297, 0.12203], [9, 0.0063, 8.2254, 0.12062],
+      [12, -0.0404, 8.9481, 0.12071], [18, -0.1105, 10.2315, 0.12190], [24, -0.6, 12.1, 0.110],
+      [36, -0.9, 14.0, 0.115], [48, -1.1, 15.9, 0.122], [60, -1.2, 17.9, 0.130], [72, -1.3, 20.2, 0.140],
+      [96, -1.3, 25.6, 0.160], [120, -1.2, 32.5, 0.180], [144, -1.0, 41.4, 0.180], [168, -0.8, 49.4, 0.170],
+      [192, -0.6, 53.5, 0.160], [216, -0.5, 56.6, 0.155], [240, -0.4, 58.2, 0.155],
+    ]),
+  },
+  HEIGHT: {
+    male: rows([
+      [0, 1, 49.8842, 0.03795], [3, 1, 61.4292, 0.03328], [6, 1, 67.6236, 0.03165], [9, 1, 72.0023, 0.03160],
+      [12, 1, 75.7488, 0.03137], [18, 1, 82.2587, 0.03279], [24, 1, 86.9, 0.040],
+      [36, 1, 95.3, 0.041], [48, 1, 102.5, 0.042], [60, 1, 109.2, 0.043], [72, 1, 115.5, 0.043],
+      [96, 1, 128.0, 0.044], [120, 1, 138.5, 0.046], [144, 1, 149.1, 0.048], [168, 1, 163.2, 0.047],
+      [192, 1, 173.5, 0.043], [216, 1, 176.2, 0.040], [240, 1, 176.8, 0.040],
+    ]),
+    female: rows([
+      [0, 1, 49.1477, 0.0379], [3, 1, 59.8029, 0.03520], [6, 1, 65.7311, 0.03448], [9, 1, 70.1435, 0.03479],
+      [12, 1, 74.0153, 0.03479], [18, 1, 80.7079, 0.03598], [24, 1, 85.4, 0.040],
+      [36, 1, 94.1, 0.040], [48, 1, 101.6, 0.041], [60, 1, 108.4, 0.042], [72, 1, 115.0, 0.043],
+      [96, 1, 127.6, 0.045], [120, 1, 138.6, 0.047], [144, 1, 151.2, 0.046], [168, 1, 159.8, 0.042],
+      [192, 1, 162.5, 0.039], [216, 1, 163.3, 0.038], [240, 1, 163.3, 0.038],
+    ]),
+  },
+  // WHO only; CDC head circumference stops at 36 months
+  HEAD: {
+    male: rows([
+      [0, 1, 34.4618, 0.03686], [3, 1, 40.5135, 0.02918], [6, 1, 43.3306, 0.02802], [9, 1, 44.9998, 0.02781],
+      [12, 1, 46.0661, 0.02755], [18, 1, 47.4, 0.0278], [24, 1, 48.2515, 0.02832],
+    ]),
+    female: rows([
+      [0, 1, 33.8787, 0.03496], [3, 1, 39.5328, 0.03031], [6, 1, 42.1995, 0.02969], [9, 1, 43.7946, 0.02954],
+      [12, 1, 44.8965, 0.02949], [18, 1, 46.2, 0.0296], [24, 1, 47.2, 0.02970],
+    ]),
+  },
+  BMI: {
+    male: rows([
+      [0, -0.3053, 13.4069, 0.0956], [3, 0.0276, 16.8987, 0.08288], [6, -0.0951, 17.3422, 0.08128], [9, -0.1955, 17.0306, 0.08088],
+      [12, -0.2586, 16.7693, 0.08073], [18, -0.3497, 16.1, 0.0808], [24, -2.0, 16.6, 0.080],
+      [36, -2.0, 16.0, 0.078], [48, -2.0, 15.6, 0.079], [60, -2.1, 15.4, 0.083], [72, -2.2, 15.4, 0.090],
+      [96, -2.4, 15.8, 0.105], [120, -2.4, 16.6, 0.125], [144, -2.2, 17.9, 0.135], [168, -2.0, 19.2, 0.135],
+      [192, -1.9, 20.5, 0.130], [216, -1.8, 21.7, 0.125], [240, -1.8, 22.6, 0.125],
+    ]),
+    female: rows([
+      [0, -0.0631, 13.3363, 0.09272], [3, -0.0507, 16.4, 0.0863], [6, -0.1391, 16.9, 0.0838], [9, -0.2236, 16.6, 0.0836],
+      [12, -0.2867, 16.4, 0.0838], [18, -0.3727, 15.8, 0.0850], [24, -1.9, 16.4, 0.085],
+      [36, -1.9, 15.7, 0.083], [48, -2.0, 15.3, 0.087], [60, -2.1, 15.2, 0.095], [72, -2.2, 15.2, 0.105],
+      [96, -2.3, 15.8, 0.125], [120, -2.2, 16.9, 0.140], [144, -2.1, 18.4, 0.150], [168, -2.0, 19.6, 0.150],
+      [192, -2.0, 20.6, 0.150], [216, -2.0, 21.3, 0.150], [240, -2.0, 21.7, 0.150],
+    ]),
+  },
+};
@@ -0,0 +1,39 @@
+import { CriticalThreshold, HealthAlertSeverity } from '../types/health';
+
+// Adult critical ("panic") limits, in the canonical unit of each marker in healthMarkersSeed. A value at or
+// beyond a limit raises a CRITICAL alert; markers without an entry only get range and trend alerts.
+export const criticalThresholds: Record<string, CriticalThreshold> = {
+  GLUCOSE_FASTING: { low: 50, high: 300 },
+  HBA1C: { high: 10 },
+
+  POTASSIUM: { low: 2.8, high: 6.0 },
+  SODIUM: { low: 120, high: 160 },
+  CHLORIDE: { low: 80, high: 120 },
+  CO2: { low: 10, high: 40 },
+  CALCIUM: { low: 6.5, high: 13 },
+  MAGNESIUM: { low: 1.0, high: 4.7 },
+  PHOSPHORUS: { low: 1.0, high: 9.0 },
+
+  HEMOGLOBIN: { low: 7, high: 20 },
+  PLATELETS: { low: 20, high: 1000 },
+  WBC: { low: 2, high: 30 },
+  NEUTROPHILS_ABS: { low: 0.5 },
+
+  CREATININE: { high: 5 },
+  EGFR: { low: 15 },
+
+  AST: { high: 500 },
+  ALT: { high: 500 },
+  BILIRUBIN_TOTAL: { high: 15 },
+
+  TRIGLYCERIDES: { high: 1000 },
+};
+
+// A WORSENING alert needs at least this many reports with the marker, so one noisy result is not a trend
+export const MIN_TREND_POINTS = 3;
+
+// Days until a follow-up to-do created from an alert is due
+export const followUpDueDays: Record<HealthAlertSeverity, number> = {
+  CRITICAL: 1,
+  WARNING: 14,
+};
@@ -1,90 +1,149 @@
-import { HealthMarker, HealthSystem } from '../types/health';
+import { HealthMarker, HealthSystem, MarkerRangeBand } from '../types/health';
 
 type MarkerSeed = Omit<HealthMarker, 'id'> & { code: string };
 
+// Sex- and age-specific bands; markers without an entry use their single adult range for everyone
+const rangeBands: Record<string, MarkerRangeBand[]> = {
+  HEMOGLOBIN: [
+    { ageMax: 12, optimalMin: 11.8, optimalMax: 14.0, labMin: 11.5, labMax: 15.5 },
+    { sex: 'female', ageMin: 12, ageMax: 18, optimalMin: 12.5, optimalMax: 15.0, labMin: 12.0, labMax: 16.0 },
+    { sex: 'male', ageMin: 12, ageMax: 18, optimalMin: 13.5, optimalMax: 15.5, labMin: 13.0, labMax: 16.0 },
+    { sex: 'female', ageMin: 18, optimalMin: 12.5, optimalMax: 14.5, labMin: 12.0, labMax: 15.5 },
+    { sex: 'male', ageMin: 18, optimalMin: 14.0, optimalMax: 16.5, labMin: 13.5, labMax: 17.5 },
+  ],
+  HEMATOCRIT: [
+    { ageMax: 12, optimalMin: 35, optimalMax: 42, labMin: 35, labMax: 45 },
+    { sex: 'female', ageMin: 18, optimalMin: 37, optimalMax: 43, labMin: 36, labMax: 44 },
+    { sex: 'male', ageMin: 18, optimalMin: 42, optimalMax: 48, labMin: 41, labMax: 50 },
+  ],
+  RBC: [
+    { ageMax: 12, optimalMin: 4.1, optimalMax: 5.0, labMin: 4.0, labMax: 5.2 },
+    { sex: 'female', ageMin: 18, optimalMin: 4.2, optimalMax: 4.9, labMin: 4.0, labMax: 5.2 },
+    { sex: 'male', ageMin: 18, optimalMin: 4.6, optimalMax: 5.4, labMin: 4.5, labMax: 5.9 },
+  ],
+  FERRITIN: [
+    { ageMax: 18, optimalMin: 20, optimalMax: 80, labMin: 7, labMax: 140 },
+    { sex: 'female', ageMin: 18, ageMax: 50, optimalMin: 30, optimalMax: 100, labMin: 15, labMax: 150 },
+    { sex: 'female', ageMin: 50, optimalMin: 40, optimalMax: 150, labMin: 15, labMax: 300 },
+    { sex: 'male', ageMin: 18, optimalMin: 50, optimalMax: 150, labMin: 30, labMax: 400 },
+  ],
+  TESTOSTERONE_TOTAL: [
+    { ageMax: 10, optimalMin: 0, optimalMax: 20, labMin: 0, labMax: 20 },
+    { sex: 'male', ageMin: 10, ageMax: 18, optimalMin: 100, optimalMax: 800, labMin: 20, labMax: 1000 },
+    { sex: 'female', ageMin: 10, ageMax: 18, optimalMin: 10, optimalMax: 40, labMin: 5, labMax: 60 },
+    { sex: 'male', ageMin: 18, ageMax: 70, optimalMin: 400, optimalMax: 800, labMin: 300, labMax: 1000 },
+    { sex: 'male', ageMin: 70, optimalMin: 350, optimalMax: 700, labMin: 250, labMax: 900 },
+    { sex: 'female', ageMin: 18, optimalMin: 20, optimalMax: 50, labMin: 15, labMax: 70 },
+  ],
+  ESTRADIOL: [
+    { ageMax: 10, optimalMin: 0, optimalMax: 15, labMin: 0, labMax: 20 },
+    { sex: 'male', ageMin: 18, optimalMin: 20, optimalMax: 35, labMin: 10, labMax: 40 },
+    { sex: 'female', ageMin: 18, ageMax: 50, optimalMin: 50, optimalMax: 250, labMin: 30, labMax: 400 },
+    { sex: 'female', ageMin: 50, optimalMin: 0, optimalMax: 20, labMin: 0, labMax: 30 },
+  ],
+  CREATININE: [
+    { ageMax: 12, optimalMin: 0.3, optimalMax: 0.6, labMin: 0.3, labMax: 0.7 },
+    { ageMin: 12, ageMax: 18, optimalMin: 0.5, optimalMax: 0.9, labMin: 0.5, labMax: 1.0 },
+    { sex: 'female', ageMin: 18, optimalMin: 0.6, optimalMax: 0.9, labMin: 0.59, labMax: 1.04 },
+    { sex: 'male', ageMin: 18, optimalMin: 0.8, optimalMax: 1.1, labMin: 0.74, labMax: 1.35 },
+  ],
+  URIC_ACID: [
+    { ageMax: 12, optimalMin: 2.0, optimalMax: 5.0, labMin: 2.0, labMax: 5.5 },
+    { sex: 'female', ageMin: 18, optimalMin: 2.5, optimalMax: 5.5, labMin: 2.4, labMax: 6.0 },
+    { sex: 'male', ageMin: 18, optimalMin: 3.5, optimalMax: 6.5, labMin: 3.4, labMax: 7.0 },
+  ],
+  ALP: [
+    { ageMax: 18, optimalMin: 100, optimalMax: 350, labMin: 100, labMax: 390 },
+  ],
+  PHOSPHORUS: [
+    { ageMax: 12, optimalMin: 4.0, optimalMax: 6.0, labMin: 3.7, labMax: 6.5 },
+    { ageMin: 12, ageMax: 18, optimalMin: 3.0, optimalMax: 5.0, labMin: 2.9, labMax: 5.4 },
+  ],
+};
+
 export const healthMarkersSeed: MarkerSeed[] = [
-  { code: 'GLUCOSE_FASTING', name: 'Fasting Glucose', unit: 'mg/dL', system: 'METABOLIC', optimalMin: 70, optimalMax: 90, labMin: 70, labMax: 99, displayOrder: 10 },
-  { code: 'HBA1C', name: 'HbA1c', unit: '%', system: 'METABOLIC', optimalMin: 4.8, optimalMax: 5.3, labMin: 4, labMax: 5.6, displayOrder: 20 },
-  { code: 'INSULIN_FASTING', name: 'Fasting Insulin', unit: 'uIU/mL', system: 'METABOLIC', optimalMin: 2, optimalMax: 6, labMin: 2, labMax: 25, displayOrder: 30 },
-
-  { code: 'CHOL_TOTAL', name: 'Total Cholesterol', unit: 'mg/dL', system: 'LIPIDS', optimalMin: 150, optimalMax: 200, labMin: 125, labMax: 200, displayOrder: 10 },
-  { code: 'LDL', name: 'LDL Cholesterol', unit: 'mg/dL', system: 'LIPIDS', optimalMin: 50, optimalMax: 100, labMin: 0, labMax: 129, displayOrder: 20 },
-  { code: 'HDL', name: 'HDL Cholesterol', unit: 'mg/dL', system: 'LIPIDS', optimalMin: 50, optimalMax: 80, labMin: 40, labMax: 60, displayOrder: 30 },
-  { code: 'TRIGLYCERIDES', name: 'Triglycerides', unit: 'mg/dL', system: 'LIPIDS', optimalMin: 50, optimalMax: 100, labMin: 0, labMax: 150, displayOrder: 40 },
-  { code: 'VLDL', name: 'VLDL Cholesterol', unit: 'mg/dL', system: 'LIPIDS', optimalMin: 5, optimalMax: 20, labMin: 0, labMax: 30, displayOrder: 50 },
-  { code: 'NON_HDL', name: 'Non-HDL Cholesterol', unit: 'mg/dL', system: 'LIPIDS', optimalMin: 80, optimalMax: 130, labMin: 0, labMax: 160, displayOrder: 60 },
-  { code: 'APOB', name: 'Apolipoprotein B', unit: 'mg/dL', system: 'LIPIDS', optimalMin: 60, optimalMax: 90, labMin: 50, labMax: 120, displayOrder: 70 },
-
-  { code: 'AST', name: 'AST (SGOT)', unit: 'U/L', system: 'LIVER', optimalMin: 10, optimalMax: 30, labMin: 10, labMax: 40, displayOrder: 10 },
-  { code: 'ALT', name: 'ALT (SGPT)', unit: 'U/L', system: 'LIVER', optimalMin: 10, optimalMax: 30, labMin: 7, labMax: 40, displayOrder: 20 },
-  { code: 'ALP', name: 'Alkaline Phosphatase', unit: 'U/L', system: 'LIVER', optimalMin: 50, optimalMax: 100, labMin: 44, labMax: 120, displayOrder: 30 },
-  { code: 'GGT', name: 'GGT', unit: 'U/L', system: 'LIVER', optimalMin: 8, optimalMax: 30, labMin: 0, labMax: 60, displayOrder: 40 },
-  { code: 'BILIRUBIN_TOTAL', name: 'Bilirubin Total', unit: 'mg/dL', system: 'LIVER', optimalMin: 0.3, optimalMax: 1.0, labMin: 0.1, labMax: 1.2, displayOrder: 50 },
-  { code: 'BILIRUBIN_DIRECT', name: 'Bilirubin Direct', unit: 'mg/dL', system: 'LIVER', optimalMin: 0.0, optimalMax: 0.3, labMin: 0.0, labMax: 0.3, displayOrder: 60 },
-  { code: 'BILIRUBIN_INDIRECT', name: 'Bilirubin Indirect', unit: 'mg/dL', system: 'LIVER', optimalMin: 0.2, optimalMax: 0.7, labMin: 0.2, labMax: 0.9, displayOrder: 70 },
-  { code: 'ALBUMIN', name: 'Albumin', unit: 'g/dL', system: 'LIVER', optimalMin: 4.0, optimalMax: 5.0, labMin: 3.5, labMax: 5.2, displayOrder: 80 },
-  { code: 'GLOBULIN', name: 'Globulin', unit: 'g/dL', system: 'LIVER', optimalMin: 2.0, optimalMax: 3.0, labMin: 2.0, labMax: 3.5, displayOrder: 90 },
-  { code: 'TOTAL_PROTEIN', name: 'Total Protein', unit: 'g/dL', system: 'LIVER', optimalMin: 6.5, optimalMax: 8.0, labMin: 6.0, labMax: 8.3, displayOrder: 100 },
-
-  { code: 'CREATININE', name: 'Creatinine', unit: 'mg/dL', system: 'KIDNEY', optimalMin: 0.7, optimalMax: 1.1, labMin: 0.6, labMax: 1.3, displayOrder: 10 },
-  { code: 'BUN', name: 'BUN', unit: 'mg/dL', system: 'KIDNEY', optimalMin: 10, optimalMax: 20, labMin: 7, labMax: 20, displayOrder: 20 },
-  { code: 'UREA', name: 'Urea', unit: 'mg/dL', system: 'KIDNEY', optimalMin: 15, optimalMax: 40, labMin: 15, labMax: 40, displayOrder: 30 },
-  { code: 'URIC_ACID', name: 'Uric Acid', unit: 'mg/dL', system: 'KIDNEY', optimalMin: 3.5, optimalMax: 6.5, labMin: 2.5, labMax: 7.0, displayOrder: 40 },
-  { code: 'EGFR', name: 'eGFR', unit: 'mL/min/1.73m2', system: 'KIDNEY', optimalMin: 90, optimalMax: 120, labMin: 60, labMax: 120, displayOrder: 50 },
-  { code: 'MICROALBUMIN', name: 'Microalbumin', unit: 'mg/L', system: 'KIDNEY', optimalMin: 0, optimalMax: 20, labMin: 0, labMax: 30, displayOrder: 60 },
-
-  { code: 'HEMOGLOBIN', name: 'Hemoglobin', unit: 'g/dL', system: 'BLOOD', optimalMin: 13, optimalMax: 16, labMin: 12, labMax: 17.5, displayOrder: 10 },
-  { code: 'RBC', name: 'RBC', unit: '10^6/uL', system: 'BLOOD', optimalMin: 4.2, optimalMax: 5.4, labMin: 3.8, labMax: 5.9, displayOrder: 20 },
-  { code: 'WBC', name: 'WBC', unit: '10^3/uL', system: 'BLOOD', optimalMin: 4.0, optimalMax: 7.5, labMin: 3.5, labMax: 10.5, displayOrder: 30 },
-  { code: 'PLATELETS', name: 'Platelets', unit: '10^3/uL', system: 'BLOOD', optimalMin: 150, optimalMax: 350, labMin: 150, labMax: 450, displayOrder: 40 },
-  { code: 'HEMATOCRIT', name: 'Hematocrit', unit: '%', system: 'BLOOD', optimalMin: 40, optimalMax: 48, labMin: 36, labMax: 50, displayOrder: 50 },
-  { code: 'MCV', name: 'MCV', unit: 'fL', system: 'BLOOD', optimalMin: 82, optimalMax: 92, labMin: 80, labMax: 100, displayOrder: 60 },
-  { code: 'MCH', name: 'MCH', unit: 'pg', system: 'BLOOD', optimalMin: 27, optimalMax: 32, labMin: 26, labMax: 34, displayOrder: 70 },
-  { code: 'MCHC', name: 'MCHC', unit: 'g/dL', system: 'BLOOD', optimalMin: 32, optimalMax: 36, labMin: 31, labMax: 37, displayOrder: 80 },
-  { code: 'RDW', name: 'RDW', unit: '%', system: 'BLOOD', optimalMin: 11.5, optimalMax: 13.5, labMin: 11, labMax: 15, displayOrder: 90 },
-  { code: 'NEUTROPHILS_PCT', name: 'Neutrophils %', unit: '%', system: 'BLOOD', optimalMin: 40, optimalMax: 60, labMin: 40, labMax: 70, displayOrder: 100 },
-  { code: 'LYMPHOCYTES_PCT', name: 'Lymphocytes %', unit: '%', system: 'BLOOD', optimalMin: 20, optimalMax: 40, labMin: 20, labMax: 45, displayOrder: 110 },
-  { code: 'MONOCYTES_PCT', name: 'Monocytes %', unit: '%', system: 'BLOOD', optimalMin: 2, optimalMax: 8, labMin: 2, labMax: 10, displayOrder: 120 },
-  { code: 'EOSINOPHILS_PCT', name: 'Eosinophils %', unit: '%', system: 'BLOOD', optimalMin: 1, optimalMax: 4, labMin: 0, labMax: 6, displayOrder: 130 },
-  { code: 'BASOPHILS_PCT', name: 'Basophils %', unit: '%', system: 'BLOOD', optimalMin: 0, optimalMax: 1, labMin: 0, labMax: 2, displayOrder: 140 },
-  { code: 'NEUTROPHILS_ABS', name: 'Neutrophils (Absolute)', unit: '10^3/uL', system: 'BLOOD', optimalMin: 1.5, optimalMax: 5.0, labMin: 1.5, labMax: 7.5, displayOrder: 150 },
-  { code: 'LYMPHOCYTES_ABS', name: 'Lymphocytes (Absolute)', unit: '10^3/uL', system: 'BLOOD', optimalMin: 1.0, optimalMax: 3.0, labMin: 1.0, labMax: 4.0, displayOrder: 160 },
-  { code: 'MONOCYTES_ABS', name: 'Monocytes (Absolute)', unit: '10^3/uL', system: 'BLOOD', optimalMin: 0.2, optimalMax: 0.8, labMin: 0.2, labMax: 1.0, displayOrder: 170 },
-  { code: 'EOSINOPHILS_ABS', name: 'Eosinophils (Absolute)', unit: '10^3/uL', system: 'BLOOD', optimalMin: 0.0, optimalMax: 0.4, labMin: 0.0, labMax: 0.6, displayOrder: 180 },
-  { code: 'BASOPHILS_ABS', name: 'Basophils (Absolute)', unit: '10^3/uL', system: 'BLOOD', optimalMin: 0.0, optimalMax: 0.1, labMin: 0.0, labMax: 0.2, displayOrder: 190 },
-
-  { code: 'CRP', name: 'CRP', unit: 'mg/L', system: 'INFLAMMATION', optimalMin: 0, optimalMax: 1, labMin: 0, labMax: 3, displayOrder: 10 },
-  { code: 'HS_CRP', name: 'hs-CRP', unit: 'mg/L', system: 'INFLAMMATION', optimalMin: 0, optimalMax: 1, labMin: 0, labMax: 3, displayOrder: 20 },
-  { code: 'ESR', name: 'ESR', unit: 'mm/hr', system: 'INFLAMMATION', optimalMin: 0, optimalMax: 15, labMin: 0, labMax: 20, displayOrder: 30 },
-
-  { code: 'TSH', name: 'TSH', unit: 'uIU/mL', system: 'THYROID', optimalMin: 0.5, optimalMax: 2.0, labMin: 0.4, labMax: 4.5, displayOrder: 10 },
-  { code: 'T3_TOTAL', name: 'T3 Total', unit: 'ng/dL', system: 'THYROID', optimalMin: 80, optimalMax: 180, labMin: 80, labMax: 200, displayOrder: 20 },
-  { code: 'T4_TOTAL', name: 'T4 Total', unit: 'ug/dL', system: 'THYROID', optimalMin: 5, optimalMax: 12, labMin: 5, labMax: 12.5, displayOrder: 30 },
-  { code: 'FREE_T3', name: 'Free T3', unit: 'pg/mL', system: 'THYROID', optimalMin: 2.3, optimalMax: 4.2, labMin: 2.0, labMax: 4.4, displayOrder: 40 },
-  { code: 'FREE_T4', name: 'Free T4', unit: 'ng/dL', system: 'THYROID', optimalMin: 0.9, optimalMax: 1.7, labMin: 0.8, labMax: 1.8, displayOrder: 50 },
-
-  { code: 'VITAMIN_D', name: 'Vitamin D (25-OH)', unit: 'ng/mL', system: 'VITAMINS', optimalMin: 30, optimalMax: 50, labMin: 20, labMax: 60, displayOrder: 10 },
-  { code: 'VITAMIN_B12', name: 'Vitamin B12', unit: 'pg/mL', system: 'VITAMINS', optimalMin: 400, optimalMax: 900, labMin: 200, labMax: 900, displayOrder: 20 },
-  { code: 'FOLATE', name: 'Folate (B9)', unit: 'ng/mL', system: 'VITAMINS', optimalMin: 8, optimalMax: 20, labMin: 3, labMax: 20, displayOrder: 30 },
-  { code: 'IRON', name: 'Iron', unit: 'ug/dL', system: 'VITAMINS', optimalMin: 60, optimalMax: 150, labMin: 50, labMax: 170, displayOrder: 40 },
-  { code: 'FERRITIN', name: 'Ferritin', unit: 'ng/mL', system: 'VITAMINS', optimalMin: 30, optimalMax: 150, labMin: 15, labMax: 200, displayOrder: 50 },
-  { code: 'TIBC', name: 'TIBC', unit: 'ug/dL', system: 'VITAMINS', optimalMin: 250, optimalMax: 350, labMin: 250, labMax: 450, displayOrder: 60 },
-  { code: 'TRANSFERRIN_SAT', name: 'Transferrin Saturation', unit: '%', system: 'VITAMINS', optimalMin: 20, optimalMax: 45, labMin: 15, labMax: 50, displayOrder: 70 },
-  { code: 'CALCIUM', name: 'Calcium', unit: 'mg/dL', system: 'VITAMINS', optimalMin: 9.2, optimalMax: 10.2, labMin: 8.6, labMax: 10.3, displayOrder: 80 },
-
-  { code: 'SODIUM', name: 'Sodium', unit: 'mmol/L', system: 'ELECTROLYTES', optimalMin: 136, optimalMax: 142, labMin: 135, labMax: 145, displayOrder: 10 },
-  { code: 'POTASSIUM', name: 'Potassium', unit: 'mmol/L', system: 'ELECTROLYTES', optimalMin: 3.8, optimalMax: 4.8, labMin: 3.5, labMax: 5.1, displayOrder: 20 },
-  { code: 'CHLORIDE', name: 'Chloride', unit: 'mmol/L', system: 'ELECTROLYTES', optimalMin: 98, optimalMax: 106, labMin: 98, labMax: 107, displayOrder: 30 },
-  { code: 'MAGNESIUM', name: 'Magnesium', unit: 'mg/dL', system: 'ELECTROLYTES', optimalMin: 1.9, optimalMax: 2.2, labMin: 1.6, labMax: 2.4, displayOrder: 40 },
-  { code: 'CO2', name: 'CO2 (Bicarbonate)', unit: 'mEq/L', system: 'ELECTROLYTES', optimalMin: 22, optimalMax: 28, labMin: 22, labMax: 29, displayOrder: 50 },
-  { code: 'PHOSPHORUS', name: 'Phosphorus', unit: 'mg/dL', system: 'ELECTROLYTES', optimalMin: 2.5, optimalMax: 4.5, labMin: 2.5, labMax: 4.5, displayOrder: 60 },
-
-  { code: 'TESTOSTERONE_TOTAL', name: 'Testosterone (Total)', unit: 'ng/dL', system: 'HORMONES', optimalMin: 400, optimalMax: 800, labMin: 300, labMax: 1000, displayOrder: 10 },
-  { code: 'ESTRADIOL', name: 'Estradiol', unit: 'pg/mL', system: 'HORMONES', optimalMin: 20, optimalMax: 50, labMin: 10, labMax: 80, displayOrder: 20 },
-  { code: 'CORTISOL_AM', name: 'Cortisol (AM)', unit: 'ug/dL', system: 'HORMONES', optimalMin: 10, optimalMax: 18, labMin: 6, labMax: 20, displayOrder: 30 },
-  { code: 'DHEA_S', name: 'DHEA-S', unit: 'ug/dL', system: 'HORMONES', optimalMin: 100, optimalMax: 300, labMin: 50, labMax: 350, displayOrder: 40 },
-
-  { code: 'PTH', name: 'Parathyroid Hormone (PTH)', unit: 'pg/mL', system: 'BONE', optimalMin: 20, optimalMax: 50, labMin: 10, labMax: 65, displayOrder: 10 },
+  { code: 'GLUCOSE_FASTING', name: 'Fasting Glucose', unit: 'mg/dL', system: 'METABOLIC', optimalMin: 70, optimalMax: 90, labMin: 70, labMax: 99, goodDirection: 'IN_RANGE', displayOrder: 10 },
+  { code: 'HBA1C', name: 'HbA1c', unit: '%', system: 'METABOLIC', optimalMin: 4.8, optimalMax: 5.3, labMin: 4, labMax: 5.6, goodDirection: 'LOWER', displayOrder: 20 },
+  { code: 'INSULIN_FASTING', name: 'Fasting Insulin', unit: 'uIU/mL', system: 'METABOLIC', optimalMin: 2, optimalMax: 6, labMin: 2, labMax: 25, goodDirection: 'LOWER', displayOrder: 30 },
+
+  { code: 'CHOL_TOTAL', name: 'Total Cholesterol', unit: 'mg/dL', system: 'LIPIDS', optimalMin: 150, optimalMax: 200, labMin: 125, labMax: 200, goodDirection: 'LOWER', displayOrder: 10 },
+  { code: 'LDL', name: 'LDL Cholesterol', unit: 'mg/dL', system: 'LIPIDS', optimalMin: 50, optimalMax: 100, labMin: 0, labMax: 129, goodDirection: 'LOWER', displayOrder: 20 },
+  { code: 'HDL', name: 'HDL Cholesterol', unit: 'mg/dL', system: 'LIPIDS', optimalMin: 50, optimalMax: 80, labMin: 40, labMax: 60, goodDirection: 'HIGHER', displayOrder: 30 },
+  { code: 'TRIGLYCERIDES', name: 'Triglycerides', unit: 'mg/dL', system: 'LIPIDS', optimalMin: 50, optimalMax: 100, labMin: 0, labMax: 150, goodDirection: 'LOWER', displayOrder: 40 },
+  { code: 'VLDL', name: 'VLDL Cholesterol', unit: 'mg/dL', system: 'LIPIDS', optimalMin: 5, optimalMax: 20, labMin: 0, labMax: 30, goodDirection: 'LOWER', displayOrder: 50 },
+  { code: 'NON_HDL', name: 'Non-HDL Cholesterol', unit: 'mg/dL', system: 'LIPIDS', optimalMin: 80, optimalMax: 130, labMin: 0, labMax: 160, goodDirection: 'LOWER', displayOrder: 60 },
+  { code: 'APOB', name: 'Apolipoprotein B', unit: 'mg/dL', system: 'LIPIDS', optimalMin: 60, optimalMax: 90, labMin: 50, labMax: 120, goodDirection: 'LOWER', displayOrder: 70 },
+
+  { code: 'AST', name: 'AST (SGOT)', unit: 'U/L', system: 'LIVER', optimalMin: 10, optimalMax: 30, labMin: 10, labMax: 40, goodDirection: 'LOWER', displayOrder: 10 },
+  { code: 'ALT', name: 'ALT (SGPT)', unit: 'U/L', system: 'LIVER', optimalMin: 10, optimalMax: 30, labMin: 7, labMax: 40, goodDirection: 'LOWER', displayOrder: 20 },
+  { code: 'ALP', name: 'Alkaline Phosphatase', unit: 'U/L', system: 'LIVER', optimalMin: 50, optimalMax: 100, labMin: 44, labMax: 120, goodDirection: 'IN_RANGE', ranges: rangeBands.ALP, displayOrder: 30 },
+  { code: 'GGT', name: 'GGT', unit: 'U/L', system: 'LIVER', optimalMin: 8, optimalMax: 30, labMin: 0, labMax: 60, goodDirection: 'LOWER', displayOrder: 40 },
+  { code: 'BILIRUBIN_TOTAL', name: 'Bilirubin Total', unit: 'mg/dL', system: 'LIVER', optimalMin: 0.3, optimalMax: 1.0, labMin: 0.1, labMax: 1.2, goodDirection: 'IN_RANGE', displayOrder: 50 },
+  { code: 'BILIRUBIN_DIRECT', name: 'Bilirubin Direct', unit: 'mg/dL', system: 'LIVER', optimalMin: 0.0, optimalMax: 0.3, labMin: 0.0, labMax: 0.3, goodDirection: 'IN_RANGE', displayOrder: 60 },
+  { code: 'BILIRUBIN_INDIRECT', name: 'Bilirubin Indirect', unit: 'mg/dL', system: 'LIVER', optimalMin: 0.2, optimalMax: 0.7, labMin: 0.2, labMax: 0.9, goodDirection: 'IN_RANGE', displayOrder: 70 },
+  { code: 'ALBUMIN', name: 'Albumin', unit: 'g/dL', system: 'LIVER', optimalMin: 4.0, optimalMax: 5.0, labMin: 3.5, labMax: 5.2, goodDirection: 'IN_RANGE', displayOrder: 80 },
+  { code: 'GLOBULIN', name: 'Globulin', unit: 'g/dL', system: 'LIVER', optimalMin: 2.0, optimalMax: 3.0, labMin: 2.0, labMax: 3.5, goodDirection: 'IN_RANGE', displayOrder: 90 },
+  { code: 'TOTAL_PROTEIN', name: 'Total Protein', unit: 'g/dL', system: 'LIVER', optimalMin: 6.5, optimalMax: 8.0, labMin: 6.0, labMax: 8.3, goodDirection: 'IN_RANGE', displayOrder: 100 },
+
+  { code: 'CREATININE', name: 'Creatinine', unit: 'mg/dL', system: 'KIDNEY', optimalMin: 0.7, optimalMax: 1.1, labMin: 0.6, labMax: 1.3, goodDirection: 'IN_RANGE', ranges: rangeBands.CREATININE, displayOrder: 10 },
+  { code: 'BUN', name: 'BUN', unit: 'mg/dL', system: 'KIDNEY', optimalMin: 10, optimalMax: 20, labMin: 7, labMax: 20, goodDirection: 'IN_RANGE', displayOrder: 20 },
+  { code: 'UREA', name: 'Urea', unit: 'mg/dL', system: 'KIDNEY', optimalMin: 15, optimalMax: 40, labMin: 15, labMax: 40, goodDirection: 'IN_RANGE', displayOrder: 30 },
+  { code: 'URIC_ACID', name: 'Uric Acid', unit: 'mg/dL', system: 'KIDNEY', optimalMin: 3.5, optimalMax: 6.5, labMin: 2.5, labMax: 7.0, goodDirection: 'LOWER', ranges: rangeBands.URIC_ACID, displayOrder: 40 },
+  { code: 'EGFR', name: 'eGFR', unit: 'mL/min/1.73m2', system: 'KIDNEY', optimalMin: 90, optimalMax: 120, labMin: 60, labMax: 120, goodDirection: 'HIGHER', displayOrder: 50 },
+  { code: 'MICROALBUMIN', name: 'Microalbumin', unit: 'mg/L', system: 'KIDNEY', optimalMin: 0, optimalMax: 20, labMin: 0, labMax: 30, goodDirection: 'LOWER', displayOrder: 60 },
+
+  { code: 'HEMOGLOBIN', name: 'Hemoglobin', unit: 'g/dL', system: 'BLOOD', optimalMin: 13, optimalMax: 16, labMin: 12, labMax: 17.5, goodDirection: 'IN_RANGE', ranges: rangeBands.HEMOGLOBIN, displayOrder: 10 },
+  { code: 'RBC', name: 'RBC', unit: '10^6/uL', system: 'BLOOD', optimalMin: 4.2, optimalMax: 5.4, labMin: 3.8, labMax: 5.9, goodDirection: 'IN_RANGE', ranges: rangeBands.RBC, displayOrder: 20 },
+  { code: 'WBC', name: 'WBC', unit: '10^3/uL', system: 'BLOOD', optimalMin: 4.0, optimalMax: 7.5, labMin: 3.5, labMax: 10.5, goodDirection: 'IN_RANGE', displayOrder: 30 },
+  { code: 'PLATELETS', name: 'Platelets', unit: '10^3/uL', system: 'BLOOD', optimalMin: 150, optimalMax: 350, labMin: 150, labMax: 450, goodDirection: 'IN_RANGE', displayOrder: 40 },
+  { code: 'HEMATOCRIT', name: 'Hematocrit', unit: '%', system: 'BLOOD', optimalMin: 40, optimalMax: 48, labMin: 36, labMax: 50, goodDirection: 'IN_RANGE', ranges: rangeBands.HEMATOCRIT, displayOrder: 50 },
+  { code: 'MCV', name: 'MCV', unit: 'fL', system: 'BLOOD', optimalMin: 82, optimalMax: 92, labMin: 80, labMax: 100, goodDirection: 'IN_RANGE', displayOrder: 60 },
+  { code: 'MCH', name: 'MCH', unit: 'pg', system: 'BLOOD', optimalMin: 27, optimalMax: 32, labMin: 26, labMax: 34, goodDirection: 'IN_RANGE', displayOrder: 70 },
+  { code: 'MCHC', name: 'MCHC', unit: 'g/dL', system: 'BLOOD', optimalMin: 32, optimalMax: 36, labMin: 31, labMax: 37, goodDirection: 'IN_RANGE', displayOrder: 80 },
+  { code: 'RDW', name: 'RDW', unit: '%', system: 'BLOOD', optimalMin: 11.5, optimalMax: 13.5, labMin: 11, labMax: 15, goodDirection: 'IN_RANGE', displayOrder: 90 },
+  { code: 'NEUTROPHILS_PCT', name: 'Neutrophils %', unit: '%', system: 'BLOOD', optimalMin: 40, optimalMax: 60, labMin: 40, labMax: 70, goodDirection: 'IN_RANGE', displayOrder: 100 },
+  { code: 'LYMPHOCYTES_PCT', name: 'Lymphocytes %', unit: '%', system: 'BLOOD', optimalMin: 20, optimalMax: 40, labMin: 20, labMax: 45, goodDirection: 'IN_RANGE', displayOrder: 110 },
+  { code: 'MONOCYTES_PCT', name: 'Monocytes %', unit: '%', system: 'BLOOD', optimalMin: 2, optimalMax: 8, labMin: 2, labMax: 10, goodDirection: 'IN_RANGE', displayOrder: 120 },
+  { code: 'EOSINOPHILS_PCT', name: 'Eosinophils %', unit: '%', system: 'BLOOD', optimalMin: 1, optimalMax: 4, labMin: 0, labMax: 6, goodDirection: 'IN_RANGE', displayOrder: 130 },
+  { code: 'BASOPHILS_PCT', name: 'Basophils %', unit: '%', system: 'BLOOD', optimalMin: 0, optimalMax: 1, labMin: 0, labMax: 2, goodDirection: 'IN_RANGE', displayOrder: 140 },
+  { code: 'NEUTROPHILS_ABS', name: 'Neutrophils (Absolute)', unit: '10^3/uL', system: 'BLOOD', optimalMin: 1.5, optimalMax: 5.0, labMin: 1.5, labMax: 7.5, goodDirection: 'IN_RANGE', displayOrder: 150 },
+  { code: 'LYMPHOCYTES_ABS', name: 'Lymphocytes (Absolute)', unit: '10^3/uL', system: 'BLOOD', optimalMin: 1.0, optimalMax: 3.0, labMin: 1.0, labMax: 4.0, goodDirection: 'IN_RANGE', displayOrder: 160 },
+  { code: 'MONOCYTES_ABS', name: 'Monocytes (Absolute)', unit: '10^3/uL', system: 'BLOOD', optimalMin: 0.2, optimalMax: 0.8, labMin: 0.2, labMax: 1.0, goodDirection: 'IN_RANGE', displayOrder: 170 },
+  { code: 'EOSINOPHILS_ABS', name: 'Eosinophils (Absolute)', unit: '10^3/uL', system: 'BLOOD', optimalMin: 0.0, optimalMax: 0.4, labMin: 0.0, labMax: 0.6, goodDirection: 'IN_RANGE', displayOrder: 180 },
+  { code: 'BASOPHILS_ABS', name: 'Basophils (Absolute)', unit: '10^3/uL', system: 'BLOOD', optimalMin: 0.0, optimalMax: 0.1, labMin: 0.0, labMax: 0.2, goodDirection: 'IN_RANGE', displayOrder: 190 },
+
+  { code: 'CRP', name: 'CRP', unit: 'mg/L', system: 'INFLAMMATION', optimalMin: 0, optimalMax: 1, labMin: 0, labMax: 3, goodDirection: 'LOWER', displayOrder: 10 },
+  { code: 'HS_CRP', name: 'hs-CRP', unit: 'mg/L', system: 'INFLAMMATION', optimalMin: 0, optimalMax: 1, labMin: 0, labMax: 3, goodDirection: 'LOWER', displayOrder: 20 },
+  { code: 'ESR', name: 'ESR', unit: 'mm/hr', system: 'INFLAMMATION', optimalMin: 0, optimalMax: 15, labMin: 0, labMax: 20, goodDirection: 'LOWER', displayOrder: 30 },
+
+  { code: 'TSH', name: 'TSH', unit: 'uIU/mL', system: 'THYROID', optimalMin: 0.5, optimalMax: 2.0, labMin: 0.4, labMax: 4.5, goodDirection: 'IN_RANGE', displayOrder: 10 },
+  { code: 'T3_TOTAL', name: 'T3 Total', unit: 'ng/dL', system: 'THYROID', optimalMin: 80, optimalMax: 180, labMin: 80, labMax: 200, goodDirection: 'IN_RANGE', displayOrder: 20 },
+  { code: 'T4_TOTAL', name: 'T4 Total', unit: 'ug/dL', system: 'THYROID', optimalMin: 5, optimalMax: 12, labMin: 5, labMax: 12.5, goodDirection: 'IN_RANGE', displayOrder: 30 },
+  { code: 'FREE_T3', name: 'Free T3', unit: 'pg/mL', system: 'THYROID', optimalMin: 2.3, optimalMax: 4.2, labMin: 2.0, labMax: 4.4, goodDirection: 'IN_RANGE', displayOrder: 40 },
+  { code: 'FREE_T4', name: 'Free T4', unit: 'ng/dL', system: 'THYROID', optimalMin: 0.9, optimalMax: 1.7, labMin: 0.8, labMax: 1.8, goodDirection: 'IN_RANGE', displayOrder: 50 },
+
+  { code: 'VITAMIN_D', name: 'Vitamin D (25-OH)', unit: 'ng/mL', system: 'VITAMINS', optimalMin: 30, optimalMax: 50, labMin: 20, labMax: 60, goodDirection: 'IN_RANGE', displayOrder: 10 },
+  { code: 'VITAMIN_B12', name: 'Vitamin B12', unit: 'pg/mL', system: 'VITAMINS', optimalMin: 400, optimalMax: 900, labMin: 200, labMax: 900, goodDirection: 'IN_RANGE', displayOrder: 20 },
+  { code: 'FOLATE', name: 'Folate (B9)', unit: 'ng/mL', system: 'VITAMINS', optimalMin: 8, optimalMax: 20, labMin: 3, labMax: 20, goodDirection: 'IN_RANGE', displayOrder: 30 },
+  { code: 'IRON', name: 'Iron', unit: 'ug/dL', system: 'VITAMINS', optimalMin: 60, optimalMax: 150, labMin: 50, labMax: 170, goodDirection: 'IN_RANGE', displayOrder: 40 },
+  { code: 'FERRITIN', name: 'Ferritin', unit: 'ng/mL', system: 'VITAMINS', optimalMin: 30, optimalMax: 150, labMin: 15, labMax: 200, goodDirection: 'IN_RANGE', ranges: rangeBands.FERRITIN, displayOrder: 50 },
+  { code: 'TIBC', name: 'TIBC', unit: 'ug/dL', system: 'VITAMINS', optimalMin: 250, optimalMax: 350, labMin: 250, labMax: 450, goodDirection: 'IN_RANGE', displayOrder: 60 },
+  { code: 'TRANSFERRIN_SAT', name: 'Transferrin Saturation', unit: '%', system: 'VITAMINS', optimalMin: 20, optimalMax: 45, labMin: 15, labMax: 50, goodDirection: 'IN_RANGE', displayOrder: 70 },
+  { code: 'CALCIUM', name: 'Calcium', unit: 'mg/dL', system: 'VITAMINS', optimalMin: 9.2, optimalMax: 10.2, labMin: 8.6, labMax: 10.3, goodDirection: 'IN_RANGE', displayOrder: 80 },
+
+  { code: 'SODIUM', name: 'Sodium', unit: 'mmol/L', system: 'ELECTROLYTES', optimalMin: 136, optimalMax: 142, labMin: 135, labMax: 145, goodDirection: 'IN_RANGE', displayOrder: 10 },
+  { code: 'POTASSIUM', name: 'Potassium', unit: 'mmol/L', system: 'ELECTROLYTES', optimalMin: 3.8, optimalMax: 4.8, labMin: 3.5, labMax: 5.1, goodDirection: 'IN_RANGE', displayOrder: 20 },
+  { code: 'CHLORIDE', name: 'Chloride', unit: 'mmol/L', system: 'ELECTROLYTES', optimalMin: 98, optimalMax: 106, labMin: 98, labMax: 107, goodDirection: 'IN_RANGE', displayOrder: 30 },
+  { code: 'MAGNESIUM', name: 'Magnesium', unit: 'mg/dL', system: 'ELECTROLYTES', optimalMin: 1.9, optimalMax: 2.2, labMin: 1.6, labMax: 2.4, goodDirection: 'IN_RANGE', displayOrder: 40 },
+  { code: 'CO2', name: 'CO2 (Bicarbonate)', unit: 'mEq/L', system: 'ELECTROLYTES', optimalMin: 22, optimalMax: 28, labMin: 22, labMax: 29, goodDirection: 'IN_RANGE', displayOrder: 50 },
+  { code: 'PHOSPHORUS', name: 'Phosphorus', unit: 'mg/dL', system: 'ELECTROLYTES', optimalMin: 2.5, optimalMax: 4.5, labMin: 2.5, labMax: 4.5, goodDirection: 'IN_RANGE', ranges: rangeBands.PHOSPHORUS, displayOrder: 60 },
+
+  { code: 'TESTOSTERONE_TOTAL', name: 'Testosterone (Total)', unit: 'ng/dL', system: 'HORMONES', optimalMin: 400, optimalMax: 800, labMin: 300, labMax: 1000, goodDirection: 'IN_RANGE', ranges: rangeBands.TESTOSTERONE_TOTAL, displayOrder: 10 },
+  { code: 'ESTRADIOL', name: 'Estradiol', unit: 'pg/mL', system: 'HORMONES', optimalMin: 20, optimalMax: 50, labMin: 10, labMax: 80, goodDirection: 'IN_RANGE', ranges: rangeBands.ESTRADIOL, displayOrder: 20 },
+  { code: 'CORTISOL_AM', name: 'Cortisol (AM)', unit: 'ug/dL', system: 'HORMONES', optimalMin: 10, optimalMax: 18, labMin: 6, labMax: 20, goodDirection: 'IN_RANGE', displayOrder: 30 },
+  { code: 'DHEA_S', name: 'DHEA-S', unit: 'ug/dL', system: 'HORMONES', optimalMin: 100, optimalMax: 300, labMin: 50, labMax: 350, goodDirection: 'IN_RANGE', displayOrder: 40 },
+
+  { code: 'PTH', name: 'Parathyroid Hormone (PTH)', unit: 'pg/mL', system: 'BONE', optimalMin: 20, optimalMax: 50, labMin: 10, labMax: 65, goodDirection: 'IN_RANGE', displayOrder: 10 },
 ];
 
 const systemLabels: Record<HealthSystem, string> = {
@@ -99,6 +158,9 @@ const systemLabels: Record<HealthSystem, string> = {
   ELECTROLYTES: 'Electrolytes',
   HORMONES: 'Hormones',
   BONE: 'Bone',
+  IMMUNE: 'Immune',
+  URINE: 'Urine',
+  OTHER: 'Other',
 };
 
 export const markerAliases: Record<string, string> = {
@@ -157,3 +219,5 @@ export const markerAliases: Record<string, string> = {
 };
 
 export const systemLabel = (system: HealthSystem) => systemLabels[system];
+
+export const healthSystems = Object.keys(systemLabels) as HealthSystem[];
@@ -0,0 +1,110 @@
+// LOINC codes for each marker in healthMarkersSeed. The first code is written on export; every code listed
+// is recognised on import, since labs report some markers under several LOINC variants.
+
+export const LOINC_SYSTEM = 'http://loinc.org';
+
+export const markerLoincCodes: Record<string, string[]> = {
+  GLUCOSE_FASTING: ['1558-6', '2345-7', '2339-0'],
+  HBA1C: ['4548-4', '17856-6'],
+  INSULIN_FASTING: ['20448-7', '1554-5'],
+
+  CHOL_TOTAL: ['2093-3'],
+  LDL: ['13457-7', '2089-1', '18262-6'],
+  HDL: ['2085-9'],
+  TRIGLYCERIDES: ['2571-8'],
+  VLDL: ['13458-5'],
+  NON_HDL: ['43396-1'],
+  APOB: ['1884-6'],
+
+  AST: ['1920-8'],
+  ALT: ['1742-6'],
+  ALP: ['6768-6'],
+  GGT: ['2324-2'],
+  BILIRUBIN_TOTAL: ['1975-2'],
+  BILIRUBIN_DIRECT: ['1968-7'],
+  BILIRUBIN_INDIRECT: ['1971-1'],
+  ALBUMIN: ['1751-7'],
+  GLOBULIN: ['10834-0'],
+  TOTAL_PROTEIN: ['2885-2'],
+
+  CREATININE: ['2160-0'],
+  BUN: ['3094-0'],
+  UREA: ['3091-6'],
+  URIC_ACID: ['3084-1'],
+  EGFR: ['98979-8', '62238-1', '33914-3'],
+  MICROALBUMIN: ['14957-5'],
+
+  HEMOGLOBIN: ['718-7'],
+  RBC: ['789-8'],
+  WBC: ['6690-2'],
+  PLATELETS: ['777-3'],
+  HEMATOCRIT: ['4544-3'],
+  MCV: ['787-2'],
+  MCH: ['785-6'],
+  MCHC: ['786-4'],
+  RDW: ['788-0'],
+  NEUTROPHILS_PCT: ['770-8'],
+  LYMPHOCYTES_PCT: ['736-9'],
+  MONOCYTES_PCT: ['5905-5'],
+  EOSINOPHILS_PCT: ['713-8'],
+  BASOPHILS_PCT: ['706-2'],
+  NEUTROPHILS_ABS: ['751-8'],
+  LYMPHOCYTES_ABS: ['731-0'],
+  MONOCYTES_ABS: ['742-7'],
+  EOSINOPHILS_ABS: ['711-2'],
+  BASOPHILS_ABS: ['704-7'],
+
+  CRP: ['1988-5'],
+  HS_CRP: ['30522-7'],
+  ESR: ['4537-7', '30341-2'],
+
+  TSH: ['3016-3'],
+  T3_TOTAL: ['3053-6'],
+  T4_TOTAL: ['3026-2'],
+  FREE_T3: ['3051-0'],
+  FREE_T4: ['3024-7'],
+
+  VITAMIN_D: ['62292-8', '1989-3'],
+  VITAMIN_B12: ['2132-9'],
+  FOLATE: ['2284-8'],
+  IRON: ['2498-4'],
+  FERRITIN: ['2276-4'],
+  TIBC: ['2500-7'],
+  TRANSFERRIN_SAT: ['2502-3'],
+
+  CALCIUM: ['17861-6'],
+  SODIUM: ['2951-2'],
+  POTASSIUM: ['2823-3'],
+  CHLORIDE: ['2075-0'],
+  MAGNESIUM: ['19123-9'],
+  CO2: ['2028-9'],
+  PHOSPHORUS: ['2777-1'],
+
+  TESTOSTERONE_TOTAL: ['2986-8'],
+  ESTRADIOL: ['2243-4'],
+  CORTISOL_AM: ['2143-6'],
+  DHEA_S: ['2191-5'],
+  PTH: ['2731-8'],
+};
+
+export const loincToMarkerCode: Record<string, string> = Object.fromEntries(
+  Object.entries(markerLoincCodes).flatMap(([markerCode, codes]) => codes.map(code => [code, markerCode]))
+);
+
+// Vital-sign LOINC codes for the columns of health_physicals, with the UCUM unit each is stored in
+export const physicalLoincCodes = {
+  weightKg: { code: '29463-7', display: 'Body weight', unit: 'kg' },
+  heightCm: { code: '8302-2', display: 'Body height', unit: 'cm' },
+  bmi: { code: '39156-5', display: 'Body mass index (BMI) [Ratio]', unit: 'kg/m2' },
+  waistCm: { code: '8280-0', display: 'Waist Circumference at umbilicus by Tape measure', unit: 'cm' },
+  hipCm: { code: '62409-8', display: 'Hip circumference', unit: 'cm' },
+  restingHr: { code: '8867-4', display: 'Heart rate', unit: '/min' },
+  headCircumferenceCm: { code: '9843-4', display: 'Head Occipital-frontal circumference', unit: 'cm' },
+} as const;
+
+export const BLOOD_PRESSURE_LOINC = {
+  panel: { code: '85354-9', display: 'Blood pressure panel with all children optional' },
+  systolic: { code: '8480-6', display: 'Systolic blood pressure' },
+  diastolic: { code: '8462-4', display: 'Diastolic blood pressure' },
+  unit: 'mm[Hg]',
+};
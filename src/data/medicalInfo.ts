@@ -0,0 +1,16 @@
+import { AllergySeverity, BloodType, ConditionStatus } from '../types/health';
+
+export const bloodTypes: BloodType[] = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+
+export const allergySeverities: Record<AllergySeverity, { label: string; rank: number }> = {
+  LIFE_THREATENING: { label: 'Life-threatening', rank: 0 },
+  SEVERE: { label: 'Severe', rank: 1 },
+  MODERATE: { label: 'Moderate', rank: 2 },
+  MILD: { label: 'Mild', rank: 3 },
+};
+
+export const conditionStatuses: Record<ConditionStatus, string> = {
+  ACTIVE: 'Active',
+  MANAGED: 'Managed',
+  RESOLVED: 'Resolved',
+};
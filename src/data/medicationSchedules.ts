@@ -0,0 +1,23 @@
+import { MedicationFrequency } from '../types/health';
+
+export interface MedicationFrequencyDefinition {
+  label: string;
+  defaultTimes: string[];
+  // Days between dosing days (1 = every day)
+  intervalDays: number;
+}
+
+export const medicationFrequencies: Record<MedicationFrequency, MedicationFrequencyDefinition> = {
+  ONCE_DAILY: { label: 'Once a day', defaultTimes: ['08:00'], intervalDays: 1 },
+  TWICE_DAILY: { label: 'Twice a day', defaultTimes: ['08:00', '20:00'], intervalDays: 1 },
+  THREE_TIMES_DAILY: { label: 'Three times a day', defaultTimes: ['08:00', '14:00', '20:00'], intervalDays: 1 },
+  FOUR_TIMES_DAILY: { label: 'Four times a day', defaultTimes: ['08:00', '12:00', '16:00', '20:00'], intervalDays: 1 },
+  EVERY_OTHER_DAY: { label: 'Every other day', defaultTimes: ['08:00'], intervalDays: 2 },
+  WEEKLY: { label: 'Once a week', defaultTimes: ['08:00'], intervalDays: 7 },
+  AS_NEEDED: { label: 'As needed', defaultTimes: [], intervalDays: 1 },
+};
+
+export const medicationDoseUnits = ['tablet', 'capsule', 'ml', 'drop', 'puff', 'unit', 'patch', 'sachet'];
+
+// Slot used for as-needed doses, which have no scheduled time
+export const AS_NEEDED_SLOT = 'PRN';
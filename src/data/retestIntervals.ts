@@ -0,0 +1,21 @@
+import { HealthSystem, RetestInterval } from '../types/health';
+
+// Annual panels while results are in range, a quarterly recheck once something is out of range
+export const DEFAULT_RETEST_INTERVAL: RetestInterval = { inRangeMonths: 12, outOfRangeMonths: 3 };
+
+// Systems whose follow-up differs from the default; a person's own overrides take precedence over these
+export const systemRetestIntervals: Partial<Record<HealthSystem, RetestInterval>> = {
+  THYROID: { inRangeMonths: 12, outOfRangeMonths: 2 },
+  ELECTROLYTES: { inRangeMonths: 12, outOfRangeMonths: 1 },
+  HORMONES: { inRangeMonths: 24, outOfRangeMonths: 6 },
+};
+
+// Markers that differ from their system; these win over systemRetestIntervals
+export const markerRetestIntervals: Record<string, RetestInterval> = {
+  APOB: { inRangeMonths: 24, outOfRangeMonths: 6 },
+  VITAMIN_B12: { inRangeMonths: 24, outOfRangeMonths: 3 },
+  HS_CRP: { inRangeMonths: 24, outOfRangeMonths: 3 },
+};
+
+// Tests due within this many days are listed alongside overdue ones
+export const RETEST_DUE_SOON_DAYS = 30;
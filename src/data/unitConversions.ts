@@ -0,0 +1,124 @@
+// Conversions from alternate (mostly SI) units into the canonical unit of each marker in healthMarkersSeed.
+// canonical = value * factor + (offset ?? 0)
+
+export interface UnitConversion {
+  units: string[];
+  factor: number;
+  offset?: number;
+}
+
+const CHOLESTEROL_MMOL: UnitConversion = { units: ['mmol/L'], factor: 38.67 };
+const PROTEIN_G_PER_L: UnitConversion = { units: ['g/L'], factor: 0.1 };
+const BILIRUBIN_UMOL: UnitConversion = { units: ['umol/L'], factor: 1 / 17.1 };
+const CELLS_PER_NL: UnitConversion = { units: ['10^9/L', 'x10^9/L', 'thou/uL', '10^3/mm3', 'K/uL', 'cells/nL'], factor: 1 };
+const CELLS_PER_UL: UnitConversion = { units: ['/uL', 'cells/uL', '/mm3', '/cumm', 'cells/cumm', 'cells/mm3'], factor: 0.001 };
+const MILLIEQUIVALENT: UnitConversion = { units: ['mEq/L', 'meq/L'], factor: 1 };
+const MILLIMOLE: UnitConversion = { units: ['mmol/L'], factor: 1 };
+const PERCENT_FRACTION: UnitConversion = { units: ['L/L', 'fraction'], factor: 100 };
+const ENZYME_UNITS: UnitConversion[] = [{ units: ['IU/L'], factor: 1 }, { units: ['ukat/L'], factor: 60 }];
+
+export const markerUnitConversions: Record<string, UnitConversion[]> = {
+  GLUCOSE_FASTING: [{ units: ['mmol/L'], factor: 18.016 }],
+  HBA1C: [{ units: ['mmol/mol'], factor: 0.09148, offset: 2.152 }],
+  INSULIN_FASTING: [{ units: ['pmol/L'], factor: 1 / 6 }, { units: ['mIU/L', 'mU/L', 'uU/mL'], factor: 1 }],
+
+  CHOL_TOTAL: [CHOLESTEROL_MMOL],
+  LDL: [CHOLESTEROL_MMOL],
+  HDL: [CHOLESTEROL_MMOL],
+  VLDL: [CHOLESTEROL_MMOL],
+  NON_HDL: [CHOLESTEROL_MMOL],
+  TRIGLYCERIDES: [{ units: ['mmol/L'], factor: 88.57 }],
+  // Canonical mg/dL: 1 g/L = 100 mg/dL
+  APOB: [{ units: ['g/L'], factor: 100 }, { units: ['mg/L'], factor: 0.1 }],
+
+  AST: ENZYME_UNITS,
+  ALT: ENZYME_UNITS,
+  ALP: ENZYME_UNITS,
+  GGT: ENZYME_UNITS,
+  BILIRUBIN_TOTAL: [BILIRUBIN_UMOL],
+  BILIRUBIN_DIRECT: [BILIRUBIN_UMOL],
+  BILIRUBIN_INDIRECT: [BILIRUBIN_UMOL],
+  ALBUMIN: [PROTEIN_G_PER_L],
+  GLOBULIN: [PROTEIN_G_PER_L],
+  TOTAL_PROTEIN: [PROTEIN_G_PER_L],
+
+  CREATININE: [{ units: ['umol/L'], factor: 1 / 88.42 }],
+  BUN: [{ units: ['mmol/L'], factor: 2.801 }],
+  UREA: [{ units: ['mmol/L'], factor: 6.006 }],
+  URIC_ACID: [{ units: ['umol/L'], factor: 1 / 59.48 }, { units: ['mmol/L'], factor: 16.81 }],
+  EGFR: [{ units: ['mL/min', 'mL/min/1.73 m2', 'mL/min/1.73m^2'], factor: 1 }],
+  MICROALBUMIN: [{ units: ['ug/mL'], factor: 1 }, { units: ['mg/dL'], factor: 10 }],
+
+  HEMOGLOBIN: [{ units: ['g/L'], factor: 0.1 }, { units: ['mmol/L'], factor: 1.611 }],
+  RBC: [{ units: ['10^12/L', 'x10^12/L', 'mill/uL', 'million/uL', 'mill/mm3', 'million/cumm', '10^6/mm3', 'M/uL'], factor: 1 }],
+  WBC: [CELLS_PER_NL, CELLS_PER_UL],
+  PLATELETS: [CELLS_PER_NL, CELLS_PER_UL, { units: ['lakhs/cumm', 'lakh/cumm', 'lakhs/uL', 'lakh/mm3'], factor: 100 }],
+  HEMATOCRIT: [PERCENT_FRACTION],
+  MCHC: [PROTEIN_G_PER_L],
+  NEUTROPHILS_ABS: [CELLS_PER_NL, CELLS_PER_UL],
+  LYMPHOCYTES_ABS: [CELLS_PER_NL, CELLS_PER_UL],
+  MONOCYTES_ABS: [CELLS_PER_NL, CELLS_PER_UL],
+  EOSINOPHILS_ABS: [CELLS_PER_NL, CELLS_PER_UL],
+  BASOPHILS_ABS: [CELLS_PER_NL, CELLS_PER_UL],
+
+  CRP: [{ units: ['mg/dL'], factor: 10 }],
+  HS_CRP: [{ units: ['mg/dL'], factor: 10 }],
+
+  TSH: [{ units: ['mIU/L', 'uU/mL', 'mU/L'], factor: 1 }],
+  T3_TOTAL: [{ units: ['nmol/L'], factor: 65.1 }],
+  T4_TOTAL: [{ units: ['nmol/L'], factor: 1 / 12.87 }],
+  FREE_T3: [{ units: ['pmol/L'], factor: 1 / 1.536 }],
+  FREE_T4: [{ units: ['pmol/L'], factor: 1 / 12.87 }],
+
+  VITAMIN_D: [{ units: ['nmol/L'], factor: 1 / 2.496 }],
+  VITAMIN_B12: [{ units: ['pmol/L'], factor: 1.355 }, { units: ['ng/L'], factor: 1 }],
+  FOLATE: [{ units: ['nmol/L'], factor: 1 / 2.266 }, { units: ['ug/L'], factor: 1 }],
+  IRON: [{ units: ['umol/L'], factor: 5.585 }],
+  FERRITIN: [{ units: ['ug/L'], factor: 1 }, { units: ['pmol/L'], factor: 1 / 2.247 }],
+  TIBC: [{ units: ['umol/L'], factor: 5.585 }],
+  TRANSFERRIN_SAT: [PERCENT_FRACTION],
+  CALCIUM: [{ units: ['mmol/L'], factor: 4.008 }],
+
+  SODIUM: [MILLIEQUIVALENT],
+  POTASSIUM: [MILLIEQUIVALENT],
+  CHLORIDE: [MILLIEQUIVALENT],
+  MAGNESIUM: [{ units: ['mmol/L'], factor: 2.431 }, { units: ['mEq/L'], factor: 1.215 }],
+  CO2: [MILLIMOLE],
+  PHOSPHORUS: [{ units: ['mmol/L'], factor: 3.097 }],
+
+  TESTOSTERONE_TOTAL: [{ units: ['nmol/L'], factor: 28.84 }, { units: ['ng/mL'], factor: 100 }],
+  ESTRADIOL: [{ units: ['pmol/L'], factor: 1 / 3.671 }, { units: ['ng/L'], factor: 1 }],
+  CORTISOL_AM: [{ units: ['nmol/L'], factor: 1 / 27.59 }],
+  DHEA_S: [{ units: ['umol/L'], factor: 36.81 }],
+
+  PTH: [{ units: ['pmol/L'], factor: 9.43 }, { units: ['ng/L'], factor: 1 }],
+};
+
+// Body measurements imported from devices/apps: weight into kg, lengths into cm
+export const physicalUnitConversions: Record<'MASS' | 'LENGTH', UnitConversion[]> = {
+  MASS: [
+    { units: ['lb', 'lbs', 'pound', 'pounds'], factor: 0.45359237 },
+    { units: ['g'], factor: 0.001 },
+    { units: ['st', 'stone'], factor: 6.35029318 },
+  ],
+  LENGTH: [
+    { units: ['in', 'inch', 'inches', '"'], factor: 2.54 },
+    { units: ['ft', 'feet'], factor: 30.48 },
+    { units: ['m'], factor: 100 },
+    { units: ['mm'], factor: 0.1 },
+  ],
+};
+
+export const normalizeUnitKey = (unit: string) =>
+  unit
+    .toLowerCase()
+    .replace(/[µμ]/g, 'u')
+    .replace(/mcg/g, 'ug')
+    .replace(/[×*]/g, 'x')
+    .replace(/³/g, '^3')
+    .replace(/⁶/g, '^6')
+    .replace(/⁹/g, '^9')
+    .replace(/\s+/g, '')
+    .replace(/^x(?=10)/, '')
+    .replace(/cu\.?mm|cmm/g, 'cumm')
+    .trim();
@@ -0,0 +1,187 @@
+import { VaccineCode } from '../types/health';
+
+// Condensed from the CDC child/adolescent and adult immunization schedules. Ages are in months.
+export interface VaccineDoseRule {
+  ageMonths: number;
+  // End of the recommended window; the dose counts as overdue after this age
+  latestAgeMonths?: number;
+  // Minimum gap after the previous dose in the series
+  minIntervalMonths?: number;
+}
+
+export interface VaccineScheduleEntry {
+  name: string;
+  // Lowercase fragments used to recognise free-text vaccine records
+  aliases: string[];
+  doses: VaccineDoseRule[];
+  // Catch-up limit: an incomplete series is no longer suggested past this age
+  maxAgeMonths?: number;
+  // Recurring dose once the series is complete, counted from the latest dose of any anchor vaccine
+  repeat?: {
+    everyMonths: number;
+    fromAgeMonths: number;
+    anchors: VaccineCode[];
+  };
+  // Recurring doses that follow the autumn flu season rather than the anniversary of the last dose
+  seasonal?: boolean;
+}
+
+export const vaccineSchedule: Record<Exclude<VaccineCode, 'OTHER'>, VaccineScheduleEntry> = {
+  HEPB: {
+    name: 'Hepatitis B',
+    aliases: ['hepatitis b', 'hep b', 'hepb', 'engerix', 'recombivax'],
+    doses: [
+      { ageMonths: 0, latestAgeMonths: 1 },
+      { ageMonths: 1, latestAgeMonths: 2, minIntervalMonths: 1 },
+      { ageMonths: 6, latestAgeMonths: 18, minIntervalMonths: 2 },
+    ],
+    maxAgeMonths: 216,
+  },
+  ROTAVIRUS: {
+    name: 'Rotavirus',
+    aliases: ['rotavirus', 'rotateq', 'rotarix'],
+    doses: [
+      { ageMonths: 2 },
+      { ageMonths: 4, minIntervalMonths: 1 },
+      { ageMonths: 6, minIntervalMonths: 1 },
+    ],
+    maxAgeMonths: 8,
+  },
+  DTAP: {
+    name: 'DTaP',
+    aliases: ['dtap', 'diphtheria', 'pediarix', 'pentacel', 'infanrix', 'daptacel'],
+    doses: [
+      { ageMonths: 2 },
+      { ageMonths: 4, minIntervalMonths: 1 },
+      { ageMonths: 6, minIntervalMonths: 1 },
+      { ageMonths: 15, latestAgeMonths: 18, minIntervalMonths: 6 },
+      { ageMonths: 48, latestAgeMonths: 72, minIntervalMonths: 6 },
+    ],
+    maxAgeMonths: 84,
+  },
+  HIB: {
+    name: 'Hib',
+    aliases: ['hib', 'haemophilus', 'acthib', 'pedvaxhib'],
+    doses: [
+      { ageMonths: 2 },
+      { ageMonths: 4, minIntervalMonths: 1 },
+      { ageMonths: 6, minIntervalMonths: 1 },
+      { ageMonths: 12, latestAgeMonths: 15, minIntervalMonths: 2 },
+    ],
+    maxAgeMonths: 60,
+  },
+  PCV: {
+    name: 'Pneumococcal (PCV)',
+    aliases: ['pcv13', 'pcv15', 'prevnar', 'vaxneuvance'],
+    doses: [
+      { ageMonths: 2 },
+      { ageMonths: 4, minIntervalMonths: 1 },
+      { ageMonths: 6, minIntervalMonths: 1 },
+      { ageMonths: 12, latestAgeMonths: 15, minIntervalMonths: 2 },
+    ],
+    maxAgeMonths: 60,
+  },
+  IPV: {
+    name: 'Polio (IPV)',
+    aliases: ['polio', 'ipv', 'ipol'],
+    doses: [
+      { ageMonths: 2 },
+      { ageMonths: 4, minIntervalMonths: 1 },
+      { ageMonths: 6, latestAgeMonths: 18, minIntervalMonths: 1 },
+      { ageMonths: 48, latestAgeMonths: 72, minIntervalMonths: 6 },
+    ],
+    maxAgeMonths: 216,
+  },
+  MMR: {
+    name: 'MMR',
+    aliases: ['mmr', 'measles', 'mumps', 'rubella', 'proquad', 'priorix'],
+    doses: [
+      { ageMonths: 12, latestAgeMonths: 15 },
+      { ageMonths: 48, latestAgeMonths: 72, minIntervalMonths: 1 },
+    ],
+    maxAgeMonths: 216,
+  },
+  VARICELLA: {
+    name: 'Varicella',
+    aliases: ['varicella', 'chickenpox', 'chicken pox', 'varivax'],
+    doses: [
+      { ageMonths: 12, latestAgeMonths: 15 },
+      { ageMonths: 48, latestAgeMonths: 72, minIntervalMonths: 3 },
+    ],
+    maxAgeMonths: 216,
+  },
+  HEPA: {
+    name: 'Hepatitis A',
+    aliases: ['hepatitis a', 'hep a', 'hepa', 'havrix', 'vaqta'],
+    doses: [
+      { ageMonths: 12, latestAgeMonths: 23 },
+      { ageMonths: 18, minIntervalMonths: 6 },
+    ],
+    maxAgeMonths: 216,
+  },
+  MENACWY: {
+    name: 'Meningococcal ACWY',
+    aliases: ['menacwy', 'meningococcal', 'menactra', 'menveo', 'menquadfi'],
+    doses: [
+      { ageMonths: 132, latestAgeMonths: 144 },
+      { ageMonths: 192, minIntervalMonths: 2 },
+    ],
+    maxAgeMonths: 252,
+  },
+  HPV: {
+    name: 'HPV',
+    aliases: ['hpv', 'papilloma', 'gardasil'],
+    doses: [
+      { ageMonths: 132, latestAgeMonths: 144 },
+      { ageMonths: 138, minIntervalMonths: 6 },
+    ],
+    maxAgeMonths: 312,
+  },
+  TDAP: {
+    name: 'Tdap',
+    aliases: ['tdap', 'boostrix', 'adacel'],
+    doses: [{ ageMonths: 132, latestAgeMonths: 144 }],
+    maxAgeMonths: 216,
+  },
+  TD_BOOSTER: {
+    name: 'Td/Tdap booster',
+    aliases: ['tetanus', 'td booster', 'tenivac'],
+    doses: [],
+    repeat: { everyMonths: 120, fromAgeMonths: 228, anchors: ['TDAP', 'TD_BOOSTER'] },
+  },
+  FLU: {
+    name: 'Influenza',
+    aliases: ['flu', 'influenza', 'fluzone', 'flucelvax', 'fluad', 'flumist'],
+    doses: [],
+    repeat: { everyMonths: 12, fromAgeMonths: 6, anchors: ['FLU'] },
+    seasonal: true,
+  },
+  SHINGLES: {
+    name: 'Shingles (RZV)',
+    aliases: ['shingles', 'zoster', 'shingrix'],
+    doses: [
+      { ageMonths: 600 },
+      { ageMonths: 602, minIntervalMonths: 2 },
+    ],
+  },
+  PNEUMOCOCCAL_ADULT: {
+    name: 'Pneumococcal (adult)',
+    aliases: ['pcv20', 'pcv21', 'prevnar 20', 'capvaxive', 'pneumovax', 'ppsv23'],
+    doses: [{ ageMonths: 600 }],
+  },
+};
+
+export const vaccineLabels: Record<VaccineCode, string> = {
+  ...Object.fromEntries(Object.entries(vaccineSchedule).map(([code, entry]) => [code, entry.name])) as Record<Exclude<VaccineCode, 'OTHER'>, string>,
+  OTHER: 'Other',
+};
+
+// Doses this many days ahead show up as upcoming
+export const VACCINE_UPCOMING_DAYS = 60;
+
+// How long a due dose without an explicit window waits before it counts as overdue
+export const VACCINE_GRACE_MONTHS = 1;
+
+// Flu season runs from September; doses given from August count towards it
+export const FLU_SEASON_START_MONTH = 8;
+export const FLU_SEASON_DUE_MONTH = 9;
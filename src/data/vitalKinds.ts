@@ -0,0 +1,104 @@
+import { VitalContext, VitalKind } from '../types/health';
+import { UnitConversion } from './unitConversions';
+
+export interface VitalTarget {
+  min?: number;
+  max?: number;
+}
+
+export interface VitalKindDefinition {
+  kind: VitalKind;
+  label: string;
+  icon: string;
+  unit: string;
+  // Alternate entry units, converted into `unit` before saving (canonical = value * factor + offset)
+  conversions: UnitConversion[];
+  contexts: VitalContext[];
+  target: VitalTarget;
+  contextTargets?: Partial<Record<VitalContext, VitalTarget>>;
+  decimals: number;
+}
+
+// Targets follow common adult guidance: ADA glucose goals (70-180 mg/dL time-in-range,
+// 80-130 fasting, <180 after meals), SpO2 ≥95%, 7-9 h sleep.
+export const vitalKinds: VitalKindDefinition[] = [
+  {
+    kind: 'GLUCOSE',
+    label: 'Blood Glucose',
+    icon: 'water_drop',
+    unit: 'mg/dL',
+    conversions: [{ units: ['mmol/L'], factor: 18.016 }],
+    contexts: ['FASTING', 'PRE_MEAL', 'POST_MEAL', 'BEDTIME', 'RANDOM'],
+    target: { min: 70, max: 180 },
+    contextTargets: {
+      FASTING: { min: 80, max: 130 },
+      PRE_MEAL: { min: 80, max: 130 },
+      POST_MEAL: { min: 70, max: 180 },
+    },
+    decimals: 0,
+  },
+  {
+    kind: 'SPO2',
+    label: 'SpO2',
+    icon: 'pulmonology',
+    unit: '%',
+    conversions: [],
+    contexts: ['RESTING', 'ACTIVE', 'RANDOM'],
+    target: { min: 95, max: 100 },
+    decimals: 0,
+  },
+  {
+    kind: 'TEMPERATURE',
+    label: 'Temperature',
+    icon: 'thermometer',
+    unit: '°C',
+    conversions: [{ units: ['°F', 'F', 'degF'], factor: 5 / 9, offset: -160 / 9 }, { units: ['degC', 'C'], factor: 1 }],
+    contexts: ['RANDOM', 'BEDTIME'],
+    target: { min: 36.1, max: 37.5 },
+    decimals: 1,
+  },
+  {
+    kind: 'SLEEP',
+    label: 'Sleep',
+    icon: 'bedtime',
+    unit: 'h',
+    conversions: [{ units: ['min'], factor: 1 / 60 }],
+    contexts: [],
+    target: { min: 7, max: 9 },
+    decimals: 1,
+  },
+  {
+    kind: 'HEART_RATE',
+    label: 'Heart Rate',
+    icon: 'ecg_heart',
+    unit: 'bpm',
+    conversions: [],
+    contexts: ['RESTING', 'ACTIVE', 'RANDOM'],
+    target: { min: 50, max: 100 },
+    contextTargets: { ACTIVE: { min: 50, max: 180 } },
+    decimals: 0,
+  },
+  {
+    kind: 'STEPS',
+    label: 'Steps',
+    icon: 'directions_walk',
+    unit: 'steps',
+    conversions: [],
+    contexts: [],
+    target: { min: 7000 },
+    decimals: 0,
+  },
+];
+
+export const vitalContextLabels: Record<VitalContext, string> = {
+  FASTING: 'Fasting',
+  PRE_MEAL: 'Before meal',
+  POST_MEAL: 'After meal',
+  BEDTIME: 'Bedtime',
+  RANDOM: 'Random',
+  RESTING: 'Resting',
+  ACTIVE: 'Active',
+};
+
+export const getVitalKind = (kind: VitalKind) =>
+  vitalKinds.find(definition => definition.kind === kind) as VitalKindDefinition;
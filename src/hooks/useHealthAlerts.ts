@@ -0,0 +1,208 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { HealthAlert, HealthAlertCandidate, HealthAlertKind, HealthAlertSeverity, HealthAlertStatus } from '../types/health';
+import { followUpDueDays } from '../data/healthAlertRules';
+import { toLocalDateString } from '../utils/medications';
+import { useStableList } from './useStableList';
+
+const ALERT_COLUMNS = 'id, person_id, report_id, alert_key, kind, severity, marker_code, marker_name, value, unit, test_date, message, status, follow_up_todo_id, created_at';
+
+const toHealthAlert = (row: any): HealthAlert => ({
+  id: row.id,
+  personId: row.person_id,
+  reportId: row.report_id,
+  alertKey: row.alert_key,
+  kind: row.kind as HealthAlertKind,
+  severity: row.severity as HealthAlertSeverity,
+  markerCode: row.marker_code,
+  markerName: row.marker_name,
+  value: Number(row.value),
+  unit: row.unit,
+  testDate: row.test_date,
+  message: row.message,
+  status: row.status as HealthAlertStatus,
+  followUpTodoId: row.follow_up_todo_id,
+  createdAt: row.created_at,
+});
+
+const bySeverityThenDate = (a: HealthAlert, b: HealthAlert) =>
+  (a.severity === b.severity ? 0 : a.severity === 'CRITICAL' ? -1 : 1) || b.testDate.localeCompare(a.testDate);
+
+// Todos are visible to every collaborator on the person, so the marker and value are only written into the to-do
+// when the source report is shared with all of them; otherwise it points back to the Health tab
+const isReportSharedWithAll = async (reportId?: string | null) => {
+  if (!reportId) return true;
+  const { data, error } = await supabase.from('health_reports').select('share_mode').eq('id', reportId).maybeSingle();
+  if (error) throw error;
+  return (data?.share_mode || 'ALL') === 'ALL';
+};
+
+// Creates the follow-up to-do for an alert and links it, so the alert never spawns a second one
+const createFollowUpTodo = async (alert: HealthAlert, userId: string) => {
+  const due = new Date();
+  due.setDate(due.getDate() + followUpDueDays[alert.severity]);
+  const detailed = await isReportSharedWithAll(alert.reportId);
+  const subject = detailed ? alert.markerName : 'a lab result';
+  const { data: todo, error: todoError } = await supabase.from('todos').insert({
+    person_id: alert.personId,
+    title: alert.severity === 'CRITICAL'
+      ? `Call the doctor about ${subject}`
+      : `Follow up on ${subject} with the doctor`,
+    due_date: toLocalDateString(due),
+    priority: alert.severity === 'CRITICAL' ? 'HIGH' : 'MEDIUM',
+    description: detailed
+      ? `${alert.message}\nLab report from ${alert.testDate}.`
+      : `Follow up on ${alert.severity === 'CRITICAL' ? 'a critical' : 'a flagged'} lab result from ${alert.testDate}. Details are on the Health tab.`,
+    created_by: userId,
+  }).select('id').single();
+  if (todoError) throw todoError;
+  const { error: linkError } = await supabase.from('health_alerts').update({ follow_up_todo_id: todo.id }).eq('id', alert.id);
+  if (linkError) throw linkError;
+  return todo.id as string;
+};
+
+export const useHealthAlerts = (personId: string | null) => {
+  const [alerts, setAlerts] = useState<HealthAlert[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAlerts = useCallback(async () => {
+    if (!personId) return;
+    try {
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from('health_alerts')
+        .select(ALERT_COLUMNS)
+        .eq('person_id', personId)
+        .eq('status', 'OPEN');
+      if (fetchError) throw fetchError;
+      setAlerts((data || []).map(toHealthAlert).sort(bySeverityThenDate));
+    } catch (err: any) {
+      console.error('Health alerts fetch error', err);
+      setError(err.message || 'Failed to load health alerts.');
+    }
+  }, [personId]);
+
+  // Stores newly raised alerts (critical ones get a follow-up to-do straight away) and resolves open alerts for
+  // evaluated markers that the latest results no longer support. Alerts already stored, including dismissed
+  // ones, are left as they are.
+  const syncAlerts = useCallback(async (candidates: HealthAlertCandidate[], evaluatedCodes: string[]) => {
+    if (!personId) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+    try {
+      let inserted: HealthAlert[] = [];
+      if (candidates.length > 0) {
+        const { data, error: insertError } = await supabase
+          .from('health_alerts')
+          .upsert(candidates.map(candidate => ({
+            person_id: personId,
+            report_id: candidate.reportId ?? null,
+            alert_key: candidate.alertKey,
+            kind: candidate.kind,
+            severity: candidate.severity,
+            marker_code: candidate.markerCode,
+            marker_name: candidate.markerName,
+            value: candidate.value,
+            unit: candidate.unit ?? null,
+            test_date: candidate.testDate,
+            message: candidate.message,
+            created_by: user.id,
+          })), { onConflict: 'person_id,alert_key', ignoreDuplicates: true })
+          .select(ALERT_COLUMNS);
+        if (insertError) throw insertError;
+        inserted = (data || []).map(toHealthAlert);
+      }
+
+      for (const alert of inserted.filter(item => item.severity === 'CRITICAL')) {
+        try {
+          await createFollowUpTodo(alert, user.id);
+        } catch (err) {
+          console.error('Failed to create follow-up todo', err);
+        }
+      }
+
+      const keys = new Set(candidates.map(candidate => candidate.alertKey));
+      const codes = new Set(evaluatedCodes);
+      const { data: openRows, error: openError } = await supabase
+        .from('health_alerts')
+        .select('id, alert_key, marker_code')
+        .eq('person_id', personId)
+        .eq('status', 'OPEN');
+      if (openError) throw openError;
+      const staleIds = (openRows || []).filter((row: any) => codes.has(row.marker_code) && !keys.has(row.alert_key)).map((row: any) => row.id as string);
+      if (staleIds.length > 0) {
+        const { error: resolveError } = await supabase
+          .from('health_alerts')
+          .update({ status: 'RESOLVED', resolved_at: new Date().toISOString() })
+          .in('id', staleIds);
+        if (resolveError) throw resolveError;
+      }
+    } catch (err) {
+      console.error('Health alerts sync error', err);
+    } finally {
+      await fetchAlerts();
+    }
+  }, [fetchAlerts, personId]);
+
+  const dismissAlert = useCallback(async (alertId: string) => {
+    const { error: updateError } = await supabase
+      .from('health_alerts')
+      .update({ status: 'DISMISSED', resolved_at: new Date().toISOString() })
+      .eq('id', alertId);
+    if (updateError) throw updateError;
+    setAlerts(prev => prev.filter(alert => alert.id !== alertId));
+  }, []);
+
+  const addFollowUp = useCallback(async (alert: HealthAlert) => {
+    if (alert.followUpTodoId) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+    const todoId = await createFollowUpTodo(alert, user.id);
+    setAlerts(prev => prev.map(item => (item.id === alert.id ? { ...item, followUpTodoId: todoId } : item)));
+  }, []);
+
+  return {
+    alerts,
+    error,
+    fetchAlerts,
+    syncAlerts,
+    dismissAlert,
+    addFollowUp,
+  };
+};
+
+// Open alerts for several people at once, keyed by person id, for family-wide views like the newsfeed
+export const useFamilyHealthAlerts = (personIds: string[]) => {
+  const [byPerson, setByPerson] = useState<Record<string, HealthAlert[]>>({});
+  const ids = useStableList(personIds, id => id);
+
+  useEffect(() => {
+    if (ids.length === 0) {
+      setByPerson({});
+      return;
+    }
+    let cancelled = false;
+    supabase
+      .from('health_alerts')
+      .select(ALERT_COLUMNS)
+      .in('person_id', ids)
+      .eq('status', 'OPEN')
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Family health alerts fetch error', error);
+          return;
+        }
+        const grouped: Record<string, HealthAlert[]> = {};
+        (data || []).map(toHealthAlert).sort(bySeverityThenDate).forEach(alert => {
+          (grouped[alert.personId] ||= []).push(alert);
+        });
+        setByPerson(grouped);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [ids]);
+
+  return byPerson;
+};
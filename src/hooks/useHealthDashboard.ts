@@ -1,45 +1,62 @@
-import { useCallback, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { supabase } from '../lib/supabase';
-import { healthMarkersSeed, markerAliases, systemLabel } from '../data/healthMarkers';
+import { healthMarkersSeed, markerAliases } from '../data/healthMarkers';
 import {
+  CustomMarkerInput,
+  ExtractionReview,
+  ExtractionReviewRow,
+  FamilyHealthOverview,
   HealthDashboardData,
+  HealthDemographics,
   HealthMarker,
   HealthPhysical,
   HealthRatio,
   HealthReport,
+  HealthSharing,
+  HealthShareMode,
   HealthValue,
+  HealthValueInput,
   HealthValueStatus,
-  HealthSystem,
-  SystemSummary,
+  MarkerMatchMethod,
+  MarkerRangeBand,
+  UnmatchedMarkerGroup,
 } from '../types/health';
 import {
+  buildBloodPressureSummary,
+  buildGrowthAssessments,
   buildRatios,
+  buildSystemSummaries,
   buildTrends,
   calculateBMI,
   calculateWaistHipRatio,
+  convertToCanonicalUnit,
+  deriveMarkerValues,
   evaluateValueStatus,
   isFlaggedValue,
   normalizeMarkerKey,
   ratioDefinitions,
+  resolveMarkerRange,
 } from '../utils/healthCalculations';
-import { parseHealthReport } from '../services/healthParser';
-
-// Module-level cache for health_markers reference data (static, never changes between sessions)
-let cachedHealthMarkers: any[] | null = null;
-
-const systemIcons: Record<HealthSystem, string> = {
-  METABOLIC: 'local_fire_department',
-  LIPIDS: 'favorite',
-  LIVER: 'bloodtype',
-  KIDNEY: 'water_drop',
-  BLOOD: 'opacity',
-  INFLAMMATION: 'flare',
-  THYROID: 'settings_heart',
-  VITAMINS: 'emoji_food_beverage',
-  ELECTROLYTES: 'bolt',
-  HORMONES: 'science',
-  BONE: 'fitness_center',
-};
+import { buildRetestSchedule } from '../utils/retestSchedule';
+import { ExtractedReport, ReportParserId } from '../services/healthParser';
+import { getReportParser } from '../services/reportParsers';
+import { Collaborator } from '../../types';
+import { INTERVAL_COLUMNS, toRetestOverride } from './useRetestIntervals';
+import { useStableList } from './useStableList';
+
+// Module-level cache of health_markers: the shared reference set plus the signed-in user's custom markers.
+// Keyed by user so signing in as someone else in the same tab never shows the previous user's custom markers.
+let cachedHealthMarkers: { userId: string | null; markers: HealthMarker[] } | null = null;
+
+const toMarkerRangeBand = (band: any): MarkerRangeBand => ({
+  sex: band.sex ?? null,
+  ageMin: band.age_min ?? null,
+  ageMax: band.age_max ?? null,
+  optimalMin: band.optimal_min ?? null,
+  optimalMax: band.optimal_max ?? null,
+  labMin: band.lab_min ?? null,
+  labMax: band.lab_max ?? null,
+});
 
 const toHealthMarker = (row: any): HealthMarker => ({
   id: row.id,
@@ -51,8 +68,38 @@ const toHealthMarker = (row: any): HealthMarker => ({
   optimalMax: row.optimal_max,
   labMin: row.lab_min,
   labMax: row.lab_max,
+  ranges: Array.isArray(row.ranges) ? row.ranges.map(toMarkerRangeBand) : null,
+  goodDirection: row.good_direction,
   description: row.description,
   displayOrder: row.display_order,
+  aliases: row.aliases ?? [],
+  ownerId: row.owner_id ?? null,
+});
+
+// Name lookup for mapping extracted names; custom markers also register their aliases
+const indexMarkersByName = (markers: HealthMarker[]) => {
+  const index = new Map<string, HealthMarker>();
+  markers.forEach(marker => {
+    (marker.aliases || []).forEach(alias => {
+      const key = normalizeMarkerKey(alias);
+      if (key) index.set(key, marker);
+    });
+  });
+  markers.forEach(marker => index.set(normalizeMarkerKey(marker.name), marker));
+  return index;
+};
+
+const toCustomMarkerRecord = (input: CustomMarkerInput) => ({
+  name: input.name.trim(),
+  unit: input.unit?.trim() || null,
+  system: input.system,
+  optimal_min: input.optimalMin ?? null,
+  optimal_max: input.optimalMax ?? null,
+  lab_min: input.labMin ?? null,
+  lab_max: input.labMax ?? null,
+  good_direction: input.goodDirection || 'IN_RANGE',
+  aliases: (input.aliases || []).map(alias => alias.trim()).filter(Boolean),
+  description: input.description?.trim() || null,
 });
 
 const toHealthPhysical = (row: any): HealthPhysical => ({
@@ -68,7 +115,10 @@ const toHealthPhysical = (row: any): HealthPhysical => ({
   bpSystolic: row.bp_systolic,
   bpDiastolic: row.bp_diastolic,
   restingHr: row.resting_hr,
+  headCircumferenceCm: row.head_circumference_cm,
   notes: row.notes,
+  sharing: { mode: (row.share_mode || 'ALL') as HealthShareMode, collaboratorIds: [] },
+  createdBy: row.created_by ?? null,
 });
 
 const toHealthReport = (row: any): HealthReport => ({
@@ -78,16 +128,66 @@ const toHealthReport = (row: any): HealthReport => ({
   labName: row.lab_name,
   reportType: row.report_type || 'FULL_BODY',
   pdfUrl: row.pdf_url,
+  filePaths: row.file_paths?.length ? row.file_paths : row.pdf_url ? [row.pdf_url] : [],
   status: (row.status || 'PENDING') as HealthReport['status'],
   // raw_extraction is intentionally not fetched in the list query to reduce egress
   rawExtraction: undefined,
   values: [],
   ratios: [],
+  sharing: { mode: (row.share_mode || 'ALL') as HealthShareMode, collaboratorIds: [] },
+  createdBy: row.created_by ?? null,
   createdAt: row.created_at,
 });
 
-const toHealthRatio = (row: any, lookup: Record<string, { name: string; formula: string }>): HealthRatio => {
-  const meta = lookup[row.ratio_code] || { name: row.ratio_code, formula: '' };
+type HealthShareRecordType = 'HEALTH_REPORT' | 'HEALTH_PHYSICAL';
+
+// Fills in the person_share_ids picked for SELECTED items; RLS only returns the shares the viewer may see
+const attachItemShares = async <T extends { id: string; sharing?: HealthSharing }>(
+  items: T[],
+  recordType: HealthShareRecordType
+): Promise<T[]> => {
+  const selectedIds = items.filter(item => item.sharing?.mode === 'SELECTED').map(item => item.id);
+  if (selectedIds.length === 0) return items;
+  const { data, error } = await supabase
+    .from('item_shares')
+    .select('record_id, person_share_id')
+    .eq('record_type', recordType)
+    .in('record_id', selectedIds);
+  if (error) throw error;
+  const sharesByRecord = new Map<string, string[]>();
+  (data || []).forEach((row: any) => {
+    sharesByRecord.set(row.record_id, [...(sharesByRecord.get(row.record_id) || []), row.person_share_id]);
+  });
+  return items.map(item => (item.sharing?.mode === 'SELECTED'
+    ? { ...item, sharing: { mode: 'SELECTED', collaboratorIds: sharesByRecord.get(item.id) || [] } }
+    : item));
+};
+
+const writeItemShares = async (recordType: HealthShareRecordType, recordId: string, personShareIds: string[], userId: string) => {
+  if (personShareIds.length === 0) return;
+  const { error } = await supabase.from('item_shares').insert(personShareIds.map(personShareId => ({
+    record_type: recordType,
+    record_id: recordId,
+    person_share_id: personShareId,
+    created_by: userId,
+  })));
+  if (error) throw error;
+};
+
+const toCollaborator = (row: any): Collaborator => ({
+  id: row.id,
+  userId: row.user_id,
+  name: row.profiles?.full_name || row.user_email || 'Unknown',
+  email: row.profiles?.email || row.user_email,
+  avatarUrl: row.profiles?.avatar_url,
+});
+
+const ratioLookup: Record<string, { name: string; formula: string }> = Object.fromEntries(
+  ratioDefinitions.map(def => [def.ratioCode, { name: def.name, formula: def.formula }])
+);
+
+const toHealthRatio = (row: any): HealthRatio => {
+  const meta = ratioLookup[row.ratio_code] || { name: row.ratio_code, formula: '' };
   return {
     id: row.id,
     reportId: row.report_id,
@@ -101,61 +201,230 @@ const toHealthRatio = (row: any, lookup: Record<string, { name: string; formula:
   };
 };
 
-const buildSystemSummaries = (values: HealthValue[], markersByCode: Map<string, HealthMarker>): SystemSummary[] => {
-  const grouped = new Map<HealthSystem, HealthValue[]>();
-  values.forEach(value => {
-    const marker = value.markerCode ? markersByCode.get(value.markerCode) : undefined;
-    if (!marker) return;
-    const list = grouped.get(marker.system) || [];
-    list.push(value);
-    grouped.set(marker.system, list);
-  });
+const matchConfidence: Record<MarkerMatchMethod, number> = {
+  CODE: 1,
+  ALIAS: 0.95,
+  NAME: 0.9,
+  FUZZY: 0.6,
+  NONE: 0,
+};
 
-  return Array.from(grouped.entries()).map(([system, items]) => {
-    const optimalCount = items.filter(i => i.status === 'OPTIMAL').length;
-    const flaggedCount = items.filter(i => i.status === 'LOW' || i.status === 'HIGH').length;
-    let status: SystemSummary['status'] = 'OPTIMAL';
-    if (flaggedCount > 2) status = 'CONCERN';
-    if (flaggedCount > 0 && flaggedCount <= 2) status = 'ATTENTION';
+// Shortest key length considered for substring matching, to avoid matching "HB" inside every name
+const FUZZY_MIN_KEY_LENGTH = 4;
 
-    return {
-      system,
-      displayName: systemLabel(system),
-      icon: systemIcons[system],
-      markerCount: items.length,
-      optimalCount,
-      flaggedCount,
-      status,
-      markers: items,
-    };
-  });
-};
+// learnedAliases come from the user's own corrections and take precedence over the built-in markerAliases
+const matchMarkerCode = (
+  marker: { name?: string | null; code?: string | null },
+  markersByCode: Map<string, HealthMarker>,
+  markersByName: Map<string, HealthMarker>,
+  learnedAliases: Record<string, string> = {}
+): { code: string | null; method: MarkerMatchMethod; confidence: number } => {
+  const result = (code: string | null, method: MarkerMatchMethod) => ({ code, method, confidence: matchConfidence[method] });
 
-const mapMarkerCode = (marker: { name?: string | null; code?: string | null }, markersByCode: Map<string, HealthMarker>, markersByName: Map<string, HealthMarker>) => {
   const providedCode = marker.code ? marker.code.toUpperCase().trim() : null;
-  if (providedCode && markersByCode.has(providedCode)) return providedCode;
+  if (providedCode && markersByCode.has(providedCode)) return result(providedCode, 'CODE');
 
   const normalizedName = marker.name ? normalizeMarkerKey(marker.name) : '';
-  if (!normalizedName) return null;
+  if (!normalizedName) return result(null, 'NONE');
 
-  if (markerAliases[normalizedName]) return markerAliases[normalizedName];
+  const aliasCode = learnedAliases[normalizedName] || markerAliases[normalizedName];
+  if (aliasCode) return result(aliasCode, 'ALIAS');
   const byName = markersByName.get(normalizedName);
-  return byName ? byName.code : null;
+  if (byName) return result(byName.code, 'NAME');
+
+  const candidates: [string, string][] = [
+    ...Object.entries(markerAliases),
+    ...Array.from(markersByName.entries()).map(([key, value]): [string, string] => [key, value.code]),
+  ];
+  const fuzzy = candidates
+    .filter(([key]) => key.length >= FUZZY_MIN_KEY_LENGTH && (normalizedName.includes(key) || key.includes(normalizedName)))
+    .sort((a, b) => b[0].length - a[0].length)[0];
+  return fuzzy ? result(fuzzy[1], 'FUZZY') : result(null, 'NONE');
 };
 
+// Only confident matches are linked automatically; fuzzy ones are offered as suggestions during review
+const mapMarkerCode = (
+  marker: { name?: string | null; code?: string | null },
+  markersByCode: Map<string, HealthMarker>,
+  markersByName: Map<string, HealthMarker>,
+  learnedAliases: Record<string, string> = {}
+) => {
+  const match = matchMarkerCode(marker, markersByCode, markersByName, learnedAliases);
+  return match.method === 'FUZZY' ? null : match.code;
+};
+
+const seedMarkers = (): HealthMarker[] => healthMarkersSeed.map((seed, index) => ({
+  id: `seed-${seed.code}-${index}`,
+  ...seed,
+}));
+
+// Fetch health_markers only if not already cached for the current user
+const loadMarkerRows = async (): Promise<HealthMarker[]> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const userId = session?.user.id ?? null;
+  if (!cachedHealthMarkers || cachedHealthMarkers.userId !== userId) {
+    const { data: markersData } = await supabase
+      .from('health_markers')
+      .select('id, code, name, unit, system, optimal_min, optimal_max, lab_min, lab_max, ranges, good_direction, description, display_order, aliases, owner_id')
+      .order('display_order', { ascending: true });
+    cachedHealthMarkers = { userId, markers: (markersData || []).map(toHealthMarker) };
+  }
+  return cachedHealthMarkers.markers.length ? cachedHealthMarkers.markers : seedMarkers();
+};
+
+interface ValueRowContext {
+  reportId: string;
+  personId: string;
+  testDate: string;
+  demographics: HealthDemographics;
+  markersByCode: Map<string, HealthMarker>;
+  markersByName: Map<string, HealthMarker>;
+  learnedAliases: Record<string, string>;
+}
+
+const buildValueRow = (input: HealthValueInput, context: ValueRowContext): HealthValue => {
+  const code = mapMarkerCode({ name: input.markerName, code: input.markerCode }, context.markersByCode, context.markersByName, context.learnedAliases);
+  const match = resolveMarkerRange(code ? context.markersByCode.get(code) : undefined, context.demographics, context.testDate);
+  const numericValue = input.value !== undefined && input.value !== null ? Number(input.value) : null;
+  const rawValue = Number.isFinite(numericValue as number) ? numericValue : null;
+  const converted = convertToCanonicalUnit(match, rawValue, input.unit);
+  return {
+    id: input.id || `${context.reportId}-${input.markerName}-${Math.random()}`,
+    reportId: context.reportId,
+    personId: context.personId,
+    markerCode: code,
+    markerName: input.markerName || match?.name || null,
+    marker: match,
+    value: converted.value,
+    valueText: input.valueText ?? null,
+    unit: converted.unit,
+    originalValue: converted.converted ? rawValue : null,
+    originalUnit: converted.converted ? input.unit ?? null : null,
+    testDate: context.testDate,
+    isFlagged: isFlaggedValue(match, converted.value),
+    status: evaluateValueStatus(match, converted.value),
+  };
+};
+
+const toValueRecord = (row: HealthValue) => ({
+  report_id: row.reportId,
+  person_id: row.personId,
+  marker_code: row.markerCode,
+  marker_name: row.markerName,
+  value: row.value,
+  value_text: row.valueText,
+  unit: row.unit,
+  original_value: row.originalValue,
+  original_unit: row.originalUnit,
+  is_computed: row.isComputed ?? false,
+  test_date: row.testDate,
+  is_flagged: row.isFlagged,
+});
+
+// Feeds a stored value back through writeReportValues, preserving what the lab originally printed
+const toValueInput = (value: HealthValue, markerCode = value.markerCode): HealthValueInput => ({
+  id: value.id,
+  markerCode,
+  markerName: value.markerName,
+  value: value.originalValue ?? value.value,
+  valueText: value.valueText,
+  unit: value.originalUnit ?? value.unit,
+});
+
+interface StoredValueContext {
+  demographics: HealthDemographics;
+  markersByCode: Map<string, HealthMarker>;
+  markersByName: Map<string, HealthMarker>;
+  learnedAliases: Record<string, string>;
+}
+
+const toHealthValue = (row: any, context: StoredValueContext): HealthValue => {
+  const mappedCode = row.marker_code || mapMarkerCode({ name: row.marker_name, code: row.marker_code }, context.markersByCode, context.markersByName, context.learnedAliases);
+  const marker = resolveMarkerRange(mappedCode ? context.markersByCode.get(mappedCode) : undefined, context.demographics, row.test_date);
+  // Rows stored before unit normalization may still carry the lab's original unit
+  const converted = convertToCanonicalUnit(marker, row.value, row.unit);
+  const status: HealthValueStatus = evaluateValueStatus(marker, converted.value);
+  return {
+    id: row.id,
+    reportId: row.report_id,
+    personId: row.person_id,
+    markerCode: mappedCode,
+    markerName: row.marker_name,
+    marker,
+    value: converted.value,
+    valueText: row.value_text,
+    unit: converted.unit,
+    originalValue: row.original_value ?? (converted.converted ? row.value : null),
+    originalUnit: row.original_unit ?? (converted.converted ? row.unit : null),
+    isComputed: row.is_computed ?? false,
+    testDate: row.test_date,
+    // Re-derived like status so flags follow the person's current range band
+    isFlagged: marker ? isFlaggedValue(marker, converted.value) : row.is_flagged ?? false,
+    status,
+  };
+};
+
+// Hangs values and ratios off their reports; rows belonging to reports not in the list are dropped
+const attachReportResults = (reportsList: HealthReport[], values: HealthValue[], ratios: HealthRatio[]) => {
+  const reportMap = new Map<string, HealthReport>(reportsList.map(r => [r.id, r]));
+  values.forEach(value => {
+    if (!value.reportId) return;
+    const report = reportMap.get(value.reportId);
+    if (report) report.values.push(value);
+  });
+  ratios.forEach(ratio => {
+    if (!ratio.reportId) return;
+    const report = reportMap.get(ratio.reportId);
+    if (report) report.ratios.push(ratio);
+  });
+  return Array.from(reportMap.values());
+};
+
+const groupUnmatchedValues = (values: HealthValue[]): UnmatchedMarkerGroup[] => {
+  const groups = new Map<string, HealthValue[]>();
+  values.forEach(value => {
+    if (value.markerCode || value.isComputed || !value.markerName) return;
+    const key = normalizeMarkerKey(value.markerName);
+    if (!key) return;
+    const list = groups.get(key) || [];
+    list.push(value);
+    groups.set(key, list);
+  });
+  return Array.from(groups.entries()).map(([key, items]) => {
+    const sorted = [...items].sort((a, b) => b.testDate.localeCompare(a.testDate));
+    return { key, name: sorted[0].markerName as string, values: sorted, latest: sorted[0] };
+  });
+};
+
+const REPORT_COLUMNS = 'id, person_id, test_date, lab_name, report_type, pdf_url, file_paths, status, share_mode, created_by, created_at';
+const VALUE_COLUMNS = 'id, person_id, report_id, marker_code, marker_name, value, value_text, unit, original_value, original_unit, is_computed, test_date, is_flagged';
+const RATIO_COLUMNS = 'id, person_id, report_id, ratio_code, value, test_date, is_optimal';
+const PHYSICAL_COLUMNS = 'id, person_id, measurement_date, weight_kg, height_cm, bmi, waist_cm, hip_cm, waist_hip_ratio, bp_systolic, bp_diastolic, resting_hr, head_circumference_cm, notes, share_mode, created_by';
+
 const REPORTS_PAGE_SIZE = 20;
+// Enough rows for several weeks of daily blood pressure averages
+const PHYSICALS_LIMIT = 90;
 
-export const useHealthDashboard = (personId: string | null) => {
+export const useHealthDashboard = (personId: string | null, demographics?: HealthDemographics) => {
   const [markers, setMarkers] = useState<HealthMarker[]>([]);
+  const [learnedAliases, setLearnedAliases] = useState<Record<string, string>>({});
   const [reports, setReports] = useState<HealthReport[]>([]);
   const [physicals, setPhysicals] = useState<HealthPhysical[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [hasMoreReports, setHasMoreReports] = useState(false);
   const [loadingMore, setLoadingMore] = useState(false);
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  // Who may change an entry's audience: the current user, and whether they own (or are) this profile
+  const [viewer, setViewer] = useState<{ userId: string | null; managesProfile: boolean }>({ userId: null, managesProfile: false });
+  // Every value and ratio is fetched up front; reports paged in later pick theirs up from here
+  const storedResults = useRef<{ values: HealthValue[]; ratios: HealthRatio[] }>({ values: [], ratios: [] });
+
+  const sex = demographics?.sex ?? null;
+  const dateOfBirth = demographics?.dateOfBirth ?? null;
+  const personDemographics = useMemo<HealthDemographics>(() => ({ sex, dateOfBirth }), [sex, dateOfBirth]);
 
   const markersByCode = useMemo(() => new Map(markers.map(marker => [marker.code, marker])), [markers]);
-  const markersByName = useMemo(() => new Map(markers.map(marker => [normalizeMarkerKey(marker.name), marker])), [markers]);
 
   const fetchDashboard = useCallback(async () => {
     if (!personId) return;
@@ -164,89 +433,62 @@ export const useHealthDashboard = (personId: string | null) => {
       setError(null);
 
       // Fetch person-specific data; health_markers are cached at module level (static reference data)
-      const [reportsRes, valuesRes, ratiosRes, physicalsRes] = await Promise.all([
+      const { data: { user } } = await supabase.auth.getUser();
+      const [reportsRes, valuesRes, ratiosRes, physicalsRes, aliasesRes, sharesRes, personRes] = await Promise.all([
         // raw_extraction is a large JSON blob (~100KB+ per report) only needed for reprocessing, not for display
-        supabase.from('health_reports').select('id, person_id, test_date, lab_name, report_type, pdf_url, status, created_at').eq('person_id', personId).order('test_date', { ascending: false }).limit(20),
-        supabase.from('health_values').select('id, person_id, report_id, marker_code, marker_name, value, value_text, unit, test_date, is_flagged').eq('person_id', personId).order('test_date', { ascending: false }),
-        supabase.from('health_ratios').select('id, person_id, report_id, ratio_code, value, test_date, is_optimal').eq('person_id', personId).order('test_date', { ascending: false }),
-        supabase.from('health_physicals').select('id, person_id, measurement_date, weight_kg, height_cm, bmi, waist_cm, hip_cm, waist_hip_ratio, bp_systolic, bp_diastolic, resting_hr, notes').eq('person_id', personId).order('measurement_date', { ascending: false }).limit(20),
+        supabase.from('health_reports').select(REPORT_COLUMNS).eq('person_id', personId).order('test_date', { ascending: false }).limit(REPORTS_PAGE_SIZE),
+        supabase.from('health_values').select(VALUE_COLUMNS).eq('person_id', personId).order('test_date', { ascending: false }),
+        supabase.from('health_ratios').select(RATIO_COLUMNS).eq('person_id', personId).order('test_date', { ascending: false }),
+        supabase.from('health_physicals').select(PHYSICAL_COLUMNS).eq('person_id', personId).order('measurement_date', { ascending: false }).limit(PHYSICALS_LIMIT),
+        supabase.from('health_marker_aliases').select('alias_key, marker_code'),
+        supabase.from('person_shares').select('id, user_id, user_email, profiles(full_name, email, avatar_url)').eq('person_id', personId).not('user_id', 'is', null),
+        supabase.from('people').select('created_by, linked_user_id').eq('id', personId).maybeSingle(),
       ]);
 
-      // Fetch health_markers only if not already cached (static reference data, ~265 rows)
-      if (!cachedHealthMarkers) {
-        const { data: markersData } = await supabase
-          .from('health_markers')
-          .select('id, code, name, unit, system, optimal_min, optimal_max, lab_min, lab_max, description, display_order')
-          .order('display_order', { ascending: true });
-        cachedHealthMarkers = markersData;
-      }
-      const markersRes = { data: cachedHealthMarkers, error: null };
-
-      if (markersRes.error) throw markersRes.error;
       if (reportsRes.error) throw reportsRes.error;
       if (valuesRes.error) throw valuesRes.error;
       if (ratiosRes.error) throw ratiosRes.error;
       if (physicalsRes.error) throw physicalsRes.error;
+      if (aliasesRes.error) throw aliasesRes.error;
+      if (sharesRes.error) throw sharesRes.error;
+      if (personRes.error) throw personRes.error;
 
-      const markerRows = markersRes.data?.length ? markersRes.data.map(toHealthMarker) : healthMarkersSeed.map((seed, index) => ({
-        id: `seed-${seed.code}-${index}`,
-        ...seed,
-      }));
+      const markerRows = await loadMarkerRows();
       setMarkers(markerRows);
 
-      const reportsList = (reportsRes.data || []).map(toHealthReport);
+      const reportsList = await attachItemShares((reportsRes.data || []).map(toHealthReport), 'HEALTH_REPORT');
       const effectiveByCode = new Map(markerRows.map(marker => [marker.code, marker]));
-      const effectiveByName = new Map(markerRows.map(marker => [normalizeMarkerKey(marker.name), marker]));
-
-      const valuesList = (valuesRes.data || []).map((row: any) => {
-        const mappedCode = row.marker_code || mapMarkerCode({ name: row.marker_name, code: row.marker_code }, effectiveByCode, effectiveByName);
-        const marker = mappedCode ? effectiveByCode.get(mappedCode) : undefined;
-        const status: HealthValueStatus = evaluateValueStatus(marker, row.value);
-        return {
-          id: row.id,
-          reportId: row.report_id,
-          personId: row.person_id,
-          markerCode: mappedCode,
-          markerName: row.marker_name,
-          marker,
-          value: row.value,
-          valueText: row.value_text,
-          unit: row.unit || marker?.unit,
-          testDate: row.test_date,
-          isFlagged: row.is_flagged ?? isFlaggedValue(marker, row.value),
-          status,
-        } as HealthValue;
-      });
-
-      const ratioLookup = Object.fromEntries(
-        ratioDefinitions.map(def => [def.ratioCode, { name: def.name, formula: def.formula }])
+      const effectiveByName = indexMarkersByName(markerRows);
+      const aliasRows: Record<string, string> = Object.fromEntries(
+        (aliasesRes.data || []).map((row: any) => [row.alias_key, row.marker_code])
       );
+      setLearnedAliases(aliasRows);
 
-      const ratiosList = (ratiosRes.data || []).map((row: any) => toHealthRatio(row, ratioLookup));
-
-      const reportMap = new Map<string, HealthReport>(reportsList.map(r => [r.id, r]));
-      valuesList.forEach(value => {
-        if (!value.reportId) return;
-        const report = reportMap.get(value.reportId);
-        if (report) report.values.push(value);
-      });
-      ratiosList.forEach(ratio => {
-        if (!ratio.reportId) return;
-        const report = reportMap.get(ratio.reportId);
-        if (report) report.ratios.push(ratio);
-      });
-
-      const fetchedReports = Array.from(reportMap.values());
+      storedResults.current = {
+        values: (valuesRes.data || []).map((row: any) => toHealthValue(row, {
+          demographics: personDemographics,
+          markersByCode: effectiveByCode,
+          markersByName: effectiveByName,
+          learnedAliases: aliasRows,
+        })),
+        ratios: (ratiosRes.data || []).map(toHealthRatio),
+      };
+      const fetchedReports = attachReportResults(reportsList, storedResults.current.values, storedResults.current.ratios);
       setReports(fetchedReports);
       setHasMoreReports(fetchedReports.length === REPORTS_PAGE_SIZE);
-      setPhysicals((physicalsRes.data || []).map(toHealthPhysical));
+      setPhysicals(await attachItemShares((physicalsRes.data || []).map(toHealthPhysical), 'HEALTH_PHYSICAL'));
+      setCollaborators((sharesRes.data || []).map(toCollaborator));
+      setViewer({
+        userId: user?.id ?? null,
+        managesProfile: Boolean(user && personRes.data && (personRes.data.created_by === user.id || personRes.data.linked_user_id === user.id)),
+      });
     } catch (err: any) {
       console.error('Health dashboard fetch error', err);
       setError(err.message || 'Failed to load health dashboard.');
     } finally {
       setLoading(false);
     }
-  }, [personId]);
+  }, [personDemographics, personId]);
 
   const loadMoreReports = useCallback(async () => {
     if (!personId || loadingMore) return;
@@ -254,13 +496,13 @@ export const useHealthDashboard = (personId: string | null) => {
       setLoadingMore(true);
       const { data, error: fetchError } = await supabase
         .from('health_reports')
-        .select('id, person_id, test_date, lab_name, report_type, pdf_url, status, created_at')
+        .select(REPORT_COLUMNS)
         .eq('person_id', personId)
         .order('test_date', { ascending: false })
         .range(reports.length, reports.length + REPORTS_PAGE_SIZE - 1);
       if (fetchError) throw fetchError;
-      const newReports = (data || []).map(toHealthReport);
-      setReports(prev => [...prev, ...newReports]);
+      const newReports = await attachItemShares((data || []).map(toHealthReport), 'HEALTH_REPORT');
+      setReports(prev => [...prev, ...attachReportResults(newReports, storedResults.current.values, storedResults.current.ratios)]);
       setHasMoreReports(newReports.length === REPORTS_PAGE_SIZE);
     } catch (err: any) {
       console.error('Error loading more reports', err);
@@ -277,7 +519,8 @@ export const useHealthDashboard = (personId: string | null) => {
     const bmi = calculateBMI(input.weightKg ?? undefined, input.heightCm ?? undefined);
     const waistHipRatio = calculateWaistHipRatio(input.waistCm ?? undefined, input.hipCm ?? undefined);
 
-    const { error } = await supabase.from('health_physicals').insert({
+    const sharing = input.sharing ?? { mode: 'ALL', collaboratorIds: [] };
+    const { data, error } = await supabase.from('health_physicals').insert({
       person_id: personId,
       measurement_date: input.measurementDate,
       weight_kg: input.weightKg ?? null,
@@ -289,27 +532,176 @@ export const useHealthDashboard = (personId: string | null) => {
       bp_systolic: input.bpSystolic ?? null,
       bp_diastolic: input.bpDiastolic ?? null,
       resting_hr: input.restingHr ?? null,
+      head_circumference_cm: input.headCircumferenceCm ?? null,
       notes: input.notes ?? null,
+      share_mode: sharing.mode,
       created_by: user.id,
-    });
+    }).select('id').single();
 
     if (error) throw error;
+    if (sharing.mode === 'SELECTED') await writeItemShares('HEALTH_PHYSICAL', data.id as string, sharing.collaboratorIds, user.id);
     await fetchDashboard();
   }, [fetchDashboard, personId]);
 
-  const uploadReport = useCallback(async (file: File, overrides?: { testDate?: string; labName?: string; reportType?: string }) => {
-    if (!personId) return;
+  // Sets who can see a report or physical; item_shares is rewritten to match, as usePeople does for records
+  const updateSharing = useCallback(async (recordType: HealthShareRecordType, recordId: string, sharing: HealthSharing) => {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('Not authenticated');
+    const table = recordType === 'HEALTH_REPORT' ? 'health_reports' : 'health_physicals';
+    try {
+      const { error } = await supabase.from(table).update({ share_mode: sharing.mode }).eq('id', recordId);
+      if (error) throw error;
+
+      const { error: clearError } = await supabase
+        .from('item_shares')
+        .delete()
+        .eq('record_type', recordType)
+        .eq('record_id', recordId);
+      if (clearError) throw clearError;
+
+      if (sharing.mode === 'SELECTED') await writeItemShares(recordType, recordId, sharing.collaboratorIds, user.id);
+    } finally {
+      await fetchDashboard();
+    }
+  }, [fetchDashboard]);
+
+  const canManageSharing = useCallback((item: { createdBy?: string | null }) => (
+    viewer.managesProfile || (Boolean(viewer.userId) && item.createdBy === viewer.userId)
+  ), [viewer]);
+
+  const effectiveMarkers = useMemo(() => (markers.length > 0 ? markers : seedMarkers()), [markers]);
 
-    const fileExt = file.name.split('.').pop() || 'pdf';
-    const filePath = `${personId}/${Date.now()}_${Math.random().toString(36).slice(2)}.${fileExt}`;
+  // Persists a report's full set of values (insert/update/delete against `existing`) and recomputes its ratios
+  // owner is only passed for another family member's report, whose ranges and derivations follow their own demographics
+  const writeReportValues = useCallback(async (
+    reportId: string,
+    testDate: string,
+    inputs: HealthValueInput[],
+    existing: HealthValue[],
+    owner?: { personId: string; demographics: HealthDemographics }
+  ) => {
+    const targetPersonId = owner?.personId ?? personId;
+    const demographics = owner?.demographics ?? personDemographics;
+    if (!targetPersonId) return;
+    const context: ValueRowContext = {
+      reportId,
+      personId: targetPersonId,
+      testDate,
+      demographics,
+      markersByCode: new Map(effectiveMarkers.map(m => [m.code, m])),
+      markersByName: indexMarkersByName(effectiveMarkers),
+      learnedAliases,
+    };
+    // Computed values are never edited directly; they are dropped and re-derived from the measured ones
+    const computedIds = new Set(existing.filter(value => value.isComputed).map(value => value.id));
+    const measuredInputs = inputs.filter(input => !input.id || !computedIds.has(input.id));
+    const valueRows = measuredInputs.map(input => buildValueRow(input, context));
+    const computedRows = deriveMarkerValues(valueRows, demographics, testDate).map(item => ({
+      ...buildValueRow({ markerCode: item.markerCode, value: item.value, unit: context.markersByCode.get(item.markerCode)?.unit }, context),
+      isComputed: true,
+    }));
+
+    const existingIds = new Set(existing.filter(value => !value.isComputed).map(value => value.id));
+    const keptIds = new Set(measuredInputs.map(input => input.id).filter((id): id is string => Boolean(id)));
+    const removedIds = existing.filter(value => value.isComputed || !keptIds.has(value.id)).map(value => value.id);
+    const updatedRows = valueRows.filter(row => existingIds.has(row.id));
+    const insertedRows = [...valueRows.filter(row => !existingIds.has(row.id)), ...computedRows];
+
+    const ratios = buildRatios([...valueRows, ...computedRows], reportId, targetPersonId, testDate, demographics);
+    // One RPC so the delete/update/insert and the ratio rebuild commit or fail together
+    const { error } = await supabase.rpc('replace_health_report_values', {
+      p_report_id: reportId,
+      p_removed_ids: removedIds,
+      p_updated: updatedRows.map(row => ({ id: row.id, ...toValueRecord(row) })),
+      p_inserted: insertedRows.map(toValueRecord),
+      p_ratios: ratios.map(ratio => ({
+        person_id: targetPersonId,
+        ratio_code: ratio.ratioCode,
+        value: ratio.value,
+        test_date: ratio.testDate,
+        is_optimal: ratio.isOptimal,
+      })),
+    });
+    if (error) throw error;
+  }, [effectiveMarkers, learnedAliases, personDemographics, personId]);
+
+  const buildExtractionReview = useCallback((reportId: string, testDate: string, extraction: ExtractedReport): ExtractionReview => {
+    const byCode = new Map<string, HealthMarker>(effectiveMarkers.map(m => [m.code, m]));
+    const byName = indexMarkersByName(effectiveMarkers);
+    const rows: ExtractionReviewRow[] = (extraction.markers || []).map((marker, index) => {
+      const match = matchMarkerCode(marker, byCode, byName, learnedAliases);
+      return {
+        key: `${reportId}-${index}`,
+        name: marker.name,
+        value: marker.value ?? null,
+        valueText: marker.valueText ?? null,
+        unit: marker.unit ?? null,
+        referenceRange: marker.referenceRange ?? null,
+        suggestedCode: match.code,
+        matchMethod: match.method,
+        confidence: match.confidence,
+        markerCode: match.code,
+        accepted: true,
+      };
+    });
+    const dropped = (extraction.rejected || []).map(item => ({ name: item.name, reason: item.reason }));
+    return { reportId, testDate, labName: extraction.labName ?? null, rows, dropped };
+  }, [effectiveMarkers, learnedAliases]);
 
-    const uploadRes = await supabase.storage
-      .from('health-reports')
-      .upload(filePath, file);
+  // Parses a stored report file into raw_extraction; on failure the report is marked FAILED with the reason
+  const extractReport = useCallback(async (
+    reportId: string,
+    files: File[],
+    fallback: { testDate: string; labName?: string | null; parserId?: ReportParserId }
+  ): Promise<ExtractionReview> => {
+    const parser = getReportParser(fallback.parserId);
+    try {
+      const extraction = { ...(await parser.parse(files)), parser: parser.id };
+      const testDate = extraction.testDate || fallback.testDate;
+      const labName = extraction.labName || fallback.labName || null;
+
+      const { error: updateError } = await supabase.from('health_reports').update({
+        lab_name: labName,
+        test_date: testDate,
+        raw_extraction: extraction,
+        status: 'PENDING',
+      }).eq('id', reportId);
+      if (updateError) throw updateError;
 
-    if (uploadRes.error) throw uploadRes.error;
+      return buildExtractionReview(reportId, testDate, { ...extraction, labName });
+    } catch (err: any) {
+      console.error('Health report processing failed', err);
+      await supabase.from('health_reports').update({
+        status: 'FAILED',
+        raw_extraction: { markers: [], parser: parser.id, error: err?.message || String(err) },
+      }).eq('id', reportId);
+      throw err;
+    }
+  }, [buildExtractionReview]);
+
+  // Uploads and parses a report, leaving it PENDING until the extraction is reviewed and confirmed
+  const uploadReport = useCallback(async (files: File[], overrides?: { testDate?: string; labName?: string; reportType?: string; parserId?: ReportParserId }): Promise<ExtractionReview | undefined> => {
+    if (!personId) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    if (files.length === 0) throw new Error('No report files selected');
+
+    // Pages share a prefix so they stay grouped (and ordered) in the bucket
+    const prefix = `${personId}/${Date.now()}_${Math.random().toString(36).slice(2)}`;
+    const filePaths: string[] = [];
+    for (const [index, file] of files.entries()) {
+      const fileExt = file.name.split('.').pop() || 'pdf';
+      const filePath = files.length === 1 ? `${prefix}.${fileExt}` : `${prefix}_p${index + 1}.${fileExt}`;
+      const uploadRes = await supabase.storage
+        .from('health-reports')
+        .upload(filePath, file);
+      if (uploadRes.error) {
+        if (filePaths.length > 0) await supabase.storage.from('health-reports').remove(filePaths);
+        throw uploadRes.error;
+      }
+      filePaths.push(uploadRes.data?.path || filePath);
+    }
 
     const fallbackDate = overrides?.testDate || new Date().toISOString().slice(0, 10);
 
@@ -320,7 +712,8 @@ export const useHealthDashboard = (personId: string | null) => {
         test_date: fallbackDate,
         lab_name: overrides?.labName || null,
         report_type: overrides?.reportType || 'FULL_BODY',
-        pdf_url: uploadRes.data?.path || filePath,
+        pdf_url: filePaths[0],
+        file_paths: filePaths,
         status: 'PENDING',
         created_by: user.id,
       })
@@ -328,103 +721,354 @@ export const useHealthDashboard = (personId: string | null) => {
       .single();
 
     if (reportRes.error) throw reportRes.error;
-    const reportId = reportRes.data.id as string;
-
-    const effectiveMarkers: HealthMarker[] = markers.length > 0 ? markers : healthMarkersSeed.map((seed, index) => ({
-      id: `seed-${seed.code}-${index}`,
-      ...seed,
-    }));
-    const effectiveByCode = new Map<string, HealthMarker>(effectiveMarkers.map(m => [m.code, m]));
-    const effectiveByName = new Map<string, HealthMarker>(effectiveMarkers.map(m => [normalizeMarkerKey(m.name), m]));
 
     try {
-      // Convert file to base64 for Gemini API (Client-side)
-      const base64Data = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => {
-          const result = reader.result as string;
-          // specific to FileReader result: "data:application/pdf;base64,..."
-          const base64 = result.split(',')[1];
-          resolve(base64);
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(file);
+      return await extractReport(reportRes.data.id as string, files, {
+        testDate: fallbackDate,
+        labName: overrides?.labName,
+        parserId: overrides?.parserId,
       });
+    } finally {
+      await fetchDashboard();
+    }
+  }, [extractReport, fetchDashboard, personId]);
 
-      const extraction = await parseHealthReport(base64Data, file.type || 'application/pdf');
-      const testDate = extraction.testDate || fallbackDate;
-      const labName = extraction.labName || overrides?.labName || null;
-
-      const valueRows: HealthValue[] = extraction.markers.map(marker => {
-        const code = mapMarkerCode(marker, effectiveByCode, effectiveByName);
-        const match = code ? effectiveByCode.get(code) : undefined;
-        const numericValue = marker.value !== undefined && marker.value !== null ? Number(marker.value) : null;
-        const status = evaluateValueStatus(match, numericValue);
-        return {
-          id: `${reportId}-${marker.name}-${Math.random()}`,
-          reportId,
-          personId,
-          markerCode: code,
-          markerName: marker.name,
-          marker: match,
-          value: Number.isFinite(numericValue as number) ? numericValue : null,
-          valueText: marker.valueText ?? null,
-          unit: marker.unit || match?.unit || null,
-          testDate,
-          isFlagged: isFlaggedValue(match, numericValue),
-          status,
-        };
+  // Re-downloads a FAILED report's files and runs extraction again with the parser used originally
+  const rerunExtraction = useCallback(async (report: HealthReport): Promise<ExtractionReview> => {
+    const filePaths = report.filePaths || [];
+    if (filePaths.length === 0) throw new Error('This report has no file to extract from.');
+    try {
+      const { data: row, error } = await supabase
+        .from('health_reports')
+        .select('raw_extraction')
+        .eq('id', report.id)
+        .single();
+      if (error) throw error;
+
+      const files = await Promise.all(filePaths.map(async path => {
+        const { data: blob, error: downloadError } = await supabase.storage.from('health-reports').download(path);
+        if (downloadError) throw downloadError;
+        return new File([blob], path.split('/').pop() || 'report.pdf', { type: blob.type || 'application/pdf' });
+      }));
+
+      return await extractReport(report.id, files, {
+        testDate: report.testDate,
+        labName: report.labName,
+        parserId: (row.raw_extraction as ExtractedReport | null)?.parser,
       });
+    } finally {
+      await fetchDashboard();
+    }
+  }, [extractReport, fetchDashboard]);
+
+  // Rebuilds the review for a PENDING report from its stored raw_extraction
+  const loadExtractionReview = useCallback(async (report: HealthReport): Promise<ExtractionReview> => {
+    const { data, error } = await supabase
+      .from('health_reports')
+      .select('id, test_date, lab_name, raw_extraction')
+      .eq('id', report.id)
+      .single();
+    if (error) throw error;
+    const extraction = (data.raw_extraction || { markers: [] }) as ExtractedReport;
+    return buildExtractionReview(report.id, data.test_date, { ...extraction, labName: data.lab_name });
+  }, [buildExtractionReview]);
+
+  // Remembers that a lab's printed name means this marker, for the current user's future uploads
+  const learnAliases = useCallback(async (mappings: { name: string; markerCode: string }[]) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+    const rows = mappings
+      .map(mapping => ({ alias_key: normalizeMarkerKey(mapping.name), marker_code: mapping.markerCode, created_by: user.id }))
+      .filter(row => row.alias_key);
+    if (rows.length === 0) return;
+    const { error } = await supabase.from('health_marker_aliases').upsert(rows, { onConflict: 'created_by,alias_key' });
+    if (error) throw error;
+  }, []);
 
-      const ratios = buildRatios(valueRows, reportId, personId, testDate);
+  // Persists only the accepted rows (with any remapped codes) and marks the report PROCESSED
+  const confirmExtractionReview = useCallback(async (review: ExtractionReview) => {
+    try {
+      // Rows the user linked by hand (remapped, or accepted from a fuzzy/unmatched suggestion) teach new aliases
+      const corrections = review.rows
+        .filter(row => row.accepted && row.markerCode && (row.markerCode !== row.suggestedCode || row.matchMethod === 'FUZZY'))
+        .map(row => ({ name: row.name, markerCode: row.markerCode as string }));
+      if (corrections.length > 0) await learnAliases(corrections);
+
+      const inputs: HealthValueInput[] = review.rows
+        .filter(row => row.accepted)
+        .map(row => ({
+          markerCode: row.markerCode,
+          markerName: row.name,
+          value: row.value,
+          valueText: row.valueText,
+          unit: row.unit,
+        }));
+      const existing = reports.find(report => report.id === review.reportId)?.values ?? [];
+      await writeReportValues(review.reportId, review.testDate, inputs, existing);
+
+      const { error } = await supabase.from('health_reports').update({
+        status: 'PROCESSED',
+        lab_name: review.labName || null,
+        test_date: review.testDate,
+      }).eq('id', review.reportId);
+      if (error) throw error;
+    } finally {
+      await fetchDashboard();
+    }
+  }, [fetchDashboard, learnAliases, reports, writeReportValues]);
 
-      if (valueRows.length > 0) {
-        const { error } = await supabase.from('health_values').insert(
-          valueRows.map(row => ({
-            report_id: reportId,
+  // Maps an unmatched printed name to a marker once: saves the alias and re-links every older value carrying that name
+  const mapUnmatchedMarker = useCallback(async (markerName: string, markerCode: string) => {
+    const aliasKey = normalizeMarkerKey(markerName);
+    try {
+      await learnAliases([{ name: markerName, markerCode }]);
+
+      // RLS limits this to people the user can access, so other family members' reports are re-linked too
+      const { data, error } = await supabase
+        .from('health_values')
+        .select('id, marker_name, report_id')
+        .is('marker_code', null);
+      if (error) throw error;
+      const matchingRows = (data || []).filter((row: any) => row.marker_name && normalizeMarkerKey(row.marker_name) === aliasKey);
+      const matchingIds = new Set<string>(matchingRows.map((row: any) => row.id));
+      if (matchingIds.size === 0) return;
+
+      // This person's reports are rewritten so units, flags, derived values and ratios follow the new marker
+      const localIds = new Set<string>();
+      for (const report of reports) {
+        if (report.personId !== personId || !report.values.some(value => matchingIds.has(value.id))) continue;
+        report.values.forEach(value => localIds.add(value.id));
+        const inputs = report.values
+          .filter(value => !value.isComputed)
+          .map(value => toValueInput(value, matchingIds.has(value.id) ? markerCode : value.markerCode));
+        await writeReportValues(report.id, report.testDate, inputs, report.values);
+      }
+
+      // Reports not loaded here (older pages, other family members) go through the same rewrite with their owner's demographics
+      const remaining = matchingRows.filter((row: any) => !localIds.has(row.id));
+      const relinkIds: string[] = remaining.filter((row: any) => !row.report_id).map((row: any) => row.id);
+      const remoteReportIds = Array.from(new Set<string>(remaining.filter((row: any) => row.report_id).map((row: any) => row.report_id)));
+      if (remoteReportIds.length > 0) {
+        const [remoteReportsRes, remoteValuesRes] = await Promise.all([
+          supabase.from('health_reports').select('id, person_id, test_date').in('id', remoteReportIds),
+          supabase.from('health_values').select(VALUE_COLUMNS).in('report_id', remoteReportIds),
+        ]);
+        if (remoteReportsRes.error) throw remoteReportsRes.error;
+        if (remoteValuesRes.error) throw remoteValuesRes.error;
+        const ownerIds = Array.from(new Set<string>((remoteReportsRes.data || []).map((row: any) => row.person_id)));
+        const { data: owners, error: ownersError } = await supabase
+          .from('people')
+          .select('id, gender, date_of_birth')
+          .in('id', ownerIds);
+        if (ownersError) throw ownersError;
+        const demographicsById = new Map<string, HealthDemographics>((owners || []).map((row: any) => [
+          row.id,
+          { sex: row.gender ?? null, dateOfBirth: row.date_of_birth ?? null },
+        ]));
+
+        const markersByCode = new Map<string, HealthMarker>(effectiveMarkers.map(marker => [marker.code, marker]));
+        const markersByName = indexMarkersByName(effectiveMarkers);
+        for (const row of remoteReportsRes.data || []) {
+          const demographics = demographicsById.get(row.person_id);
+          // Without the owner's sex and age the ranges and derived values would be wrong, so only re-link
+          if (!demographics) {
+            relinkIds.push(...remaining.filter((value: any) => value.report_id === row.id).map((value: any) => value.id));
+            continue;
+          }
+          const values = (remoteValuesRes.data || [])
+            .filter((value: any) => value.report_id === row.id)
+            .map((value: any) => toHealthValue(value, { demographics, markersByCode, markersByName, learnedAliases }));
+          const inputs = values
+            .filter(value => !value.isComputed)
+            .map(value => toValueInput(value, matchingIds.has(value.id) ? markerCode : value.markerCode));
+          await writeReportValues(row.id, row.test_date, inputs, values, { personId: row.person_id, demographics });
+        }
+      }
+
+      // Values without a report have nothing to derive from, so they are only re-linked
+      if (relinkIds.length > 0) {
+        const { error: relinkError } = await supabase
+          .from('health_values')
+          .update({ marker_code: markerCode })
+          .in('id', relinkIds);
+        if (relinkError) throw relinkError;
+      }
+    } finally {
+      await fetchDashboard();
+    }
+  }, [effectiveMarkers, fetchDashboard, learnAliases, learnedAliases, personId, reports, writeReportValues]);
+
+  const discardReport = useCallback(async (reportId: string) => {
+    const report = reports.find(item => item.id === reportId);
+    try {
+      const { error } = await supabase.from('health_reports').delete().eq('id', reportId);
+      if (error) throw error;
+      if (report?.filePaths?.length) {
+        const { error: storageError } = await supabase.storage.from('health-reports').remove(report.filePaths);
+        if (storageError) console.error('Failed to remove report file', storageError);
+      }
+    } finally {
+      await fetchDashboard();
+    }
+  }, [fetchDashboard, reports]);
+
+  // Saves hand-entered or corrected values; without a reportId a new report is created with no PDF attached
+  const saveReportValues = useCallback(async (
+    reportId: string | null,
+    details: { testDate: string; labName?: string | null; reportType?: string },
+    inputs: HealthValueInput[]
+  ) => {
+    if (!personId) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    try {
+      let targetId = reportId;
+      let existing: HealthValue[] = [];
+      if (targetId) {
+        existing = reports.find(report => report.id === targetId)?.values ?? [];
+        const { error } = await supabase.from('health_reports').update({
+          test_date: details.testDate,
+          lab_name: details.labName || null,
+          report_type: details.reportType || 'FULL_BODY',
+          status: 'PROCESSED',
+        }).eq('id', targetId);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('health_reports')
+          .insert({
             person_id: personId,
-            marker_code: row.markerCode,
-            marker_name: row.markerName,
-            value: row.value,
-            value_text: row.valueText,
-            unit: row.unit,
-            test_date: testDate,
-            is_flagged: row.isFlagged,
-          }))
-        );
+            test_date: details.testDate,
+            lab_name: details.labName || null,
+            report_type: details.reportType || 'FULL_BODY',
+            pdf_url: null,
+            status: 'PROCESSED',
+            created_by: user.id,
+          })
+          .select()
+          .single();
         if (error) throw error;
+        targetId = data.id as string;
       }
 
-      if (ratios.length > 0) {
-        const { error } = await supabase.from('health_ratios').insert(
-          ratios.map(ratio => ({
-            report_id: reportId,
+      await writeReportValues(targetId as string, details.testDate, inputs, existing);
+    } finally {
+      await fetchDashboard();
+    }
+  }, [fetchDashboard, personId, reports, writeReportValues]);
+
+  // Creates one processed report per entry (e.g. from a FHIR bundle) and returns how many were written
+  const importReports = useCallback(async (
+    entries: { testDate: string; labName?: string | null; reportType?: string; values: HealthValueInput[] }[]
+  ) => {
+    if (!personId) return 0;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    let imported = 0;
+    try {
+      for (const entry of entries) {
+        const { data, error } = await supabase
+          .from('health_reports')
+          .insert({
             person_id: personId,
-            ratio_code: ratio.ratioCode,
-            value: ratio.value,
-            test_date: ratio.testDate,
-            is_optimal: ratio.isOptimal,
-          }))
-        );
+            test_date: entry.testDate,
+            lab_name: entry.labName || null,
+            report_type: entry.reportType || 'FULL_BODY',
+            pdf_url: null,
+            status: 'PROCESSED',
+            created_by: user.id,
+          })
+          .select('id')
+          .single();
         if (error) throw error;
+        try {
+          await writeReportValues(data.id as string, entry.testDate, entry.values, []);
+        } catch (err) {
+          // An empty PROCESSED report would block re-importing this entry as a duplicate
+          const { error: cleanupError } = await supabase.from('health_reports').delete().eq('id', data.id);
+          if (cleanupError) console.error('Failed to remove partially imported report', cleanupError);
+          throw err;
+        }
+        imported += 1;
       }
+      return imported;
+    } finally {
+      await fetchDashboard();
+    }
+  }, [fetchDashboard, personId, writeReportValues]);
 
-      await supabase.from('health_reports').update({
-        status: 'PROCESSED',
-        lab_name: labName,
-        test_date: testDate,
-        raw_extraction: extraction,
-      }).eq('id', reportId);
-    } catch (err) {
-      console.error('Health report processing failed', err);
-      await supabase.from('health_reports').update({
-        status: 'FAILED',
-      }).eq('id', reportId);
-      throw err;
+  // Every report and physical rather than the first page, for exports
+  const fetchFullHistory = useCallback(async () => {
+    if (!personId) return { reports: [] as HealthReport[], physicals: [] as HealthPhysical[] };
+    const [reportsRes, physicalsRes] = await Promise.all([
+      supabase.from('health_reports').select(REPORT_COLUMNS).eq('person_id', personId).order('test_date', { ascending: false }),
+      supabase.from('health_physicals').select(PHYSICAL_COLUMNS).eq('person_id', personId).order('measurement_date', { ascending: false }),
+    ]);
+    if (reportsRes.error) throw reportsRes.error;
+    if (physicalsRes.error) throw physicalsRes.error;
+    return {
+      reports: attachReportResults((reportsRes.data || []).map(toHealthReport), storedResults.current.values, storedResults.current.ratios),
+      physicals: (physicalsRes.data || []).map(toHealthPhysical),
+    };
+  }, [personId]);
+
+  // Custom markers are owned by the creating user; RLS limits writes to the owner
+  const createCustomMarker = useCallback(async (input: CustomMarkerInput) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const key = normalizeMarkerKey(input.name).slice(0, 24);
+    if (!key) throw new Error('Marker name is required');
+    const code = `CUSTOM_${key}_${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+
+    try {
+      const { error } = await supabase.from('health_markers').insert({
+        ...toCustomMarkerRecord(input),
+        code,
+        owner_id: user.id,
+        display_order: 1000,
+      });
+      if (error) throw error;
+      return code;
+    } finally {
+      cachedHealthMarkers = null;
+      await fetchDashboard();
+    }
+  }, [fetchDashboard]);
+
+  const updateCustomMarker = useCallback(async (markerId: string, input: CustomMarkerInput) => {
+    try {
+      const { data, error } = await supabase
+        .from('health_markers')
+        .update(toCustomMarkerRecord(input))
+        .eq('id', markerId)
+        .not('owner_id', 'is', null)
+        .select('id');
+      if (error) throw error;
+      if (!data?.length) throw new Error('Only the person who created a custom marker can edit it.');
     } finally {
+      cachedHealthMarkers = null;
       await fetchDashboard();
     }
-  }, [fetchDashboard, markers, personId]);
+  }, [fetchDashboard]);
+
+  const deleteCustomMarker = useCallback(async (markerId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('health_markers')
+        .delete()
+        .eq('id', markerId)
+        .not('owner_id', 'is', null)
+        .select('id');
+      if (error) throw error;
+      if (!data?.length) throw new Error('Only the person who created a custom marker can delete it.');
+    } finally {
+      cachedHealthMarkers = null;
+      await fetchDashboard();
+    }
+  }, [fetchDashboard]);
 
   const dashboardData: HealthDashboardData = useMemo(() => {
     const allValues = reports.flatMap(r => r.values);
@@ -435,10 +1079,13 @@ export const useHealthDashboard = (personId: string | null) => {
       latestReport: reports[0],
       allReports: reports,
       physicals,
+      bloodPressure: buildBloodPressureSummary(physicals, personDemographics),
+      growth: buildGrowthAssessments(physicals, personDemographics),
       systemSummaries,
       trends,
+      unmatched: groupUnmatchedValues(allValues),
     };
-  }, [markersByCode, physicals, reports]);
+  }, [markersByCode, personDemographics, physicals, reports]);
 
   return {
     loading,
@@ -449,9 +1096,132 @@ export const useHealthDashboard = (personId: string | null) => {
     dashboardData,
     fetchDashboard,
     addPhysical,
+    updateSharing,
+    canManageSharing,
+    managesProfile: viewer.managesProfile,
+    collaborators,
     uploadReport,
+    rerunExtraction,
+    loadExtractionReview,
+    confirmExtractionReview,
+    mapUnmatchedMarker,
+    discardReport,
+    saveReportValues,
+    importReports,
+    fetchFullHistory,
+    createCustomMarker,
+    updateCustomMarker,
+    deleteCustomMarker,
     loadMoreReports,
     hasMoreReports,
     loadingMore,
   };
 };
+
+// PostgREST caps every response at its max-rows setting, so family-wide reads walk the rows in pages.
+// The query must have a stable order for the pages to line up.
+const FAMILY_PAGE_SIZE = 1000;
+const fetchAllRows = async (query: (from: number, to: number) => PromiseLike<{ data: any[] | null; error: any }>) => {
+  const rows: any[] = [];
+  for (let from = 0; ; from += FAMILY_PAGE_SIZE) {
+    const { data, error } = await query(from, from + FAMILY_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < FAMILY_PAGE_SIZE) return rows;
+  }
+};
+
+export interface FamilyHealthPerson {
+  id: string;
+  gender?: HealthDemographics['sex'];
+  dateOfBirth?: string;
+}
+
+// Read-only overview of everyone the user can see, one row per person; people without lab reports or blood pressure
+// readings get an empty row so the gaps show up too.
+// Values are re-evaluated against each person's own sex and age like the single-person dashboard.
+export const useFamilyHealthOverview = (people: FamilyHealthPerson[]) => {
+  const [overviews, setOverviews] = useState<Record<string, FamilyHealthOverview>>({});
+  const [loading, setLoading] = useState(false);
+  // Demographics are part of the key, since they change how every value is evaluated
+  const stablePeople = useStableList(people, person => [person.id, person.gender || '', person.dateOfBirth || ''].join('|'));
+
+  useEffect(() => {
+    if (stablePeople.length === 0) {
+      setOverviews({});
+      return;
+    }
+    const ids = stablePeople.map(person => person.id);
+    const demographicsById = new Map<string, HealthDemographics>(stablePeople.map(person => [
+      person.id,
+      { sex: person.gender || null, dateOfBirth: person.dateOfBirth || null },
+    ]));
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [reportRows, valueRows, physicalRows, intervalRows, aliasesRes] = await Promise.all([
+          fetchAllRows((from, to) => supabase.from('health_reports').select(REPORT_COLUMNS).in('person_id', ids)
+            .order('test_date', { ascending: false }).order('id').range(from, to)),
+          fetchAllRows((from, to) => supabase.from('health_values').select(VALUE_COLUMNS).in('person_id', ids)
+            .order('test_date', { ascending: false }).order('id').range(from, to)),
+          fetchAllRows((from, to) => supabase.from('health_physicals').select(PHYSICAL_COLUMNS).in('person_id', ids).not('bp_systolic', 'is', null)
+            .order('measurement_date', { ascending: false }).order('id').range(from, to)),
+          fetchAllRows((from, to) => supabase.from('health_retest_intervals').select(INTERVAL_COLUMNS).in('person_id', ids)
+            .order('id').range(from, to)),
+          supabase.from('health_marker_aliases').select('alias_key, marker_code'),
+        ]);
+        if (aliasesRes.error) throw aliasesRes.error;
+
+        const markerRows = await loadMarkerRows();
+        const markersByCode = new Map(markerRows.map(marker => [marker.code, marker]));
+        const markersByName = indexMarkersByName(markerRows);
+        const learnedAliases: Record<string, string> = Object.fromEntries(
+          (aliasesRes.data || []).map((row: any) => [row.alias_key, row.marker_code])
+        );
+        const overrides = intervalRows.map(toRetestOverride);
+        const physicals = physicalRows.map(toHealthPhysical);
+        const values = valueRows.map((row: any) => toHealthValue(row, {
+          demographics: demographicsById.get(row.person_id) || {},
+          markersByCode,
+          markersByName,
+          learnedAliases,
+        }));
+        const reports = attachReportResults(reportRows.map(toHealthReport), values, []);
+
+        const next: Record<string, FamilyHealthOverview> = {};
+        ids.forEach(personId => {
+          const personReports = reports.filter(report => report.personId === personId);
+          const personPhysicals = physicals.filter(physical => physical.personId === personId);
+          const demographics = demographicsById.get(personId) || {};
+          const latestReport = personReports.find(report => report.values.length > 0);
+          const systemSummaries = buildSystemSummaries(latestReport?.values ?? [], markersByCode);
+          next[personId] = {
+            personId,
+            demographics,
+            reports: personReports,
+            systemSummaries,
+            flaggedCount: systemSummaries.reduce((sum, summary) => sum + summary.flaggedCount, 0),
+            lastTestDate: latestReport?.testDate,
+            overdueRetests: buildRetestSchedule(personReports, markersByCode, overrides.filter(item => item.personId === personId))
+              .filter(item => item.status === 'OVERDUE').length,
+            bloodPressure: buildBloodPressureSummary(personPhysicals, demographics),
+          };
+        });
+        if (!cancelled) setOverviews(next);
+      } catch (err) {
+        console.error('Family health overview fetch error', err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [stablePeople]);
+
+  return { overviews, loading };
+};
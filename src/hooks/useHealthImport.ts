@@ -0,0 +1,101 @@
+import { useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { buildImportPlan, HealthImportPlan, parseHealthExport, vitalImportKey } from '../services/healthImport';
+import { FhirImportPlan, fhirReportKey, parseFhirBundle } from '../services/fhirBundle';
+import { calculateBMI, calculateWaistHipRatio } from '../utils/healthCalculations';
+
+const INSERT_BATCH_SIZE = 500;
+
+const insertInBatches = async (table: string, rows: Record<string, unknown>[]) => {
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase.from(table).insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+    if (error) throw error;
+  }
+};
+
+export const useHealthImport = (personId: string | null) => {
+  // Parses the file and marks rows that already exist for this person (physicals by date, vitals by kind + minute)
+  const previewImport = useCallback(async (file: File): Promise<HealthImportPlan> => {
+    if (!personId) throw new Error('No person selected');
+    const { source, samples, skipped } = await parseHealthExport(file);
+    if (samples.length === 0) throw new Error('No supported measurements found in this file.');
+
+    const dates = samples.map(sample => sample.date).sort();
+    const measuredTimes = samples.map(sample => sample.measuredAt).sort();
+    const [physicalsResult, vitalsResult] = await Promise.all([
+      supabase
+        .from('health_physicals')
+        .select('measurement_date')
+        .eq('person_id', personId)
+        .gte('measurement_date', dates[0])
+        .lte('measurement_date', dates[dates.length - 1]),
+      supabase
+        .from('health_vitals')
+        .select('kind, measured_at')
+        .eq('person_id', personId)
+        .gte('measured_at', new Date(new Date(measuredTimes[0]).getTime() - 24 * 60 * 60 * 1000).toISOString())
+        .lte('measured_at', new Date(new Date(measuredTimes[measuredTimes.length - 1]).getTime() + 24 * 60 * 60 * 1000).toISOString()),
+    ]);
+    if (physicalsResult.error) throw physicalsResult.error;
+    if (vitalsResult.error) throw vitalsResult.error;
+
+    return buildImportPlan(source, file.name, samples, {
+      physicalDates: new Set((physicalsResult.data || []).map((row: any) => row.measurement_date)),
+      vitalKeys: new Set((vitalsResult.data || []).map((row: any) => vitalImportKey(row.kind, row.measured_at))),
+    }, skipped);
+  }, [personId]);
+
+  // Inserts everything not flagged as a duplicate; returns how many rows were written
+  const applyImport = useCallback(async (plan: HealthImportPlan) => {
+    if (!personId) return { physicals: 0, vitals: 0 };
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const physicalRows = plan.physicals
+      .filter(row => !row.duplicate)
+      .map(row => ({
+        person_id: personId,
+        measurement_date: row.measurementDate,
+        weight_kg: row.weightKg ?? null,
+        height_cm: row.heightCm ?? null,
+        bmi: calculateBMI(row.weightKg ?? undefined, row.heightCm ?? undefined),
+        waist_cm: row.waistCm ?? null,
+        hip_cm: row.hipCm ?? null,
+        waist_hip_ratio: calculateWaistHipRatio(row.waistCm ?? undefined, row.hipCm ?? undefined),
+        bp_systolic: row.bpSystolic ?? null,
+        bp_diastolic: row.bpDiastolic ?? null,
+        resting_hr: row.restingHr ?? null,
+        notes: `Imported from ${plan.fileName}`,
+        created_by: user.id,
+      }));
+
+    const vitalRows = plan.vitals
+      .filter(row => !row.duplicate)
+      .map(row => ({
+        person_id: personId,
+        kind: row.kind,
+        value: row.value,
+        unit: row.unit,
+        measured_at: row.measuredAt,
+        context: row.context || null,
+        notes: null,
+        created_by: user.id,
+      }));
+
+    await insertInBatches('health_physicals', physicalRows);
+    await insertInBatches('health_vitals', vitalRows);
+    return { physicals: physicalRows.length, vitals: vitalRows.length };
+  }, [personId]);
+
+  // Reads a FHIR bundle's lab results and marks reports already on file (same date and lab)
+  const previewFhirImport = useCallback(async (file: File): Promise<FhirImportPlan> => {
+    if (!personId) throw new Error('No person selected');
+    const { data, error } = await supabase.from('health_reports').select('test_date, lab_name').eq('person_id', personId);
+    if (error) throw error;
+    const plan = parseFhirBundle(await file.text(), file.name, new Set((data || []).map((row: any) => fhirReportKey(row.test_date, row.lab_name))));
+    if (plan.reports.length === 0) throw new Error('No lab results found in this bundle.');
+    return plan;
+  }, [personId]);
+
+  return { previewImport, applyImport, previewFhirImport };
+};
@@ -0,0 +1,103 @@
+import { useCallback, useMemo, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { HealthVital, VitalContext, VitalKind, VitalStats } from '../types/health';
+import { vitalKinds } from '../data/vitalKinds';
+import { buildVitalStats, convertVitalValue } from '../utils/healthCalculations';
+
+// Readings older than this are not loaded; stats and charts only look back 90 days
+const VITALS_LOOKBACK_DAYS = 90;
+
+export interface VitalInput {
+  kind: VitalKind;
+  value: number;
+  unit?: string | null;
+  measuredAt: string;
+  context?: VitalContext | null;
+  notes?: string | null;
+}
+
+const toHealthVital = (row: any): HealthVital => ({
+  id: row.id,
+  personId: row.person_id,
+  kind: row.kind,
+  value: Number(row.value),
+  unit: row.unit,
+  measuredAt: row.measured_at,
+  context: row.context,
+  notes: row.notes,
+});
+
+export const useHealthVitals = (personId: string | null) => {
+  const [vitals, setVitals] = useState<HealthVital[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchVitals = useCallback(async () => {
+    if (!personId) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const since = new Date(Date.now() - VITALS_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      const { data, error: fetchError } = await supabase
+        .from('health_vitals')
+        .select('id, person_id, kind, value, unit, measured_at, context, notes')
+        .eq('person_id', personId)
+        .gte('measured_at', since)
+        .order('measured_at', { ascending: false });
+      if (fetchError) throw fetchError;
+      setVitals((data || []).map(toHealthVital));
+    } catch (err: any) {
+      console.error('Health vitals fetch error', err);
+      setError(err.message || 'Failed to load vitals.');
+    } finally {
+      setLoading(false);
+    }
+  }, [personId]);
+
+  const addVital = useCallback(async (input: VitalInput) => {
+    if (!personId) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const converted = convertVitalValue(input.kind, input.value, input.unit);
+    const { data, error: insertError } = await supabase
+      .from('health_vitals')
+      .insert({
+        person_id: personId,
+        kind: input.kind,
+        value: converted.value,
+        unit: converted.unit,
+        measured_at: input.measuredAt,
+        context: input.context || null,
+        notes: input.notes || null,
+        created_by: user.id,
+      })
+      .select('id, person_id, kind, value, unit, measured_at, context, notes')
+      .single();
+    if (insertError) throw insertError;
+
+    const vital = toHealthVital(data);
+    setVitals(prev => [vital, ...prev].sort((a, b) => b.measuredAt.localeCompare(a.measuredAt)));
+  }, [personId]);
+
+  const deleteVital = useCallback(async (vitalId: string) => {
+    const { error: deleteError } = await supabase.from('health_vitals').delete().eq('id', vitalId);
+    if (deleteError) throw deleteError;
+    setVitals(prev => prev.filter(vital => vital.id !== vitalId));
+  }, []);
+
+  const stats: VitalStats[] = useMemo(
+    () => vitalKinds.map(definition => buildVitalStats(vitals, definition.kind)),
+    [vitals]
+  );
+
+  return {
+    vitals,
+    stats,
+    loading,
+    error,
+    fetchVitals,
+    addVital,
+    deleteVital,
+  };
+};
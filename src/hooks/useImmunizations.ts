@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { Immunization, ImmunizationInput } from '../types/health';
+import { useStableList } from './useStableList';
+
+const IMMUNIZATION_COLUMNS = 'id, person_id, vaccine, vaccine_name, dose_number, administered_on, lot_number, provider, notes';
+
+const toImmunization = (row: any): Immunization => ({
+  id: row.id,
+  personId: row.person_id,
+  vaccine: row.vaccine,
+  vaccineName: row.vaccine_name,
+  doseNumber: row.dose_number,
+  administeredOn: row.administered_on,
+  lotNumber: row.lot_number,
+  provider: row.provider,
+  notes: row.notes,
+});
+
+const toImmunizationRecord = (input: ImmunizationInput) => ({
+  vaccine: input.vaccine,
+  vaccine_name: input.vaccineName?.trim() || null,
+  dose_number: input.doseNumber ?? null,
+  administered_on: input.administeredOn,
+  lot_number: input.lotNumber?.trim() || null,
+  provider: input.provider?.trim() || null,
+  notes: input.notes || null,
+});
+
+const byDateDesc = (a: Immunization, b: Immunization) => b.administeredOn.localeCompare(a.administeredOn);
+
+export const useImmunizations = (personId: string | null) => {
+  const [immunizations, setImmunizations] = useState<Immunization[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchImmunizations = useCallback(async () => {
+    if (!personId) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from('immunizations')
+        .select(IMMUNIZATION_COLUMNS)
+        .eq('person_id', personId)
+        .order('administered_on', { ascending: false });
+      if (fetchError) throw fetchError;
+      setImmunizations((data || []).map(toImmunization));
+    } catch (err: any) {
+      console.error('Immunizations fetch error', err);
+      setError(err.message || 'Failed to load immunizations.');
+    } finally {
+      setLoading(false);
+    }
+  }, [personId]);
+
+  const addImmunization = useCallback(async (input: ImmunizationInput) => {
+    if (!personId) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+    const { data, error: insertError } = await supabase
+      .from('immunizations')
+      .insert({ ...toImmunizationRecord(input), person_id: personId, created_by: user.id })
+      .select(IMMUNIZATION_COLUMNS)
+      .single();
+    if (insertError) throw insertError;
+    setImmunizations(prev => [...prev, toImmunization(data)].sort(byDateDesc));
+  }, [personId]);
+
+  const updateImmunization = useCallback(async (immunizationId: string, input: ImmunizationInput) => {
+    const { data, error: updateError } = await supabase
+      .from('immunizations')
+      .update(toImmunizationRecord(input))
+      .eq('id', immunizationId)
+      .select(IMMUNIZATION_COLUMNS)
+      .single();
+    if (updateError) throw updateError;
+    setImmunizations(prev => prev.map(item => (item.id === immunizationId ? toImmunization(data) : item)).sort(byDateDesc));
+  }, []);
+
+  const deleteImmunization = useCallback(async (immunizationId: string) => {
+    const { error: deleteError } = await supabase.from('immunizations').delete().eq('id', immunizationId);
+    if (deleteError) throw deleteError;
+    setImmunizations(prev => prev.filter(item => item.id !== immunizationId));
+  }, []);
+
+  return {
+    immunizations,
+    loading,
+    error,
+    fetchImmunizations,
+    addImmunization,
+    updateImmunization,
+    deleteImmunization,
+  };
+};
+
+// Immunizations for several people at once, keyed by person id, for family-wide views like the newsfeed
+export const useFamilyImmunizations = (personIds: string[]) => {
+  const [byPerson, setByPerson] = useState<Record<string, Immunization[]>>({});
+  const ids = useStableList(personIds, id => id);
+
+  useEffect(() => {
+    if (ids.length === 0) {
+      setByPerson({});
+      return;
+    }
+    let cancelled = false;
+    supabase
+      .from('immunizations')
+      .select(IMMUNIZATION_COLUMNS)
+      .in('person_id', ids)
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Family immunizations fetch error', error);
+          return;
+        }
+        const grouped: Record<string, Immunization[]> = {};
+        (data || []).map(toImmunization).forEach(item => {
+          (grouped[item.personId] ||= []).push(item);
+        });
+        setByPerson(grouped);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [ids]);
+
+  return byPerson;
+};
@@ -0,0 +1,237 @@
+import { useCallback, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import {
+  InsurancePolicy,
+  MedicalInfo,
+  MedicalInfoInput,
+  MedicalInfoItems,
+  MedicalInfoKind,
+  MedicalProfile,
+  PersonAllergy,
+  PersonCondition,
+  PersonDoctor,
+} from '../types/health';
+
+const PROFILE_COLUMNS = 'person_id, blood_type, organ_donor, emergency_notes, is_shared';
+
+const toMedicalProfile = (row: any): MedicalProfile => ({
+  personId: row.person_id,
+  bloodType: row.blood_type,
+  organDonor: row.organ_donor,
+  emergencyNotes: row.emergency_notes,
+  isShared: row.is_shared ?? true,
+});
+
+const toAllergy = (row: any): PersonAllergy => ({
+  id: row.id,
+  personId: row.person_id,
+  allergen: row.allergen,
+  reaction: row.reaction,
+  severity: row.severity || 'MODERATE',
+  notes: row.notes,
+  isShared: row.is_shared ?? true,
+});
+
+const toCondition = (row: any): PersonCondition => ({
+  id: row.id,
+  personId: row.person_id,
+  name: row.name,
+  diagnosedOn: row.diagnosed_on,
+  status: row.status || 'ACTIVE',
+  notes: row.notes,
+  isShared: row.is_shared ?? true,
+});
+
+const toInsurance = (row: any): InsurancePolicy => ({
+  id: row.id,
+  personId: row.person_id,
+  provider: row.provider,
+  planName: row.plan_name,
+  memberId: row.member_id,
+  groupNumber: row.group_number,
+  phone: row.phone,
+  isPrimary: Boolean(row.is_primary),
+  isShared: row.is_shared ?? true,
+});
+
+const toDoctor = (row: any): PersonDoctor => ({
+  id: row.id,
+  personId: row.person_id,
+  name: row.name,
+  specialty: row.specialty,
+  practice: row.practice,
+  phone: row.phone,
+  email: row.email,
+  address: row.address,
+  isPrimary: Boolean(row.is_primary),
+  isShared: row.is_shared ?? true,
+});
+
+const blank = (value?: string | null) => value?.trim() || null;
+
+// Table, columns, row mapper and record builder for each kind of list item
+const medicalTables: { [K in MedicalInfoKind]: {
+  table: string;
+  columns: string;
+  order: string;
+  toItem: (row: any) => MedicalInfoItems[K];
+  toRecord: (input: MedicalInfoInput<K>) => Record<string, unknown>;
+} } = {
+  allergies: {
+    table: 'person_allergies',
+    columns: 'id, person_id, allergen, reaction, severity, notes, is_shared',
+    order: 'allergen',
+    toItem: toAllergy,
+    toRecord: input => ({
+      allergen: input.allergen.trim(),
+      reaction: blank(input.reaction),
+      severity: input.severity,
+      notes: blank(input.notes),
+      is_shared: input.isShared,
+    }),
+  },
+  conditions: {
+    table: 'person_conditions',
+    columns: 'id, person_id, name, diagnosed_on, status, notes, is_shared',
+    order: 'name',
+    toItem: toCondition,
+    toRecord: input => ({
+      name: input.name.trim(),
+      diagnosed_on: input.diagnosedOn || null,
+      status: input.status,
+      notes: blank(input.notes),
+      is_shared: input.isShared,
+    }),
+  },
+  insurance: {
+    table: 'insurance_policies',
+    columns: 'id, person_id, provider, plan_name, member_id, group_number, phone, is_primary, is_shared',
+    order: 'provider',
+    toItem: toInsurance,
+    toRecord: input => ({
+      provider: input.provider.trim(),
+      plan_name: blank(input.planName),
+      member_id: blank(input.memberId),
+      group_number: blank(input.groupNumber),
+      phone: blank(input.phone),
+      is_primary: input.isPrimary,
+      is_shared: input.isShared,
+    }),
+  },
+  doctors: {
+    table: 'person_doctors',
+    columns: 'id, person_id, name, specialty, practice, phone, email, address, is_primary, is_shared',
+    order: 'name',
+    toItem: toDoctor,
+    toRecord: input => ({
+      name: input.name.trim(),
+      specialty: blank(input.specialty),
+      practice: blank(input.practice),
+      phone: blank(input.phone),
+      email: blank(input.email),
+      address: blank(input.address),
+      is_primary: input.isPrimary,
+      is_shared: input.isShared,
+    }),
+  },
+};
+
+const medicalKinds = Object.keys(medicalTables) as MedicalInfoKind[];
+
+const emptyMedicalInfo = (): MedicalInfo => ({ profile: null, allergies: [], conditions: [], insurance: [], doctors: [] });
+
+export const useMedicalInfo = (personId: string | null) => {
+  const [info, setInfo] = useState<MedicalInfo>(emptyMedicalInfo);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMedicalInfo = useCallback(async () => {
+    if (!personId) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const [profileRes, ...listResults] = await Promise.all([
+        supabase.from('medical_profiles').select(PROFILE_COLUMNS).eq('person_id', personId).maybeSingle(),
+        ...medicalKinds.map(kind => supabase
+          .from(medicalTables[kind].table)
+          .select(medicalTables[kind].columns)
+          .eq('person_id', personId)
+          .order(medicalTables[kind].order)),
+      ]);
+      if (profileRes.error) throw profileRes.error;
+      const next = emptyMedicalInfo();
+      next.profile = profileRes.data ? toMedicalProfile(profileRes.data) : null;
+      listResults.forEach((result, index) => {
+        if (result.error) throw result.error;
+        const kind = medicalKinds[index];
+        (next as any)[kind] = ((result.data || []) as any[]).map(row => medicalTables[kind].toItem(row));
+      });
+      setInfo(next);
+    } catch (err: any) {
+      console.error('Medical info fetch error', err);
+      setError(err.message || 'Failed to load medical information.');
+    } finally {
+      setLoading(false);
+    }
+  }, [personId]);
+
+  const hasProfile = Boolean(info.profile);
+  const saveProfile = useCallback(async (input: Omit<MedicalProfile, 'personId'>) => {
+    if (!personId) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+    const record = {
+      blood_type: input.bloodType || null,
+      organ_donor: input.organDonor ?? null,
+      emergency_notes: blank(input.emergencyNotes),
+      is_shared: input.isShared,
+      updated_at: new Date().toISOString(),
+    };
+    // Editing keeps the original author, so a collaborator's edit never takes the profile over
+    const query = hasProfile
+      ? supabase.from('medical_profiles').update(record).eq('person_id', personId)
+      : supabase.from('medical_profiles').insert({ ...record, person_id: personId, created_by: user.id });
+    const { data, error: saveError } = await query.select(PROFILE_COLUMNS).single();
+    if (saveError) throw saveError;
+    setInfo(prev => ({ ...prev, profile: toMedicalProfile(data) }));
+  }, [hasProfile, personId]);
+
+  const saveItem = useCallback(async <K extends MedicalInfoKind>(kind: K, input: MedicalInfoInput<K>, itemId?: string) => {
+    if (!personId) return;
+    const { table, columns, toItem, toRecord } = medicalTables[kind];
+    let query;
+    if (itemId) {
+      query = supabase.from(table).update(toRecord(input)).eq('id', itemId);
+    } else {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+      query = supabase.from(table).insert({ ...toRecord(input), person_id: personId, created_by: user.id });
+    }
+    const { data, error: saveError } = await query.select(columns).single();
+    if (saveError) throw saveError;
+    const item = toItem(data) as MedicalInfoItems[K];
+    setInfo(prev => {
+      const items = prev[kind] as MedicalInfoItems[K][];
+      return {
+        ...prev,
+        [kind]: itemId ? items.map(existing => (existing.id === itemId ? item : existing)) : [...items, item],
+      };
+    });
+  }, [personId]);
+
+  const deleteItem = useCallback(async (kind: MedicalInfoKind, itemId: string) => {
+    const { error: deleteError } = await supabase.from(medicalTables[kind].table).delete().eq('id', itemId);
+    if (deleteError) throw deleteError;
+    setInfo(prev => ({ ...prev, [kind]: (prev[kind] as { id: string }[]).filter(item => item.id !== itemId) }));
+  }, []);
+
+  return {
+    info,
+    loading,
+    error,
+    fetchMedicalInfo,
+    saveProfile,
+    saveItem,
+    deleteItem,
+  };
+};
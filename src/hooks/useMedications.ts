@@ -0,0 +1,230 @@
+import { useCallback, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { Medication, MedicationDose, MedicationDoseStatus, MedicationInput } from '../types/health';
+import { medicationSupply, toLocalDateString } from '../utils/medications';
+
+// The dose checklist shows today plus the previous week
+const DOSE_HISTORY_DAYS = 7;
+
+const MEDICATION_COLUMNS = 'id, person_id, name, strength, dose_amount, dose_unit, frequency, schedule_times, start_date, end_date, prescriber, pharmacy, supply_remaining, refill_threshold_days, refill_todo_id, notes';
+const DOSE_COLUMNS = 'id, medication_id, person_id, scheduled_date, slot, status, recorded_at, given_by, giver:profiles!given_by(full_name)';
+
+const toMedication = (row: any): Medication => ({
+  id: row.id,
+  personId: row.person_id,
+  name: row.name,
+  strength: row.strength,
+  doseAmount: Number(row.dose_amount ?? 1),
+  doseUnit: row.dose_unit,
+  frequency: row.frequency,
+  scheduleTimes: row.schedule_times || [],
+  startDate: row.start_date,
+  endDate: row.end_date,
+  prescriber: row.prescriber,
+  pharmacy: row.pharmacy,
+  supplyRemaining: row.supply_remaining === null || row.supply_remaining === undefined ? null : Number(row.supply_remaining),
+  refillThresholdDays: row.refill_threshold_days ?? 7,
+  refillTodoId: row.refill_todo_id,
+  notes: row.notes,
+});
+
+const toMedicationDose = (row: any): MedicationDose => ({
+  id: row.id,
+  medicationId: row.medication_id,
+  personId: row.person_id,
+  scheduledDate: row.scheduled_date,
+  slot: row.slot,
+  status: row.status,
+  recordedAt: row.recorded_at,
+  givenBy: row.given_by,
+  givenByName: row.giver?.full_name ?? null,
+});
+
+const toMedicationRecord = (input: MedicationInput) => ({
+  name: input.name.trim(),
+  strength: input.strength || null,
+  dose_amount: input.doseAmount,
+  dose_unit: input.doseUnit || null,
+  frequency: input.frequency,
+  schedule_times: input.scheduleTimes,
+  start_date: input.startDate || null,
+  end_date: input.endDate || null,
+  prescriber: input.prescriber || null,
+  pharmacy: input.pharmacy || null,
+  supply_remaining: input.supplyRemaining ?? null,
+  refill_threshold_days: input.refillThresholdDays,
+  notes: input.notes || null,
+});
+
+export const useMedications = (personId: string | null) => {
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [doses, setDoses] = useState<MedicationDose[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Creates one refill todo per low-supply medication. A medication keeps pointing at its todo until it is
+  // marked refilled, so completing or editing the todo never spawns a duplicate. The database creates and links
+  // the todo in one step, so two collaborators crossing the threshold together still get a single todo.
+  const syncRefillTodos = useCallback(async (items: Medication[]) => {
+    if (!personId) return items;
+    const due = items.filter(medication => !medication.refillTodoId && medicationSupply(medication).needsRefill);
+    if (due.length === 0) return items;
+
+    const updated = new Map<string, string>();
+    for (const medication of due) {
+      const supply = medicationSupply(medication);
+      const details = [
+        `${medication.supplyRemaining} ${medication.doseUnit || 'units'} left, about ${supply.daysRemaining} days.`,
+        medication.pharmacy && `Pharmacy: ${medication.pharmacy}`,
+        medication.prescriber && `Prescriber: ${medication.prescriber}`,
+      ].filter(Boolean).join('\n');
+      const { data: todoId, error: todoError } = await supabase.rpc('create_medication_refill_todo', {
+        p_medication_id: medication.id,
+        p_title: `Refill ${medication.name}${medication.strength ? ` ${medication.strength}` : ''}`,
+        p_description: details,
+        p_due_date: supply.runsOutOn,
+        p_priority: (supply.daysRemaining ?? 0) <= 2 ? 'HIGH' : 'MEDIUM',
+      });
+      if (todoError) console.error('Failed to create refill todo', todoError);
+      else if (todoId) updated.set(medication.id, todoId as string);
+    }
+    return items.map(medication => (updated.has(medication.id) ? { ...medication, refillTodoId: updated.get(medication.id) } : medication));
+  }, [personId]);
+
+  const fetchMedications = useCallback(async () => {
+    if (!personId) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const since = new Date();
+      since.setDate(since.getDate() - DOSE_HISTORY_DAYS);
+      const [medicationsRes, dosesRes] = await Promise.all([
+        supabase.from('medications').select(MEDICATION_COLUMNS).eq('person_id', personId).order('name'),
+        supabase.from('medication_doses').select(DOSE_COLUMNS).eq('person_id', personId).gte('scheduled_date', toLocalDateString(since)),
+      ]);
+      if (medicationsRes.error) throw medicationsRes.error;
+      if (dosesRes.error) throw dosesRes.error;
+      const items = (medicationsRes.data || []).map(toMedication);
+      setDoses((dosesRes.data || []).map(toMedicationDose));
+      setMedications(await syncRefillTodos(items));
+    } catch (err: any) {
+      console.error('Medications fetch error', err);
+      setError(err.message || 'Failed to load medications.');
+    } finally {
+      setLoading(false);
+    }
+  }, [personId, syncRefillTodos]);
+
+  const addMedication = useCallback(async (input: MedicationInput) => {
+    if (!personId) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+    const { data, error: insertError } = await supabase
+      .from('medications')
+      .insert({ ...toMedicationRecord(input), person_id: personId, created_by: user.id })
+      .select(MEDICATION_COLUMNS)
+      .single();
+    if (insertError) throw insertError;
+    const [medication] = await syncRefillTodos([toMedication(data)]);
+    setMedications(prev => [...prev, medication].sort((a, b) => a.name.localeCompare(b.name)));
+  }, [personId, syncRefillTodos]);
+
+  const updateMedication = useCallback(async (medicationId: string, input: MedicationInput) => {
+    const { data, error: updateError } = await supabase
+      .from('medications')
+      .update(toMedicationRecord(input))
+      .eq('id', medicationId)
+      .select(MEDICATION_COLUMNS)
+      .single();
+    if (updateError) throw updateError;
+    const [medication] = await syncRefillTodos([toMedication(data)]);
+    setMedications(prev => prev.map(item => (item.id === medicationId ? medication : item)));
+  }, [syncRefillTodos]);
+
+  const deleteMedication = useCallback(async (medicationId: string) => {
+    const { error: deleteError } = await supabase.from('medications').delete().eq('id', medicationId);
+    if (deleteError) throw deleteError;
+    setMedications(prev => prev.filter(item => item.id !== medicationId));
+    setDoses(prev => prev.filter(dose => dose.medicationId !== medicationId));
+  }, []);
+
+  // Supply moves with GIVEN doses only; flipping a dose between given and skipped adjusts it either way.
+  // The change is applied to the stored amount rather than this client's copy, so concurrent doses all count.
+  const adjustSupply = useCallback(async (medication: Medication, delta: number) => {
+    if (medication.supplyRemaining === null || medication.supplyRemaining === undefined || delta === 0) return medication;
+    const { data, error: updateError } = await supabase.rpc('adjust_medication_supply', {
+      p_medication_id: medication.id,
+      p_delta: delta,
+    });
+    if (updateError) throw updateError;
+    const [updated] = await syncRefillTodos([toMedication(data)]);
+    setMedications(prev => prev.map(item => (item.id === medication.id ? updated : item)));
+    return updated;
+  }, [syncRefillTodos]);
+
+  const recordDose = useCallback(async (medication: Medication, scheduledDate: string, slot: string, status: MedicationDoseStatus) => {
+    if (!personId) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+    const previous = doses.find(dose => dose.medicationId === medication.id && dose.scheduledDate === scheduledDate && dose.slot === slot);
+
+    const { data, error: upsertError } = await supabase
+      .from('medication_doses')
+      .upsert({
+        medication_id: medication.id,
+        person_id: personId,
+        scheduled_date: scheduledDate,
+        slot,
+        status,
+        recorded_at: new Date().toISOString(),
+        given_by: user.id,
+      }, { onConflict: 'medication_id,scheduled_date,slot' })
+      .select(DOSE_COLUMNS)
+      .single();
+    if (upsertError) throw upsertError;
+
+    const dose = toMedicationDose(data);
+    setDoses(prev => [...prev.filter(item => item.id !== dose.id && !(item.medicationId === dose.medicationId && item.scheduledDate === dose.scheduledDate && item.slot === dose.slot)), dose]);
+
+    const wasGiven = previous?.status === 'GIVEN';
+    const isGiven = status === 'GIVEN';
+    if (wasGiven !== isGiven) await adjustSupply(medication, isGiven ? -medication.doseAmount : medication.doseAmount);
+  }, [adjustSupply, doses, personId]);
+
+  const clearDose = useCallback(async (medication: Medication, dose: MedicationDose) => {
+    const { error: deleteError } = await supabase.from('medication_doses').delete().eq('id', dose.id);
+    if (deleteError) throw deleteError;
+    setDoses(prev => prev.filter(item => item.id !== dose.id));
+    if (dose.status === 'GIVEN') await adjustSupply(medication, medication.doseAmount);
+  }, [adjustSupply]);
+
+  // Adds the new supply, closes the open refill todo and unlinks it so the next low-supply point creates a fresh one
+  const refillMedication = useCallback(async (medication: Medication, quantity: number) => {
+    const { data, error: updateError } = await supabase.rpc('adjust_medication_supply', {
+      p_medication_id: medication.id,
+      p_delta: quantity,
+      p_refilled: true,
+    });
+    if (updateError) throw updateError;
+    if (medication.refillTodoId) {
+      const { error: todoError } = await supabase.from('todos').update({ is_completed: true }).eq('id', medication.refillTodoId);
+      if (todoError) console.error('Failed to complete refill todo', todoError);
+    }
+    const refilled = toMedication(data);
+    setMedications(prev => prev.map(item => (item.id === medication.id ? refilled : item)));
+  }, []);
+
+  return {
+    medications,
+    doses,
+    loading,
+    error,
+    fetchMedications,
+    addMedication,
+    updateMedication,
+    deleteMedication,
+    recordDose,
+    clearDose,
+    refillMedication,
+  };
+};
@@ -0,0 +1,93 @@
+import { useCallback, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { RetestDue, RetestInterval, RetestOverride, RetestScope } from '../types/health';
+import { describeRetestRequest } from '../utils/retestSchedule';
+import { toLocalDateString } from '../utils/medications';
+
+export const INTERVAL_COLUMNS = 'id, person_id, scope, target, in_range_months, out_of_range_months';
+
+export const toRetestOverride = (row: any): RetestOverride => ({
+  id: row.id,
+  personId: row.person_id,
+  scope: row.scope as RetestScope,
+  target: row.target,
+  inRangeMonths: row.in_range_months,
+  outOfRangeMonths: row.out_of_range_months,
+});
+
+export const useRetestIntervals = (personId: string | null) => {
+  const [overrides, setOverrides] = useState<RetestOverride[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOverrides = useCallback(async () => {
+    if (!personId) return;
+    try {
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from('health_retest_intervals')
+        .select(INTERVAL_COLUMNS)
+        .eq('person_id', personId);
+      if (fetchError) throw fetchError;
+      setOverrides((data || []).map(toRetestOverride));
+    } catch (err: any) {
+      console.error('Retest intervals fetch error', err);
+      setError(err.message || 'Failed to load retest intervals.');
+    }
+  }, [personId]);
+
+  // One override per marker or system; saving the same target again replaces its months
+  const saveOverride = useCallback(async (scope: RetestScope, target: string, interval: RetestInterval) => {
+    if (!personId) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+    const { data, error: saveError } = await supabase
+      .from('health_retest_intervals')
+      .upsert({
+        person_id: personId,
+        scope,
+        target,
+        in_range_months: interval.inRangeMonths,
+        out_of_range_months: interval.outOfRangeMonths,
+        created_by: user.id,
+      }, { onConflict: 'person_id,scope,target' })
+      .select(INTERVAL_COLUMNS)
+      .single();
+    if (saveError) throw saveError;
+    const saved = toRetestOverride(data);
+    setOverrides(prev => [...prev.filter(item => item.id !== saved.id), saved]);
+  }, [personId]);
+
+  const deleteOverride = useCallback(async (overrideId: string) => {
+    const { error: deleteError } = await supabase.from('health_retest_intervals').delete().eq('id', overrideId);
+    if (deleteError) throw deleteError;
+    setOverrides(prev => prev.filter(item => item.id !== overrideId));
+  }, []);
+
+  // A single to-do listing every test to ask for, due on the earliest due date (or today when overdue)
+  const createRetestTodo = useCallback(async (items: RetestDue[]) => {
+    if (!personId || items.length === 0) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+    const today = toLocalDateString(new Date());
+    const earliest = items.map(item => item.dueDate).sort()[0];
+    const names = items.map(item => item.markerName);
+    const { error: todoError } = await supabase.from('todos').insert({
+      person_id: personId,
+      title: `Book lab tests: ${names.slice(0, 3).join(', ')}${names.length > 3 ? ` +${names.length - 3} more` : ''}`,
+      due_date: earliest < today ? today : earliest,
+      priority: items.some(item => item.status === 'OVERDUE') ? 'HIGH' : 'MEDIUM',
+      description: `Tests to request:\n${describeRetestRequest(items)}`,
+      created_by: user.id,
+    });
+    if (todoError) throw todoError;
+  }, [personId]);
+
+  return {
+    overrides,
+    error,
+    fetchOverrides,
+    saveOverride,
+    deleteOverride,
+    createRetestTodo,
+  };
+};
@@ -0,0 +1,8 @@
+import { useMemo } from 'react';
+
+// Callers usually rebuild their list on every render; this hands back the same array until an entry's key changes,
+// so effects that depend on it re-run only when the set of entries does
+export const useStableList = <T>(items: T[], keyOf: (item: T) => string): T[] => {
+  const key = items.map(keyOf).sort().join('\n');
+  return useMemo(() => items, [key]);
+};
@@ -0,0 +1,330 @@
+import { HealthRecord } from '../../types';
+import { HealthMarker, HealthPhysical, HealthReport, HealthValue, HealthValueInput, Medication } from '../types/health';
+import { BLOOD_PRESSURE_LOINC, LOINC_SYSTEM, loincToMarkerCode, markerLoincCodes, physicalLoincCodes } from '../data/loincCodes';
+import { medicationFrequencies } from '../data/medicationSchedules';
+
+// Converts a person's health data to and from FHIR R4 Bundles (JSON), so records can move between providers.
+// Lab values travel as Observations coded with LOINC plus our own marker code; only lab results are imported back.
+
+export const LOCAL_MARKER_SYSTEM = 'urn:kinfolk:health-marker';
+const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const INTERPRETATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation';
+const DIAGNOSTIC_SERVICE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v2-0074';
+const LAB_REPORT_LOINC = { code: '11502-2', display: 'Laboratory report' };
+
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+  [key: string]: any;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: string;
+  timestamp?: string;
+  entry?: { fullUrl?: string; resource?: FhirResource }[];
+}
+
+export interface FhirExportData {
+  person: { id: string; name: string; gender?: string | null; dateOfBirth?: string | null };
+  reports: HealthReport[];
+  physicals: HealthPhysical[];
+  medications: Medication[];
+  records: HealthRecord[];
+  markers: HealthMarker[];
+}
+
+export interface FhirImportReport {
+  key: string;
+  testDate: string;
+  labName?: string | null;
+  values: HealthValueInput[];
+  // Values whose code matched a known marker; the rest are matched by name when saved
+  matched: number;
+  duplicate: boolean;
+}
+
+export interface FhirImportPlan {
+  fileName: string;
+  patientName?: string | null;
+  reports: FhirImportReport[];
+  // Resources in the bundle that are not lab results (vitals, medications, immunizations, ...)
+  skipped: number;
+}
+
+const fullUrl = (id: string) => `urn:uuid:${id}`;
+
+const category = (code: 'laboratory' | 'vital-signs') => [{
+  coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code, display: code === 'laboratory' ? 'Laboratory' : 'Vital Signs' }],
+}];
+
+const quantity = (value: number, unit?: string | null) => ({
+  value,
+  ...(unit ? { unit, system: 'http://unitsofmeasure.org', code: unit } : {}),
+});
+
+// Flags against the lab reference range, which is what FHIR consumers expect in interpretation
+const interpretation = (value: number, marker?: HealthMarker | null) => {
+  if (!marker) return undefined;
+  const code = marker.labMax !== null && marker.labMax !== undefined && value > marker.labMax
+    ? 'H'
+    : marker.labMin !== null && marker.labMin !== undefined && value < marker.labMin ? 'L' : 'N';
+  const display = { H: 'High', L: 'Low', N: 'Normal' }[code];
+  return [{ coding: [{ system: INTERPRETATION_SYSTEM, code, display }] }];
+};
+
+const referenceRange = (marker?: HealthMarker | null) => {
+  if (!marker) return undefined;
+  const range: Record<string, unknown> = {};
+  if (marker.labMin !== null && marker.labMin !== undefined) range.low = quantity(marker.labMin, marker.unit);
+  if (marker.labMax !== null && marker.labMax !== undefined) range.high = quantity(marker.labMax, marker.unit);
+  return Object.keys(range).length > 0 ? [range] : undefined;
+};
+
+const labObservation = (value: HealthValue, patient: string, marker?: HealthMarker | null): FhirResource => {
+  const code = value.markerCode;
+  const loinc = code ? markerLoincCodes[code]?.[0] : undefined;
+  const name = marker?.name || value.markerName || code || 'Unknown marker';
+  const coding = [
+    ...(loinc ? [{ system: LOINC_SYSTEM, code: loinc, display: name }] : []),
+    ...(code ? [{ system: LOCAL_MARKER_SYSTEM, code, display: name }] : []),
+  ];
+  const hasNumber = value.value !== null && value.value !== undefined;
+  const flags = hasNumber ? interpretation(value.value as number, marker) : undefined;
+  const range = referenceRange(marker);
+  return {
+    resourceType: 'Observation',
+    id: value.id,
+    status: 'final',
+    category: category('laboratory'),
+    code: { ...(coding.length > 0 ? { coding } : {}), text: name },
+    subject: { reference: patient },
+    effectiveDateTime: value.testDate,
+    ...(hasNumber ? { valueQuantity: quantity(value.value as number, value.unit) } : { valueString: value.valueText || '' }),
+    ...(flags ? { interpretation: flags } : {}),
+    ...(range ? { referenceRange: range } : {}),
+  };
+};
+
+// A physical row holds several measurements, so each one gets its own generated id
+const vitalObservation = (patient: string, date: string, loinc: { code: string; display: string }, rest: Record<string, unknown>): FhirResource => ({
+  resourceType: 'Observation',
+  id: crypto.randomUUID(),
+  status: 'final',
+  category: category('vital-signs'),
+  code: { coding: [{ system: LOINC_SYSTEM, ...loinc }], text: loinc.display },
+  subject: { reference: patient },
+  effectiveDateTime: date,
+  ...rest,
+});
+
+const physicalObservations = (physical: HealthPhysical, patient: string): FhirResource[] => {
+  const observations = (Object.keys(physicalLoincCodes) as (keyof typeof physicalLoincCodes)[])
+    .filter(field => physical[field] !== null && physical[field] !== undefined)
+    .map(field => {
+      const { unit, ...loinc } = physicalLoincCodes[field];
+      return vitalObservation(patient, physical.measurementDate, loinc, {
+        valueQuantity: quantity(physical[field] as number, unit),
+      });
+    });
+  if (physical.bpSystolic && physical.bpDiastolic) {
+    observations.push(vitalObservation(patient, physical.measurementDate, BLOOD_PRESSURE_LOINC.panel, {
+      component: [
+        { code: { coding: [{ system: LOINC_SYSTEM, ...BLOOD_PRESSURE_LOINC.systolic }] }, valueQuantity: quantity(physical.bpSystolic, BLOOD_PRESSURE_LOINC.unit) },
+        { code: { coding: [{ system: LOINC_SYSTEM, ...BLOOD_PRESSURE_LOINC.diastolic }] }, valueQuantity: quantity(physical.bpDiastolic, BLOOD_PRESSURE_LOINC.unit) },
+      ],
+    }));
+  }
+  return observations;
+};
+
+const medicationStatement = (medication: Medication, patient: string, today: string): FhirResource => {
+  const dose = `${medication.doseAmount} ${medication.doseUnit || 'unit'}${medication.doseAmount === 1 ? '' : 's'}`;
+  const frequency = medicationFrequencies[medication.frequency].label.toLowerCase();
+  return {
+    resourceType: 'MedicationStatement',
+    id: medication.id,
+    status: medication.endDate && medication.endDate < today ? 'completed' : 'active',
+    medicationCodeableConcept: { text: [medication.name, medication.strength].filter(Boolean).join(' ') },
+    subject: { reference: patient },
+    ...(medication.startDate || medication.endDate ? {
+      effectivePeriod: {
+        ...(medication.startDate ? { start: medication.startDate } : {}),
+        ...(medication.endDate ? { end: medication.endDate } : {}),
+      },
+    } : {}),
+    dosage: [{
+      text: `${dose} ${frequency}`,
+      asNeededBoolean: medication.frequency === 'AS_NEEDED',
+      ...(medication.scheduleTimes.length > 0 ? { timing: { repeat: { timeOfDay: medication.scheduleTimes.map(time => `${time}:00`) } } } : {}),
+    }],
+    ...(medication.notes ? { note: [{ text: medication.notes }] } : {}),
+  };
+};
+
+// Free-form health records become the closest matching resource type
+const recordResource = (record: HealthRecord, patient: string): FhirResource => {
+  const note = record.notes ? [{ text: record.notes }] : undefined;
+  switch (record.type) {
+    case 'VACCINE':
+      return { resourceType: 'Immunization', id: record.id, status: 'completed', vaccineCode: { text: record.title }, patient: { reference: patient }, occurrenceDateTime: record.date, ...(note ? { note } : {}) };
+    case 'MEDICATION':
+      return { resourceType: 'MedicationStatement', id: record.id, status: 'unknown', medicationCodeableConcept: { text: record.title }, subject: { reference: patient }, effectiveDateTime: record.date, ...(note ? { note } : {}) };
+    case 'CHECKUP':
+      return {
+        resourceType: 'Encounter',
+        id: record.id,
+        status: 'finished',
+        class: { system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode', code: 'AMB', display: 'ambulatory' },
+        type: [{ text: record.title }],
+        subject: { reference: patient },
+        period: { start: record.date },
+        ...(record.notes ? { reasonCode: [{ text: record.notes }] } : {}),
+      };
+    default:
+      return { resourceType: 'Observation', id: record.id, status: 'final', code: { text: record.title }, subject: { reference: patient }, effectiveDateTime: record.date, ...(record.notes ? { valueString: record.notes } : {}) };
+  }
+};
+
+export const buildFhirBundle = ({ person, reports, physicals, medications, records, markers }: FhirExportData, now = new Date()): FhirBundle => {
+  const markersByCode = new Map(markers.map(marker => [marker.code, marker]));
+  const patient = fullUrl(person.id);
+  const today = now.toISOString().slice(0, 10);
+  const [given, ...family] = person.name.trim().split(/\s+/);
+  const resources: FhirResource[] = [{
+    resourceType: 'Patient',
+    id: person.id,
+    name: [{ text: person.name, given: [given], ...(family.length > 0 ? { family: family.join(' ') } : {}) }],
+    ...(person.gender === 'male' || person.gender === 'female' || person.gender === 'other' ? { gender: person.gender } : {}),
+    ...(person.dateOfBirth ? { birthDate: person.dateOfBirth } : {}),
+  }];
+
+  reports.forEach(report => {
+    // Computed markers such as eGFR are derived again on import, so only measured values are exported
+    const observations = report.values
+      .filter(value => !value.isComputed)
+      .map(value => labObservation(value, patient, value.markerCode ? markersByCode.get(value.markerCode) : null));
+    resources.push({
+      resourceType: 'DiagnosticReport',
+      id: report.id,
+      status: report.status === 'PROCESSED' ? 'final' : 'preliminary',
+      category: [{ coding: [{ system: DIAGNOSTIC_SERVICE_SYSTEM, code: 'LAB', display: 'Laboratory' }] }],
+      code: { coding: [{ system: LOINC_SYSTEM, ...LAB_REPORT_LOINC }], text: report.reportType },
+      subject: { reference: patient },
+      effectiveDateTime: report.testDate,
+      ...(report.labName ? { performer: [{ display: report.labName }] } : {}),
+      result: observations.map(observation => ({ reference: fullUrl(observation.id as string) })),
+    }, ...observations);
+  });
+
+  physicals.forEach(physical => resources.push(...physicalObservations(physical, patient)));
+  medications.forEach(medication => resources.push(medicationStatement(medication, patient, today)));
+  records.forEach(record => resources.push(recordResource(record, patient)));
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: now.toISOString(),
+    entry: resources.map(resource => ({ fullUrl: fullUrl(resource.id as string), resource })),
+  };
+};
+
+const resourceDate = (resource: FhirResource): string | null => {
+  const value = resource.effectiveDateTime || resource.effectivePeriod?.start || resource.issued;
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : null;
+};
+
+const isLabObservation = (resource: FhirResource) =>
+  (resource.category || []).some((entry: any) => (entry.coding || []).some((coding: any) => coding.code === 'laboratory'))
+  || (resource.code?.coding || []).some((coding: any) => coding.system === LOINC_SYSTEM && loincToMarkerCode[coding.code]);
+
+// LOINC wins over our own code, so bundles from other systems and from Kinfolk resolve the same way
+const toValueInput = (observation: FhirResource): HealthValueInput | null => {
+  const codings: any[] = observation.code?.coding || [];
+  const loincCode = codings.map(coding => coding.system === LOINC_SYSTEM && loincToMarkerCode[coding.code]).find(Boolean);
+  const localCode = codings.find(coding => coding.system === LOCAL_MARKER_SYSTEM)?.code;
+  const markerName = observation.code?.text || codings.find(coding => coding.display)?.display || null;
+  const quantityValue = observation.valueQuantity?.value;
+  const valueText = observation.valueString ?? observation.valueCodeableConcept?.text ?? null;
+  if (typeof quantityValue !== 'number' && !valueText) return null;
+  return {
+    markerCode: loincCode || localCode || null,
+    markerName,
+    value: typeof quantityValue === 'number' ? quantityValue : null,
+    valueText: typeof quantityValue === 'number' ? null : valueText,
+    unit: observation.valueQuantity?.unit || observation.valueQuantity?.code || null,
+  };
+};
+
+// Reports count as the same when date and lab name match
+export const fhirReportKey = (testDate: string, labName?: string | null) => `${testDate}|${(labName || '').trim().toLowerCase()}`;
+
+export const parseFhirBundle = (text: string, fileName: string, existingReportKeys: Set<string> = new Set()): FhirImportPlan => {
+  let bundle: FhirBundle;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  if (bundle?.resourceType !== 'Bundle') throw new Error('This file is not a FHIR Bundle.');
+
+  const resources = (bundle.entry || [])
+    .filter(entry => entry.resource?.resourceType)
+    .map(entry => ({ fullUrl: entry.fullUrl, resource: entry.resource as FhirResource }));
+  const byReference = new Map<string, FhirResource>();
+  resources.forEach(({ fullUrl: url, resource }) => {
+    if (url) byReference.set(url, resource);
+    if (resource.id) byReference.set(`${resource.resourceType}/${resource.id}`, resource);
+  });
+
+  const used = new Set<FhirResource>();
+  const reports: FhirImportReport[] = [];
+  const addReport = (testDate: string, labName: string | null, observations: FhirResource[]) => {
+    const values = observations
+      .map(observation => {
+        used.add(observation);
+        return toValueInput(observation);
+      })
+      .filter((value): value is HealthValueInput => value !== null);
+    if (values.length === 0) return;
+    reports.push({
+      key: fhirReportKey(testDate, labName),
+      testDate,
+      labName,
+      values,
+      matched: values.filter(value => value.markerCode).length,
+      duplicate: existingReportKeys.has(fhirReportKey(testDate, labName)),
+    });
+  };
+
+  resources
+    .filter(({ resource }) => resource.resourceType === 'DiagnosticReport')
+    .forEach(({ resource }) => {
+      used.add(resource);
+      const observations = (resource.result || [])
+        .map((result: any) => byReference.get(result.reference))
+        .filter((observation: FhirResource | undefined): observation is FhirResource => observation?.resourceType === 'Observation');
+      const testDate = resourceDate(resource) || observations.map(resourceDate).find(Boolean);
+      if (!testDate) return;
+      addReport(testDate, resource.performer?.[0]?.display || null, observations);
+    });
+
+  // Lab results without a DiagnosticReport are grouped into one report per day
+  const looseByDate = new Map<string, FhirResource[]>();
+  resources
+    .filter(({ resource }) => resource.resourceType === 'Observation' && !used.has(resource) && isLabObservation(resource))
+    .forEach(({ resource }) => {
+      const date = resourceDate(resource);
+      if (!date) return;
+      looseByDate.set(date, [...(looseByDate.get(date) || []), resource]);
+    });
+  looseByDate.forEach((observations, date) => addReport(date, null, observations));
+
+  const patient = resources.find(({ resource }) => resource.resourceType === 'Patient')?.resource;
+  return {
+    fileName,
+    patientName: patient?.name?.[0]?.text || [patient?.name?.[0]?.given?.join(' '), patient?.name?.[0]?.family].filter(Boolean).join(' ') || null,
+    reports: reports.sort((a, b) => b.testDate.localeCompare(a.testDate)),
+    skipped: resources.filter(({ resource }) => !used.has(resource) && resource.resourceType !== 'Patient').length,
+  };
+};
@@ -0,0 +1,479 @@
+import { HealthPhysical, VitalContext, VitalKind } from '../types/health';
+import { physicalUnitConversions, normalizeUnitKey } from '../data/unitConversions';
+import { convertVitalValue } from '../utils/healthCalculations';
+import { splitCsvLine } from './localReportParser';
+
+// Parses device/app exports (Apple Health export.xml, Google Fit / Takeout JSON, generic CSV)
+// into samples, then folds them into physicals rows (one per day) and vitals readings.
+
+export type HealthImportSource = 'apple_health' | 'google_fit' | 'csv';
+
+export type PhysicalMetric = 'weightKg' | 'heightCm' | 'waistCm' | 'hipCm' | 'bpSystolic' | 'bpDiastolic' | 'restingHr';
+
+export interface ImportedSample {
+  metric: PhysicalMetric | VitalKind;
+  value: number;
+  unit?: string | null;
+  // Local calendar date of the measurement (YYYY-MM-DD)
+  date: string;
+  measuredAt: string;
+  startAt?: string;
+  context?: VitalContext | null;
+  source?: string;
+}
+
+export type PhysicalImportRow = Omit<HealthPhysical, 'id' | 'personId'> & { duplicate: boolean };
+
+export interface VitalImportRow {
+  kind: VitalKind;
+  value: number;
+  unit: string | null;
+  measuredAt: string;
+  context?: VitalContext | null;
+  duplicate: boolean;
+}
+
+export interface HealthImportPlan {
+  source: HealthImportSource;
+  fileName: string;
+  physicals: PhysicalImportRow[];
+  vitals: VitalImportRow[];
+  firstDate: string | null;
+  lastDate: string | null;
+  skipped: number;
+}
+
+export interface ExistingImportKeys {
+  physicalDates: Set<string>;
+  vitalKeys: Set<string>;
+}
+
+export const healthImportSourceLabels: Record<HealthImportSource, string> = {
+  apple_health: 'Apple Health',
+  google_fit: 'Google Fit',
+  csv: 'CSV',
+};
+
+const PHYSICAL_METRICS: PhysicalMetric[] = ['weightKg', 'heightCm', 'waistCm', 'hipCm', 'bpSystolic', 'bpDiastolic', 'restingHr'];
+
+const isPhysicalMetric = (metric: ImportedSample['metric']): metric is PhysicalMetric =>
+  PHYSICAL_METRICS.includes(metric as PhysicalMetric);
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const localDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Vitals count as the same reading when kind and minute match
+export const vitalImportKey = (kind: VitalKind, measuredAt: string) =>
+  `${kind}|${new Date(measuredAt).toISOString().slice(0, 16)}`;
+
+export const normalizePhysicalValue = (metric: PhysicalMetric, value: number, unit?: string | null) => {
+  const group = metric === 'weightKg' ? 'MASS' : metric === 'heightCm' || metric === 'waistCm' || metric === 'hipCm' ? 'LENGTH' : null;
+  if (!group || !unit) return value;
+  const unitKey = normalizeUnitKey(unit);
+  const conversion = physicalUnitConversions[group].find(candidate =>
+    candidate.units.some(candidateUnit => normalizeUnitKey(candidateUnit) === unitKey)
+  );
+  return conversion ? value * conversion.factor + (conversion.offset ?? 0) : value;
+};
+
+const round = (value: number, decimals: number) => Number(value.toFixed(decimals));
+
+/* Apple Health */
+
+const APPLE_QUANTITY_TYPES: Record<string, ImportedSample['metric']> = {
+  HKQuantityTypeIdentifierBodyMass: 'weightKg',
+  HKQuantityTypeIdentifierHeight: 'heightCm',
+  HKQuantityTypeIdentifierWaistCircumference: 'waistCm',
+  HKQuantityTypeIdentifierBloodPressureSystolic: 'bpSystolic',
+  HKQuantityTypeIdentifierBloodPressureDiastolic: 'bpDiastolic',
+  HKQuantityTypeIdentifierRestingHeartRate: 'restingHr',
+  HKQuantityTypeIdentifierBloodGlucose: 'GLUCOSE',
+  HKQuantityTypeIdentifierOxygenSaturation: 'SPO2',
+  HKQuantityTypeIdentifierBodyTemperature: 'TEMPERATURE',
+  HKQuantityTypeIdentifierStepCount: 'STEPS',
+};
+
+const APPLE_SLEEP_TYPE = 'HKCategoryTypeIdentifierSleepAnalysis';
+
+const decodeXmlEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const parseAttributes = (text: string) => {
+  const attributes: Record<string, string> = {};
+  const pattern = /(\w+)="([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    attributes[match[1]] = decodeXmlEntities(match[2]);
+  }
+  return attributes;
+};
+
+// "2024-03-01 07:45:12 +0530" -> ISO 8601 with the original offset
+const parseAppleDate = (value?: string) => {
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/);
+  return match ? `${match[1]}T${match[2]}${match[3]}:${match[4]}` : null;
+};
+
+const toUtcIso = (value: string) => new Date(value).toISOString();
+
+const appleRecordToSample = (attributes: Record<string, string>): ImportedSample | null => {
+  const startAt = parseAppleDate(attributes.startDate);
+  const endAt = parseAppleDate(attributes.endDate) || startAt;
+  if (!startAt || !endAt) return null;
+  // Dates are recorded in the device's local zone, so the prefix is the local calendar day
+  const date = endAt.slice(0, 10);
+
+  if (attributes.type === APPLE_SLEEP_TYPE) {
+    // Asleep, AsleepCore/Deep/REM/Unspecified; InBed and Awake are not sleep
+    if (!/Asleep/.test(attributes.value || '')) return null;
+    const hours = (new Date(endAt).getTime() - new Date(startAt).getTime()) / 3600000;
+    if (!(hours > 0)) return null;
+    return { metric: 'SLEEP', value: hours, unit: 'h', date, measuredAt: toUtcIso(endAt), startAt: toUtcIso(startAt), source: attributes.sourceName };
+  }
+
+  const metric = APPLE_QUANTITY_TYPES[attributes.type];
+  if (!metric) return null;
+  let value = Number(attributes.value);
+  if (!Number.isFinite(value)) return null;
+  // HealthKit writes units like "mmol<180.1558800000541>/L" and "degC"
+  const unit = attributes.unit ? attributes.unit.replace(/<[^>]*>/g, '') : null;
+  if (metric === 'SPO2' && value <= 1) value *= 100;
+  return { metric, value, unit, date, measuredAt: toUtcIso(endAt), startAt: toUtcIso(startAt), source: attributes.sourceName };
+};
+
+// export.xml is often hundreds of MB, so it is streamed and scanned tag by tag rather than parsed as a DOM
+const parseAppleHealthExport = async (file: File) => {
+  const samples: ImportedSample[] = [];
+  let skipped = 0;
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const scan = (text: string) => {
+    const pattern = /<Record\s([^>]*?)\/?>/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      const attributes = parseAttributes(match[1]);
+      if (!APPLE_QUANTITY_TYPES[attributes.type] && attributes.type !== APPLE_SLEEP_TYPE) continue;
+      const sample = appleRecordToSample(attributes);
+      if (sample) samples.push(sample);
+      else skipped++;
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    // Everything up to the last '>' holds complete tags; keep the remainder for the next chunk
+    const cut = done ? buffer.length : buffer.lastIndexOf('>') + 1;
+    scan(buffer.slice(0, cut));
+    buffer = buffer.slice(cut);
+    if (done) break;
+  }
+
+  return { samples, skipped };
+};
+
+/* Google Fit */
+
+const GOOGLE_MEAL_CONTEXT: Record<number, VitalContext> = { 2: 'FASTING', 3: 'PRE_MEAL', 4: 'POST_MEAL' };
+// Sleep stages: 1 awake, 2 sleep, 3 out of bed, 4 light, 5 deep, 6 REM
+const GOOGLE_SLEEP_STAGES = [2, 4, 5, 6];
+
+const fitNumber = (entry: any): number | null => {
+  const value = entry?.fpVal ?? entry?.intVal;
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+};
+
+const collectGooglePoints = (json: any): any[] => {
+  if (Array.isArray(json)) return json.flatMap(collectGooglePoints);
+  if (!json || typeof json !== 'object') return [];
+  // Takeout "All data" files use "Data Points"; the Fitness REST API uses point / bucket[].dataset[]
+  if (Array.isArray(json['Data Points'])) return json['Data Points'];
+  if (Array.isArray(json.point)) return json.point;
+  if (Array.isArray(json.bucket)) return json.bucket.flatMap((bucket: any) => (bucket.dataset || []).flatMap(collectGooglePoints));
+  return [];
+};
+
+const googlePointToSamples = (point: any): ImportedSample[] | null => {
+  const values: any[] = point.fitValue ? point.fitValue.map((entry: any) => entry.value) : point.value || [];
+  const first = fitNumber(values[0]);
+  const endNanos = Number(point.endTimeNanos || point.startTimeNanos);
+  const startNanos = Number(point.startTimeNanos || point.endTimeNanos);
+  if (!Number.isFinite(endNanos) || first === null) return null;
+  const end = new Date(endNanos / 1e6);
+  const base = {
+    date: localDate(end),
+    measuredAt: end.toISOString(),
+    startAt: new Date(startNanos / 1e6).toISOString(),
+    source: point.originDataSourceId,
+  };
+
+  switch (point.dataTypeName) {
+    case 'com.google.weight':
+      return [{ ...base, metric: 'weightKg', value: first, unit: 'kg' }];
+    case 'com.google.height':
+      return [{ ...base, metric: 'heightCm', value: first, unit: 'm' }];
+    case 'com.google.blood_pressure': {
+      const diastolic = fitNumber(values[1]);
+      if (diastolic === null) return null;
+      return [
+        { ...base, metric: 'bpSystolic', value: first, unit: 'mmHg' },
+        { ...base, metric: 'bpDiastolic', value: diastolic, unit: 'mmHg' },
+      ];
+    }
+    case 'com.google.blood_glucose':
+      return [{ ...base, metric: 'GLUCOSE', value: first, unit: 'mmol/L', context: GOOGLE_MEAL_CONTEXT[fitNumber(values[1]) ?? 0] || null }];
+    case 'com.google.oxygen_saturation':
+      return [{ ...base, metric: 'SPO2', value: first, unit: '%' }];
+    case 'com.google.body.temperature':
+      return [{ ...base, metric: 'TEMPERATURE', value: first, unit: '°C' }];
+    case 'com.google.step_count.delta':
+      return [{ ...base, metric: 'STEPS', value: first, unit: 'steps' }];
+    case 'com.google.sleep.segment': {
+      if (!GOOGLE_SLEEP_STAGES.includes(first)) return null;
+      const hours = (endNanos - startNanos) / 1e9 / 3600;
+      return hours > 0 ? [{ ...base, metric: 'SLEEP', value: hours, unit: 'h' }] : null;
+    }
+    default:
+      return null;
+  }
+};
+
+const parseGoogleFitExport = async (file: File) => {
+  const json = JSON.parse(await file.text());
+  const samples: ImportedSample[] = [];
+  let skipped = 0;
+  collectGooglePoints(json).forEach(point => {
+    const parsed = googlePointToSamples(point);
+    if (parsed) samples.push(...parsed);
+    else skipped++;
+  });
+  return { samples, skipped };
+};
+
+/* CSV: date, metric, value[, unit] */
+
+const CSV_METRICS: Record<string, ImportedSample['metric'] | 'BLOOD_PRESSURE'> = {
+  weight: 'weightKg',
+  bodyweight: 'weightKg',
+  bodymass: 'weightKg',
+  height: 'heightCm',
+  waist: 'waistCm',
+  waistcircumference: 'waistCm',
+  hip: 'hipCm',
+  hips: 'hipCm',
+  hipcircumference: 'hipCm',
+  systolic: 'bpSystolic',
+  bpsystolic: 'bpSystolic',
+  bloodpressuresystolic: 'bpSystolic',
+  diastolic: 'bpDiastolic',
+  bpdiastolic: 'bpDiastolic',
+  bloodpressurediastolic: 'bpDiastolic',
+  bp: 'BLOOD_PRESSURE',
+  bloodpressure: 'BLOOD_PRESSURE',
+  restinghr: 'restingHr',
+  restingheartrate: 'restingHr',
+  heartrate: 'HEART_RATE',
+  hr: 'HEART_RATE',
+  pulse: 'HEART_RATE',
+  glucose: 'GLUCOSE',
+  bloodglucose: 'GLUCOSE',
+  bloodsugar: 'GLUCOSE',
+  spo2: 'SPO2',
+  oxygensaturation: 'SPO2',
+  temperature: 'TEMPERATURE',
+  bodytemperature: 'TEMPERATURE',
+  temp: 'TEMPERATURE',
+  sleep: 'SLEEP',
+  sleephours: 'SLEEP',
+  steps: 'STEPS',
+  stepcount: 'STEPS',
+};
+
+const parseCsvDate = (value: string) => {
+  const text = value.trim();
+  // Bare dates are taken as midday local so the calendar day survives timezone shifts
+  const parsed = /^\d{4}-\d{2}-\d{2}$/.test(text) ? new Date(`${text}T12:00:00`) : new Date(text);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const parseHealthCsv = async (file: File) => {
+  const lines = (await file.text()).split(/\r?\n/).filter(line => line.trim());
+  const delimiter = lines[0]?.includes('\t') ? '\t' : lines[0]?.includes(';') && !lines[0]?.includes(',') ? ';' : ',';
+  const header = splitCsvLine(lines[0] || '', delimiter).map(cell => cell.toLowerCase());
+  const hasHeader = header.some(cell => /date|metric|value/.test(cell));
+  const column = (pattern: RegExp, fallback: number) => {
+    const index = hasHeader ? header.findIndex(cell => pattern.test(cell)) : -1;
+    return index >= 0 ? index : fallback;
+  };
+  const dateIndex = column(/date|time/, 0);
+  const metricIndex = column(/metric|type|name/, 1);
+  const valueIndex = column(/value|reading/, 2);
+  const unitIndex = column(/unit/, 3);
+
+  const samples: ImportedSample[] = [];
+  let skipped = 0;
+  (hasHeader ? lines.slice(1) : lines).forEach(line => {
+    const cells = splitCsvLine(line, delimiter);
+    const measured = parseCsvDate(cells[dateIndex] || '');
+    const metric = CSV_METRICS[(cells[metricIndex] || '').toLowerCase().replace(/[^a-z0-9]/g, '')];
+    const raw = (cells[valueIndex] || '').trim();
+    const unit = cells[unitIndex]?.trim() || null;
+    if (!measured || !metric || !raw) {
+      skipped++;
+      return;
+    }
+    const base = { date: localDate(measured), measuredAt: measured.toISOString(), unit };
+
+    if (metric === 'BLOOD_PRESSURE') {
+      const match = raw.match(/^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/);
+      if (!match) {
+        skipped++;
+        return;
+      }
+      samples.push({ ...base, metric: 'bpSystolic', value: Number(match[1]) }, { ...base, metric: 'bpDiastolic', value: Number(match[2]) });
+      return;
+    }
+
+    const value = Number(raw.replace(/,/g, ''));
+    if (!Number.isFinite(value)) {
+      skipped++;
+      return;
+    }
+    samples.push({ ...base, metric, value });
+  });
+  return { samples, skipped };
+};
+
+export const detectHealthImportSource = (file: File): HealthImportSource | null => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.xml')) return 'apple_health';
+  if (name.endsWith('.json')) return 'google_fit';
+  if (name.endsWith('.csv') || name.endsWith('.tsv') || name.endsWith('.txt')) return 'csv';
+  return null;
+};
+
+export const parseHealthExport = async (file: File) => {
+  const source = detectHealthImportSource(file);
+  if (!source) throw new Error('Unsupported file. Use Apple Health export.xml, a Google Fit JSON file or a CSV.');
+  const parsed = source === 'apple_health'
+    ? await parseAppleHealthExport(file)
+    : source === 'google_fit'
+      ? await parseGoogleFitExport(file)
+      : await parseHealthCsv(file);
+  return { source, ...parsed };
+};
+
+/* Plan */
+
+// Merges overlapping [start, end] intervals so sleep recorded by phone and watch is not counted twice
+const unionHours = (intervals: [number, number][]) => {
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let current: [number, number] | null = null;
+  sorted.forEach(([start, end]) => {
+    if (current && start <= current[1]) {
+      current[1] = Math.max(current[1], end);
+      return;
+    }
+    if (current) total += current[1] - current[0];
+    current = [start, end];
+  });
+  if (current) total += current[1] - current[0];
+  return total / 3600000;
+};
+
+const latestFirst = (a: ImportedSample, b: ImportedSample) => b.measuredAt.localeCompare(a.measuredAt);
+
+export const buildImportPlan = (
+  source: HealthImportSource,
+  fileName: string,
+  samples: ImportedSample[],
+  existing: ExistingImportKeys,
+  skipped = 0
+): HealthImportPlan => {
+  const physicalsByDate = new Map<string, ImportedSample[]>();
+  const dailyTotals = new Map<string, ImportedSample[]>();
+  const vitals: VitalImportRow[] = [];
+
+  samples.forEach(sample => {
+    if (isPhysicalMetric(sample.metric)) {
+      const list = physicalsByDate.get(sample.date) || [];
+      list.push(sample);
+      physicalsByDate.set(sample.date, list);
+      return;
+    }
+    if (sample.metric === 'STEPS' || sample.metric === 'SLEEP') {
+      const key = `${sample.metric}|${sample.date}`;
+      const list = dailyTotals.get(key) || [];
+      list.push(sample);
+      dailyTotals.set(key, list);
+      return;
+    }
+    const converted = convertVitalValue(sample.metric, sample.value, sample.unit);
+    vitals.push({
+      kind: sample.metric,
+      value: converted.value,
+      unit: converted.unit,
+      measuredAt: sample.measuredAt,
+      context: sample.context || null,
+      duplicate: false,
+    });
+  });
+
+  // Steps and sleep arrive as many short segments; store one reading per day
+  dailyTotals.forEach(list => {
+    const kind = list[0].metric as VitalKind;
+    const measuredAt = [...list].sort(latestFirst)[0].measuredAt;
+    let value: number;
+    if (kind === 'SLEEP') {
+      value = round(unionHours(list.map(sample => [
+        new Date(sample.startAt || sample.measuredAt).getTime(),
+        new Date(sample.measuredAt).getTime(),
+      ] as [number, number])), 1);
+    } else {
+      // Phone and watch both count steps; take the larger per-source total rather than the sum
+      const bySource = new Map<string, number>();
+      list.forEach(sample => bySource.set(sample.source || '', (bySource.get(sample.source || '') || 0) + sample.value));
+      value = Math.round(Math.max(...bySource.values()));
+    }
+    if (value > 0) vitals.push({ kind, value, unit: kind === 'SLEEP' ? 'h' : 'steps', measuredAt, context: null, duplicate: false });
+  });
+
+  const physicals: PhysicalImportRow[] = Array.from(physicalsByDate.entries()).map(([date, list]) => {
+    const row: PhysicalImportRow = { measurementDate: date, duplicate: existing.physicalDates.has(date) };
+    // Several readings on one day: keep the latest of each metric
+    [...list].sort(latestFirst).forEach(sample => {
+      const metric = sample.metric as PhysicalMetric;
+      if (row[metric] !== undefined) return;
+      const value = normalizePhysicalValue(metric, sample.value, sample.unit);
+      row[metric] = metric === 'bpSystolic' || metric === 'bpDiastolic' || metric === 'restingHr' ? Math.round(value) : round(value, 1);
+    });
+    return row;
+  });
+
+  const seenVitals = new Set(existing.vitalKeys);
+  vitals.forEach(vital => {
+    const key = vitalImportKey(vital.kind, vital.measuredAt);
+    vital.duplicate = seenVitals.has(key);
+    seenVitals.add(key);
+  });
+
+  const dates = samples.map(sample => sample.date).sort();
+  return {
+    source,
+    fileName,
+    physicals: physicals.sort((a, b) => b.measurementDate.localeCompare(a.measurementDate)),
+    vitals: vitals.sort((a, b) => b.measuredAt.localeCompare(a.measuredAt)),
+    firstDate: dates[0] || null,
+    lastDate: dates[dates.length - 1] || null,
+    skipped,
+  };
+};
@@ -1,5 +1,13 @@
 /// <reference types="vite/client" />
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIError,
+  GoogleGenerativeAIFetchError,
+  ResponseSchema,
+  SchemaType,
+} from '@google/generative-ai';
+import { normalizeMarkerKey } from '../utils/healthCalculations';
 
 export interface ExtractedMarker {
   name: string;
@@ -8,16 +16,42 @@ export interface ExtractedMarker {
   valueText?: string | null;
   unit?: string | null;
   referenceRange?: string | null;
+  // 1-based page or photo the marker was read from, when the parser can tell
+  page?: number | null;
 }
 
 export interface ExtractedReport {
   labName?: string | null;
   testDate?: string | null;
   markers: ExtractedMarker[];
+  parser?: ReportParserId;
+  rejected?: RejectedMarker[];
+  attempts?: number;
+  error?: string;
+}
+
+// A marker dropped during validation, kept in raw_extraction so the report can be audited
+export interface RejectedMarker {
+  index: number;
+  name?: string | null;
+  reason: string;
+  raw: unknown;
+}
+
+export type ReportParserId = 'gemini' | 'local';
+
+// A backend that turns an uploaded lab report file into extracted markers
+export interface ReportParser {
+  id: ReportParserId;
+  label: string;
+  description: string;
+  accept: string;
+  parse: (files: File[]) => Promise<ExtractedReport>;
 }
 
 const EXTRACTION_PROMPT = `
 You are a medical lab report parser. Extract all biomarker values from this blood test report.
+The report may be split across several attached pages or photos; treat them as one report and list each marker once.
 
 Return a JSON object with this structure:
 {
@@ -30,7 +64,8 @@ Return a JSON object with this structure:
       "value": number or null,
       "valueText": "string for non-numeric",
       "unit": "unit as shown",
-      "referenceRange": "min-max as shown"
+      "referenceRange": "min-max as shown",
+      "page": 1-based number of the attached page or photo the marker was read from
     }
   ]
 }
@@ -41,6 +76,36 @@ Rules:
 - Be thorough and extract ALL markers.
 `;
 
+const nullableString = { type: SchemaType.STRING, nullable: true } as const;
+
+const EXTRACTION_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    labName: nullableString,
+    testDate: { ...nullableString, description: 'Collection date as YYYY-MM-DD' },
+    markers: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          name: { type: SchemaType.STRING },
+          code: nullableString,
+          value: { type: SchemaType.NUMBER, nullable: true },
+          valueText: nullableString,
+          unit: nullableString,
+          referenceRange: nullableString,
+          page: { type: SchemaType.INTEGER, nullable: true },
+        },
+        required: ['name'],
+      },
+    },
+  },
+  required: ['markers'],
+};
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
 const extractJson = (raw: string) => {
   const start = raw.indexOf('{');
   const end = raw.lastIndexOf('}');
@@ -50,7 +115,163 @@ const extractJson = (raw: string) => {
   return raw.slice(start, end + 1);
 };
 
-export const parseHealthReport = async (base64Data: string, mimeType = 'application/pdf'): Promise<ExtractedReport> => {
+const parseJson = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    // Structured output should already be bare JSON; fall back for stray prose or code fences
+    return JSON.parse(extractJson(raw));
+  }
+};
+
+const optionalString = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+const isIsoDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+const validateMarker = (raw: unknown): ExtractedMarker | string => {
+  if (!raw || typeof raw !== 'object') return 'Marker is not an object';
+  const item = raw as Record<string, unknown>;
+
+  const name = optionalString(item.name);
+  if (!name) return 'Missing marker name';
+
+  let value: number | null = null;
+  if (typeof item.value === 'number') {
+    if (!Number.isFinite(item.value)) return 'Value is not a finite number';
+    value = item.value;
+  } else if (typeof item.value === 'string' && item.value.trim()) {
+    const numeric = Number(item.value.trim());
+    if (!Number.isFinite(numeric)) return `Value "${item.value}" is not numeric`;
+    value = numeric;
+  } else if (item.value !== null && item.value !== undefined) {
+    return 'Value has an unexpected type';
+  }
+
+  const valueText = optionalString(item.valueText);
+  if (value === null && !valueText) return 'No value or valueText';
+
+  return {
+    name,
+    code: optionalString(item.code),
+    value,
+    valueText,
+    unit: optionalString(item.unit),
+    referenceRange: optionalString(item.referenceRange),
+    page: typeof item.page === 'number' && Number.isInteger(item.page) && item.page > 0 ? item.page : null,
+  };
+};
+
+// Keeps every marker that passes validation and records why the rest were dropped
+export const validateExtraction = (raw: unknown): ExtractedReport => {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Gemini response is not a JSON object.');
+  }
+  const report = raw as Record<string, unknown>;
+  if (!Array.isArray(report.markers)) {
+    throw new Error('Gemini response has no markers array.');
+  }
+
+  const markers: ExtractedMarker[] = [];
+  const rejected: RejectedMarker[] = [];
+  report.markers.forEach((item, index) => {
+    const result = validateMarker(item);
+    if (typeof result === 'string') {
+      const name = item && typeof item === 'object' ? optionalString((item as Record<string, unknown>).name) : null;
+      rejected.push({ index, name, reason: result, raw: item });
+    } else {
+      markers.push(result);
+    }
+  });
+
+  const testDate = optionalString(report.testDate);
+  return {
+    labName: optionalString(report.labName),
+    testDate: testDate && isIsoDate(testDate) ? testDate : null,
+    markers,
+    rejected,
+  };
+};
+
+const markerKey = (marker: ExtractedMarker) =>
+  marker.code ? normalizeMarkerKey(marker.code) : normalizeMarkerKey(marker.name);
+
+const markerDetail = (marker: ExtractedMarker) =>
+  (marker.value !== null && marker.value !== undefined ? 4 : 0) +
+  (marker.unit ? 2 : 0) +
+  (marker.referenceRange ? 1 : 0);
+
+// Collapses markers repeated across pages or photos. Rows within one page are all kept, since a report can list
+// two rows that resolve to the same code; a marker found on several pages stays only on the page with its most
+// complete reading, and the other copies are returned as rejected so the review step can show them.
+export const dedupeMarkers = (pages: ExtractedMarker[][]) => {
+  const bestPage = new Map<string, { page: number; detail: number }>();
+  pages.forEach((markers, page) => markers.forEach(marker => {
+    const key = markerKey(marker);
+    const best = bestPage.get(key);
+    if (!best || (best.page !== page && markerDetail(marker) > best.detail)) {
+      bestPage.set(key, { page, detail: markerDetail(marker) });
+    } else if (best.page === page) {
+      best.detail = Math.max(best.detail, markerDetail(marker));
+    }
+  }));
+
+  const markers: ExtractedMarker[] = [];
+  const rejected: RejectedMarker[] = [];
+  pages.forEach((pageMarkers, page) => pageMarkers.forEach((marker, index) => {
+    if (bestPage.get(markerKey(marker))?.page === page) {
+      markers.push(marker);
+    } else {
+      rejected.push({ index, name: marker.name, reason: 'Repeated on another page with a more complete reading', raw: marker });
+    }
+  }));
+  return { markers, rejected };
+};
+
+// Splits one extraction of several files back into pages by each marker's page number.
+// Markers the model did not attribute form their own group, so they are never collapsed into each other.
+const groupByPage = (markers: ExtractedMarker[], pageCount: number) => {
+  if (pageCount <= 1) return [markers];
+  const pages = Array.from({ length: pageCount }, (_, index) => markers.filter(marker => marker.page === index + 1));
+  const unattributed = markers.filter(marker => !marker.page || marker.page > pageCount);
+  return unattributed.length > 0 ? [...pages, unattributed] : pages;
+};
+
+export const mergeExtractedReports = (reports: ExtractedReport[]): ExtractedReport => {
+  const { markers, rejected } = dedupeMarkers(reports.map(report => report.markers));
+  return {
+    labName: reports.find(report => report.labName)?.labName ?? null,
+    testDate: reports.find(report => report.testDate)?.testDate ?? null,
+    markers,
+    rejected: [...reports.flatMap(report => report.rejected || []), ...rejected],
+  };
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Only failures that can succeed on a second try: dropped connections, timeouts, rate limits and server errors.
+// Bad keys, rejected requests and responses that fail validation would fail the same way again.
+const isTransientError = (err: unknown) => {
+  if (err instanceof GoogleGenerativeAIFetchError) return err.status === 429 || (err.status ?? 0) >= 500;
+  if (err instanceof GoogleGenerativeAIAbortError) return true;
+  if (err instanceof GoogleGenerativeAIError) return err.message.includes('Error fetching from');
+  return err instanceof TypeError;
+};
+
+export const readFileAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      // specific to FileReader result: "data:application/pdf;base64,..."
+      resolve(result.split(',')[1]);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+
+export const parseHealthReport = async (files: { data: string; mimeType: string }[]): Promise<ExtractedReport> => {
   // Use the VITE_GEMINI_API_KEY from .env
   const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
 
@@ -61,25 +282,53 @@ export const parseHealthReport = async (base64Data: string, mimeType = 'applicat
   // Initialize standard Gemini API Client
   const genAI = new GoogleGenerativeAI(apiKey);
 
-  // Use gemini-3-flash-preview as requested
-  const model = genAI.getGenerativeModel({ model: 'gemini-3-flash-preview' });
+  // Use gemini-3-flash-preview as requested, constrained to the extraction schema
+  const model = genAI.getGenerativeModel({
+    model: 'gemini-3-flash-preview',
+    generationConfig: {
+      responseMimeType: 'application/json',
+      responseSchema: EXTRACTION_SCHEMA,
+    },
+  });
 
-  // Construct the inline data part
+  // Construct one inline data part per page/photo
   // @google/generative-ai expects { inlineData: { data: ..., mimeType: ... } }
-  const filePart = {
+  const fileParts = files.map(file => ({
     inlineData: {
-      data: base64Data,
-      mimeType: mimeType,
+      data: file.data,
+      mimeType: file.mimeType,
     },
-  };
+  }));
 
-  const result = await model.generateContent([
-    EXTRACTION_PROMPT,
-    filePart
-  ]);
-  const response = result.response;
-  const responseText = response.text();
+  // Network errors, rate limits and server errors are retried with exponential backoff
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      const result = await model.generateContent([
+        EXTRACTION_PROMPT,
+        ...fileParts
+      ]);
+      const responseText = result.response.text();
+      const extraction = validateExtraction(parseJson(responseText));
+      const { markers, rejected } = dedupeMarkers(groupByPage(extraction.markers, files.length));
+      return { ...extraction, markers, rejected: [...(extraction.rejected || []), ...rejected], attempts: attempt };
+    } catch (err) {
+      lastError = err;
+      console.warn(`Gemini extraction attempt ${attempt} failed`, err);
+      if (!isTransientError(err)) break;
+      if (attempt < MAX_ATTEMPTS) await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error('Gemini extraction failed.');
+};
 
-  const jsonText = extractJson(responseText);
-  return JSON.parse(jsonText) as ExtractedReport;
+export const geminiReportParser: ReportParser = {
+  id: 'gemini',
+  label: 'Gemini AI',
+  description: 'Reads scanned or digital PDFs and photos. Requires a Gemini API key and network access.',
+  accept: 'application/pdf,image/*',
+  parse: async (files) => parseHealthReport(await Promise.all(files.map(async file => ({
+    data: await readFileAsBase64(file),
+    mimeType: file.type || 'application/pdf',
+  })))),
 };
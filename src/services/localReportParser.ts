@@ -0,0 +1,242 @@
+import { healthMarkersSeed, markerAliases } from '../data/healthMarkers';
+import { normalizeMarkerKey } from '../utils/healthCalculations';
+import { ExtractedMarker, ExtractedReport, mergeExtractedReports, ReportParser } from './healthParser';
+
+// Offline parser: reads the text layer of digital PDFs (or CSV/TXT exports) and matches
+// "name value unit range" lines against known markers. Scanned PDFs have no text layer
+// and need the Gemini parser instead.
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const knownMarkerKeys = (() => {
+  const keys = new Map<string, string>();
+  healthMarkersSeed.forEach(marker => {
+    keys.set(normalizeMarkerKey(marker.code), marker.code);
+    keys.set(normalizeMarkerKey(marker.name), marker.code);
+  });
+  Object.entries(markerAliases).forEach(([alias, code]) => keys.set(alias, code));
+  return keys;
+})();
+
+const resolveCode = (name: string) => knownMarkerKeys.get(normalizeMarkerKey(name)) || null;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number) => {
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const parseDate = (text: string): string | null => {
+  let match = text.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/\b(\d{1,2})[-\s/.]([A-Za-z]{3,9})[-\s/.,]+(\d{2,4})\b/);
+  if (match) {
+    const month = MONTHS.indexOf(match[2].slice(0, 3).toLowerCase());
+    if (month >= 0) return toIsoDate(Number(match[3]), month + 1, Number(match[1]));
+  }
+
+  match = text.match(/\b([A-Za-z]{3,9})\s+(\d{1,2}),?\s+(\d{4})\b/);
+  if (match) {
+    const month = MONTHS.indexOf(match[1].slice(0, 3).toLowerCase());
+    if (month >= 0) return toIsoDate(Number(match[3]), month + 1, Number(match[2]));
+  }
+
+  // Numeric day/month order is ambiguous; prefer day-first unless the second part cannot be a month
+  match = text.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})\b/);
+  if (match) {
+    const first = Number(match[1]);
+    const second = Number(match[2]);
+    return second > 12
+      ? toIsoDate(Number(match[3]), first, second)
+      : toIsoDate(Number(match[3]), second, first);
+  }
+  return null;
+};
+
+const findTestDate = (lines: string[]) => {
+  const keyword = /(collect|sample|report|test|drawn|received)\w*\s*(date|on|at)?/i;
+  const preferred = lines.find(line => keyword.test(line) && parseDate(line));
+  const fallback = preferred || lines.find(line => parseDate(line));
+  return fallback ? parseDate(fallback) : null;
+};
+
+const findLabName = (lines: string[]) => {
+  const line = lines.slice(0, 10).find(item => /(laborator|diagnostic|patholog|\blabs?\b|clinic|hospital)/i.test(item));
+  return line ? line.trim().slice(0, 80) : null;
+};
+
+const RANGE_PATTERN = /(?:[<>≤≥]=?\s*\d+(?:\.\d+)?|\d+(?:\.\d+)?\s*(?:-|–|to)\s*\d+(?:\.\d+)?)/;
+const UNIT_PATTERN = /^(?:[a-zA-Zµμ%/^*×.\d]+(?:\/[a-zA-Zµμ%.\d^]+)*)$/;
+
+const NAME_PATTERN = /^[A-Za-z][A-Za-z0-9 ,()'/+.-]*$/;
+// A standalone number, optionally with a </> qualifier and a trailing H/L/* flag
+const VALUE_PATTERN = /(^|\s)([<>]?\s*-?\d+(?:[.,]\d+)?)\s*(?:[HLhl]\b|\*)?(?=\s|$)/g;
+
+const lastRangeMatch = (line: string) => {
+  let last: RegExpExecArray | null = null;
+  const pattern = new RegExp(RANGE_PATTERN.source, 'g');
+  for (let match = pattern.exec(line); match; match = pattern.exec(line)) last = match;
+  return last;
+};
+
+// The value is the last number before the unit and range, so names ending in digits ("Vitamin B12", "Free T4",
+// "CO2") or containing them ("Vitamin D 25 OH") keep those digits
+const findValue = (head: string) => {
+  let found: { name: string; raw: string; end: number } | null = null;
+  for (const match of head.matchAll(VALUE_PATTERN)) {
+    const start = (match.index || 0) + match[1].length;
+    const name = head.slice(0, start).trim().replace(/\s*[:-]$/, '').trim();
+    if (NAME_PATTERN.test(name)) found = { name, raw: match[2], end: (match.index || 0) + match[0].length };
+  }
+  return found;
+};
+
+const parseMarkerLine = (line: string): ExtractedMarker | null => {
+  let rangeMatch = lastRangeMatch(line);
+  let head = rangeMatch ? line.slice(0, rangeMatch.index) : line;
+  let found = findValue(head);
+  // A qualified value such as "<5" also looks like a range; with nothing else to read, it is the value
+  if (!found && rangeMatch) {
+    rangeMatch = null;
+    head = line;
+    found = findValue(head);
+  }
+  if (!found) return null;
+
+  const { name, raw } = found;
+  const numeric = Number(raw.replace(/[<>\s]/g, '').replace(',', '.'));
+  if (!Number.isFinite(numeric)) return null;
+
+  const unitToken = head.slice(found.end).trim().split(/\s+/)[0] || '';
+  const unit = unitToken && UNIT_PATTERN.test(unitToken) && /[a-zA-Z%µμ]/.test(unitToken) ? unitToken : null;
+  const trailingUnit = !unit && rangeMatch ? line.slice((rangeMatch.index || 0) + rangeMatch[0].length).trim().split(/\s+/)[0] : '';
+
+  const code = resolveCode(name);
+  const resolvedUnit = unit || (trailingUnit && UNIT_PATTERN.test(trailingUnit) ? trailingUnit : null);
+  // Unknown names are only kept when the line looks like a result row, to skip addresses and footers
+  if (!code && !(resolvedUnit && rangeMatch)) return null;
+
+  return {
+    name,
+    code,
+    value: numeric,
+    valueText: raw.includes('<') || raw.includes('>') ? raw.replace(/\s/g, '') : null,
+    unit: resolvedUnit,
+    referenceRange: rangeMatch ? rangeMatch[0].replace(/\s+/g, ' ') : null,
+  };
+};
+
+export const splitCsvLine = (line: string, delimiter: string) => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const parseDelimited = (lines: string[]): ExtractedMarker[] | null => {
+  const delimiter = lines[0]?.includes('\t') ? '\t' : lines[0]?.includes(';') && !lines[0]?.includes(',') ? ';' : ',';
+  const header = splitCsvLine(lines[0] || '', delimiter).map(cell => cell.toLowerCase());
+  const column = (pattern: RegExp) => header.findIndex(cell => pattern.test(cell));
+
+  const nameIndex = column(/^(test|marker|name|parameter|analyte|investigation)/);
+  const valueIndex = column(/^(value|result|observed)/);
+  if (nameIndex < 0 || valueIndex < 0) return null;
+  const unitIndex = column(/^units?$/);
+  const rangeIndex = column(/(range|reference|interval|normal)/);
+
+  return lines.slice(1).flatMap(line => {
+    const cells = splitCsvLine(line, delimiter);
+    const name = cells[nameIndex];
+    const raw = cells[valueIndex];
+    if (!name || !raw) return [];
+    const numeric = Number(raw.replace(',', '.'));
+    const isNumeric = Number.isFinite(numeric) && raw.trim() !== '';
+    return [{
+      name,
+      code: resolveCode(name),
+      value: isNumeric ? numeric : null,
+      valueText: isNumeric ? null : raw,
+      unit: unitIndex >= 0 ? cells[unitIndex] || null : null,
+      referenceRange: rangeIndex >= 0 ? cells[rangeIndex] || null : null,
+    }];
+  });
+};
+
+const readPdfLines = async (file: File) => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const lines: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    // Group text runs into visual lines by their baseline, then order each line left to right
+    const rows = new Map<number, { x: number; text: string }[]>();
+    content.items.forEach(item => {
+      if (!('str' in item) || !item.str.trim()) return;
+      const y = Math.round(item.transform[5] / 2) * 2;
+      const row = rows.get(y) || [];
+      row.push({ x: item.transform[4], text: item.str });
+      rows.set(y, row);
+    });
+    Array.from(rows.entries())
+      .sort((a, b) => b[0] - a[0])
+      .forEach(([, row]) => {
+        lines.push(row.sort((a, b) => a.x - b.x).map(part => part.text).join(' ').replace(/\s+/g, ' ').trim());
+      });
+  }
+  return lines;
+};
+
+const readLines = async (file: File) => {
+  const isPdf = file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+  if (isPdf) return readPdfLines(file);
+  const text = await file.text();
+  return text.split(/\r?\n/).map(line => line.trim());
+};
+
+export const parseReportText = (lines: string[]): ExtractedReport => {
+  const content = lines.filter(Boolean);
+  const markers = parseDelimited(content) || content.map(parseMarkerLine).filter((marker): marker is ExtractedMarker => Boolean(marker));
+
+  return {
+    labName: findLabName(content),
+    testDate: findTestDate(content),
+    markers,
+  };
+};
+
+export const localReportParser: ReportParser = {
+  id: 'local',
+  label: 'Offline text parser',
+  description: 'Runs on this device without sending the report anywhere. Works with digital PDFs and CSV/TXT exports, not scans.',
+  accept: 'application/pdf,.csv,.txt,text/csv,text/plain',
+  parse: async (files) => {
+    const pages = await Promise.all(files.map(readLines));
+    if (pages.every(lines => lines.every(line => !line))) {
+      throw new Error('No text found in these files. Scanned reports and photos need the Gemini parser.');
+    }
+    return mergeExtractedReports(pages.map(parseReportText));
+  },
+};
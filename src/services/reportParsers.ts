@@ -0,0 +1,9 @@
+import { geminiReportParser, ReportParser, ReportParserId } from './healthParser';
+import { localReportParser } from './localReportParser';
+
+export const reportParsers: ReportParser[] = [geminiReportParser, localReportParser];
+
+export const DEFAULT_REPORT_PARSER: ReportParserId = 'gemini';
+
+export const getReportParser = (id: ReportParserId = DEFAULT_REPORT_PARSER) =>
+  reportParsers.find(parser => parser.id === id) || geminiReportParser;
@@ -9,10 +9,27 @@ export type HealthSystem =
   | 'VITAMINS'
   | 'ELECTROLYTES'
   | 'HORMONES'
-  | 'BONE';
+  | 'BONE'
+  | 'IMMUNE'
+  | 'URINE'
+  | 'OTHER';
 
 export type HealthValueStatus = 'OPTIMAL' | 'NORMAL' | 'LOW' | 'HIGH' | 'UNKNOWN';
 
+// Which way a marker should move to be considered improving
+export type MarkerDirection = 'HIGHER' | 'LOWER' | 'IN_RANGE';
+
+// Reference range override for a sex and/or age bracket (ageMin inclusive, ageMax exclusive, in years)
+export interface MarkerRangeBand {
+  sex?: 'male' | 'female' | null;
+  ageMin?: number | null;
+  ageMax?: number | null;
+  optimalMin?: number | null;
+  optimalMax?: number | null;
+  labMin?: number | null;
+  labMax?: number | null;
+}
+
 export interface HealthMarker {
   id: string;
   code: string;
@@ -23,8 +40,41 @@ export interface HealthMarker {
   optimalMax?: number | null;
   labMin?: number | null;
   labMax?: number | null;
+  ranges?: MarkerRangeBand[] | null;
+  goodDirection?: MarkerDirection | null;
   description?: string | null;
   displayOrder?: number | null;
+  aliases?: string[] | null;
+  // Set for user-defined markers; shared reference markers have no owner
+  ownerId?: string | null;
+}
+
+// Fields a user fills in when defining their own marker
+export interface CustomMarkerInput {
+  name: string;
+  unit?: string | null;
+  system: HealthSystem;
+  optimalMin?: number | null;
+  optimalMax?: number | null;
+  labMin?: number | null;
+  labMax?: number | null;
+  goodDirection?: MarkerDirection | null;
+  aliases?: string[];
+  description?: string | null;
+}
+
+export interface HealthDemographics {
+  sex?: 'male' | 'female' | 'other' | null;
+  dateOfBirth?: string | null;
+}
+
+// Who besides the profile owner and the entry's author can see a report or physical:
+// every collaborator, only those picked in item_shares, or nobody else
+export type HealthShareMode = 'ALL' | 'SELECTED' | 'PRIVATE';
+
+export interface HealthSharing {
+  mode: HealthShareMode;
+  collaboratorIds: string[]; // person_share_ids, used when mode is SELECTED
 }
 
 export interface HealthReport {
@@ -34,10 +84,13 @@ export interface HealthReport {
   labName?: string | null;
   reportType: string;
   pdfUrl?: string | null;
+  filePaths?: string[];
   status: 'PENDING' | 'PROCESSED' | 'FAILED';
   rawExtraction?: Record<string, unknown> | null;
   values: HealthValue[];
   ratios: HealthRatio[];
+  sharing: HealthSharing;
+  createdBy?: string | null;
   createdAt?: string;
 }
 
@@ -51,11 +104,50 @@ export interface HealthValue {
   value?: number | null;
   valueText?: string | null;
   unit?: string | null;
+  originalValue?: number | null;
+  originalUnit?: string | null;
+  // Calculated from other markers (e.g. CKD-EPI eGFR) rather than reported by the lab
+  isComputed?: boolean;
   testDate: string;
   isFlagged: boolean;
   status: HealthValueStatus;
 }
 
+// A value as entered by hand or extracted from a report, before status/flags are derived
+export interface HealthValueInput {
+  id?: string;
+  markerCode?: string | null;
+  markerName?: string | null;
+  value?: number | null;
+  valueText?: string | null;
+  unit?: string | null;
+}
+
+export type MarkerMatchMethod = 'CODE' | 'ALIAS' | 'NAME' | 'FUZZY' | 'NONE';
+
+// One extracted marker awaiting the user's accept/reject/remap decision
+export interface ExtractionReviewRow {
+  key: string;
+  name: string;
+  value?: number | null;
+  valueText?: string | null;
+  unit?: string | null;
+  referenceRange?: string | null;
+  suggestedCode: string | null;
+  matchMethod: MarkerMatchMethod;
+  confidence: number;
+  markerCode: string | null;
+  accepted: boolean;
+}
+
+export interface ExtractionReview {
+  reportId: string;
+  testDate: string;
+  labName?: string | null;
+  rows: ExtractionReviewRow[];
+  dropped?: { name?: string | null; reason: string }[];
+}
+
 export interface HealthRatio {
   id: string;
   reportId?: string | null;
@@ -81,9 +173,248 @@ export interface HealthPhysical {
   bpSystolic?: number | null;
   bpDiastolic?: number | null;
   restingHr?: number | null;
+  headCircumferenceCm?: number | null;
+  notes?: string | null;
+  sharing?: HealthSharing;
+  createdBy?: string | null;
+}
+
+export type GrowthMetric = 'WEIGHT' | 'HEIGHT' | 'HEAD' | 'BMI';
+
+export interface GrowthPoint {
+  date: string;
+  ageMonths: number;
+  value: number;
+  zScore: number;
+  percentile: number;
+}
+
+// A child's measurements for one metric scored against the WHO/CDC reference for their sex
+export interface GrowthAssessment {
+  metric: GrowthMetric;
+  points: GrowthPoint[];
+  latest?: GrowthPoint;
+}
+
+// ACC/AHA 2017 adult categories
+export type BloodPressureCategory = 'NORMAL' | 'ELEVATED' | 'STAGE_1' | 'STAGE_2' | 'CRISIS';
+
+// One day's blood pressure: the mean of every reading logged on that date
+export interface BloodPressureDay {
+  date: string;
+  systolic: number;
+  diastolic: number;
+  readings: number;
+  category: BloodPressureCategory;
+}
+
+export interface BloodPressureSummary {
+  days: BloodPressureDay[];
+  latest?: BloodPressureDay;
+  average7d: { systolic: number; diastolic: number } | null;
+  category?: BloodPressureCategory;
+  status: SystemSummary['status'];
+  guidance: string[];
+}
+
+export type VitalKind = 'GLUCOSE' | 'SPO2' | 'TEMPERATURE' | 'SLEEP' | 'HEART_RATE' | 'STEPS';
+
+// When a reading was taken; glucose targets depend on it
+export type VitalContext = 'FASTING' | 'PRE_MEAL' | 'POST_MEAL' | 'BEDTIME' | 'RANDOM' | 'RESTING' | 'ACTIVE';
+
+export interface HealthVital {
+  id: string;
+  personId: string;
+  kind: VitalKind;
+  value: number;
+  unit?: string | null;
+  measuredAt: string;
+  context?: VitalContext | null;
+  notes?: string | null;
+}
+
+export interface VitalStats {
+  kind: VitalKind;
+  latest?: HealthVital;
+  average7d: number | null;
+  average30d: number | null;
+  count30d: number;
+  // Share of the last 30 days' readings inside the kind's target range (0-100)
+  timeInRange: number | null;
+}
+
+export type MedicationFrequency =
+  | 'ONCE_DAILY'
+  | 'TWICE_DAILY'
+  | 'THREE_TIMES_DAILY'
+  | 'FOUR_TIMES_DAILY'
+  | 'EVERY_OTHER_DAY'
+  | 'WEEKLY'
+  | 'AS_NEEDED';
+
+export interface Medication {
+  id: string;
+  personId: string;
+  name: string;
+  strength?: string | null;
+  doseAmount: number;
+  doseUnit?: string | null;
+  frequency: MedicationFrequency;
+  // HH:MM intake times; empty for as-needed medications
+  scheduleTimes: string[];
+  startDate?: string | null;
+  endDate?: string | null;
+  prescriber?: string | null;
+  pharmacy?: string | null;
+  // Units on hand (tablets, ml, puffs), counted down as doses are given
+  supplyRemaining?: number | null;
+  refillThresholdDays: number;
+  refillTodoId?: string | null;
+  notes?: string | null;
+}
+
+export type MedicationInput = Omit<Medication, 'id' | 'personId' | 'refillTodoId'>;
+
+export type MedicationDoseStatus = 'GIVEN' | 'SKIPPED';
+
+export interface MedicationDose {
+  id: string;
+  medicationId: string;
+  personId: string;
+  scheduledDate: string;
+  slot: string;
+  status: MedicationDoseStatus;
+  recordedAt: string;
+  givenBy?: string | null;
+  givenByName?: string | null;
+}
+
+export interface MedicationSupply {
+  unitsPerDay: number | null;
+  daysRemaining: number | null;
+  runsOutOn: string | null;
+  needsRefill: boolean;
+}
+
+export type VaccineCode =
+  | 'HEPB'
+  | 'ROTAVIRUS'
+  | 'DTAP'
+  | 'HIB'
+  | 'PCV'
+  | 'IPV'
+  | 'MMR'
+  | 'VARICELLA'
+  | 'HEPA'
+  | 'MENACWY'
+  | 'HPV'
+  | 'TDAP'
+  | 'TD_BOOSTER'
+  | 'FLU'
+  | 'SHINGLES'
+  | 'PNEUMOCOCCAL_ADULT'
+  | 'OTHER';
+
+export interface Immunization {
+  id: string;
+  personId: string;
+  vaccine: VaccineCode;
+  // Free-text name, used for OTHER and for the exact product given
+  vaccineName?: string | null;
+  doseNumber?: number | null;
+  administeredOn: string;
+  lotNumber?: string | null;
+  provider?: string | null;
   notes?: string | null;
 }
 
+export type ImmunizationInput = Omit<Immunization, 'id' | 'personId'>;
+
+// REVIEW: past due, but nothing at all is recorded for the person, so the dose may simply be missing from the records
+export type VaccineDueStatus = 'OVERDUE' | 'DUE' | 'UPCOMING' | 'REVIEW';
+
+export interface VaccineDue {
+  vaccine: VaccineCode;
+  vaccineName: string;
+  doseNumber: number;
+  totalDoses?: number | null;
+  dueDate: string;
+  status: VaccineDueStatus;
+}
+
+export type BloodType = 'A+' | 'A-' | 'B+' | 'B-' | 'AB+' | 'AB-' | 'O+' | 'O-';
+
+export type AllergySeverity = 'MILD' | 'MODERATE' | 'SEVERE' | 'LIFE_THREATENING';
+
+export type ConditionStatus = 'ACTIVE' | 'MANAGED' | 'RESOLVED';
+
+// Items marked not shared are visible only to the profile owner and whoever added them
+export interface MedicalProfile {
+  personId: string;
+  bloodType?: BloodType | null;
+  organDonor?: boolean | null;
+  emergencyNotes?: string | null;
+  isShared: boolean;
+}
+
+export interface PersonAllergy {
+  id: string;
+  personId: string;
+  allergen: string;
+  reaction?: string | null;
+  severity: AllergySeverity;
+  notes?: string | null;
+  isShared: boolean;
+}
+
+export interface PersonCondition {
+  id: string;
+  personId: string;
+  name: string;
+  diagnosedOn?: string | null;
+  status: ConditionStatus;
+  notes?: string | null;
+  isShared: boolean;
+}
+
+export interface InsurancePolicy {
+  id: string;
+  personId: string;
+  provider: string;
+  planName?: string | null;
+  memberId?: string | null;
+  groupNumber?: string | null;
+  phone?: string | null;
+  isPrimary: boolean;
+  isShared: boolean;
+}
+
+export interface PersonDoctor {
+  id: string;
+  personId: string;
+  name: string;
+  specialty?: string | null;
+  practice?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  address?: string | null;
+  isPrimary: boolean;
+  isShared: boolean;
+}
+
+export interface MedicalInfoItems {
+  allergies: PersonAllergy;
+  conditions: PersonCondition;
+  insurance: InsurancePolicy;
+  doctors: PersonDoctor;
+}
+
+export type MedicalInfoKind = keyof MedicalInfoItems;
+
+export type MedicalInfoInput<K extends MedicalInfoKind> = Omit<MedicalInfoItems[K], 'id' | 'personId'>;
+
+export type MedicalInfo = { profile: MedicalProfile | null } & { [K in MedicalInfoKind]: MedicalInfoItems[K][] };
+
 export interface SystemSummary {
   system: HealthSystem;
   displayName: string;
@@ -108,6 +439,133 @@ export interface HealthDashboardData {
   latestReport?: HealthReport;
   allReports: HealthReport[];
   physicals: HealthPhysical[];
+  bloodPressure: BloodPressureSummary;
+  growth: GrowthAssessment[];
   systemSummaries: SystemSummary[];
   trends: MarkerTrend[];
+  unmatched: UnmatchedMarkerGroup[];
+}
+
+// One person's row in the family-wide health overview, built from their latest report and full history
+export interface FamilyHealthOverview {
+  personId: string;
+  demographics: HealthDemographics;
+  reports: HealthReport[];
+  systemSummaries: SystemSummary[];
+  flaggedCount: number;
+  lastTestDate?: string;
+  overdueRetests: number;
+  bloodPressure: BloodPressureSummary;
+}
+
+// Values whose printed name could not be linked to any marker, grouped by normalized name
+export interface UnmatchedMarkerGroup {
+  key: string;
+  name: string;
+  values: HealthValue[];
+  latest: HealthValue;
+}
+
+// Change from the oldest to the newest selected report that has a numeric value
+export interface ComparisonChange {
+  absolute: number;
+  percent: number | null;
+}
+
+export interface MarkerComparisonRow {
+  markerCode: string;
+  markerName: string;
+  unit?: string | null;
+  // One entry per compared report, oldest first; null where the report lacks the marker
+  values: (HealthValue | null)[];
+  change: ComparisonChange | null;
+  statusFrom?: HealthValueStatus;
+  statusTo?: HealthValueStatus;
+}
+
+export interface SystemComparisonGroup {
+  system: HealthSystem;
+  displayName: string;
+  rows: MarkerComparisonRow[];
+}
+
+export interface RatioComparisonRow {
+  ratioCode: string;
+  name: string;
+  values: (HealthRatio | null)[];
+  change: ComparisonChange | null;
+}
+
+export interface ReportComparison {
+  reports: HealthReport[];
+  groups: SystemComparisonGroup[];
+  ratios: RatioComparisonRow[];
+}
+
+// CRITICAL: latest value past a panic threshold; STATUS_CHANGE: left the healthy range since the previous report;
+// WORSENING: trending the wrong way across several reports while out of range
+export type HealthAlertKind = 'CRITICAL' | 'STATUS_CHANGE' | 'WORSENING';
+
+export type HealthAlertSeverity = 'CRITICAL' | 'WARNING';
+
+// RESOLVED alerts were superseded by newer results; DISMISSED ones were cleared by hand
+export type HealthAlertStatus = 'OPEN' | 'DISMISSED' | 'RESOLVED';
+
+// Values beyond these limits (in the marker's canonical unit) warrant contacting a doctor promptly
+export interface CriticalThreshold {
+  low?: number;
+  high?: number;
+}
+
+// An alert as produced by the rules, before it is stored; alertKey is stable so re-evaluation never duplicates it
+export interface HealthAlertCandidate {
+  alertKey: string;
+  kind: HealthAlertKind;
+  severity: HealthAlertSeverity;
+  markerCode: string;
+  markerName: string;
+  value: number;
+  unit?: string | null;
+  testDate: string;
+  reportId?: string | null;
+  message: string;
+}
+
+export interface HealthAlert extends HealthAlertCandidate {
+  id: string;
+  personId: string;
+  status: HealthAlertStatus;
+  followUpTodoId?: string | null;
+  createdAt?: string;
+}
+
+// Months between tests while the latest result is in range, and while it is out of range
+export interface RetestInterval {
+  inRangeMonths: number;
+  outOfRangeMonths: number;
+}
+
+export type RetestScope = 'MARKER' | 'SYSTEM';
+
+// A person's own interval for one marker (target = marker code) or a whole body system (target = HealthSystem)
+export interface RetestOverride extends RetestInterval {
+  id: string;
+  personId: string;
+  scope: RetestScope;
+  target: string;
+}
+
+export type RetestStatus = 'OVERDUE' | 'DUE_SOON' | 'UP_TO_DATE';
+
+export interface RetestDue {
+  markerCode: string;
+  markerName: string;
+  system: HealthSystem;
+  lastTested: string;
+  lastStatus: HealthValueStatus;
+  intervalMonths: number;
+  // Set when the interval comes from the person's overrides rather than the built-in defaults
+  overrideScope?: RetestScope;
+  dueDate: string;
+  status: RetestStatus;
 }
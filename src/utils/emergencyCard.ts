@@ -0,0 +1,241 @@
+import { Medication, MedicalInfo } from '../types/health';
+import { allergySeverities, conditionStatuses } from '../data/medicalInfo';
+import { medicationFrequencies } from '../data/medicationSchedules';
+import { calculateAgeYears } from './healthCalculations';
+import { isMedicationActive, toLocalDateString } from './medications';
+import { escapeHtml } from './printDocument';
+
+export interface EmergencyCardLine {
+  text: string;
+  detail?: string;
+  alert?: boolean;
+}
+
+export interface EmergencyCardSection {
+  title: string;
+  lines: EmergencyCardLine[];
+}
+
+export interface EmergencyCard {
+  name: string;
+  dateOfBirth?: string;
+  age?: number | null;
+  bloodType?: string | null;
+  organDonor?: boolean | null;
+  notes?: string | null;
+  sections: EmergencyCardSection[];
+  generatedOn: string;
+}
+
+const joinDetail = (...parts: (string | null | undefined | false)[]) => parts.filter(Boolean).join(' · ');
+
+// sharedOnly drops items marked private, so the card matches what collaborators can see
+export const buildEmergencyCard = (
+  person: { name: string; dateOfBirth?: string },
+  info: MedicalInfo,
+  medications: Medication[],
+  { sharedOnly = false }: { sharedOnly?: boolean } = {},
+): EmergencyCard => {
+  const visible = <T extends { isShared: boolean }>(items: T[]) => items.filter(item => !sharedOnly || item.isShared);
+  const profile = info.profile && (!sharedOnly || info.profile.isShared) ? info.profile : null;
+  const today = toLocalDateString(new Date());
+  const age = calculateAgeYears(person.dateOfBirth);
+
+  const allergies = visible(info.allergies)
+    .sort((a, b) => allergySeverities[a.severity].rank - allergySeverities[b.severity].rank)
+    .map(allergy => ({
+      text: allergy.allergen,
+      detail: joinDetail(allergySeverities[allergy.severity].label, allergy.reaction),
+      alert: allergy.severity === 'SEVERE' || allergy.severity === 'LIFE_THREATENING',
+    }));
+
+  const conditions = visible(info.conditions)
+    .filter(condition => condition.status !== 'RESOLVED')
+    .map(condition => ({
+      text: condition.name,
+      detail: joinDetail(condition.status !== 'ACTIVE' && conditionStatuses[condition.status], condition.diagnosedOn && `since ${condition.diagnosedOn.slice(0, 4)}`),
+    }));
+
+  const activeMedications = medications
+    .filter(medication => isMedicationActive(medication, today))
+    .map(medication => ({
+      text: joinDetail(medication.name, medication.strength) || medication.name,
+      detail: joinDetail(
+        `${medication.doseAmount} ${medication.doseUnit || 'unit'}${medication.doseAmount === 1 ? '' : 's'}`,
+        medicationFrequencies[medication.frequency].label.toLowerCase(),
+      ),
+    }));
+
+  const doctors = visible(info.doctors)
+    .sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary))
+    .map(doctor => ({
+      text: joinDetail(doctor.name, doctor.isPrimary && 'primary'),
+      detail: joinDetail(doctor.specialty, doctor.practice, doctor.phone),
+    }));
+
+  const insurance = visible(info.insurance)
+    .sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary))
+    .map(policy => ({
+      text: joinDetail(policy.provider, policy.planName),
+      detail: joinDetail(policy.memberId && `Member ${policy.memberId}`, policy.groupNumber && `Group ${policy.groupNumber}`, policy.phone),
+    }));
+
+  const sections: EmergencyCardSection[] = [
+    { title: 'Allergies', lines: allergies.length > 0 ? allergies : [{ text: 'No known allergies' }] },
+    { title: 'Conditions', lines: conditions },
+    { title: 'Medications', lines: activeMedications },
+    { title: 'Doctors', lines: doctors },
+    { title: 'Insurance', lines: insurance },
+  ].filter(section => section.lines.length > 0);
+
+  return {
+    name: person.name,
+    dateOfBirth: person.dateOfBirth || undefined,
+    age: age === null ? null : Math.floor(age),
+    bloodType: profile?.bloodType,
+    organDonor: profile?.organDonor,
+    notes: profile?.emergencyNotes,
+    sections,
+    generatedOn: today,
+  };
+};
+
+const describeIdentity = (card: EmergencyCard) =>
+  joinDetail(card.dateOfBirth && `Born ${card.dateOfBirth}`, card.age !== null && card.age !== undefined && `${card.age} yrs`);
+
+const describeVitals = (card: EmergencyCard) =>
+  joinDetail(card.bloodType && `Blood type ${card.bloodType}`, card.organDonor && 'Organ donor');
+
+const CARD_STYLES = `
+  .card { max-width: 560px; margin: 0 auto; border: 2px solid #e11d48; border-radius: 16px; overflow: hidden; }
+  .header { background: #e11d48; color: #fff; padding: 14px 18px; }
+  .header h1 { margin: 0; font-size: 20px; }
+  .header p { margin: 4px 0 0; font-size: 13px; opacity: 0.9; }
+  .label { font-size: 11px; font-weight: 700; letter-spacing: 0.08em; text-transform: uppercase; opacity: 0.85; }
+  .body { padding: 12px 18px 16px; }
+  .vitals { font-weight: 700; font-size: 15px; margin: 4px 0 8px; }
+  h2 { font-size: 11px; letter-spacing: 0.08em; text-transform: uppercase; color: #78716c; margin: 12px 0 4px; }
+  ul { margin: 0; padding: 0; list-style: none; }
+  li { font-size: 14px; padding: 2px 0; }
+  li span { color: #78716c; font-size: 12px; }
+  li.alert { color: #be123c; font-weight: 700; }
+  .notes { margin-top: 12px; padding: 8px 10px; background: #fff1f2; border-radius: 8px; font-size: 13px; white-space: pre-wrap; }
+  .footer { margin-top: 12px; font-size: 11px; color: #a8a29e; }
+  @media print { .card { break-inside: avoid; } }
+`;
+
+export const emergencyCardHtml = (card: EmergencyCard) => {
+  const sections = card.sections.map(section => `
+    <h2>${escapeHtml(section.title)}</h2>
+    <ul>${section.lines.map(line => `
+      <li class="${line.alert ? 'alert' : ''}">${escapeHtml(line.text)}${line.detail ? ` <span>${escapeHtml(line.detail)}</span>` : ''}</li>`).join('')}
+    </ul>`).join('');
+  const vitals = describeVitals(card);
+  return {
+    styles: CARD_STYLES,
+    body: `
+      <div class="card">
+        <div class="header">
+          <div class="label">Emergency medical information</div>
+          <h1>${escapeHtml(card.name)}</h1>
+          ${describeIdentity(card) ? `<p>${escapeHtml(describeIdentity(card))}</p>` : ''}
+        </div>
+        <div class="body">
+          ${vitals ? `<div class="vitals">${escapeHtml(vitals)}</div>` : ''}
+          ${sections}
+          ${card.notes ? `<div class="notes">${escapeHtml(card.notes)}</div>` : ''}
+          <div class="footer">Updated ${escapeHtml(card.generatedOn)}</div>
+        </div>
+      </div>`,
+  };
+};
+
+const PNG_WIDTH = 900;
+const PNG_PADDING = 36;
+const FONT_FAMILY = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  const lines: string[] = [];
+  let current = '';
+  text.split(/\s+/).forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+// Draws the card straight onto a canvas; laid out twice, first to measure the height and then to paint
+export const renderEmergencyCardPng = (card: EmergencyCard): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas is not supported in this browser.'));
+  const contentWidth = PNG_WIDTH - PNG_PADDING * 2;
+  const headerHeight = describeIdentity(card) ? 150 : 120;
+
+  const layout = (paint: boolean) => {
+    let y = headerHeight + 28;
+    const draw = (text: string, font: string, color: string, lineHeight: number) => {
+      ctx.font = font;
+      wrapText(ctx, text, contentWidth).forEach(line => {
+        y += lineHeight;
+        if (paint) {
+          ctx.fillStyle = color;
+          ctx.fillText(line, PNG_PADDING, y);
+        }
+      });
+    };
+
+    const vitals = describeVitals(card);
+    if (vitals) draw(vitals, `700 30px ${FONT_FAMILY}`, '#1c1917', 38);
+    card.sections.forEach(section => {
+      y += 14;
+      draw(section.title.toUpperCase(), `700 20px ${FONT_FAMILY}`, '#78716c', 30);
+      section.lines.forEach(line => {
+        draw(
+          line.detail ? `${line.text} — ${line.detail}` : line.text,
+          `${line.alert ? 700 : 400} 26px ${FONT_FAMILY}`,
+          line.alert ? '#be123c' : '#1c1917',
+          34,
+        );
+      });
+    });
+    if (card.notes) {
+      y += 14;
+      card.notes.split('\n').forEach(paragraph => draw(paragraph, `400 24px ${FONT_FAMILY}`, '#44403c', 32));
+    }
+    y += 16;
+    draw(`Updated ${card.generatedOn}`, `400 20px ${FONT_FAMILY}`, '#a8a29e', 28);
+    return y + PNG_PADDING;
+  };
+
+  canvas.width = PNG_WIDTH;
+  canvas.height = Math.ceil(layout(false));
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#e11d48';
+  ctx.fillRect(0, 0, canvas.width, headerHeight);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `700 20px ${FONT_FAMILY}`;
+  ctx.fillText('EMERGENCY MEDICAL INFORMATION', PNG_PADDING, 48);
+  ctx.font = `700 42px ${FONT_FAMILY}`;
+  ctx.fillText(card.name, PNG_PADDING, 100);
+  if (describeIdentity(card)) {
+    ctx.font = `400 24px ${FONT_FAMILY}`;
+    ctx.fillText(describeIdentity(card), PNG_PADDING, 134);
+  }
+  layout(true);
+  ctx.strokeStyle = '#e11d48';
+  ctx.lineWidth = 6;
+  ctx.strokeRect(3, 3, canvas.width - 6, canvas.height - 6);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to render the card.'))), 'image/png');
+  });
+};
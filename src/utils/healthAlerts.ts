@@ -0,0 +1,105 @@
+import { HealthAlertCandidate, HealthMarker, HealthReport, HealthValue, HealthValueStatus } from '../types/health';
+import { criticalThresholds, MIN_TREND_POINTS } from '../data/healthAlertRules';
+import { buildTrends } from './healthCalculations';
+
+const statusLabel: Record<HealthValueStatus, string> = {
+  OPTIMAL: 'optimal',
+  NORMAL: 'normal',
+  LOW: 'low',
+  HIGH: 'high',
+  UNKNOWN: 'unknown',
+};
+
+const isOutOfRange = (status: HealthValueStatus) => status === 'LOW' || status === 'HIGH';
+
+const formatValue = (value: number, unit?: string | null) => `${Number(value.toFixed(2))}${unit ? ` ${unit}` : ''}`;
+
+// One numeric value per test date for each marker, oldest first; a later report on the same date wins
+const seriesByMarker = (reports: HealthReport[]) => {
+  const byCode = new Map<string, Map<string, HealthValue>>();
+  [...reports]
+    .filter(report => report.status === 'PROCESSED')
+    .sort((a, b) => a.testDate.localeCompare(b.testDate))
+    .forEach(report => report.values.forEach(value => {
+      if (!value.markerCode || value.value === null || value.value === undefined || !Number.isFinite(value.value)) return;
+      if (!byCode.has(value.markerCode)) byCode.set(value.markerCode, new Map());
+      byCode.get(value.markerCode)!.set(value.testDate, value);
+    }));
+  return new Map(Array.from(byCode.entries()).map(([code, byDate]) => [
+    code,
+    Array.from(byDate.values()).sort((a, b) => a.testDate.localeCompare(b.testDate)),
+  ]));
+};
+
+// Runs the alert rules against each marker's most recent result. Older results only serve as the baseline,
+// so importing historical reports never raises alerts about values that have since been superseded.
+// Each marker yields at most one alert, the most serious that applies. evaluatedCodes lists every marker that
+// had a result, so callers can tell an alert that no longer applies from one whose marker was not checked.
+export const evaluateHealthAlerts = (
+  reports: HealthReport[],
+  markersByCode: Map<string, HealthMarker>,
+): { candidates: HealthAlertCandidate[]; evaluatedCodes: string[] } => {
+  const series = seriesByMarker(reports);
+  const trends = new Map(buildTrends(Array.from(series.values()).flat(), 'REGRESSION').map(trend => [trend.markerCode, trend]));
+  const alerts: HealthAlertCandidate[] = [];
+
+  series.forEach((values, code) => {
+    const latest = values[values.length - 1];
+    const previous = values.length > 1 ? values[values.length - 2] : undefined;
+    const value = latest.value as number;
+    const marker = latest.marker || markersByCode.get(code);
+    const markerName = marker?.name || latest.markerName || code;
+    const unit = latest.unit || marker?.unit;
+    const base = {
+      markerCode: code,
+      markerName,
+      value,
+      unit,
+      testDate: latest.testDate,
+      reportId: latest.reportId ?? null,
+    };
+
+    const threshold = criticalThresholds[code];
+    const criticalSide = threshold?.low !== undefined && value <= threshold.low
+      ? 'low'
+      : threshold?.high !== undefined && value >= threshold.high ? 'high' : null;
+    if (criticalSide) {
+      const limit = criticalSide === 'low' ? `≤ ${threshold.low}` : `≥ ${threshold.high}`;
+      alerts.push({
+        ...base,
+        alertKey: `CRITICAL:${code}:${latest.testDate}`,
+        kind: 'CRITICAL',
+        severity: 'CRITICAL',
+        message: `${markerName} is critically ${criticalSide} at ${formatValue(value, unit)} (critical ${limit})`,
+      });
+      return;
+    }
+
+    if (previous && isOutOfRange(latest.status) && !isOutOfRange(previous.status) && previous.status !== 'UNKNOWN') {
+      alerts.push({
+        ...base,
+        alertKey: `STATUS_CHANGE:${code}:${latest.testDate}`,
+        kind: 'STATUS_CHANGE',
+        severity: 'WARNING',
+        message: `${markerName} went from ${statusLabel[previous.status]} to ${statusLabel[latest.status]} `
+          + `(${formatValue(previous.value as number, unit)} → ${formatValue(value, unit)})`,
+      });
+      return;
+    }
+
+    if (values.length >= MIN_TREND_POINTS && latest.isFlagged && trends.get(code)?.trend === 'DECLINING') {
+      alerts.push({
+        ...base,
+        alertKey: `WORSENING:${code}:${latest.testDate}`,
+        kind: 'WORSENING',
+        severity: 'WARNING',
+        message: `${markerName} has worsened across ${values.length} reports, now ${formatValue(value, unit)}`,
+      });
+    }
+  });
+
+  return {
+    candidates: alerts.sort((a, b) => (a.severity === b.severity ? a.markerName.localeCompare(b.markerName) : a.severity === 'CRITICAL' ? -1 : 1)),
+    evaluatedCodes: Array.from(series.keys()),
+  };
+};
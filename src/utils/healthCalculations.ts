@@ -1,4 +1,30 @@
-import { HealthMarker, HealthRatio, HealthValue, HealthValueStatus, MarkerTrend } from '../types/health';
+import {
+  BloodPressureCategory,
+  BloodPressureDay,
+  BloodPressureSummary,
+  GrowthAssessment,
+  GrowthMetric,
+  GrowthPoint,
+  HealthDemographics,
+  HealthMarker,
+  HealthPhysical,
+  HealthRatio,
+  HealthSystem,
+  HealthValue,
+  HealthValueStatus,
+  HealthVital,
+  MarkerDirection,
+  MarkerRangeBand,
+  MarkerTrend,
+  SystemSummary,
+  VitalContext,
+  VitalKind,
+  VitalStats,
+} from '../types/health';
+import { systemLabel } from '../data/healthMarkers';
+import { markerUnitConversions, normalizeUnitKey } from '../data/unitConversions';
+import { getVitalKind, VitalTarget } from '../data/vitalKinds';
+import { GROWTH_MAX_AGE_MONTHS, growthStandards, LmsPoint } from '../data/growthStandards';
 
 export const normalizeMarkerKey = (value: string) =>
   value
@@ -6,9 +32,88 @@ export const normalizeMarkerKey = (value: string) =>
     .replace(/[^A-Z0-9]+/g, '')
     .trim();
 
-export const evaluateValueStatus = (marker: HealthMarker | null | undefined, value?: number | null): HealthValueStatus => {
+export interface ConvertedValue {
+  value: number | null;
+  unit: string | null;
+  converted: boolean;
+}
+
+// Converts a lab value into the marker's canonical unit. Unknown units are passed through unchanged.
+export const convertToCanonicalUnit = (
+  marker: HealthMarker | null | undefined,
+  value?: number | null,
+  unit?: string | null
+): ConvertedValue => {
+  const passthrough = { value: value ?? null, unit: unit || marker?.unit || null, converted: false };
+  if (value === null || value === undefined || Number.isNaN(value)) return passthrough;
+  if (!marker?.unit || !unit) return passthrough;
+
+  const unitKey = normalizeUnitKey(unit);
+  if (unitKey === normalizeUnitKey(marker.unit)) return passthrough;
+
+  const conversion = (markerUnitConversions[marker.code] || []).find(candidate =>
+    candidate.units.some(candidateUnit => normalizeUnitKey(candidateUnit) === unitKey)
+  );
+  if (!conversion) return passthrough;
+
+  const canonical = value * conversion.factor + (conversion.offset ?? 0);
+  return {
+    value: Number(canonical.toFixed(canonical >= 100 ? 1 : 3)),
+    unit: marker.unit,
+    converted: true,
+  };
+};
+
+export const calculateAgeYears = (dateOfBirth?: string | null, onDate?: string | null) => {
+  if (!dateOfBirth) return null;
+  const birth = new Date(dateOfBirth);
+  const reference = onDate ? new Date(onDate) : new Date();
+  if (Number.isNaN(birth.getTime()) || Number.isNaN(reference.getTime())) return null;
+  const years = (reference.getTime() - birth.getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+  return years >= 0 ? years : null;
+};
+
+const bandMatches = (band: MarkerRangeBand, sex: HealthDemographics['sex'], age: number | null) => {
+  if (band.sex && band.sex !== sex) return false;
+  if (band.ageMin !== null && band.ageMin !== undefined && (age === null || age < band.ageMin)) return false;
+  if (band.ageMax !== null && band.ageMax !== undefined && (age === null || age >= band.ageMax)) return false;
+  return true;
+};
+
+const bandSpecificity = (band: MarkerRangeBand) =>
+  (band.sex ? 2 : 0) + (band.ageMin !== null && band.ageMin !== undefined ? 1 : 0) + (band.ageMax !== null && band.ageMax !== undefined ? 1 : 0);
+
+// Returns the marker with optimal/lab limits taken from the band that best fits the person at the given date.
+export const resolveMarkerRange = <T extends HealthMarker | null | undefined>(
+  marker: T,
+  demographics?: HealthDemographics | null,
+  onDate?: string | null
+): T => {
+  if (!marker?.ranges?.length || !demographics) return marker;
+  const age = calculateAgeYears(demographics.dateOfBirth, onDate);
+  const band = marker.ranges
+    .filter(candidate => bandMatches(candidate, demographics.sex, age))
+    .sort((a, b) => bandSpecificity(b) - bandSpecificity(a))[0];
+  if (!band) return marker;
+
+  return {
+    ...marker,
+    optimalMin: band.optimalMin ?? marker.optimalMin,
+    optimalMax: band.optimalMax ?? marker.optimalMax,
+    labMin: band.labMin ?? marker.labMin,
+    labMax: band.labMax ?? marker.labMax,
+  };
+};
+
+export const evaluateValueStatus = (
+  baseMarker: HealthMarker | null | undefined,
+  value?: number | null,
+  demographics?: HealthDemographics | null,
+  onDate?: string | null
+): HealthValueStatus => {
   if (value === null || value === undefined || Number.isNaN(value)) return 'UNKNOWN';
-  if (!marker) return 'NORMAL';
+  if (!baseMarker) return 'NORMAL';
+  const marker = resolveMarkerRange(baseMarker, demographics, onDate);
 
   const optimalMin = marker.optimalMin ?? marker.labMin ?? null;
   const optimalMax = marker.optimalMax ?? marker.labMax ?? null;
@@ -22,9 +127,15 @@ export const evaluateValueStatus = (marker: HealthMarker | null | undefined, val
   return 'NORMAL';
 };
 
-export const isFlaggedValue = (marker: HealthMarker | null | undefined, value?: number | null) => {
+export const isFlaggedValue = (
+  baseMarker: HealthMarker | null | undefined,
+  value?: number | null,
+  demographics?: HealthDemographics | null,
+  onDate?: string | null
+) => {
   if (value === null || value === undefined || Number.isNaN(value)) return false;
-  if (!marker) return false;
+  if (!baseMarker) return false;
+  const marker = resolveMarkerRange(baseMarker, demographics, onDate);
   const min = marker.optimalMin ?? marker.labMin;
   const max = marker.optimalMax ?? marker.labMax;
   if (min !== null && min !== undefined && value < min) return true;
@@ -45,13 +156,200 @@ export const calculateWaistHipRatio = (waistCm?: number | null, hipCm?: number |
   return Number((waistCm / hipCm).toFixed(3));
 };
 
+// ACC/AHA 2017: the higher of the two categories wins
+export const classifyBloodPressure = (systolic: number, diastolic: number): BloodPressureCategory => {
+  if (systolic > 180 || diastolic > 120) return 'CRISIS';
+  if (systolic >= 140 || diastolic >= 90) return 'STAGE_2';
+  if (systolic >= 130 || diastolic >= 80) return 'STAGE_1';
+  if (systolic >= 120) return 'ELEVATED';
+  return 'NORMAL';
+};
+
+const bloodPressureStatus: Record<BloodPressureCategory, 'OPTIMAL' | 'ATTENTION' | 'CONCERN'> = {
+  NORMAL: 'OPTIMAL',
+  ELEVATED: 'ATTENTION',
+  STAGE_1: 'ATTENTION',
+  STAGE_2: 'CONCERN',
+  CRISIS: 'CONCERN',
+};
+
+const bloodPressureAdvice: Record<BloodPressureCategory, string> = {
+  NORMAL: 'Within the normal range. Recheck at least once a year.',
+  ELEVATED: 'Elevated. Lifestyle changes (less salt, more activity, limiting alcohol) help; recheck in 3-6 months.',
+  STAGE_1: 'Stage 1 hypertension. Discuss with a doctor, especially with diabetes, kidney disease or high cardiovascular risk.',
+  STAGE_2: 'Stage 2 hypertension. See a doctor within a month; medication is usually recommended alongside lifestyle changes.',
+  CRISIS: 'Hypertensive crisis range. Wait a few minutes and measure again; if still this high, or with chest pain, breathlessness or vision changes, seek emergency care.',
+};
+
+// Adult cut-offs don't apply to children, and older adults carry extra caveats
+export const bloodPressureGuidance = (
+  category: BloodPressureCategory,
+  day: Pick<BloodPressureDay, 'systolic' | 'diastolic'>,
+  ageYears: number | null
+) => {
+  if (ageYears !== null && ageYears < 13) {
+    return ['Adult categories do not apply under 13; children are assessed against height- and age-based percentiles by their pediatrician.'];
+  }
+  const guidance = [bloodPressureAdvice[category]];
+  if (day.systolic < 90 || day.diastolic < 60) {
+    guidance.push('Below 90/60 is low; mention it if it comes with dizziness or fainting.');
+  }
+  if (ageYears !== null && ageYears < 18) {
+    guidance.push('Teens 13-17 use the adult categories, but confirm high readings on separate visits before drawing conclusions.');
+  }
+  if (ageYears !== null && ageYears >= 65) {
+    guidance.push('Over 65 the usual target is still below 130/80, but stand up slowly and report dizziness, which can mean pressure drops on standing.');
+  }
+  return guidance;
+};
+
+// Multiple readings on one date are averaged; days come back newest first
+export const averageDailyBloodPressure = (physicals: HealthPhysical[]): BloodPressureDay[] => {
+  const byDate = new Map<string, { systolic: number[]; diastolic: number[] }>();
+  physicals.forEach(physical => {
+    if (!physical.bpSystolic || !physical.bpDiastolic) return;
+    const entry = byDate.get(physical.measurementDate) || { systolic: [], diastolic: [] };
+    entry.systolic.push(physical.bpSystolic);
+    entry.diastolic.push(physical.bpDiastolic);
+    byDate.set(physical.measurementDate, entry);
+  });
+
+  return Array.from(byDate.entries())
+    .map(([date, entry]) => {
+      const systolic = Math.round(entry.systolic.reduce((sum, value) => sum + value, 0) / entry.systolic.length);
+      const diastolic = Math.round(entry.diastolic.reduce((sum, value) => sum + value, 0) / entry.diastolic.length);
+      return { date, systolic, diastolic, readings: entry.systolic.length, category: classifyBloodPressure(systolic, diastolic) };
+    })
+    .sort((a, b) => b.date.localeCompare(a.date));
+};
+
+// Status follows the 7-day average before the latest reading so one high day doesn't flip it, except in crisis
+export const buildBloodPressureSummary = (physicals: HealthPhysical[], demographics?: HealthDemographics | null): BloodPressureSummary => {
+  const days = averageDailyBloodPressure(physicals);
+  const latest = days[0];
+  if (!latest) return { days, average7d: null, status: 'OPTIMAL', guidance: [] };
+
+  const windowStart = new Date(new Date(latest.date).getTime() - 6 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const recent = days.filter(day => day.date >= windowStart);
+  const average7d = {
+    systolic: Math.round(recent.reduce((sum, day) => sum + day.systolic, 0) / recent.length),
+    diastolic: Math.round(recent.reduce((sum, day) => sum + day.diastolic, 0) / recent.length),
+  };
+  const category = latest.category === 'CRISIS' ? 'CRISIS' : classifyBloodPressure(average7d.systolic, average7d.diastolic);
+  const ageYears = calculateAgeYears(demographics?.dateOfBirth, latest.date);
+  const isChild = ageYears !== null && ageYears < 13;
+
+  return {
+    days,
+    latest,
+    average7d,
+    category: isChild ? undefined : category,
+    status: isChild ? 'OPTIMAL' : bloodPressureStatus[category],
+    guidance: bloodPressureGuidance(category, average7d, ageYears),
+  };
+};
+
+export const calculateAgeMonths = (dateOfBirth?: string | null, onDate?: string | null) => {
+  const years = calculateAgeYears(dateOfBirth, onDate);
+  return years === null ? null : years * 12;
+};
+
+// L, M and S linearly interpolated between the bundled reference ages
+export const lmsAtAge = (table: LmsPoint[], ageMonths: number): LmsPoint | null => {
+  if (table.length === 0 || ageMonths < table[0].ageMonths || ageMonths > table[table.length - 1].ageMonths) return null;
+  const upperIndex = table.findIndex(point => point.ageMonths >= ageMonths);
+  const upper = table[upperIndex];
+  if (upper.ageMonths === ageMonths || upperIndex === 0) return { ...upper, ageMonths };
+  const lower = table[upperIndex - 1];
+  const t = (ageMonths - lower.ageMonths) / (upper.ageMonths - lower.ageMonths);
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+  return { ageMonths, l: lerp(lower.l, upper.l), m: lerp(lower.m, upper.m), s: lerp(lower.s, upper.s) };
+};
+
+export const lmsZScore = (value: number, { l, m, s }: LmsPoint) =>
+  Math.abs(l) < 1e-6 ? Math.log(value / m) / s : (Math.pow(value / m, l) - 1) / (l * s);
+
+export const lmsValueAtZ = (z: number, { l, m, s }: LmsPoint) =>
+  Math.abs(l) < 1e-6 ? m * Math.exp(s * z) : m * Math.pow(1 + l * s * z, 1 / l);
+
+// Standard normal CDF (Abramowitz-Stegun 26.2.17), as a 0-100 percentile
+export const zScoreToPercentile = (z: number) => {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const density = Math.exp(-(z * z) / 2) / Math.sqrt(2 * Math.PI);
+  const tail = density * t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return (z >= 0 ? 1 - tail : tail) * 100;
+};
+
+// Inverse of zScoreToPercentile by bisection; only used to draw percentile lines
+export const percentileToZScore = (percentile: number) => {
+  let low = -5;
+  let high = 5;
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2;
+    if (zScoreToPercentile(mid) < percentile) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+};
+
+const growthValue = (physical: HealthPhysical, metric: GrowthMetric) => {
+  switch (metric) {
+    case 'WEIGHT':
+      return physical.weightKg;
+    case 'HEIGHT':
+      return physical.heightCm;
+    case 'HEAD':
+      return physical.headCircumferenceCm;
+    case 'BMI':
+      return physical.bmi ?? calculateBMI(physical.weightKg, physical.heightCm);
+  }
+};
+
+// Adult BMI cut-offs don't apply under 20; children are scored against age/sex reference curves instead
+export const buildGrowthAssessments = (physicals: HealthPhysical[], demographics?: HealthDemographics | null): GrowthAssessment[] => {
+  const sex = demographics?.sex;
+  if (!demographics?.dateOfBirth || (sex !== 'male' && sex !== 'female')) return [];
+  const currentAge = calculateAgeMonths(demographics.dateOfBirth);
+  if (currentAge === null || currentAge > GROWTH_MAX_AGE_MONTHS) return [];
+
+  return (Object.keys(growthStandards) as GrowthMetric[])
+    .map(metric => {
+      const table = growthStandards[metric][sex];
+      const points: GrowthPoint[] = physicals
+        .map(physical => {
+          const value = growthValue(physical, metric);
+          const ageMonths = calculateAgeMonths(demographics.dateOfBirth, physical.measurementDate);
+          const lms = value && ageMonths !== null ? lmsAtAge(table, ageMonths) : null;
+          if (!value || ageMonths === null || !lms) return null;
+          const zScore = lmsZScore(value, lms);
+          return {
+            date: physical.measurementDate,
+            ageMonths,
+            value,
+            zScore: Number(zScore.toFixed(2)),
+            percentile: Number(zScoreToPercentile(zScore).toFixed(1)),
+          };
+        })
+        .filter((point): point is GrowthPoint => Boolean(point))
+        .sort((a, b) => a.ageMonths - b.ageMonths);
+      return { metric, points, latest: points[points.length - 1] };
+    })
+    .filter(assessment => assessment.points.length > 0);
+};
+
+// Person context some formulas need (eGFR uses sex and age at the test date)
+export interface DerivationContext {
+  sex?: HealthDemographics['sex'];
+  ageYears?: number | null;
+}
+
 export interface RatioDefinition {
   ratioCode: string;
   name: string;
   formula: string;
   optimalMin?: number;
   optimalMax?: number;
-  compute: (values: Record<string, number>) => number | null;
+  compute: (values: Record<string, number>, context: DerivationContext) => number | null;
 }
 
 export const ratioDefinitions: RatioDefinition[] = [
@@ -129,19 +427,224 @@ export const ratioDefinitions: RatioDefinition[] = [
       return Number((bun / creatinine).toFixed(2));
     }
   },
+  {
+    ratioCode: 'AG_RATIO',
+    name: 'A/G Ratio',
+    formula: 'Albumin / Globulin',
+    optimalMin: 1.2,
+    optimalMax: 2.2,
+    compute: (values) => {
+      const albumin = values.ALBUMIN;
+      const globulin = values.GLOBULIN;
+      if (!albumin || !globulin) return null;
+      return Number((albumin / globulin).toFixed(2));
+    }
+  },
+  {
+    ratioCode: 'NLR',
+    name: 'NLR',
+    formula: 'Neutrophils / Lymphocytes',
+    optimalMin: 1,
+    optimalMax: 3,
+    compute: (values) => {
+      // Absolute counts and differential percentages give the same ratio; use whichever pair is complete
+      const hasAbsolute = Boolean(values.NEUTROPHILS_ABS && values.LYMPHOCYTES_ABS);
+      const neutrophils = hasAbsolute ? values.NEUTROPHILS_ABS : values.NEUTROPHILS_PCT;
+      const lymphocytes = hasAbsolute ? values.LYMPHOCYTES_ABS : values.LYMPHOCYTES_PCT;
+      if (!neutrophils || !lymphocytes) return null;
+      return Number((neutrophils / lymphocytes).toFixed(2));
+    }
+  },
+  {
+    ratioCode: 'TYG_INDEX',
+    name: 'TyG Index',
+    formula: 'ln(Triglycerides × Glucose / 2)',
+    optimalMax: 8.5,
+    compute: (values) => {
+      const tg = values.TRIGLYCERIDES;
+      const glucose = values.GLUCOSE_FASTING;
+      if (!tg || !glucose) return null;
+      return Number(Math.log((tg * glucose) / 2).toFixed(2));
+    }
+  },
+  {
+    ratioCode: 'REMNANT_CHOL',
+    name: 'Remnant Cholesterol',
+    formula: 'Total Cholesterol − HDL − LDL',
+    optimalMax: 20,
+    compute: (values) => {
+      const tc = values.CHOL_TOTAL;
+      const hdl = values.HDL;
+      const ldl = values.LDL;
+      if (!tc || !hdl || !ldl) return null;
+      const remnant = tc - hdl - ldl;
+      return remnant >= 0 ? Number(remnant.toFixed(1)) : null;
+    }
+  },
+];
+
+// Martin-Hopkins TG:VLDL-C factors (Martin et al., JAMA 2013).
+// Rows are triglyceride strata (upper bound, mg/dL); columns are non-HDL-C strata <100, 100-129, 130-159, 160-189, 190-219, ≥220.
+const MARTIN_HOPKINS_FACTORS: [number, number[]][] = [
+  [49, [3.5, 3.4, 3.3, 3.3, 3.2, 3.1]],
+  [56, [4.0, 3.9, 3.7, 3.6, 3.6, 3.4]],
+  [61, [4.3, 4.1, 4.0, 3.9, 3.8, 3.6]],
+  [66, [4.5, 4.3, 4.1, 4.0, 3.9, 3.9]],
+  [71, [4.7, 4.4, 4.3, 4.2, 4.1, 3.9]],
+  [75, [4.8, 4.6, 4.4, 4.2, 4.2, 4.1]],
+  [79, [4.9, 4.6, 4.5, 4.3, 4.3, 4.2]],
+  [83, [5.0, 4.8, 4.6, 4.4, 4.3, 4.2]],
+  [87, [5.1, 4.8, 4.6, 4.5, 4.4, 4.3]],
+  [92, [5.2, 4.9, 4.7, 4.6, 4.4, 4.3]],
+  [96, [5.3, 5.0, 4.8, 4.7, 4.5, 4.4]],
+  [100, [5.4, 5.1, 4.8, 4.7, 4.5, 4.3]],
+  [105, [5.5, 5.2, 5.0, 4.7, 4.6, 4.5]],
+  [110, [5.6, 5.3, 5.0, 4.8, 4.6, 4.5]],
+  [115, [5.7, 5.4, 5.1, 4.9, 4.7, 4.5]],
+  [120, [5.8, 5.5, 5.2, 5.0, 4.8, 4.6]],
+  [126, [6.0, 5.5, 5.3, 5.0, 4.8, 4.6]],
+  [132, [6.1, 5.7, 5.3, 5.1, 4.9, 4.7]],
+  [138, [6.2, 5.8, 5.4, 5.2, 5.0, 4.7]],
+  [146, [6.3, 5.9, 5.6, 5.3, 5.0, 4.8]],
+  [154, [6.5, 6.0, 5.7, 5.4, 5.1, 4.8]],
+  [163, [6.7, 6.2, 5.8, 5.4, 5.2, 4.9]],
+  [173, [6.8, 6.3, 5.9, 5.5, 5.3, 5.0]],
+  [185, [7.0, 6.5, 6.0, 5.7, 5.4, 5.1]],
+  [201, [7.3, 6.7, 6.2, 5.8, 5.5, 5.2]],
+  [220, [7.6, 6.9, 6.4, 6.0, 5.6, 5.3]],
+  [247, [8.0, 7.2, 6.6, 6.2, 5.9, 5.4]],
+  [292, [8.5, 7.6, 7.0, 6.5, 6.1, 5.6]],
+  [399, [9.5, 8.3, 7.5, 7.0, 6.5, 5.9]],
+];
+
+export const calculateFriedewaldLdl = (totalCholesterol: number, hdl: number, triglycerides: number) => {
+  if (triglycerides >= 400) return null;
+  return Number((totalCholesterol - hdl - triglycerides / 5).toFixed(1));
+};
+
+export const calculateMartinHopkinsLdl = (totalCholesterol: number, hdl: number, triglycerides: number) => {
+  const row = MARTIN_HOPKINS_FACTORS.find(([maxTg]) => triglycerides <= maxTg);
+  if (!row) return null;
+  const nonHdl = totalCholesterol - hdl;
+  const column = nonHdl < 100 ? 0 : Math.min(5, Math.floor((nonHdl - 100) / 30) + 1);
+  return Number((nonHdl - triglycerides / row[1][column]).toFixed(1));
+};
+
+// CKD-EPI 2021 race-free creatinine equation; adults only
+export const calculateEgfrCkdEpi2021 = (creatinine: number, ageYears: number, sex: 'male' | 'female') => {
+  if (creatinine <= 0 || ageYears < 18) return null;
+  const kappa = sex === 'female' ? 0.7 : 0.9;
+  const alpha = sex === 'female' ? -0.241 : -0.302;
+  const ratio = creatinine / kappa;
+  const egfr = 142
+    * Math.min(ratio, 1) ** alpha
+    * Math.max(ratio, 1) ** -1.2
+    * 0.9938 ** ageYears
+    * (sex === 'female' ? 1.012 : 1);
+  return Math.round(egfr);
+};
+
+// Markers that can be calculated from other markers when the lab did not report them
+export interface DerivedMarkerDefinition {
+  markerCode: string;
+  formula: string;
+  compute: (values: Record<string, number>, context: DerivationContext) => number | null;
+}
+
+export const derivedMarkerDefinitions: DerivedMarkerDefinition[] = [
+  {
+    markerCode: 'GLOBULIN',
+    formula: 'Total Protein − Albumin',
+    compute: (values) => {
+      const protein = values.TOTAL_PROTEIN;
+      const albumin = values.ALBUMIN;
+      if (!protein || !albumin || protein <= albumin) return null;
+      return Number((protein - albumin).toFixed(2));
+    }
+  },
+  {
+    markerCode: 'BILIRUBIN_INDIRECT',
+    formula: 'Bilirubin Total − Bilirubin Direct',
+    compute: (values) => {
+      const total = values.BILIRUBIN_TOTAL;
+      const direct = values.BILIRUBIN_DIRECT;
+      if (total === undefined || direct === undefined || total < direct) return null;
+      return Number((total - direct).toFixed(2));
+    }
+  },
+  {
+    markerCode: 'LDL',
+    formula: 'Friedewald below TG 150, else Martin-Hopkins: TC − HDL − TG / factor',
+    compute: (values) => {
+      const tc = values.CHOL_TOTAL;
+      const hdl = values.HDL;
+      const tg = values.TRIGLYCERIDES;
+      if (!tc || !hdl || !tg) return null;
+      // The two agree closely at low TG, where Friedewald matches what most labs print; above it
+      // Friedewald underestimates LDL and the Martin-Hopkins adjustable factor is used instead
+      const ldl = tg < 150 ? calculateFriedewaldLdl(tc, hdl, tg) : calculateMartinHopkinsLdl(tc, hdl, tg);
+      return ldl !== null && ldl > 0 ? ldl : null;
+    }
+  },
+  {
+    markerCode: 'EGFR',
+    formula: 'CKD-EPI 2021 (creatinine, age, sex)',
+    compute: (values, context) => {
+      const creatinine = values.CREATININE;
+      if (!creatinine || context.ageYears === null || context.ageYears === undefined) return null;
+      if (context.sex !== 'male' && context.sex !== 'female') return null;
+      return calculateEgfrCkdEpi2021(creatinine, context.ageYears, context.sex);
+    }
+  },
 ];
 
-export const buildRatios = (values: HealthValue[], reportId: string, personId: string, testDate: string): HealthRatio[] => {
+export const derivationContext = (demographics?: HealthDemographics | null, onDate?: string | null): DerivationContext => ({
+  sex: demographics?.sex ?? null,
+  ageYears: calculateAgeYears(demographics?.dateOfBirth, onDate),
+});
+
+const toValueMap = (values: HealthValue[]) => {
   const valueMap: Record<string, number> = {};
   values.forEach(value => {
     if (value.markerCode && value.value !== null && value.value !== undefined) {
       valueMap[value.markerCode] = value.value;
     }
   });
+  return valueMap;
+};
+
+// Only fills in markers missing from the report; measured values always win
+export const deriveMarkerValues = (values: HealthValue[], demographics?: HealthDemographics | null, testDate?: string | null) => {
+  const valueMap = toValueMap(values);
+  const context = derivationContext(demographics, testDate);
+  return derivedMarkerDefinitions
+    .filter(def => valueMap[def.markerCode] === undefined)
+    .map(def => {
+      const value = def.compute(valueMap, context);
+      if (value === null || !Number.isFinite(value)) return null;
+      // Later definitions can build on values derived before them
+      valueMap[def.markerCode] = value;
+      return { markerCode: def.markerCode, value, formula: def.formula };
+    })
+    .filter((item): item is { markerCode: string; value: number; formula: string } => Boolean(item));
+};
+
+export const buildRatios = (
+  values: HealthValue[],
+  reportId: string,
+  personId: string,
+  testDate: string,
+  demographics?: HealthDemographics | null
+): HealthRatio[] => {
+  const valueMap = toValueMap(values);
+  deriveMarkerValues(values, demographics, testDate).forEach(item => {
+    valueMap[item.markerCode] = item.value;
+  });
+  const context = derivationContext(demographics, testDate);
 
   return ratioDefinitions
     .map(def => {
-      const computed = def.compute(valueMap);
+      const computed = def.compute(valueMap, context);
       if (computed === null) return null;
       const isOptimal =
         (def.optimalMin === undefined || computed >= def.optimalMin) &&
@@ -162,7 +665,59 @@ export const buildRatios = (values: HealthValue[], reportId: string, personId: s
     .filter((ratio): ratio is HealthRatio => Boolean(ratio));
 };
 
-export const buildTrends = (values: HealthValue[]): MarkerTrend[] => {
+// Changes smaller than this fraction of the optimal range width (or of the value itself) count as STABLE
+const TREND_TOLERANCE = 0.02;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Lower score is better: distance outside the optimal range, or the raw value for one-sided markers.
+const trendScore = (value: number, direction: MarkerDirection, range?: { min: number; max: number }) => {
+  if (direction === 'LOWER') return value;
+  if (direction === 'HIGHER') return -value;
+  if (!range) return null;
+  if (value < range.min) return range.min - value;
+  if (value > range.max) return value - range.max;
+  return 0;
+};
+
+// Least-squares change in score across the whole series (slope × elapsed time)
+const regressionDelta = (points: { time: number; score: number }[]) => {
+  const n = points.length;
+  const meanTime = points.reduce((sum, p) => sum + p.time, 0) / n;
+  const meanScore = points.reduce((sum, p) => sum + p.score, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  points.forEach(p => {
+    numerator += (p.time - meanTime) * (p.score - meanScore);
+    denominator += (p.time - meanTime) ** 2;
+  });
+  if (denominator === 0) return 0;
+  return (numerator / denominator) * (points[n - 1].time - points[0].time);
+};
+
+export const computeTrendDirection = (
+  dataPoints: { date: string; value: number }[],
+  direction: MarkerDirection,
+  optimalRange?: { min: number; max: number },
+  method: 'LAST_TWO' | 'REGRESSION' = 'LAST_TWO'
+): MarkerTrend['trend'] => {
+  if (dataPoints.length < 2) return 'STABLE';
+  const scored = dataPoints
+    .map(point => ({ time: new Date(point.date).getTime() / DAY_MS, score: trendScore(point.value, direction, optimalRange) }))
+    .filter((point): point is { time: number; score: number } => point.score !== null && Number.isFinite(point.time));
+  if (scored.length < 2) return 'STABLE';
+
+  const delta = method === 'REGRESSION'
+    ? regressionDelta(scored)
+    : scored[scored.length - 1].score - scored[scored.length - 2].score;
+
+  const latestValue = dataPoints[dataPoints.length - 1].value;
+  const scale = optimalRange ? optimalRange.max - optimalRange.min : Math.abs(latestValue);
+  if (Math.abs(delta) <= (scale || 1) * TREND_TOLERANCE) return 'STABLE';
+  return delta < 0 ? 'IMPROVING' : 'DECLINING';
+};
+
+export const buildTrends = (values: HealthValue[], method: 'LAST_TWO' | 'REGRESSION' = 'LAST_TWO'): MarkerTrend[] => {
   const grouped = new Map<string, HealthValue[]>();
   values.forEach(value => {
     const code = value.markerCode;
@@ -183,22 +738,111 @@ export const buildTrends = (values: HealthValue[]): MarkerTrend[] => {
       value: item.value as number,
     }));
     const latest = dedupedValues[dedupedValues.length - 1] || sorted[sorted.length - 1];
-    const previous = dedupedValues.length > 1 ? dedupedValues[dedupedValues.length - 2] : undefined;
-    let trend: MarkerTrend['trend'] = 'STABLE';
-    if (previous && latest.value !== null && previous.value !== null) {
-      if (latest.value > previous.value) trend = 'IMPROVING';
-      if (latest.value < previous.value) trend = 'DECLINING';
-    }
+    const optimalRange = latest.marker?.optimalMin !== null && latest.marker?.optimalMin !== undefined && latest.marker?.optimalMax !== null && latest.marker?.optimalMax !== undefined
+      ? { min: latest.marker!.optimalMin as number, max: latest.marker!.optimalMax as number }
+      : undefined;
+    const trend = computeTrendDirection(dataPoints, latest.marker?.goodDirection || 'IN_RANGE', optimalRange, method);
 
     return {
       markerCode: code,
       markerName: latest.marker?.name || latest.markerName || code,
       unit: latest.marker?.unit || latest.unit,
       dataPoints,
-      optimalRange: latest.marker?.optimalMin !== null && latest.marker?.optimalMin !== undefined && latest.marker?.optimalMax !== null && latest.marker?.optimalMax !== undefined
-        ? { min: latest.marker!.optimalMin as number, max: latest.marker!.optimalMax as number }
-        : undefined,
+      optimalRange,
       trend,
     };
   });
 };
+
+const systemIcons: Record<HealthSystem, string> = {
+  METABOLIC: 'local_fire_department',
+  LIPIDS: 'favorite',
+  LIVER: 'bloodtype',
+  KIDNEY: 'water_drop',
+  BLOOD: 'opacity',
+  INFLAMMATION: 'flare',
+  THYROID: 'settings_heart',
+  VITAMINS: 'emoji_food_beverage',
+  ELECTROLYTES: 'bolt',
+  HORMONES: 'science',
+  BONE: 'fitness_center',
+  IMMUNE: 'shield',
+  URINE: 'labs',
+  OTHER: 'category',
+};
+
+export const buildSystemSummaries = (values: HealthValue[], markersByCode: Map<string, HealthMarker>): SystemSummary[] => {
+  const grouped = new Map<HealthSystem, HealthValue[]>();
+  values.forEach(value => {
+    const marker = value.markerCode ? markersByCode.get(value.markerCode) : undefined;
+    if (!marker) return;
+    const list = grouped.get(marker.system) || [];
+    list.push(value);
+    grouped.set(marker.system, list);
+  });
+
+  return Array.from(grouped.entries()).map(([system, items]) => {
+    const optimalCount = items.filter(i => i.status === 'OPTIMAL').length;
+    const flaggedCount = items.filter(i => i.status === 'LOW' || i.status === 'HIGH').length;
+    let status: SystemSummary['status'] = 'OPTIMAL';
+    if (flaggedCount > 2) status = 'CONCERN';
+    if (flaggedCount > 0 && flaggedCount <= 2) status = 'ATTENTION';
+
+    return {
+      system,
+      displayName: systemLabel(system),
+      icon: systemIcons[system],
+      markerCount: items.length,
+      optimalCount,
+      flaggedCount,
+      status,
+      markers: items,
+    };
+  });
+};
+
+export const convertVitalValue = (kind: VitalKind, value: number, unit?: string | null) => {
+  const definition = getVitalKind(kind);
+  if (!unit || normalizeUnitKey(unit) === normalizeUnitKey(definition.unit)) {
+    return { value, unit: definition.unit };
+  }
+  const conversion = definition.conversions.find(candidate =>
+    candidate.units.some(candidateUnit => normalizeUnitKey(candidateUnit) === normalizeUnitKey(unit))
+  );
+  if (!conversion) return { value, unit };
+  const canonical = value * conversion.factor + (conversion.offset ?? 0);
+  return { value: Number(canonical.toFixed(Math.max(definition.decimals, 1))), unit: definition.unit };
+};
+
+export const vitalTarget = (kind: VitalKind, context?: VitalContext | null): VitalTarget => {
+  const definition = getVitalKind(kind);
+  return (context && definition.contextTargets?.[context]) || definition.target;
+};
+
+export const isVitalInRange = (vital: HealthVital) => {
+  const target = vitalTarget(vital.kind, vital.context);
+  return (target.min === undefined || vital.value >= target.min) && (target.max === undefined || vital.value <= target.max);
+};
+
+const averageOf = (items: HealthVital[], decimals: number) =>
+  items.length > 0 ? Number((items.reduce((sum, item) => sum + item.value, 0) / items.length).toFixed(decimals)) : null;
+
+export const buildVitalStats = (vitals: HealthVital[], kind: VitalKind, now: Date = new Date()): VitalStats => {
+  const definition = getVitalKind(kind);
+  const readings = vitals
+    .filter(vital => vital.kind === kind)
+    .sort((a, b) => new Date(b.measuredAt).getTime() - new Date(a.measuredAt).getTime());
+  const since = (days: number) => readings.filter(vital => now.getTime() - new Date(vital.measuredAt).getTime() <= days * DAY_MS);
+  const last7 = since(7);
+  const last30 = since(30);
+  const decimals = Math.max(definition.decimals, 1);
+
+  return {
+    kind,
+    latest: readings[0],
+    average7d: averageOf(last7, decimals),
+    average30d: averageOf(last30, decimals),
+    count30d: last30.length,
+    timeInRange: last30.length > 0 ? Math.round((last30.filter(isVitalInRange).length / last30.length) * 100) : null,
+  };
+};
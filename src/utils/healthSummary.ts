@@ -0,0 +1,322 @@
+import {
+  HealthMarker,
+  HealthPhysical,
+  HealthRatio,
+  HealthReport,
+  HealthValue,
+  MarkerTrend,
+  Medication,
+  PersonCondition,
+  SystemSummary,
+} from '../types/health';
+import { conditionStatuses } from '../data/medicalInfo';
+import { medicationFrequencies } from '../data/medicationSchedules';
+import { buildSystemSummaries, buildTrends, calculateAgeYears } from './healthCalculations';
+import { toLocalDateString } from './medications';
+import { escapeHtml } from './printDocument';
+
+const KEY_TREND_LIMIT = 12;
+const PHYSICALS_LIMIT = 10;
+
+export interface HealthSummaryRange {
+  from: string;
+  to: string;
+}
+
+export interface HealthSummary {
+  personName: string;
+  dateOfBirth?: string | null;
+  range: HealthSummaryRange;
+  reportCount: number;
+  systems: SystemSummary[];
+  flagged: HealthValue[];
+  trends: MarkerTrend[];
+  ratios: HealthRatio[];
+  physicals: HealthPhysical[];
+  medications: Medication[];
+  conditions: PersonCondition[];
+  generatedOn: string;
+}
+
+const inRange = (date: string | null | undefined, range: HealthSummaryRange) =>
+  Boolean(date) && (date as string) >= range.from && (date as string) <= range.to;
+
+const isOutOfRange = (value: HealthValue) => value.status === 'LOW' || value.status === 'HIGH';
+
+// Newest value per marker across all reports, so a marker missing from the last panel still shows
+const latestPerMarker = (reports: HealthReport[]) => {
+  const latest = new Map<string, HealthValue>();
+  reports.forEach(report => report.values.forEach(value => {
+    if (!value.markerCode) return;
+    const current = latest.get(value.markerCode);
+    if (!current || value.testDate > current.testDate) latest.set(value.markerCode, value);
+  }));
+  return Array.from(latest.values());
+};
+
+// Worsening and out-of-range markers lead, then whatever has the most readings
+const keyTrendRank = (trend: MarkerTrend, flaggedCodes: Set<string>) =>
+  (flaggedCodes.has(trend.markerCode) ? 0 : 2) + (trend.trend === 'DECLINING' ? 0 : 1);
+
+export const buildHealthSummary = ({
+  personName,
+  dateOfBirth,
+  range,
+  reports,
+  physicals,
+  markers,
+  medications,
+  conditions,
+}: {
+  personName: string;
+  dateOfBirth?: string | null;
+  range: HealthSummaryRange;
+  reports: HealthReport[];
+  physicals: HealthPhysical[];
+  markers: HealthMarker[];
+  medications: Medication[];
+  conditions: PersonCondition[];
+}): HealthSummary => {
+  const markersByCode = new Map(markers.map(marker => [marker.code, marker]));
+  const reportsInRange = reports.filter(report => inRange(report.testDate, range));
+  const latestValues = latestPerMarker(reportsInRange);
+  const flagged = latestValues
+    .filter(isOutOfRange)
+    .sort((a, b) => (a.marker?.name || a.markerName || '').localeCompare(b.marker?.name || b.markerName || ''));
+  const flaggedCodes = new Set(flagged.map(value => value.markerCode as string));
+
+  const trends = buildTrends(reportsInRange.flatMap(report => report.values))
+    .filter(trend => trend.dataPoints.length >= 2)
+    .sort((a, b) => keyTrendRank(a, flaggedCodes) - keyTrendRank(b, flaggedCodes) || b.dataPoints.length - a.dataPoints.length)
+    .slice(0, KEY_TREND_LIMIT);
+
+  const latestRatios = new Map<string, HealthRatio>();
+  reportsInRange.forEach(report => report.ratios.forEach(ratio => {
+    const current = latestRatios.get(ratio.ratioCode);
+    if (!current || ratio.testDate > current.testDate) latestRatios.set(ratio.ratioCode, ratio);
+  }));
+
+  return {
+    personName,
+    dateOfBirth,
+    range,
+    reportCount: reportsInRange.length,
+    systems: buildSystemSummaries(latestValues, markersByCode)
+      .sort((a, b) => b.flaggedCount - a.flaggedCount || a.displayName.localeCompare(b.displayName)),
+    flagged,
+    trends,
+    ratios: Array.from(latestRatios.values()).sort((a, b) => a.name.localeCompare(b.name)),
+    physicals: physicals
+      .filter(physical => inRange(physical.measurementDate, range))
+      .sort((a, b) => b.measurementDate.localeCompare(a.measurementDate))
+      .slice(0, PHYSICALS_LIMIT),
+    // Anything taken at some point during the range, not just on its last day
+    medications: medications
+      .filter(medication => (!medication.startDate || medication.startDate <= range.to) && (!medication.endDate || medication.endDate >= range.from))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    conditions: conditions.filter(condition => condition.status !== 'RESOLVED'),
+    generatedOn: toLocalDateString(new Date()),
+  };
+};
+
+const SPARKLINE_WIDTH = 120;
+const SPARKLINE_HEIGHT = 28;
+
+// Inline SVG so the sparkline prints without scripts or images; the shaded band is the optimal range
+export const sparklineSvg = (points: MarkerTrend['dataPoints'], optimalRange?: MarkerTrend['optimalRange']) => {
+  if (points.length === 0) return '';
+  const values = points.map(point => point.value);
+  if (optimalRange) values.push(optimalRange.min, optimalRange.max);
+  const min = Math.min(...values);
+  const span = Math.max(...values) - min || 1;
+  const pad = 3;
+  const x = (index: number) => pad + (points.length === 1 ? 0 : (index / (points.length - 1)) * (SPARKLINE_WIDTH - pad * 2));
+  const y = (value: number) => SPARKLINE_HEIGHT - pad - ((value - min) / span) * (SPARKLINE_HEIGHT - pad * 2);
+  const band = optimalRange
+    ? `<rect x="0" y="${y(optimalRange.max).toFixed(1)}" width="${SPARKLINE_WIDTH}" height="${Math.max(1, y(optimalRange.min) - y(optimalRange.max)).toFixed(1)}" fill="#d1fae5" />`
+    : '';
+  const path = points.map((point, index) => `${x(index).toFixed(1)},${y(point.value).toFixed(1)}`).join(' ');
+  const last = points[points.length - 1];
+  return `<svg width="${SPARKLINE_WIDTH}" height="${SPARKLINE_HEIGHT}" viewBox="0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}">${band}`
+    + `<polyline points="${path}" fill="none" stroke="#44403c" stroke-width="1.5" />`
+    + `<circle cx="${x(points.length - 1).toFixed(1)}" cy="${y(last.value).toFixed(1)}" r="2.5" fill="#0f766e" /></svg>`;
+};
+
+const formatNumber = (value: number | null | undefined, decimals = 1) =>
+  value === null || value === undefined ? '—' : String(Number(value.toFixed(decimals)));
+
+const describeValue = (value: HealthValue) =>
+  value.value === null || value.value === undefined
+    ? value.valueText || '—'
+    : [formatNumber(value.value, 2), value.marker?.unit || value.unit].filter(Boolean).join(' ');
+
+const describeOptimal = (marker?: HealthMarker | null) => {
+  if (!marker) return '';
+  const { optimalMin: min, optimalMax: max } = marker;
+  if (min !== null && min !== undefined && max !== null && max !== undefined) return `${min}–${max}`;
+  if (min !== null && min !== undefined) return `≥ ${min}`;
+  if (max !== null && max !== undefined) return `≤ ${max}`;
+  return '';
+};
+
+const statusLabels: Record<HealthValue['status'], string> = {
+  OPTIMAL: 'Optimal',
+  NORMAL: 'Normal',
+  LOW: 'Low',
+  HIGH: 'High',
+  UNKNOWN: '',
+};
+
+const trendLabels: Record<MarkerTrend['trend'], string> = {
+  IMPROVING: 'Improving',
+  STABLE: 'Stable',
+  DECLINING: 'Worsening',
+};
+
+const systemStatusLabels: Record<SystemSummary['status'], string> = {
+  OPTIMAL: 'On track',
+  ATTENTION: 'Attention',
+  CONCERN: 'Concern',
+};
+
+const table = (headers: string[], rows: string[][]) => `
+  <table>
+    <thead><tr>${headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>
+    <tbody>${rows.map(cells => `<tr>${cells.join('')}</tr>`).join('')}</tbody>
+  </table>`;
+
+const cell = (text: string, className = '') => `<td class="${className}">${escapeHtml(text)}</td>`;
+
+const section = (title: string, content: string) =>
+  `<section><h2>${escapeHtml(title)}</h2>${content}</section>`;
+
+const SUMMARY_STYLES = `
+  header { border-bottom: 2px solid #1c1917; padding-bottom: 8px; margin-bottom: 12px; }
+  header h1 { margin: 0; font-size: 22px; }
+  header p { margin: 2px 0 0; font-size: 12px; color: #57534e; }
+  h2 { font-size: 13px; letter-spacing: 0.08em; text-transform: uppercase; color: #57534e; margin: 18px 0 6px; border-bottom: 1px solid #e7e5e4; padding-bottom: 3px; }
+  h3 { font-size: 13px; margin: 10px 0 4px; }
+  h3 span { font-weight: 400; color: #78716c; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th { text-align: left; font-size: 10px; letter-spacing: 0.06em; text-transform: uppercase; color: #78716c; border-bottom: 1px solid #d6d3d1; padding: 3px 6px; }
+  td { border-bottom: 1px solid #f5f5f4; padding: 3px 6px; vertical-align: middle; }
+  td.flag, li.flag { color: #be123c; font-weight: 700; }
+  td.muted, .muted { color: #78716c; }
+  td.spark { width: 130px; padding: 1px 6px; }
+  ul { margin: 0; padding-left: 18px; font-size: 12px; }
+  li { padding: 1px 0; }
+  .empty { font-size: 12px; color: #a8a29e; }
+  .columns { display: grid; grid-template-columns: 1fr 1fr; gap: 0 24px; }
+  footer { margin-top: 18px; font-size: 10px; color: #a8a29e; }
+  thead { display: table-header-group; }
+  tr, li, h3 { break-inside: avoid; }
+  h2, h3 { break-after: avoid; }
+  section.system { break-inside: avoid; }
+  @page { size: A4; margin: 14mm 12mm; @bottom-right { content: "Page " counter(page) " of " counter(pages); font-size: 9px; color: #a8a29e; } }
+`;
+
+export const healthSummaryHtml = (summary: HealthSummary) => {
+  const age = calculateAgeYears(summary.dateOfBirth, summary.range.to);
+  const identity = [
+    summary.dateOfBirth && `Born ${summary.dateOfBirth}`,
+    age !== null && `${Math.floor(age)} yrs`,
+    `${summary.reportCount} lab report${summary.reportCount === 1 ? '' : 's'} from ${summary.range.from} to ${summary.range.to}`,
+  ].filter(Boolean).join(' · ');
+
+  const conditions = summary.conditions.length === 0
+    ? '<p class="empty">None recorded</p>'
+    : `<ul>${summary.conditions.map(condition => `<li>${escapeHtml(condition.name)}${[
+      condition.status !== 'ACTIVE' && conditionStatuses[condition.status],
+      condition.diagnosedOn && `since ${condition.diagnosedOn.slice(0, 7)}`,
+    ].filter(Boolean).map(detail => ` <span class="muted">· ${escapeHtml(detail as string)}</span>`).join('')}</li>`).join('')}</ul>`;
+
+  const medications = summary.medications.length === 0
+    ? '<p class="empty">None recorded</p>'
+    : `<ul>${summary.medications.map(medication => {
+      const detail = [
+        `${medication.doseAmount} ${medication.doseUnit || 'unit'}${medication.doseAmount === 1 ? '' : 's'}`,
+        medicationFrequencies[medication.frequency].label.toLowerCase(),
+        medication.endDate && `until ${medication.endDate}`,
+      ].filter(Boolean).join(' · ');
+      return `<li>${escapeHtml([medication.name, medication.strength].filter(Boolean).join(' '))} <span class="muted">· ${escapeHtml(detail)}</span></li>`;
+    }).join('')}</ul>`;
+
+  const flagged = summary.flagged.length === 0
+    ? '<p class="empty">No markers outside their range in this period.</p>'
+    : table(['Marker', 'Value', 'Status', 'Optimal', 'Date'], summary.flagged.map(value => [
+      cell(value.marker?.name || value.markerName || value.markerCode || ''),
+      cell(describeValue(value), 'flag'),
+      cell(statusLabels[value.status], 'flag'),
+      cell(describeOptimal(value.marker), 'muted'),
+      cell(value.testDate, 'muted'),
+    ]));
+
+  const trends = summary.trends.length === 0
+    ? '<p class="empty">Trends need at least two reports in the range.</p>'
+    : table(['Marker', 'Trend', 'First', 'Latest', 'Readings', ''], summary.trends.map(trend => {
+      const first = trend.dataPoints[0];
+      const last = trend.dataPoints[trend.dataPoints.length - 1];
+      return [
+        cell(trend.markerName),
+        cell(trendLabels[trend.trend], trend.trend === 'DECLINING' ? 'flag' : ''),
+        cell(`${formatNumber(first.value, 2)} (${first.date})`, 'muted'),
+        cell(`${formatNumber(last.value, 2)} ${trend.unit || ''} (${last.date})`),
+        cell(String(trend.dataPoints.length), 'muted'),
+        `<td class="spark">${sparklineSvg(trend.dataPoints, trend.optimalRange)}</td>`,
+      ];
+    }));
+
+  const ratios = summary.ratios.length === 0
+    ? '<p class="empty">No calculated ratios in this period.</p>'
+    : table(['Ratio', 'Value', 'Formula', 'Date'], summary.ratios.map(ratio => [
+      cell(ratio.name),
+      cell(formatNumber(ratio.value, 2), ratio.isOptimal === false ? 'flag' : ''),
+      cell(ratio.formula, 'muted'),
+      cell(ratio.testDate, 'muted'),
+    ]));
+
+  const physicals = summary.physicals.length === 0
+    ? '<p class="empty">No physicals logged in this period.</p>'
+    : table(['Date', 'Weight (kg)', 'Height (cm)', 'BMI', 'Waist/hip', 'BP', 'Resting HR'], summary.physicals.map(physical => [
+      cell(physical.measurementDate),
+      cell(formatNumber(physical.weightKg)),
+      cell(formatNumber(physical.heightCm)),
+      cell(formatNumber(physical.bmi)),
+      cell(formatNumber(physical.waistHipRatio, 2)),
+      cell(physical.bpSystolic && physical.bpDiastolic ? `${physical.bpSystolic}/${physical.bpDiastolic}` : '—'),
+      cell(formatNumber(physical.restingHr, 0)),
+    ]));
+
+  const systems = summary.systems.length === 0
+    ? section('Latest values by system', '<p class="empty">No lab results in this period.</p>')
+    : `<h2>Latest values by system</h2>${summary.systems.map(system => `
+      <section class="system">
+        <h3>${escapeHtml(system.displayName)} <span>· ${escapeHtml(systemStatusLabels[system.status])}, ${system.optimalCount}/${system.markerCount} optimal</span></h3>
+        ${table(['Marker', 'Value', 'Status', 'Optimal', 'Date'], system.markers.map(value => [
+          cell(value.marker?.name || value.markerName || value.markerCode || ''),
+          cell(describeValue(value), isOutOfRange(value) ? 'flag' : ''),
+          cell(statusLabels[value.status], isOutOfRange(value) ? 'flag' : 'muted'),
+          cell(describeOptimal(value.marker), 'muted'),
+          cell(value.testDate, 'muted'),
+        ]))}
+      </section>`).join('')}`;
+
+  return {
+    styles: SUMMARY_STYLES,
+    body: `
+      <header>
+        <h1>Health summary – ${escapeHtml(summary.personName)}</h1>
+        <p>${escapeHtml(identity)}</p>
+      </header>
+      <div class="columns">
+        ${section('Conditions', conditions)}
+        ${section('Medications', medications)}
+      </div>
+      ${section('Flagged markers', flagged)}
+      ${section('Key trends', trends)}
+      ${section('Ratios', ratios)}
+      ${section('Recent physicals', physicals)}
+      ${systems}
+      <footer>Generated ${escapeHtml(summary.generatedOn)} from records kept in Kinfolk. Not a substitute for the original lab reports.</footer>`,
+  };
+};
@@ -0,0 +1,156 @@
+import { HealthRecord } from '../../types';
+import { Immunization, VaccineCode, VaccineDue, VaccineDueStatus } from '../types/health';
+import {
+  FLU_SEASON_DUE_MONTH,
+  FLU_SEASON_START_MONTH,
+  VACCINE_GRACE_MONTHS,
+  VACCINE_UPCOMING_DAYS,
+  vaccineSchedule,
+  VaccineScheduleEntry,
+} from '../data/vaccineSchedule';
+import { toLocalDateString } from './medications';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Flu doses from April onwards are not suggested; the next season's dose shows up as upcoming instead
+const FLU_SEASON_LAST_MONTH = 3;
+const FLU_SEASON_OVERDUE_MONTH = 11;
+
+export type VaccineHistoryEntry = Pick<Immunization, 'vaccine' | 'doseNumber' | 'administeredOn'>;
+
+const statusRank: Record<VaccineDueStatus, number> = { OVERDUE: 0, DUE: 1, UPCOMING: 2, REVIEW: 3 };
+
+export const addMonths = (date: string, months: number) => {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  // Clamp to the last day of the target month so Jan 31 + 1 month lands on Feb 28/29
+  const lastDay = new Date(year, month - 1 + months + 1, 0).getDate();
+  return toLocalDateString(new Date(year, month - 1 + months, Math.min(day, lastDay)));
+};
+
+const laterOf = (a: string, b?: string | null) => (b && b > a ? b : a);
+
+export const daysUntil = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS);
+
+const monthsBetween = (from: string, to: string) => {
+  const [fromYear, fromMonth, fromDay] = from.slice(0, 10).split('-').map(Number);
+  const [toYear, toMonth, toDay] = to.slice(0, 10).split('-').map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth) - (toDay < fromDay ? 1 : 0);
+};
+
+// Longest alias first, so "prevnar 20" wins over "prevnar"
+const aliasMatchers = (Object.entries(vaccineSchedule) as [VaccineCode, VaccineScheduleEntry][])
+  .flatMap(([code, entry]) => entry.aliases.map(alias => ({ code, alias })))
+  .sort((a, b) => b.alias.length - a.alias.length)
+  .map(({ code, alias }) => ({ code, pattern: new RegExp(`\\b${alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i') }));
+
+export const matchVaccineCode = (text: string): VaccineCode | null =>
+  aliasMatchers.find(({ pattern }) => pattern.test(text))?.code ?? null;
+
+// Structured immunizations plus free-text VACCINE health records whose title names a scheduled vaccine
+export const vaccineHistory = (immunizations: VaccineHistoryEntry[], records: HealthRecord[] = []): VaccineHistoryEntry[] => {
+  const seen = new Set(immunizations.map(item => `${item.vaccine}|${item.administeredOn}`));
+  const legacy = records
+    .filter(record => record.type === 'VACCINE' && record.date)
+    .flatMap(record => {
+      const vaccine = matchVaccineCode(`${record.title} ${record.notes || ''}`);
+      const administeredOn = record.date.slice(0, 10);
+      if (!vaccine || seen.has(`${vaccine}|${administeredOn}`)) return [];
+      seen.add(`${vaccine}|${administeredOn}`);
+      return [{ vaccine, doseNumber: null, administeredOn }];
+    });
+  return [...immunizations, ...legacy];
+};
+
+const toStatus = (today: string, dueDate: string, overdueFrom: string, windowDays: number): VaccineDueStatus | null => {
+  if (today >= overdueFrom) return 'OVERDUE';
+  if (today >= dueDate) return 'DUE';
+  if (daysUntil(today, dueDate) <= windowDays) return 'UPCOMING';
+  return null;
+};
+
+const nextSeriesDose = (
+  entry: VaccineScheduleEntry,
+  dateOfBirth: string,
+  given: VaccineHistoryEntry[],
+  ageMonths: number,
+) => {
+  const received = Math.max(given.length, ...given.map(item => item.doseNumber || 0));
+  if (received >= entry.doses.length) return null;
+  if (entry.maxAgeMonths !== undefined && ageMonths >= entry.maxAgeMonths) return null;
+  const rule = entry.doses[received];
+  const last = given[given.length - 1];
+  const dueDate = laterOf(
+    addMonths(dateOfBirth, rule.ageMonths),
+    last && rule.minIntervalMonths ? addMonths(last.administeredOn, rule.minIntervalMonths) : null,
+  );
+  const windowEnd = rule.latestAgeMonths !== undefined ? addMonths(dateOfBirth, rule.latestAgeMonths) : null;
+  const overdueFrom = windowEnd && windowEnd > dueDate ? windowEnd : addMonths(dueDate, VACCINE_GRACE_MONTHS);
+  return { doseNumber: received + 1, totalDoses: entry.doses.length, dueDate, overdueFrom };
+};
+
+const nextRepeatDose = (
+  code: VaccineCode,
+  entry: VaccineScheduleEntry,
+  dateOfBirth: string,
+  history: VaccineHistoryEntry[],
+  today: string,
+) => {
+  if (!entry.repeat) return null;
+  const { everyMonths, fromAgeMonths, anchors } = entry.repeat;
+  const eligibleFrom = addMonths(dateOfBirth, fromAgeMonths);
+  const anchor = history
+    .filter(item => anchors.includes(item.vaccine))
+    .reduce<string | null>((latest, item) => laterOf(item.administeredOn, latest), null);
+  const count = history.filter(item => item.vaccine === code).length;
+
+  if (entry.seasonal) {
+    const [year, month] = today.split('-').map(Number);
+    let seasonYear = month > FLU_SEASON_LAST_MONTH ? year : year - 1;
+    const seasonStart = (y: number) => `${y}-${String(FLU_SEASON_START_MONTH).padStart(2, '0')}-01`;
+    if (anchor && anchor >= seasonStart(seasonYear)) seasonYear += 1;
+    const seasonDue = `${seasonYear}-${String(FLU_SEASON_DUE_MONTH).padStart(2, '0')}-01`;
+    const dueDate = laterOf(seasonDue, eligibleFrom);
+    const overdueFrom = laterOf(`${seasonYear}-${String(FLU_SEASON_OVERDUE_MONTH).padStart(2, '0')}-01`, addMonths(dueDate, VACCINE_GRACE_MONTHS));
+    return { doseNumber: count + 1, totalDoses: null, dueDate, overdueFrom };
+  }
+
+  const dueDate = laterOf(anchor ? addMonths(anchor, everyMonths) : eligibleFrom, eligibleFrom);
+  return { doseNumber: count + 1, totalDoses: null, dueDate, overdueFrom: addMonths(dueDate, VACCINE_GRACE_MONTHS) };
+};
+
+// Overdue, due and upcoming doses from the bundled schedule, given what has already been recorded
+export const buildVaccineSchedule = (
+  dateOfBirth: string | null | undefined,
+  history: VaccineHistoryEntry[],
+  today: string = toLocalDateString(new Date()),
+  windowDays: number = VACCINE_UPCOMING_DAYS,
+): VaccineDue[] => {
+  if (!dateOfBirth || Number.isNaN(new Date(dateOfBirth).getTime()) || dateOfBirth.slice(0, 10) > today) return [];
+  const birth = dateOfBirth.slice(0, 10);
+  const ageMonths = monthsBetween(birth, today);
+  const sorted = [...history].sort((a, b) => a.administeredOn.localeCompare(b.administeredOn));
+  // With no history at all there is no telling what was given before records were kept here
+  const historyUnknown = history.length === 0;
+
+  const items: VaccineDue[] = [];
+  (Object.entries(vaccineSchedule) as [VaccineCode, VaccineScheduleEntry][]).forEach(([code, entry]) => {
+    const given = sorted.filter(item => item.vaccine === code);
+    const next = entry.doses.length > 0
+      ? nextSeriesDose(entry, birth, given, ageMonths)
+      : nextRepeatDose(code, entry, birth, sorted, today);
+    if (!next) return;
+    const status = toStatus(today, next.dueDate, next.overdueFrom, windowDays);
+    if (!status) return;
+    items.push({
+      vaccine: code,
+      vaccineName: entry.name,
+      doseNumber: next.doseNumber,
+      totalDoses: next.totalDoses,
+      dueDate: next.dueDate,
+      status: status === 'OVERDUE' && historyUnknown ? 'REVIEW' : status,
+    });
+  });
+
+  return items.sort((a, b) => statusRank[a.status] - statusRank[b.status] || a.dueDate.localeCompare(b.dueDate));
+};
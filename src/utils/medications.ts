@@ -0,0 +1,52 @@
+import { Medication, MedicationSupply } from '../types/health';
+import { medicationFrequencies } from '../data/medicationSchedules';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const toLocalDateString = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS);
+
+export const isMedicationActive = (medication: Medication, date: string) =>
+  (!medication.startDate || medication.startDate <= date) && (!medication.endDate || medication.endDate >= date);
+
+// Every-other-day and weekly schedules count from the start date
+export const isScheduledOn = (medication: Medication, date: string) => {
+  if (!isMedicationActive(medication, date) || medication.frequency === 'AS_NEEDED') return false;
+  const { intervalDays } = medicationFrequencies[medication.frequency];
+  if (intervalDays === 1 || !medication.startDate) return true;
+  return daysBetween(medication.startDate, date) % intervalDays === 0;
+};
+
+export const doseSlotsOn = (medication: Medication, date: string) =>
+  isScheduledOn(medication, date) ? [...medication.scheduleTimes].sort() : [];
+
+// Average units used per day; unknown for as-needed medications
+export const unitsPerDay = (medication: Medication) => {
+  if (medication.frequency === 'AS_NEEDED' || medication.scheduleTimes.length === 0) return null;
+  const { intervalDays } = medicationFrequencies[medication.frequency];
+  return (medication.scheduleTimes.length * medication.doseAmount) / intervalDays;
+};
+
+export const medicationSupply = (medication: Medication, today: string = toLocalDateString(new Date())): MedicationSupply => {
+  const perDay = unitsPerDay(medication);
+  const remaining = medication.supplyRemaining;
+  if (remaining === null || remaining === undefined || !perDay) {
+    return { unitsPerDay: perDay, daysRemaining: null, runsOutOn: null, needsRefill: false };
+  }
+  const daysRemaining = Math.floor(remaining / perDay);
+  const runsOut = new Date(`${today}T00:00:00`);
+  runsOut.setDate(runsOut.getDate() + daysRemaining);
+  const runsOutOn = toLocalDateString(runsOut);
+  // No refill needed if the course ends before the supply does
+  const endsFirst = Boolean(medication.endDate && medication.endDate < runsOutOn);
+  return {
+    unitsPerDay: perDay,
+    daysRemaining,
+    runsOutOn,
+    needsRefill: !endsFirst && isMedicationActive(medication, today) && daysRemaining <= medication.refillThresholdDays,
+  };
+};
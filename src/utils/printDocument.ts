@@ -0,0 +1,39 @@
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const BASE_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 24px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1c1917; }
+  @page { margin: 12mm; }
+  @media print { body { padding: 0; } }
+`;
+
+// Opens a standalone document and hands it to the browser's print dialog, which also offers "Save as PDF"
+export const openPrintWindow = (title: string, body: string, styles = '') => {
+  const win = window.open('', '_blank', 'width=900,height=1000');
+  if (!win) throw new Error('Allow pop-ups for this site to print.');
+  win.document.write(`<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>${BASE_STYLES}${styles}</style></head><body>${body}</body></html>`);
+  win.document.close();
+  win.focus();
+  // Let the new document lay out before the dialog snapshots it
+  window.setTimeout(() => win.print(), 250);
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const toFileSlug = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export';
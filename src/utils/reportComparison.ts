@@ -0,0 +1,96 @@
+import {
+  ComparisonChange,
+  HealthMarker,
+  HealthRatio,
+  HealthReport,
+  HealthSystem,
+  HealthValue,
+  MarkerComparisonRow,
+  RatioComparisonRow,
+  ReportComparison,
+} from '../types/health';
+import { healthSystems, systemLabel } from '../data/healthMarkers';
+
+const numericValues = <T extends { value?: number | null }>(entries: (T | null)[]) =>
+  entries.filter((entry): entry is T => entry !== null && entry.value !== null && entry.value !== undefined && Number.isFinite(entry.value));
+
+const changeBetween = (entries: ({ value?: number | null } | null)[]): ComparisonChange | null => {
+  const present = numericValues(entries);
+  if (present.length < 2) return null;
+  const first = present[0].value as number;
+  const last = present[present.length - 1].value as number;
+  return {
+    absolute: last - first,
+    percent: first === 0 ? null : ((last - first) / Math.abs(first)) * 100,
+  };
+};
+
+// Lines up markers and ratios across reports (oldest first) and groups the markers by body system.
+// Unless includeUnshared is set, only markers measured in at least two of the reports are kept.
+export const compareReports = (
+  reports: HealthReport[],
+  markersByCode: Map<string, HealthMarker>,
+  { includeUnshared = false }: { includeUnshared?: boolean } = {},
+): ReportComparison => {
+  const ordered = [...reports].sort((a, b) => a.testDate.localeCompare(b.testDate));
+  const minimumReports = includeUnshared ? 1 : Math.min(2, ordered.length);
+
+  const valuesByCode = new Map<string, (HealthValue | null)[]>();
+  ordered.forEach((report, index) => {
+    report.values.forEach(value => {
+      if (!value.markerCode) return;
+      if (!valuesByCode.has(value.markerCode)) valuesByCode.set(value.markerCode, ordered.map(() => null));
+      valuesByCode.get(value.markerCode)![index] = value;
+    });
+  });
+
+  const rowsBySystem = new Map<HealthSystem, { row: MarkerComparisonRow; order: number }[]>();
+  valuesByCode.forEach((values, code) => {
+    const present = values.filter((value): value is HealthValue => value !== null);
+    if (present.length < minimumReports) return;
+    const latest = present[present.length - 1];
+    const marker = markersByCode.get(code) || latest.marker;
+    const system = marker?.system || 'OTHER';
+    const row: MarkerComparisonRow = {
+      markerCode: code,
+      markerName: marker?.name || latest.markerName || code,
+      unit: marker?.unit || latest.unit,
+      values,
+      change: changeBetween(values),
+      statusFrom: present.length > 1 ? present[0].status : undefined,
+      statusTo: present.length > 1 ? latest.status : undefined,
+    };
+    const list = rowsBySystem.get(system) || [];
+    list.push({ row, order: marker?.displayOrder ?? Number.MAX_SAFE_INTEGER });
+    rowsBySystem.set(system, list);
+  });
+
+  const groups = healthSystems
+    .filter(system => rowsBySystem.has(system))
+    .map(system => ({
+      system,
+      displayName: systemLabel(system),
+      rows: rowsBySystem.get(system)!
+        .sort((a, b) => a.order - b.order || a.row.markerName.localeCompare(b.row.markerName))
+        .map(entry => entry.row),
+    }));
+
+  const ratiosByCode = new Map<string, (HealthRatio | null)[]>();
+  ordered.forEach((report, index) => {
+    report.ratios.forEach(ratio => {
+      if (!ratiosByCode.has(ratio.ratioCode)) ratiosByCode.set(ratio.ratioCode, ordered.map(() => null));
+      ratiosByCode.get(ratio.ratioCode)![index] = ratio;
+    });
+  });
+  const ratios: RatioComparisonRow[] = Array.from(ratiosByCode.entries())
+    .filter(([, values]) => values.filter(Boolean).length >= minimumReports)
+    .map(([ratioCode, values]) => ({
+      ratioCode,
+      name: values.find((value): value is HealthRatio => value !== null)!.name,
+      values,
+      change: changeBetween(values),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return { reports: ordered, groups, ratios };
+};
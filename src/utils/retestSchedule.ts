@@ -0,0 +1,85 @@
+import {
+  HealthMarker,
+  HealthReport,
+  HealthValue,
+  RetestDue,
+  RetestInterval,
+  RetestOverride,
+  RetestScope,
+  RetestStatus,
+} from '../types/health';
+import {
+  DEFAULT_RETEST_INTERVAL,
+  markerRetestIntervals,
+  RETEST_DUE_SOON_DAYS,
+  systemRetestIntervals,
+} from '../data/retestIntervals';
+import { systemLabel } from '../data/healthMarkers';
+import { addMonths, daysUntil } from './immunizations';
+import { toLocalDateString } from './medications';
+
+const statusRank: Record<RetestStatus, number> = { OVERDUE: 0, DUE_SOON: 1, UP_TO_DATE: 2 };
+
+// Person overrides first (marker, then system), then the built-in marker and system defaults
+const resolveInterval = (
+  marker: HealthMarker,
+  overrides: RetestOverride[],
+): { interval: RetestInterval; overrideScope?: RetestScope } => {
+  const markerOverride = overrides.find(item => item.scope === 'MARKER' && item.target === marker.code);
+  if (markerOverride) return { interval: markerOverride, overrideScope: 'MARKER' };
+  const systemOverride = overrides.find(item => item.scope === 'SYSTEM' && item.target === marker.system);
+  if (systemOverride) return { interval: systemOverride, overrideScope: 'SYSTEM' };
+  return { interval: markerRetestIntervals[marker.code] || systemRetestIntervals[marker.system] || DEFAULT_RETEST_INTERVAL };
+};
+
+// When each measured marker should next be tested, from its most recent result. Computed values are skipped
+// since they are never ordered on their own; the markers they derive from carry the schedule.
+export const buildRetestSchedule = (
+  reports: HealthReport[],
+  markersByCode: Map<string, HealthMarker>,
+  overrides: RetestOverride[] = [],
+  today = toLocalDateString(new Date()),
+): RetestDue[] => {
+  const latestByCode = new Map<string, HealthValue>();
+  reports
+    .filter(report => report.status === 'PROCESSED')
+    .forEach(report => report.values.forEach(value => {
+      if (!value.markerCode || value.isComputed) return;
+      const current = latestByCode.get(value.markerCode);
+      if (!current || value.testDate > current.testDate) latestByCode.set(value.markerCode, value);
+    }));
+
+  return Array.from(latestByCode.entries())
+    .map(([code, value]): RetestDue | null => {
+      const marker = markersByCode.get(code) || value.marker;
+      if (!marker) return null;
+      const { interval, overrideScope } = resolveInterval(marker, overrides);
+      const outOfRange = value.status === 'LOW' || value.status === 'HIGH';
+      const intervalMonths = outOfRange ? interval.outOfRangeMonths : interval.inRangeMonths;
+      const dueDate = addMonths(value.testDate, intervalMonths);
+      const days = daysUntil(today, dueDate);
+      return {
+        markerCode: code,
+        markerName: marker.name,
+        system: marker.system,
+        lastTested: value.testDate,
+        lastStatus: value.status,
+        intervalMonths,
+        overrideScope,
+        dueDate,
+        status: days < 0 ? 'OVERDUE' : days <= RETEST_DUE_SOON_DAYS ? 'DUE_SOON' : 'UP_TO_DATE',
+      };
+    })
+    .filter((item): item is RetestDue => item !== null)
+    .sort((a, b) => statusRank[a.status] - statusRank[b.status] || a.dueDate.localeCompare(b.dueDate) || a.markerName.localeCompare(b.markerName));
+};
+
+// Test names grouped by body system, one line each, for a to-do asking the doctor for these tests
+export const describeRetestRequest = (items: RetestDue[]) => {
+  const bySystem = new Map<string, string[]>();
+  items.forEach(item => {
+    const label = systemLabel(item.system);
+    bySystem.set(label, [...(bySystem.get(label) || []), item.markerName]);
+  });
+  return Array.from(bySystem.entries()).map(([system, names]) => `${system}: ${names.join(', ')}`).join('\n');
+};
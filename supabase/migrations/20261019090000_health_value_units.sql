@@ -0,0 +1,8 @@
+-- Preserve the lab-reported value/unit when a health value is converted to its marker's canonical unit
+
+alter table public.health_values
+  add column if not exists original_value numeric,
+  add column if not exists original_unit text;
+
+comment on column public.health_values.original_value is 'Value as printed on the lab report, before unit conversion';
+comment on column public.health_values.original_unit is 'Unit as printed on the lab report, before unit conversion';
@@ -0,0 +1,73 @@
+-- Sex- and age-specific reference ranges for health markers
+-- Each band: {"sex"?: "male"|"female", "age_min"?: years (inclusive), "age_max"?: years (exclusive),
+--             "optimal_min", "optimal_max", "lab_min", "lab_max"}
+
+alter table public.health_markers
+  add column if not exists ranges jsonb;
+
+comment on column public.health_markers.ranges is 'Optional sex/age range bands overriding optimal_* and lab_* for matching people';
+
+update public.health_markers set ranges = '[
+  {"age_max": 12, "optimal_min": 11.8, "optimal_max": 14.0, "lab_min": 11.5, "lab_max": 15.5},
+  {"sex": "female", "age_min": 12, "age_max": 18, "optimal_min": 12.5, "optimal_max": 15.0, "lab_min": 12.0, "lab_max": 16.0},
+  {"sex": "male", "age_min": 12, "age_max": 18, "optimal_min": 13.5, "optimal_max": 15.5, "lab_min": 13.0, "lab_max": 16.0},
+  {"sex": "female", "age_min": 18, "optimal_min": 12.5, "optimal_max": 14.5, "lab_min": 12.0, "lab_max": 15.5},
+  {"sex": "male", "age_min": 18, "optimal_min": 14.0, "optimal_max": 16.5, "lab_min": 13.5, "lab_max": 17.5}
+]'::jsonb where code = 'HEMOGLOBIN';
+
+update public.health_markers set ranges = '[
+  {"age_max": 12, "optimal_min": 35, "optimal_max": 42, "lab_min": 35, "lab_max": 45},
+  {"sex": "female", "age_min": 18, "optimal_min": 37, "optimal_max": 43, "lab_min": 36, "lab_max": 44},
+  {"sex": "male", "age_min": 18, "optimal_min": 42, "optimal_max": 48, "lab_min": 41, "lab_max": 50}
+]'::jsonb where code = 'HEMATOCRIT';
+
+update public.health_markers set ranges = '[
+  {"age_max": 12, "optimal_min": 4.1, "optimal_max": 5.0, "lab_min": 4.0, "lab_max": 5.2},
+  {"sex": "female", "age_min": 18, "optimal_min": 4.2, "optimal_max": 4.9, "lab_min": 4.0, "lab_max": 5.2},
+  {"sex": "male", "age_min": 18, "optimal_min": 4.6, "optimal_max": 5.4, "lab_min": 4.5, "lab_max": 5.9}
+]'::jsonb where code = 'RBC';
+
+update public.health_markers set ranges = '[
+  {"age_max": 18, "optimal_min": 20, "optimal_max": 80, "lab_min": 7, "lab_max": 140},
+  {"sex": "female", "age_min": 18, "age_max": 50, "optimal_min": 30, "optimal_max": 100, "lab_min": 15, "lab_max": 150},
+  {"sex": "female", "age_min": 50, "optimal_min": 40, "optimal_max": 150, "lab_min": 15, "lab_max": 300},
+  {"sex": "male", "age_min": 18, "optimal_min": 50, "optimal_max": 150, "lab_min": 30, "lab_max": 400}
+]'::jsonb where code = 'FERRITIN';
+
+update public.health_markers set ranges = '[
+  {"age_max": 10, "optimal_min": 0, "optimal_max": 20, "lab_min": 0, "lab_max": 20},
+  {"sex": "male", "age_min": 10, "age_max": 18, "optimal_min": 100, "optimal_max": 800, "lab_min": 20, "lab_max": 1000},
+  {"sex": "female", "age_min": 10, "age_max": 18, "optimal_min": 10, "optimal_max": 40, "lab_min": 5, "lab_max": 60},
+  {"sex": "male", "age_min": 18, "age_max": 70, "optimal_min": 400, "optimal_max": 800, "lab_min": 300, "lab_max": 1000},
+  {"sex": "male", "age_min": 70, "optimal_min": 350, "optimal_max": 700, "lab_min": 250, "lab_max": 900},
+  {"sex": "female", "age_min": 18, "optimal_min": 20, "optimal_max": 50, "lab_min": 15, "lab_max": 70}
+]'::jsonb where code = 'TESTOSTERONE_TOTAL';
+
+update public.health_markers set ranges = '[
+  {"age_max": 10, "optimal_min": 0, "optimal_max": 15, "lab_min": 0, "lab_max": 20},
+  {"sex": "male", "age_min": 18, "optimal_min": 20, "optimal_max": 35, "lab_min": 10, "lab_max": 40},
+  {"sex": "female", "age_min": 18, "age_max": 50, "optimal_min": 50, "optimal_max": 250, "lab_min": 30, "lab_max": 400},
+  {"sex": "female", "age_min": 50, "optimal_min": 0, "optimal_max": 20, "lab_min": 0, "lab_max": 30}
+]'::jsonb where code = 'ESTRADIOL';
+
+update public.health_markers set ranges = '[
+  {"age_max": 12, "optimal_min": 0.3, "optimal_max": 0.6, "lab_min": 0.3, "lab_max": 0.7},
+  {"age_min": 12, "age_max": 18, "optimal_min": 0.5, "optimal_max": 0.9, "lab_min": 0.5, "lab_max": 1.0},
+  {"sex": "female", "age_min": 18, "optimal_min": 0.6, "optimal_max": 0.9, "lab_min": 0.59, "lab_max": 1.04},
+  {"sex": "male", "age_min": 18, "optimal_min": 0.8, "optimal_max": 1.1, "lab_min": 0.74, "lab_max": 1.35}
+]'::jsonb where code = 'CREATININE';
+
+update public.health_markers set ranges = '[
+  {"age_max": 12, "optimal_min": 2.0, "optimal_max": 5.0, "lab_min": 2.0, "lab_max": 5.5},
+  {"sex": "female", "age_min": 18, "optimal_min": 2.5, "optimal_max": 5.5, "lab_min": 2.4, "lab_max": 6.0},
+  {"sex": "male", "age_min": 18, "optimal_min": 3.5, "optimal_max": 6.5, "lab_min": 3.4, "lab_max": 7.0}
+]'::jsonb where code = 'URIC_ACID';
+
+update public.health_markers set ranges = '[
+  {"age_max": 18, "optimal_min": 100, "optimal_max": 350, "lab_min": 100, "lab_max": 390}
+]'::jsonb where code = 'ALP';
+
+update public.health_markers set ranges = '[
+  {"age_max": 12, "optimal_min": 4.0, "optimal_max": 6.0, "lab_min": 3.7, "lab_max": 6.5},
+  {"age_min": 12, "age_max": 18, "optimal_min": 3.0, "optimal_max": 5.0, "lab_min": 2.9, "lab_max": 5.4}
+]'::jsonb where code = 'PHOSPHORUS';
@@ -0,0 +1,14 @@
+-- Per-marker "good direction" used to judge whether a trend is improving or declining
+-- HIGHER: higher values are better, LOWER: lower values are better, IN_RANGE: closer to the optimal range is better
+
+alter table public.health_markers
+  add column if not exists good_direction text not null default 'IN_RANGE';
+
+alter table public.health_markers
+  add constraint health_markers_good_direction_check check (good_direction in ('HIGHER', 'LOWER', 'IN_RANGE'));
+
+update public.health_markers set good_direction = 'LOWER'
+where code in ('HBA1C', 'INSULIN_FASTING', 'CHOL_TOTAL', 'LDL', 'TRIGLYCERIDES', 'VLDL', 'NON_HDL', 'APOB', 'AST', 'ALT', 'GGT', 'URIC_ACID', 'MICROALBUMIN', 'CRP', 'HS_CRP', 'ESR');
+
+update public.health_markers set good_direction = 'HIGHER'
+where code in ('HDL', 'EGFR');
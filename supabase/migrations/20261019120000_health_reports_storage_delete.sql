@@ -0,0 +1,14 @@
+-- Allow discarding an uploaded report file when its extraction is rejected during review.
+-- Files are stored under a "<person_id>/" prefix, so deletes are limited to people the user has access to.
+
+create policy "Delete health reports if access to person."
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'health-reports'
+    and case
+      when (storage.foldername(name))[1] ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+        then has_access_to_person(((storage.foldername(name))[1])::uuid)
+      else false
+    end
+  );
@@ -0,0 +1,10 @@
+-- Allow a health report to be made of several uploaded files (multi-page PDFs or phone photos)
+
+alter table public.health_reports
+  add column if not exists file_paths text[] not null default '{}';
+
+update public.health_reports
+set file_paths = array[pdf_url]
+where pdf_url is not null and file_paths = '{}';
+
+comment on column public.health_reports.file_paths is 'Storage paths of every file making up the report, in page order. pdf_url holds the first one';
@@ -0,0 +1,6 @@
+-- Mark health values that were calculated from other markers instead of reported by the lab
+
+alter table public.health_values
+  add column if not exists is_computed boolean not null default false;
+
+comment on column public.health_values.is_computed is 'True when the value was derived (e.g. CKD-EPI eGFR, Martin-Hopkins LDL) rather than extracted or entered';
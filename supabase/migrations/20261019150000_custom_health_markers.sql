@@ -0,0 +1,42 @@
+-- User-defined markers live alongside the shared reference markers, owned by the user who created them
+
+alter table public.health_markers
+  add column if not exists owner_id uuid references public.profiles(id) on delete cascade,
+  add column if not exists aliases text[] not null default '{}';
+
+comment on column public.health_markers.owner_id is 'Null for shared reference markers; the creating user for custom markers';
+comment on column public.health_markers.aliases is 'Alternate names as printed by labs, matched when mapping extracted values';
+
+create index if not exists health_markers_owner_idx on public.health_markers(owner_id);
+
+-- Deleting a custom marker leaves its values in place as unmatched rows
+alter table public.health_values
+  drop constraint if exists health_values_marker_code_fkey,
+  add constraint health_values_marker_code_fkey
+    foreign key (marker_code) references public.health_markers(code) on delete set null;
+
+drop policy if exists "Health markers are viewable by everyone." on public.health_markers;
+
+-- Collaborators still see a custom marker once it is used for a person they can access
+create policy "View shared, own or in-use health markers."
+  on public.health_markers for select
+  using (
+    owner_id is null
+    or owner_id = auth.uid()
+    or exists (
+      select 1 from public.health_values v
+      where v.marker_code = health_markers.code and has_access_to_person(v.person_id)
+    )
+  );
+
+create policy "Add own custom health markers."
+  on public.health_markers for insert
+  with check ( owner_id = auth.uid() );
+
+create policy "Update own custom health markers."
+  on public.health_markers for update
+  using ( owner_id = auth.uid() );
+
+create policy "Delete own custom health markers."
+  on public.health_markers for delete
+  using ( owner_id = auth.uid() );
@@ -0,0 +1,30 @@
+-- Aliases learned when a user maps an unmatched lab name to a marker, reused on future uploads
+
+create table public.health_marker_aliases (
+  id uuid default uuid_generate_v4() primary key,
+  alias_key text not null,
+  marker_code text references public.health_markers(code) on delete cascade not null,
+  created_by uuid references public.profiles(id) on delete cascade not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()),
+  unique (created_by, alias_key)
+);
+
+comment on column public.health_marker_aliases.alias_key is 'Marker name normalized like normalizeMarkerKey: uppercase letters and digits only';
+
+alter table public.health_marker_aliases enable row level security;
+
+create policy "View own learned marker aliases."
+  on public.health_marker_aliases for select
+  using ( created_by = auth.uid() );
+
+create policy "Add own learned marker aliases."
+  on public.health_marker_aliases for insert
+  with check ( created_by = auth.uid() );
+
+create policy "Update own learned marker aliases."
+  on public.health_marker_aliases for update
+  using ( created_by = auth.uid() );
+
+create policy "Delete own learned marker aliases."
+  on public.health_marker_aliases for delete
+  using ( created_by = auth.uid() );
@@ -0,0 +1,34 @@
+-- Frequent point-in-time measurements (glucose checks, SpO2, temperature, sleep) outside of lab reports
+
+create table public.health_vitals (
+  id uuid default uuid_generate_v4() primary key,
+  person_id uuid references public.people(id) on delete cascade not null,
+  kind text not null,
+  value numeric not null,
+  unit text,
+  measured_at timestamp with time zone not null,
+  context text,
+  notes text,
+  created_by uuid references public.profiles(id),
+  created_at timestamp with time zone default timezone('utc'::text, now())
+);
+
+create index health_vitals_person_idx on public.health_vitals(person_id, kind, measured_at desc);
+
+alter table public.health_vitals enable row level security;
+
+create policy "View vitals if access to person."
+  on public.health_vitals for select
+  using ( has_access_to_person(person_id) );
+
+create policy "Add vitals if access to person."
+  on public.health_vitals for insert
+  with check ( has_access_to_person(person_id) );
+
+create policy "Update vitals if access to person."
+  on public.health_vitals for update
+  using ( has_access_to_person(person_id) );
+
+create policy "Delete vitals if access to person."
+  on public.health_vitals for delete
+  using ( has_access_to_person(person_id) );
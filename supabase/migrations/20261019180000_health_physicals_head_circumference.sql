@@ -0,0 +1,4 @@
+-- Head circumference for infant growth tracking (WHO head-circumference-for-age, 0-24 months)
+
+alter table public.health_physicals
+  add column if not exists head_circumference_cm numeric;
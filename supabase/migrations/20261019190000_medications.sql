@@ -0,0 +1,76 @@
+-- Structured medication list per person, with a per-dose log that any collaborator can tick off
+
+create table public.medications (
+  id uuid default uuid_generate_v4() primary key,
+  person_id uuid references public.people(id) on delete cascade not null,
+  name text not null,
+  strength text,
+  -- Units taken per intake (e.g. 1 tablet, 2 puffs, 5 ml)
+  dose_amount numeric not null default 1,
+  dose_unit text default 'tablet',
+  frequency text not null default 'ONCE_DAILY',
+  -- Intake times as HH:MM, one per scheduled dose in a day
+  schedule_times text[] not null default '{}',
+  start_date date,
+  end_date date,
+  prescriber text,
+  pharmacy text,
+  supply_remaining numeric,
+  refill_threshold_days int not null default 7,
+  refill_todo_id uuid references public.todos(id) on delete set null,
+  notes text,
+  created_by uuid references public.profiles(id),
+  created_at timestamp with time zone default timezone('utc'::text, now())
+);
+
+create index medications_person_idx on public.medications(person_id);
+
+create table public.medication_doses (
+  id uuid default uuid_generate_v4() primary key,
+  medication_id uuid references public.medications(id) on delete cascade not null,
+  person_id uuid references public.people(id) on delete cascade not null,
+  scheduled_date date not null,
+  -- HH:MM from schedule_times, or 'PRN' for as-needed doses
+  slot text not null,
+  status text not null default 'GIVEN',
+  recorded_at timestamp with time zone default timezone('utc'::text, now()),
+  given_by uuid references public.profiles(id),
+  unique (medication_id, scheduled_date, slot)
+);
+
+create index medication_doses_person_idx on public.medication_doses(person_id, scheduled_date desc);
+
+alter table public.medications enable row level security;
+alter table public.medication_doses enable row level security;
+
+create policy "View medications if access to person."
+  on public.medications for select
+  using ( has_access_to_person(person_id) );
+
+create policy "Add medications if access to person."
+  on public.medications for insert
+  with check ( has_access_to_person(person_id) );
+
+create policy "Update medications if access to person."
+  on public.medications for update
+  using ( has_access_to_person(person_id) );
+
+create policy "Delete medications if access to person."
+  on public.medications for delete
+  using ( has_access_to_person(person_id) );
+
+create policy "View medication doses if access to person."
+  on public.medication_doses for select
+  using ( has_access_to_person(person_id) );
+
+create policy "Add medication doses if access to person."
+  on public.medication_doses for insert
+  with check ( has_access_to_person(person_id) );
+
+create policy "Update medication doses if access to person."
+  on public.medication_doses for update
+  using ( has_access_to_person(person_id) );
+
+create policy "Delete medication doses if access to person."
+  on public.medication_doses for delete
+  using ( has_access_to_person(person_id) );
@@ -0,0 +1,36 @@
+-- Structured immunization history, matched against the bundled age-based schedule in the app
+
+create table public.immunizations (
+  id uuid default uuid_generate_v4() primary key,
+  person_id uuid references public.people(id) on delete cascade not null,
+  -- Schedule code (e.g. 'MMR', 'TDAP') or 'OTHER' for vaccines outside the schedule
+  vaccine text not null,
+  vaccine_name text,
+  dose_number int,
+  administered_on date not null,
+  lot_number text,
+  provider text,
+  notes text,
+  created_by uuid references public.profiles(id),
+  created_at timestamp with time zone default timezone('utc'::text, now())
+);
+
+create index immunizations_person_idx on public.immunizations(person_id, administered_on desc);
+
+alter table public.immunizations enable row level security;
+
+create policy "View immunizations if access to person."
+  on public.immunizations for select
+  using ( has_access_to_person(person_id) );
+
+create policy "Add immunizations if access to person."
+  on public.immunizations for insert
+  with check ( has_access_to_person(person_id) );
+
+create policy "Update immunizations if access to person."
+  on public.immunizations for update
+  using ( has_access_to_person(person_id) );
+
+create policy "Delete immunizations if access to person."
+  on public.immunizations for delete
+  using ( has_access_to_person(person_id) );
@@ -0,0 +1,212 @@
+-- Allergies, conditions, blood type, insurance and doctors per person, used for the emergency card.
+-- Every item carries is_shared: private items stay visible only to the profile owner, the person themselves
+-- (linked user) and whoever added them.
+
+-- Owner, linked user or creator: the people allowed to see a private item and to change who it is shared with
+create or replace function public.can_manage_person_item(target_person_id uuid, item_created_by uuid)
+returns boolean as $$
+begin
+  return item_created_by = auth.uid()
+    or exists (
+      select 1 from public.people
+      where id = target_person_id
+        and (created_by = auth.uid() or linked_user_id = auth.uid())
+    );
+end;
+$$ language plpgsql security definer stable;
+
+create or replace function public.can_view_person_item(target_person_id uuid, item_created_by uuid, item_is_shared boolean)
+returns boolean as $$
+begin
+  return has_access_to_person(target_person_id)
+    and (item_is_shared or can_manage_person_item(target_person_id, item_created_by));
+end;
+$$ language plpgsql security definer stable;
+
+-- Anyone who can see an item may edit it, but only a manager may change its audience or who added it
+create or replace function public.guard_person_item_sharing()
+returns trigger as $$
+begin
+  if (new.is_shared is distinct from old.is_shared or new.created_by is distinct from old.created_by)
+    and not can_manage_person_item(new.person_id, old.created_by) then
+    raise exception 'Only the profile owner or the person who added this entry can change who sees it';
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create table public.medical_profiles (
+  person_id uuid references public.people(id) on delete cascade primary key,
+  blood_type text,
+  organ_donor boolean,
+  emergency_notes text,
+  is_shared boolean not null default true,
+  created_by uuid references public.profiles(id),
+  updated_at timestamp with time zone default timezone('utc'::text, now())
+);
+
+create table public.person_allergies (
+  id uuid default uuid_generate_v4() primary key,
+  person_id uuid references public.people(id) on delete cascade not null,
+  allergen text not null,
+  reaction text,
+  -- MILD, MODERATE, SEVERE or LIFE_THREATENING
+  severity text not null default 'MODERATE',
+  notes text,
+  is_shared boolean not null default true,
+  created_by uuid references public.profiles(id),
+  created_at timestamp with time zone default timezone('utc'::text, now())
+);
+
+create table public.person_conditions (
+  id uuid default uuid_generate_v4() primary key,
+  person_id uuid references public.people(id) on delete cascade not null,
+  name text not null,
+  diagnosed_on date,
+  -- ACTIVE, MANAGED or RESOLVED
+  status text not null default 'ACTIVE',
+  notes text,
+  is_shared boolean not null default true,
+  created_by uuid references public.profiles(id),
+  created_at timestamp with time zone default timezone('utc'::text, now())
+);
+
+create table public.insurance_policies (
+  id uuid default uuid_generate_v4() primary key,
+  person_id uuid references public.people(id) on delete cascade not null,
+  provider text not null,
+  plan_name text,
+  member_id text,
+  group_number text,
+  phone text,
+  is_primary boolean not null default false,
+  is_shared boolean not null default true,
+  created_by uuid references public.profiles(id),
+  created_at timestamp with time zone default timezone('utc'::text, now())
+);
+
+create table public.person_doctors (
+  id uuid default uuid_generate_v4() primary key,
+  person_id uuid references public.people(id) on delete cascade not null,
+  name text not null,
+  specialty text,
+  practice text,
+  phone text,
+  email text,
+  address text,
+  is_primary boolean not null default false,
+  is_shared boolean not null default true,
+  created_by uuid references public.profiles(id),
+  created_at timestamp with time zone default timezone('utc'::text, now())
+);
+
+create index person_allergies_person_idx on public.person_allergies(person_id);
+create index person_conditions_person_idx on public.person_conditions(person_id);
+create index insurance_policies_person_idx on public.insurance_policies(person_id);
+create index person_doctors_person_idx on public.person_doctors(person_id);
+
+create trigger guard_medical_profiles_sharing
+  before update on public.medical_profiles
+  for each row execute function public.guard_person_item_sharing();
+
+create trigger guard_person_allergies_sharing
+  before update on public.person_allergies
+  for each row execute function public.guard_person_item_sharing();
+
+create trigger guard_person_conditions_sharing
+  before update on public.person_conditions
+  for each row execute function public.guard_person_item_sharing();
+
+create trigger guard_insurance_policies_sharing
+  before update on public.insurance_policies
+  for each row execute function public.guard_person_item_sharing();
+
+create trigger guard_person_doctors_sharing
+  before update on public.person_doctors
+  for each row execute function public.guard_person_item_sharing();
+
+alter table public.medical_profiles enable row level security;
+alter table public.person_allergies enable row level security;
+alter table public.person_conditions enable row level security;
+alter table public.insurance_policies enable row level security;
+alter table public.person_doctors enable row level security;
+
+create policy "View medical profile if shared or own."
+  on public.medical_profiles for select
+  using ( can_view_person_item(person_id, created_by, is_shared) );
+
+create policy "Add medical profile if access to person."
+  on public.medical_profiles for insert
+  with check ( has_access_to_person(person_id) );
+
+create policy "Update medical profile if shared or own."
+  on public.medical_profiles for update
+  using ( can_view_person_item(person_id, created_by, is_shared) );
+
+create policy "Delete medical profile if shared or own."
+  on public.medical_profiles for delete
+  using ( can_view_person_item(person_id, created_by, is_shared) );
+
+create policy "View allergies if shared or own."
+  on public.person_allergies for select
+  using ( can_view_person_item(person_id, created_by, is_shared) );
+
+create policy "Add allergies if access to person."
+  on public.person_allergies for insert
+  with check ( has_access_to_person(person_id) );
+
+create policy "Update allergies if shared or own."
+  on public.person_allergies for update
+  using ( can_view_person_item(person_id, created_by, is_shared) );
+
+create policy "Delete allergies if shared or own."
+  on public.person_allergies for delete
+  using ( can_view_person_item(person_id, created_by, is_shared) );
+
+create policy "View conditions if shared or own."
+  on public.person_conditions for select
+  using ( can_view_person_item(person_id, created_by, is_shared) );
+
+create policy "Add conditions if access to person."
+  on public.person_conditions for insert
+  with check ( has_access_to_person(person_id) );
+
+create policy "Update conditions if shared or own."
+  on public.person_conditions for update
+  using ( can_view_person_item(person_id, created_by, is_shared) );
+
+create policy "Delete conditions if shared or own."
+  on public.person_conditions for delete
+  using ( can_view_person_item(person_id, created_by, is_shared) );
+
+create policy "View insurance if shared or own."
+  on public.insurance_policies for select
+  using ( can_view_person_item(person_id, created_by, is_shared) );
+
+create policy "Add insurance if access to person."
+  on public.insurance_policies for insert
+  with check ( has_access_to_person(person_id) );
+
+create policy "Update insurance if shared or own."
+  on public.insurance_policies for update
+  using ( can_view_person_item(person_id, created_by, is_shared) );
+
+create policy "Delete insurance if shared or own."
+  on public.insurance_policies for delete
+  using ( can_view_person_item(person_id, created_by, is_shared) );
+
+create policy "View doctors if shared or own."
+  on public.person_doctors for select
+  using ( can_view_person_item(person_id, created_by, is_shared) );
+
+create policy "Add doctors if access to person."
+  on public.person_doctors for insert
+  with check ( has_access_to_person(person_id) );
+
+create policy "Update doctors if shared or own."
+  on public.person_doctors for update
+  using ( can_view_person_item(person_id, created_by, is_shared) );
+
+create policy "Delete doctors if shared or own."
+  on public.person_doctors for delete
+  using ( can_view_person_item(person_id, created_by, is_shared) );
@@ -0,0 +1,299 @@
+-- Per-report sharing for the health dashboard. Lab reports and physicals carry a share_mode:
+-- ALL (every collaborator on the person), SELECTED (only collaborators listed in item_shares) or PRIVATE.
+-- The profile owner, the person themselves (linked user) and whoever added the row always see it.
+-- Values and ratios follow the report they belong to.
+
+alter table public.health_reports
+  add column if not exists share_mode text not null default 'ALL'
+  check (share_mode in ('ALL', 'SELECTED', 'PRIVATE'));
+
+alter table public.health_physicals
+  add column if not exists share_mode text not null default 'ALL'
+  check (share_mode in ('ALL', 'SELECTED', 'PRIVATE'));
+
+alter table public.item_shares drop constraint if exists item_shares_record_type_check;
+alter table public.item_shares add constraint item_shares_record_type_check
+  check (record_type in ('TODO', 'HEALTH', 'NOTE', 'FINANCE', 'HEALTH_REPORT', 'HEALTH_PHYSICAL'));
+
+-- Owner, linked user or creator: the people allowed to see a private item and to change who it is shared with
+create or replace function public.can_manage_health_item(target_person_id uuid, item_created_by uuid)
+returns boolean as $$
+begin
+  return item_created_by = auth.uid()
+    or exists (
+      select 1 from public.people
+      where id = target_person_id
+        and (created_by = auth.uid() or linked_user_id = auth.uid())
+    );
+end;
+$$ language plpgsql security definer stable;
+
+create or replace function public.can_view_health_item(
+  target_person_id uuid,
+  item_created_by uuid,
+  item_share_mode text,
+  item_record_type text,
+  item_record_id uuid
+)
+returns boolean as $$
+begin
+  if not has_access_to_person(target_person_id) then
+    return false;
+  end if;
+  if can_manage_health_item(target_person_id, item_created_by) then
+    return true;
+  end if;
+  return item_share_mode = 'ALL'
+    or (
+      item_share_mode = 'SELECTED'
+      and exists (
+        select 1 from public.item_shares ish
+        join public.person_shares ps on ps.id = ish.person_share_id
+        where ish.record_type = item_record_type
+          and ish.record_id = item_record_id
+          and ps.user_id = auth.uid()
+      )
+    );
+end;
+$$ language plpgsql security definer stable;
+
+-- Values and ratios entered without a report fall back to plain person access
+create or replace function public.can_view_health_report(target_report_id uuid, target_person_id uuid)
+returns boolean as $$
+begin
+  if target_report_id is null then
+    return has_access_to_person(target_person_id);
+  end if;
+  return exists (
+    select 1 from public.health_reports r
+    where r.id = target_report_id
+      and can_view_health_item(r.person_id, r.created_by, r.share_mode, 'HEALTH_REPORT', r.id)
+  );
+end;
+$$ language plpgsql security definer stable;
+
+-- Anyone who can see a report may correct its values, but only a manager may widen or narrow its audience
+create or replace function public.guard_health_share_mode()
+returns trigger as $$
+begin
+  if new.share_mode is distinct from old.share_mode
+    and not can_manage_health_item(new.person_id, old.created_by) then
+    raise exception 'Only the profile owner or the person who added this entry can change who sees it';
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger guard_health_reports_share_mode
+  before update on public.health_reports
+  for each row execute function public.guard_health_share_mode();
+
+create trigger guard_health_physicals_share_mode
+  before update on public.health_physicals
+  for each row execute function public.guard_health_share_mode();
+
+drop policy if exists "View health reports if access to person." on public.health_reports;
+drop policy if exists "Update health reports if access to person." on public.health_reports;
+drop policy if exists "Delete health reports if access to person." on public.health_reports;
+
+create policy "View health reports if shared or own."
+  on public.health_reports for select
+  using ( can_view_health_item(person_id, created_by, share_mode, 'HEALTH_REPORT', id) );
+
+create policy "Update health reports if shared or own."
+  on public.health_reports for update
+  using ( can_view_health_item(person_id, created_by, share_mode, 'HEALTH_REPORT', id) );
+
+create policy "Delete health reports if shared or own."
+  on public.health_reports for delete
+  using ( can_view_health_item(person_id, created_by, share_mode, 'HEALTH_REPORT', id) );
+
+drop policy if exists "View health values if access to person." on public.health_values;
+drop policy if exists "Update health values if access to person." on public.health_values;
+drop policy if exists "Delete health values if access to person." on public.health_values;
+
+create policy "View health values if report visible."
+  on public.health_values for select
+  using ( can_view_health_report(report_id, person_id) );
+
+create policy "Update health values if report visible."
+  on public.health_values for update
+  using ( can_view_health_report(report_id, person_id) );
+
+create policy "Delete health values if report visible."
+  on public.health_values for delete
+  using ( can_view_health_report(report_id, person_id) );
+
+drop policy if exists "View ratios if access to person." on public.health_ratios;
+drop policy if exists "Update ratios if access to person." on public.health_ratios;
+drop policy if exists "Delete ratios if access to person." on public.health_ratios;
+
+create policy "View ratios if report visible."
+  on public.health_ratios for select
+  using ( can_view_health_report(report_id, person_id) );
+
+create policy "Update ratios if report visible."
+  on public.health_ratios for update
+  using ( can_view_health_report(report_id, person_id) );
+
+create policy "Delete ratios if report visible."
+  on public.health_ratios for delete
+  using ( can_view_health_report(report_id, person_id) );
+
+drop policy if exists "View physicals if access to person." on public.health_physicals;
+drop policy if exists "Update physicals if access to person." on public.health_physicals;
+drop policy if exists "Delete physicals if access to person." on public.health_physicals;
+
+create policy "View physicals if shared or own."
+  on public.health_physicals for select
+  using ( can_view_health_item(person_id, created_by, share_mode, 'HEALTH_PHYSICAL', id) );
+
+create policy "Update physicals if shared or own."
+  on public.health_physicals for update
+  using ( can_view_health_item(person_id, created_by, share_mode, 'HEALTH_PHYSICAL', id) );
+
+create policy "Delete physicals if shared or own."
+  on public.health_physicals for delete
+  using ( can_view_health_item(person_id, created_by, share_mode, 'HEALTH_PHYSICAL', id) );
+
+-- item_shares: health rows can only be shared or unshared by someone who manages them
+drop policy if exists "Users can create item shares for their records" on public.item_shares;
+drop policy if exists "Users can delete item shares for their records" on public.item_shares;
+
+create policy "Users can create item shares for their records"
+  on public.item_shares for insert
+  with check (
+    exists (
+      select 1 from public.todos t
+      join public.people p on p.id = t.person_id
+      where t.id = record_id and record_type = 'TODO'
+        and (p.created_by = auth.uid() or has_access_to_person(p.id))
+    ) or
+    exists (
+      select 1 from public.health_records h
+      join public.people p on p.id = h.person_id
+      where h.id = record_id and record_type = 'HEALTH'
+        and (p.created_by = auth.uid() or has_access_to_person(p.id))
+    ) or
+    exists (
+      select 1 from public.notes n
+      join public.people p on p.id = n.person_id
+      where n.id = record_id and record_type = 'NOTE'
+        and (p.created_by = auth.uid() or has_access_to_person(p.id))
+    ) or
+    exists (
+      select 1 from public.financial_records f
+      join public.people p on p.id = f.person_id
+      where f.id = record_id and record_type = 'FINANCE'
+        and (p.created_by = auth.uid() or has_access_to_person(p.id))
+    ) or
+    exists (
+      select 1 from public.health_reports r
+      where r.id = record_id and record_type = 'HEALTH_REPORT'
+        and can_manage_health_item(r.person_id, r.created_by)
+    ) or
+    exists (
+      select 1 from public.health_physicals hp
+      where hp.id = record_id and record_type = 'HEALTH_PHYSICAL'
+        and can_manage_health_item(hp.person_id, hp.created_by)
+    )
+  );
+
+create policy "Users can delete item shares for their records"
+  on public.item_shares for delete
+  using (
+    created_by = auth.uid()
+    or
+    exists (
+      select 1 from public.todos t
+      join public.people p on p.id = t.person_id
+      where t.id = record_id and record_type = 'TODO' and p.created_by = auth.uid()
+    ) or
+    exists (
+      select 1 from public.health_records h
+      join public.people p on p.id = h.person_id
+      where h.id = record_id and record_type = 'HEALTH' and p.created_by = auth.uid()
+    ) or
+    exists (
+      select 1 from public.notes n
+      join public.people p on p.id = n.person_id
+      where n.id = record_id and record_type = 'NOTE' and p.created_by = auth.uid()
+    ) or
+    exists (
+      select 1 from public.financial_records f
+      join public.people p on p.id = f.person_id
+      where f.id = record_id and record_type = 'FINANCE' and p.created_by = auth.uid()
+    ) or
+    exists (
+      select 1 from public.health_reports r
+      where r.id = record_id and record_type = 'HEALTH_REPORT'
+        and can_manage_health_item(r.person_id, r.created_by)
+    ) or
+    exists (
+      select 1 from public.health_physicals hp
+      where hp.id = record_id and record_type = 'HEALTH_PHYSICAL'
+        and can_manage_health_item(hp.person_id, hp.created_by)
+    )
+  );
+
+-- Report files follow the report that lists them. Files sit under a "<person_id>/" prefix; one not yet attached
+-- to a report (an upload in progress) is available to anyone with access to that person.
+create or replace function public.can_view_health_report_file(object_name text)
+returns boolean as $$
+declare
+  folder text := (storage.foldername(object_name))[1];
+begin
+  if folder is null or folder !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' then
+    return false;
+  end if;
+  if not has_access_to_person(folder::uuid) then
+    return false;
+  end if;
+  if not exists (
+    select 1 from public.health_reports r
+    where r.person_id = folder::uuid
+      and (object_name = any(r.file_paths) or r.pdf_url = object_name)
+  ) then
+    return true;
+  end if;
+  return exists (
+    select 1 from public.health_reports r
+    where r.person_id = folder::uuid
+      and (object_name = any(r.file_paths) or r.pdf_url = object_name)
+      and can_view_health_item(r.person_id, r.created_by, r.share_mode, 'HEALTH_REPORT', r.id)
+  );
+end;
+$$ language plpgsql security definer stable;
+
+drop policy if exists "Authenticated users can view health reports" on storage.objects;
+drop policy if exists "Authenticated users can upload health reports" on storage.objects;
+drop policy if exists "Authenticated users can update health reports" on storage.objects;
+drop policy if exists "Delete health reports if access to person." on storage.objects;
+
+create policy "View health report files if report visible."
+  on storage.objects for select
+  to authenticated
+  using ( bucket_id = 'health-reports' and can_view_health_report_file(name) );
+
+create policy "Upload health report files if access to person."
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'health-reports'
+    and case
+      when (storage.foldername(name))[1] ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+        then has_access_to_person(((storage.foldername(name))[1])::uuid)
+      else false
+    end
+  );
+
+create policy "Update health report files if report visible."
+  on storage.objects for update
+  to authenticated
+  using ( bucket_id = 'health-reports' and can_view_health_report_file(name) )
+  with check ( bucket_id = 'health-reports' and can_view_health_report_file(name) );
+
+create policy "Delete health report files if report visible."
+  on storage.objects for delete
+  to authenticated
+  using ( bucket_id = 'health-reports' and can_view_health_report_file(name) );
@@ -0,0 +1,48 @@
+-- Persistent alerts raised from lab results: critical values, markers leaving the healthy range and worsening trends.
+-- alert_key identifies the finding (kind, marker, test date) so re-running the rules never duplicates an alert,
+-- and an alert dismissed by hand stays dismissed.
+
+create table public.health_alerts (
+  id uuid default uuid_generate_v4() primary key,
+  person_id uuid references public.people(id) on delete cascade not null,
+  report_id uuid references public.health_reports(id) on delete cascade,
+  alert_key text not null,
+  -- CRITICAL, STATUS_CHANGE or WORSENING
+  kind text not null,
+  -- CRITICAL or WARNING
+  severity text not null default 'WARNING',
+  marker_code text not null,
+  marker_name text not null,
+  value numeric not null,
+  unit text,
+  test_date date not null,
+  message text not null,
+  -- OPEN, DISMISSED or RESOLVED
+  status text not null default 'OPEN',
+  follow_up_todo_id uuid references public.todos(id) on delete set null,
+  created_by uuid references public.profiles(id),
+  created_at timestamp with time zone default timezone('utc'::text, now()),
+  resolved_at timestamp with time zone,
+  unique (person_id, alert_key)
+);
+
+create index health_alerts_person_status_idx on public.health_alerts(person_id, status);
+
+alter table public.health_alerts enable row level security;
+
+-- Alerts follow the sharing of the report they were raised from
+create policy "View health alerts if report visible."
+  on public.health_alerts for select
+  using ( can_view_health_report(report_id, person_id) );
+
+create policy "Add health alerts if access to person."
+  on public.health_alerts for insert
+  with check ( has_access_to_person(person_id) );
+
+create policy "Update health alerts if report visible."
+  on public.health_alerts for update
+  using ( can_view_health_report(report_id, person_id) );
+
+create policy "Delete health alerts if report visible."
+  on public.health_alerts for delete
+  using ( can_view_health_report(report_id, person_id) );
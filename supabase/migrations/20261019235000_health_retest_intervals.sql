@@ -0,0 +1,33 @@
+-- Per-person retest intervals overriding the built-in defaults, for one marker (target = marker code)
+-- or a whole body system (target = system name).
+
+create table public.health_retest_intervals (
+  id uuid default uuid_generate_v4() primary key,
+  person_id uuid references public.people(id) on delete cascade not null,
+  -- MARKER or SYSTEM
+  scope text not null,
+  target text not null,
+  in_range_months int not null check (in_range_months > 0),
+  out_of_range_months int not null check (out_of_range_months > 0),
+  created_by uuid references public.profiles(id),
+  created_at timestamp with time zone default timezone('utc'::text, now()),
+  unique (person_id, scope, target)
+);
+
+alter table public.health_retest_intervals enable row level security;
+
+create policy "View retest intervals if access to person."
+  on public.health_retest_intervals for select
+  using ( has_access_to_person(person_id) );
+
+create policy "Add retest intervals if access to person."
+  on public.health_retest_intervals for insert
+  with check ( has_access_to_person(person_id) );
+
+create policy "Update retest intervals if access to person."
+  on public.health_retest_intervals for update
+  using ( has_access_to_person(person_id) );
+
+create policy "Delete retest intervals if access to person."
+  on public.health_retest_intervals for delete
+  using ( has_access_to_person(person_id) );
@@ -0,0 +1,49 @@
+-- Rewrites a report's values and ratios in one transaction, so a failure part-way through an edit
+-- leaves the report as it was instead of half rewritten with ratios derived from the partial set.
+-- Runs as the caller, so the usual health_values / health_ratios policies still apply.
+
+create or replace function public.replace_health_report_values(
+  p_report_id uuid,
+  p_removed_ids uuid[],
+  p_updated jsonb,
+  p_inserted jsonb,
+  p_ratios jsonb
+)
+returns void
+language plpgsql
+as $$
+begin
+  delete from public.health_values
+  where report_id = p_report_id and id = any(p_removed_ids);
+
+  update public.health_values v
+  set
+    marker_code = r.marker_code,
+    marker_name = r.marker_name,
+    value = r.value,
+    value_text = r.value_text,
+    unit = r.unit,
+    original_value = r.original_value,
+    original_unit = r.original_unit,
+    is_computed = r.is_computed,
+    test_date = r.test_date,
+    is_flagged = r.is_flagged
+  from jsonb_populate_recordset(null::public.health_values, p_updated) r
+  where v.id = r.id and v.report_id = p_report_id;
+
+  insert into public.health_values (
+    report_id, person_id, marker_code, marker_name, value, value_text, unit,
+    original_value, original_unit, is_computed, test_date, is_flagged
+  )
+  select
+    p_report_id, r.person_id, r.marker_code, r.marker_name, r.value, r.value_text, r.unit,
+    r.original_value, r.original_unit, coalesce(r.is_computed, false), r.test_date, r.is_flagged
+  from jsonb_populate_recordset(null::public.health_values, p_inserted) r;
+
+  delete from public.health_ratios where report_id = p_report_id;
+
+  insert into public.health_ratios (report_id, person_id, ratio_code, value, test_date, is_optimal)
+  select p_report_id, r.person_id, r.ratio_code, r.value, r.test_date, r.is_optimal
+  from jsonb_populate_recordset(null::public.health_ratios, p_ratios) r;
+end;
+$$;
@@ -0,0 +1,51 @@
+-- Medication supply changes and refill todos done in the database, so collaborators ticking doses at the same
+-- time cannot lose a decrement or each create a refill todo. Both run as the caller, so the usual policies apply.
+
+-- Applies a supply change relative to the stored amount; a refill also unlinks the open refill todo
+create or replace function public.adjust_medication_supply(
+  p_medication_id uuid,
+  p_delta numeric,
+  p_refilled boolean default false
+)
+returns public.medications
+language sql
+as $$
+  update public.medications
+  set
+    supply_remaining = greatest(0, coalesce(supply_remaining, 0) + p_delta),
+    refill_todo_id = case when p_refilled then null else refill_todo_id end
+  where id = p_medication_id
+  returning *;
+$$;
+
+-- Creates and links a refill todo unless the medication already has one, and returns the linked todo's id
+create or replace function public.create_medication_refill_todo(
+  p_medication_id uuid,
+  p_title text,
+  p_description text,
+  p_due_date date,
+  p_priority text
+)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_medication public.medications;
+  v_todo_id uuid;
+begin
+  select * into v_medication from public.medications where id = p_medication_id for update;
+  if not found then
+    return null;
+  end if;
+  if v_medication.refill_todo_id is not null then
+    return v_medication.refill_todo_id;
+  end if;
+
+  insert into public.todos (person_id, title, description, due_date, priority, created_by)
+  values (v_medication.person_id, p_title, p_description, p_due_date, p_priority, auth.uid())
+  returning id into v_todo_id;
+
+  update public.medications set refill_todo_id = v_todo_id where id = p_medication_id;
+  return v_todo_id;
+end;
+$$;